@@ -2,6 +2,7 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { CallToolRequestSchema, ListToolsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
 
 /**
  * 🤖 Base MCP Agent Class
@@ -105,6 +106,45 @@ export abstract class McpAgent {
   }
 }
 
+/**
+ * 🏷️ Metadata exportada por cada tool ZEO
+ * O schema Zod é a fonte única para validação e para o inputSchema anunciado
+ */
+export interface ToolMetadata {
+  name: string;
+  description: string;
+  schema: z.ZodObject<z.ZodRawShape>;
+  actionPrefix: string;
+  actions: Record<string, ToolActionMetadata>;
+}
+
+/**
+ * Campos de cada action, usados para gerar as tools por action (ex.: zeo_memory_semantic_search)
+ * `output` descreve o resultado da action, anunciado como outputSchema e devolvido como structuredContent
+ */
+export interface ToolActionMetadata {
+  description: string;
+  required?: string[];
+  fields?: string[];
+  output?: z.ZodObject<z.ZodRawShape>;
+}
+
+/**
+ * Link para um artefato grande (ex.: export de memórias), lido via resources/read
+ * Artefatos no R2 também trazem o tamanho e, se configurado, uma URL assinada de download
+ */
+export const ResourceLinkSchema = z.object({
+  uri: z.string(),
+  name: z.string(),
+  mimeType: z.string().optional(),
+  description: z.string().optional(),
+  size: z.number().optional(),
+  download_url: z.string().optional(),
+  expires_at: z.string().optional()
+});
+
+export type ResourceLink = z.infer<typeof ResourceLinkSchema>;
+
 /**
  * 🛠️ Utility functions para tools
  */
@@ -120,6 +160,33 @@ export class ToolUtils {
     return result.data;
   }
 
+  /**
+   * Converte schema Zod em JSON Schema para o inputSchema MCP
+   */
+  static toInputSchema(schema: z.ZodObject<z.ZodRawShape>): { type: "object"; [key: string]: unknown } {
+    const { $schema, ...jsonSchema } = zodToJsonSchema(schema, { $refStrategy: "none" }) as Record<string, unknown>;
+    return { ...jsonSchema, type: "object" };
+  }
+
+  /**
+   * Converte schema Zod em JSON Schema para o outputSchema MCP
+   * Campos extras são aceitos: os schemas de saída descrevem só os campos estáveis do resultado
+   */
+  static toOutputSchema(schema: z.ZodObject<z.ZodRawShape>): { type: "object"; [key: string]: unknown } {
+    const { $schema, ...jsonSchema } = zodToJsonSchema(schema, {
+      $refStrategy: "none",
+      removeAdditionalStrategy: "strict"
+    }) as Record<string, unknown>;
+    return { ...jsonSchema, type: "object" };
+  }
+
+  /**
+   * Cria um resource link para um recurso zeo://
+   */
+  static resourceLink(path: string, name: string, mimeType = "application/json", description?: string): ResourceLink {
+    return { uri: `zeo://${path}`, name, mimeType, ...(description ? { description } : {}) };
+  }
+
   /**
    * Formata response para MCP
    */
@@ -140,18 +207,66 @@ export class ToolUtils {
   }
 
   /**
-   * Timeout wrapper para operações
+   * Timeout wrapper para operações; também rejeita quando a chamada é cancelada
    */
   static async withTimeout<T>(
     promise: Promise<T>,
     timeoutMs: number,
-    errorMessage = 'Operation timed out'
+    errorMessage = 'Operation timed out',
+    signal?: AbortSignal
   ): Promise<T> {
-    const timeoutPromise = new Promise<never>((_, reject) =>
-      setTimeout(() => reject(new Error(errorMessage)), timeoutMs)
-    );
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    let onAbort: (() => void) | undefined;
+
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(() => reject(new Error(errorMessage)), timeoutMs);
+
+      if (signal) {
+        onAbort = () => reject(ToolUtils.cancelledError(signal));
+        if (signal.aborted) onAbort();
+        else signal.addEventListener('abort', onAbort, { once: true });
+      }
+    });
+
+    try {
+      return await Promise.race([promise, timeoutPromise]);
+    } finally {
+      clearTimeout(timeoutId);
+      if (onAbort) signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * Sinal que aborta após timeoutMs ou quando a chamada é cancelada, o que vier primeiro
+   */
+  static timeoutSignal(timeoutMs: number, parent?: AbortSignal): { signal: AbortSignal; clear: () => void } {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    const onAbort = () => controller.abort(parent?.reason);
+
+    if (parent?.aborted) onAbort();
+    else parent?.addEventListener('abort', onAbort, { once: true });
+
+    return {
+      signal: controller.signal,
+      clear: () => {
+        clearTimeout(timeoutId);
+        parent?.removeEventListener('abort', onAbort);
+      }
+    };
+  }
+
+  /**
+   * Lança erro se a chamada foi cancelada (notifications/cancelled)
+   */
+  static throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw ToolUtils.cancelledError(signal);
+    }
+  }
 
-    return Promise.race([promise, timeoutPromise]);
+  static cancelledError(signal: AbortSignal): Error {
+    return new Error(typeof signal.reason === 'string' ? `Operation cancelled: ${signal.reason}` : 'Operation cancelled');
   }
 }
 
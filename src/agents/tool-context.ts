@@ -0,0 +1,108 @@
+import { LlmProvider, LlmSelection } from "../llm/provider.js";
+import { ResourceLink } from "./mcp.js";
+
+/**
+ * 🧰 Tool Context
+ * Dependencies injected into every ZEO tool class: Cloudflare bindings,
+ * secrets, artifact storage, LLM providers, a scoped logger and a clock (replaceable in tests and replays).
+ * Per-request hooks (progress, cancellation) arrive separately as a ToolCallContext.
+ */
+
+export interface ToolSecrets {
+  githubToken?: string;
+  openaiApiKey?: string;
+  anthropicApiKey?: string;
+}
+
+export interface ToolLogger {
+  debug(message: string, ...details: unknown[]): void;
+  info(message: string, ...details: unknown[]): void;
+  warn(message: string, ...details: unknown[]): void;
+  error(message: string, ...details: unknown[]): void;
+}
+
+export interface Clock {
+  now(): number;
+  isoNow(): string;
+}
+
+export interface ArtifactOptions {
+  name: string;
+  mimeType: string;
+  description?: string;
+}
+
+/**
+ * Stores results too large to return inline and links to them
+ */
+export interface ArtifactStore {
+  isLarge(content: string): boolean;
+  // null when no bucket is bound; callers then return the content inline
+  offload(content: string, options: ArtifactOptions): Promise<ResourceLink | null>;
+}
+
+/**
+ * Picks the LLM provider for a tool, optionally overridden per request
+ */
+export interface LlmRegistry {
+  resolve(tool: string, selection?: LlmSelection): LlmProvider;
+}
+
+export interface ToolContext {
+  kv: KVNamespace;
+  db: D1Database;
+  bucket: R2Bucket;
+  artifacts: ArtifactStore;
+  llm: LlmRegistry;
+  secrets: ToolSecrets;
+  logger: ToolLogger;
+  clock: Clock;
+}
+
+/**
+ * Reports progress of the current call; values must increase, total may be unknown
+ */
+export interface ProgressReporter {
+  report(progress: number, total?: number, message?: string): Promise<void>;
+}
+
+/**
+ * Hooks for a single tool call, passed as the second argument of execute()
+ */
+export interface ToolCallContext {
+  progress: ProgressReporter;
+  signal: AbortSignal; // Aborted when the client cancels the request
+  owner: string | null; // API key the caller acts for; null when auth is disabled
+  /**
+   * Clears a call this tool makes to another ZEO tool for the caller: false when
+   * the caller's key lacks its scope, otherwise charged to that tool's rate limits
+   * (throws once they are exceeded)
+   */
+  admit(tool: string, args: Record<string, unknown>): Promise<boolean>;
+}
+
+export const silentProgress: ProgressReporter = {
+  report: async () => {}
+};
+
+export const detachedCall: ToolCallContext = {
+  progress: silentProgress,
+  signal: new AbortController().signal,
+  owner: null,
+  admit: async () => true
+};
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  isoNow: () => new Date().toISOString()
+};
+
+export function createConsoleLogger(scope: string): ToolLogger {
+  const prefix = `[${scope}]`;
+  return {
+    debug: (message, ...details) => console.debug(prefix, message, ...details),
+    info: (message, ...details) => console.log(prefix, message, ...details),
+    warn: (message, ...details) => console.warn(prefix, message, ...details),
+    error: (message, ...details) => console.error(prefix, message, ...details)
+  };
+}
@@ -0,0 +1,143 @@
+import { CloudflareEnv } from "../server/env.js";
+import { validateRateLimitPolicy } from "../limits/policy.js";
+import { getUsage } from "../limits/rate-limiter.js";
+import { jsonResponse } from "../transport/streamable-http.js";
+import { ApiKeyRecord, ApiKeyStore } from "./api-keys.js";
+
+/**
+ * 🗝️ Admin Routes
+ * Issue, list, rotate and revoke API keys.
+ * Guarded by the ZEO_ADMIN_TOKEN secret.
+ *
+ * GET    /admin/keys              → list keys (secrets are never returned)
+ * POST   /admin/keys              → { name, scopes, expires_in?, limits? } issue a key
+ * POST   /admin/keys/:id/rotate   → { grace_seconds? } issue a new secret for a key
+ * PUT    /admin/keys/:id/limits   → RateLimitPolicy, or null to use the server defaults
+ * GET    /admin/keys/:id/usage    → current rate limit and quota usage
+ * DELETE /admin/keys/:id          → revoke a key
+ */
+
+export async function handleAdminRequest(request: Request, env: CloudflareEnv, url: URL): Promise<Response> {
+  const denied = await checkAdmin(request, env);
+  if (denied) {
+    return denied;
+  }
+
+  const store = new ApiKeyStore(env.ZEO_KV);
+  const [, , , id, operation] = url.pathname.split("/"); // "", "admin", "keys", id?, operation?
+
+  try {
+    if (!id) {
+      switch (request.method) {
+        case "GET":
+          return jsonResponse({ keys: (await store.list()).map(publicRecord) });
+
+        case "POST": {
+          const body = fieldsOf(await readJson(request));
+          if (typeof body.name !== "string" || !body.name) {
+            return jsonResponse({ error: "name is required" }, 400);
+          }
+          if (!Array.isArray(body.scopes) || !body.scopes.every((scope): scope is string => typeof scope === "string")) {
+            return jsonResponse({ error: "scopes must be an array of strings" }, 400);
+          }
+          const expiresIn = typeof body.expires_in === "number" ? body.expires_in : undefined;
+          if (body.expires_in !== undefined && expiresIn === undefined) {
+            return jsonResponse({ error: "expires_in must be a number of seconds" }, 400);
+          }
+          const limits = body.limits === undefined ? undefined : validateRateLimitPolicy(body.limits);
+          const issued = await store.issue(body.name, body.scopes, expiresIn, limits);
+          return jsonResponse({ key: issued.key, ...publicRecord(issued.record) }, 201);
+        }
+      }
+    } else if (operation === "rotate" && request.method === "POST") {
+      const body = fieldsOf(await readJson(request));
+      const issued = await store.rotate(id, Number(body.grace_seconds) || 0);
+      return jsonResponse({ key: issued.key, ...publicRecord(issued.record) });
+    } else if (operation === "limits" && request.method === "PUT") {
+      const limits = await readJson(request);
+      const record = await store.setLimits(id, limits === null ? null : validateRateLimitPolicy(limits));
+      return record
+        ? jsonResponse(publicRecord(record))
+        : jsonResponse({ error: `API key not found: ${id}` }, 404);
+    } else if (operation === "usage" && request.method === "GET") {
+      if (!await store.get(id)) {
+        return jsonResponse({ error: `API key not found: ${id}` }, 404);
+      }
+      const usage = await getUsage(env, id);
+      return usage
+        ? jsonResponse({ id, usage })
+        : jsonResponse({ error: "Rate limiting is disabled: ZEO_RATE_LIMITER is not bound" }, 503);
+    } else if (!operation && request.method === "DELETE") {
+      const record = await store.revoke(id);
+      return record
+        ? jsonResponse(publicRecord(record))
+        : jsonResponse({ error: `API key not found: ${id}` }, 404);
+    } else if (!operation && request.method === "GET") {
+      const record = await store.get(id);
+      return record
+        ? jsonResponse(publicRecord(record))
+        : jsonResponse({ error: `API key not found: ${id}` }, 404);
+    }
+
+    return jsonResponse({ error: "Not Found" }, 404);
+  } catch (error) {
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 400);
+  }
+}
+
+function publicRecord(record: ApiKeyRecord) {
+  const { hash, previous_hashes, ...rest } = record;
+  return {
+    ...rest,
+    grace_until: previous_hashes.map(previous => previous.expires_at)
+  };
+}
+
+/**
+ * The error response for a request without the admin token, or null to proceed
+ */
+async function checkAdmin(request: Request, env: CloudflareEnv): Promise<Response | null> {
+  if (!env.ZEO_ADMIN_TOKEN) {
+    return jsonResponse({ error: "Admin routes are disabled: ZEO_ADMIN_TOKEN is not set" }, 503);
+  }
+
+  if (!await isAdmin(request, env.ZEO_ADMIN_TOKEN)) {
+    return jsonResponse({ error: "Unauthorized" }, 401, { "WWW-Authenticate": `Bearer realm="zeo-admin"` });
+  }
+
+  return null;
+}
+
+async function readJson(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch (error) {
+    return {};
+  }
+}
+
+function fieldsOf(body: unknown): Record<string, unknown> {
+  return typeof body === "object" && body !== null && !Array.isArray(body) ? body as Record<string, unknown> : {};
+}
+
+/**
+ * Constant-time comparison of the admin bearer token (compares digests to hide length)
+ */
+async function isAdmin(request: Request, adminToken: string): Promise<boolean> {
+  const match = /^Bearer\s+(.+)$/i.exec(request.headers.get("Authorization") || "");
+  if (!match) return false;
+
+  const encoder = new TextEncoder();
+  const [presented, expected] = await Promise.all([
+    crypto.subtle.digest("SHA-256", encoder.encode(match[1].trim())),
+    crypto.subtle.digest("SHA-256", encoder.encode(adminToken))
+  ]);
+
+  const a = new Uint8Array(presented);
+  const b = new Uint8Array(expected);
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+}
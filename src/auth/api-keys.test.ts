@@ -0,0 +1,58 @@
+import { hasAnyToolScope, hasScope } from "./api-keys.js";
+import { canUseTool, isAuthorized } from "./authenticate.js";
+
+describe("hasScope", () => {
+  it("grants every action of a tool to a bare tool scope", () => {
+    expect(hasScope(["zeo_memory_engine"], "zeo_memory_engine", "store")).toBe(true);
+    expect(hasScope(["zeo_memory_engine"], "zeo_memory_engine")).toBe(true);
+    expect(hasScope(["zeo_memory_engine"], "zeo_web_intelligence", "fetch")).toBe(false);
+  });
+
+  it("grants only the named action to a tool:action scope", () => {
+    const scopes = ["zeo_memory_engine:retrieve"];
+    expect(hasScope(scopes, "zeo_memory_engine", "retrieve")).toBe(true);
+    expect(hasScope(scopes, "zeo_memory_engine", "store")).toBe(false);
+    expect(hasScope(scopes, "zeo_memory_engine")).toBe(false);
+  });
+
+  it("matches wildcards in either part", () => {
+    expect(hasScope(["*"], "zeo_github_orchestrator", "create_issue")).toBe(true);
+    expect(hasScope(["zeo_*:read*"], "zeo_memory_engine", "read_session")).toBe(true);
+    expect(hasScope(["zeo_*:read*"], "zeo_memory_engine", "store")).toBe(false);
+    expect(hasScope(["*:analyze_repo"], "zeo_github_orchestrator", "analyze_repo")).toBe(true);
+  });
+
+  it("treats regex characters in scopes literally", () => {
+    expect(hasScope(["zeo.memory"], "zeoXmemory", "store")).toBe(false);
+  });
+
+  it("keeps resource scopes per kind", () => {
+    expect(hasScope(["resources"], "resources", "artifact")).toBe(true);
+    expect(hasScope(["resources:memory"], "resources", "memory")).toBe(true);
+    expect(hasScope(["resources:memory"], "resources", "artifact")).toBe(false);
+  });
+});
+
+describe("hasAnyToolScope", () => {
+  it("is true when some action of the tool is granted", () => {
+    expect(hasAnyToolScope(["zeo_memory_engine:retrieve"], "zeo_memory_engine")).toBe(true);
+    expect(hasAnyToolScope(["zeo_*"], "zeo_web_intelligence")).toBe(true);
+    expect(hasAnyToolScope(["zeo_memory_engine:retrieve"], "zeo_web_intelligence")).toBe(false);
+  });
+});
+
+describe("isAuthorized and canUseTool", () => {
+  const authInfo = { token: "t", clientId: "k", scopes: ["zeo_memory_engine:retrieve"] };
+
+  it("apply the caller's scopes", () => {
+    expect(isAuthorized(authInfo, "zeo_memory_engine", "retrieve")).toBe(true);
+    expect(isAuthorized(authInfo, "zeo_memory_engine", "store")).toBe(false);
+    expect(canUseTool(authInfo, "zeo_memory_engine")).toBe(true);
+    expect(canUseTool(authInfo, "zeo_web_intelligence")).toBe(false);
+  });
+
+  it("allow everything when auth is disabled", () => {
+    expect(isAuthorized(undefined, "zeo_memory_engine", "store")).toBe(true);
+    expect(canUseTool(undefined, "zeo_web_intelligence")).toBe(true);
+  });
+});
@@ -0,0 +1,235 @@
+import { RateLimitPolicy, validateRateLimitPolicy } from "../limits/policy.js";
+
+/**
+ * 🔑 API Keys
+ * Per-client API keys stored in KV. Only SHA-256 hashes of the secrets are kept;
+ * each key carries scopes per tool and per action.
+ *
+ * KV layout:
+ * - api_key:<hash>    → { id, expires_at? }  (lookup by presented secret)
+ * - api_key_id:<id>   → ApiKeyRecord         (metadata, listing, rotation, revocation)
+ *
+ * Scopes are `<tool>:<action>` patterns where `*` matches anything, e.g.
+ * `*`, `zeo_memory_engine:*` or `zeo_github_orchestrator:get_*` for read-only GitHub.
+ */
+
+const KEY_PREFIX = "zeo_";
+const HASH_PREFIX = "api_key:";
+const RECORD_PREFIX = "api_key_id:";
+const MIN_KV_TTL_SECONDS = 60;
+
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  scopes: string[];
+  limits?: RateLimitPolicy; // Overrides the server-wide rate limits for this key
+  key_preview: string;
+  hash: string;
+  previous_hashes: Array<{ hash: string; expires_at: string }>;
+  created_at: string;
+  rotated_at?: string;
+  expires_at?: string;
+  revoked_at?: string;
+}
+
+export interface IssuedApiKey {
+  key: string;
+  record: ApiKeyRecord;
+}
+
+interface ApiKeyLookup {
+  id: string;
+  expires_at?: string;
+}
+
+export class ApiKeyStore {
+  constructor(private kv: KVNamespace) {}
+
+  async issue(name: string, scopes: string[], expiresInSeconds?: number, limits?: RateLimitPolicy): Promise<IssuedApiKey> {
+    validateScopes(scopes);
+    if (limits !== undefined) validateRateLimitPolicy(limits);
+
+    const key = generateSecret();
+    const now = new Date();
+    const record: ApiKeyRecord = {
+      id: `key_${now.getTime()}_${Math.random().toString(36).substr(2, 9)}`,
+      name,
+      scopes,
+      limits,
+      key_preview: `${key.slice(0, KEY_PREFIX.length + 6)}…`,
+      hash: await hashSecret(key),
+      previous_hashes: [],
+      created_at: now.toISOString(),
+      expires_at: expiresInSeconds ? new Date(now.getTime() + expiresInSeconds * 1000).toISOString() : undefined
+    };
+
+    await this.saveRecord(record);
+    await this.kv.put(HASH_PREFIX + record.hash, JSON.stringify({ id: record.id }));
+
+    return { key, record };
+  }
+
+  /**
+   * Issues a new secret for an existing key. The previous secret keeps working
+   * for `graceSeconds` so clients can roll over without downtime.
+   */
+  async rotate(id: string, graceSeconds: number = 0): Promise<IssuedApiKey> {
+    const record = await this.get(id);
+    if (!record || record.revoked_at) {
+      throw new Error(`API key not found: ${id}`);
+    }
+
+    const key = generateSecret();
+    const now = Date.now();
+    const previousHash = record.hash;
+
+    if (graceSeconds > 0) {
+      const expiresAt = new Date(now + graceSeconds * 1000).toISOString();
+      record.previous_hashes.push({ hash: previousHash, expires_at: expiresAt });
+      await this.kv.put(HASH_PREFIX + previousHash, JSON.stringify({ id, expires_at: expiresAt }), {
+        expirationTtl: Math.max(graceSeconds, MIN_KV_TTL_SECONDS)
+      });
+    } else {
+      await this.kv.delete(HASH_PREFIX + previousHash);
+    }
+
+    // Drop grace entries that have already lapsed
+    record.previous_hashes = record.previous_hashes.filter(previous => new Date(previous.expires_at).getTime() > now);
+    record.hash = await hashSecret(key);
+    record.key_preview = `${key.slice(0, KEY_PREFIX.length + 6)}…`;
+    record.rotated_at = new Date(now).toISOString();
+
+    await this.saveRecord(record);
+    await this.kv.put(HASH_PREFIX + record.hash, JSON.stringify({ id }));
+
+    return { key, record };
+  }
+
+  async setLimits(id: string, limits: RateLimitPolicy | null): Promise<ApiKeyRecord | null> {
+    const record = await this.get(id);
+    if (!record) return null;
+
+    record.limits = limits === null ? undefined : validateRateLimitPolicy(limits);
+    await this.saveRecord(record);
+
+    return record;
+  }
+
+  async revoke(id: string): Promise<ApiKeyRecord | null> {
+    const record = await this.get(id);
+    if (!record) return null;
+
+    await Promise.all([record.hash, ...record.previous_hashes.map(previous => previous.hash)]
+      .map(hash => this.kv.delete(HASH_PREFIX + hash)));
+
+    record.previous_hashes = [];
+    record.revoked_at = record.revoked_at || new Date().toISOString();
+    await this.saveRecord(record);
+
+    return record;
+  }
+
+  async get(id: string): Promise<ApiKeyRecord | null> {
+    return this.kv.get<ApiKeyRecord>(RECORD_PREFIX + id, "json");
+  }
+
+  /**
+   * The key record, or null if unknown, expired or revoked
+   */
+  async getActive(id: string): Promise<ApiKeyRecord | null> {
+    const record = await this.get(id);
+    return record && !record.revoked_at && !isExpired(record.expires_at) ? record : null;
+  }
+
+  async list(): Promise<ApiKeyRecord[]> {
+    const records: ApiKeyRecord[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const listing = await this.kv.list({ prefix: RECORD_PREFIX, cursor });
+      const batch = await Promise.all(listing.keys.map(key => this.kv.get<ApiKeyRecord>(key.name, "json")));
+      records.push(...batch.filter((record): record is ApiKeyRecord => record !== null));
+      cursor = !listing.list_complete && "cursor" in listing ? listing.cursor : undefined;
+    } while (cursor);
+
+    return records;
+  }
+
+  /**
+   * Resolves a presented secret to its key record, or null if unknown, expired or revoked
+   */
+  async verify(secret: string): Promise<ApiKeyRecord | null> {
+    if (!secret.startsWith(KEY_PREFIX)) return null;
+
+    const lookup = await this.kv.get<ApiKeyLookup>(HASH_PREFIX + await hashSecret(secret), "json");
+    if (!lookup || isExpired(lookup.expires_at)) return null;
+
+    return this.getActive(lookup.id);
+  }
+
+  private async saveRecord(record: ApiKeyRecord) {
+    await this.kv.put(RECORD_PREFIX + record.id, JSON.stringify(record));
+  }
+}
+
+// One per kind of MCP resource; `resources` grants them all
+export const RESOURCE_SCOPES = ["resources:memory", "resources:workflow", "resources:reasoning", "resources:artifact"];
+
+/**
+ * Checks whether any scope grants `tool:action`
+ */
+export function hasScope(scopes: string[], tool: string, action?: string): boolean {
+  const target = `${tool}:${action || "*"}`;
+  return scopes.some(scope => scopePattern(scope).test(target));
+}
+
+/**
+ * Checks whether any scope grants at least one action of `tool`
+ */
+export function hasAnyToolScope(scopes: string[], tool: string): boolean {
+  return scopes.some(scope => {
+    const [toolPattern] = scope.split(":");
+    return globToRegExp(toolPattern).test(tool);
+  });
+}
+
+function validateScopes(scopes: string[]) {
+  if (!Array.isArray(scopes) || scopes.length === 0) {
+    throw new Error("At least one scope is required");
+  }
+
+  for (const scope of scopes) {
+    if (typeof scope !== "string" || !/^[\w*]+(:[\w*]+)?$/.test(scope)) {
+      throw new Error(`Invalid scope: ${scope}`);
+    }
+  }
+}
+
+function scopePattern(scope: string): RegExp {
+  // A bare tool scope ("zeo_memory_engine") grants every action of that tool
+  const [tool, action = "*"] = scope.split(":");
+  return globToRegExp(`${tool}:${action}`);
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
+  return new RegExp(`^${escaped}$`);
+}
+
+function isExpired(expiresAt?: string): boolean {
+  return !!expiresAt && new Date(expiresAt).getTime() <= Date.now();
+}
+
+function generateSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return KEY_PREFIX + toHex(bytes);
+}
+
+export async function hashSecret(secret: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(secret));
+  return toHex(new Uint8Array(digest));
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, "0")).join("");
+}
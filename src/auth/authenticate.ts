@@ -0,0 +1,125 @@
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+
+import { CloudflareEnv } from "../server/env.js";
+import { jsonResponse, jsonRpcError } from "../transport/streamable-http.js";
+import { ApiKeyStore, hasAnyToolScope, hasScope } from "./api-keys.js";
+import { isOAuthEnabled, protectedResourceMetadataUrl, verifyAccessToken } from "./oauth.js";
+
+/**
+ * 🛡️ Request Authentication
+ * Resolves the bearer token (API key or OAuth access token, or the X-API-Key
+ * header) of an MCP request to the caller's AuthInfo. Verified auth is forwarded to session Durable Objects in
+ * an internal header that clients cannot set.
+ */
+
+export const FORWARDED_AUTH_HEADER = "X-Zeo-Auth-Info";
+
+/**
+ * Either the verified caller (absent when auth is disabled) or the 401 response to return
+ */
+export interface AuthResult {
+  authInfo?: AuthInfo;
+  error?: Response;
+}
+
+export function isAuthRequired(env: CloudflareEnv): boolean {
+  return env.ZEO_AUTH !== "disabled";
+}
+
+export async function authenticateRequest(request: Request, env: CloudflareEnv): Promise<AuthResult> {
+  if (!isAuthRequired(env)) {
+    return {};
+  }
+
+  const token = extractToken(request);
+  if (!token) {
+    return { error: unauthorized(request, env, "Missing bearer token") };
+  }
+
+  const oauth = await verifyAccessToken(env, token);
+  if (oauth) {
+    return { authInfo: oauth };
+  }
+
+  const record = await new ApiKeyStore(env.ZEO_KV).verify(token);
+  if (!record) {
+    return { error: unauthorized(request, env, "Invalid or expired token") };
+  }
+
+  return {
+    authInfo: {
+      token,
+      clientId: record.id,
+      scopes: record.scopes,
+      expiresAt: record.expires_at ? Math.floor(new Date(record.expires_at).getTime() / 1000) : undefined,
+      extra: { name: record.name, type: "api_key", api_key_id: record.id, limits: record.limits }
+    }
+  };
+}
+
+/**
+ * Scope check for a verified caller; requests without auth (ZEO_AUTH disabled) are unrestricted
+ */
+export function isAuthorized(authInfo: AuthInfo | undefined, tool: string, action?: string): boolean {
+  return !authInfo || hasScope(authInfo.scopes, tool, action);
+}
+
+export function canUseTool(authInfo: AuthInfo | undefined, tool: string): boolean {
+  return !authInfo || hasAnyToolScope(authInfo.scopes, tool);
+}
+
+/**
+ * The API key a caller acts for (for OAuth tokens, the key that approved them),
+ * which owns the records the caller creates; null when auth is disabled
+ */
+export function ownerOf(authInfo: AuthInfo | undefined): string | null {
+  if (!authInfo) return null;
+  const apiKeyId = authInfo.extra?.api_key_id;
+  return typeof apiKeyId === "string" ? apiKeyId : authInfo.clientId;
+}
+
+/**
+ * Sets the verified auth on headers forwarded to a Durable Object, dropping any client-supplied value
+ */
+export function withForwardedAuth(headers: Headers, authInfo?: AuthInfo): Headers {
+  headers.delete(FORWARDED_AUTH_HEADER);
+  if (authInfo) {
+    headers.set(FORWARDED_AUTH_HEADER, encodeURIComponent(JSON.stringify(authInfo)));
+  }
+  return headers;
+}
+
+export function readForwardedAuth(request: Request): AuthInfo | undefined {
+  const header = request.headers.get(FORWARDED_AUTH_HEADER);
+  if (!header) return undefined;
+
+  try {
+    return JSON.parse(decodeURIComponent(header));
+  } catch (error) {
+    return undefined;
+  }
+}
+
+function extractToken(request: Request): string | null {
+  const authorization = request.headers.get("Authorization");
+  if (authorization) {
+    const match = /^Bearer\s+(.+)$/i.exec(authorization);
+    return match ? match[1].trim() : null;
+  }
+
+  // SSE clients that cannot set Authorization may use X-API-Key
+  return request.headers.get("X-API-Key");
+}
+
+function unauthorized(request: Request, env: CloudflareEnv, message: string): Response {
+  // Points OAuth-capable clients at the discovery document (RFC 9728)
+  const challenge = isOAuthEnabled(env)
+    ? `Bearer realm="zeo-composable-mcp", resource_metadata="${protectedResourceMetadataUrl(request)}"`
+    : `Bearer realm="zeo-composable-mcp"`;
+
+  return jsonResponse(
+    jsonRpcError(null, -32001, `Unauthorized: ${message}`),
+    401,
+    { "WWW-Authenticate": challenge }
+  );
+}
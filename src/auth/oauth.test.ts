@@ -0,0 +1,196 @@
+import { CloudflareEnv } from "../server/env.js";
+import { ApiKeyStore } from "./api-keys.js";
+import { handleOAuthRequest, verifyAccessToken } from "./oauth.js";
+
+function fakeKv() {
+  const values = new Map<string, string>();
+  return {
+    async get(key: string, type?: string) {
+      const value = values.get(key);
+      return value === undefined ? null : type === "json" ? JSON.parse(value) : value;
+    },
+    async put(key: string, value: string) {
+      values.set(key, value);
+    },
+    async delete(key: string) {
+      values.delete(key);
+    }
+  };
+}
+
+const ORIGIN = "https://zeo.test";
+const REDIRECT_URI = "https://client.example/callback";
+const VERIFIER = "a-verifier-long-enough-for-pkce-0123456789abcdef";
+
+function testEnv(): CloudflareEnv {
+  return { ZEO_KV: fakeKv(), OAUTH_KV: fakeKv() } as unknown as CloudflareEnv;
+}
+
+function send(env: CloudflareEnv, path: string, init?: RequestInit): Promise<Response> {
+  const request = new Request(`${ORIGIN}${path}`, init);
+  return handleOAuthRequest(request, env, new URL(request.url));
+}
+
+function form(fields: Record<string, string>, headers: Record<string, string> = {}): RequestInit {
+  return { method: "POST", headers: { "Content-Type": "application/x-www-form-urlencoded", ...headers }, body: new URLSearchParams(fields).toString() };
+}
+
+async function challenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(verifier));
+  return Buffer.from(digest).toString("base64url");
+}
+
+async function register(env: CloudflareEnv, method = "client_secret_basic") {
+  const response = await send(env, "/register", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ redirect_uris: [REDIRECT_URI], client_name: "Test client", token_endpoint_auth_method: method })
+  });
+  return (await response.json()) as { client_id: string; client_secret?: string };
+}
+
+async function authorizationParams(clientId: string, scope = "") {
+  return {
+    response_type: "code",
+    client_id: clientId,
+    redirect_uri: REDIRECT_URI,
+    code_challenge: await challenge(VERIFIER),
+    code_challenge_method: "S256",
+    state: "xyz",
+    ...(scope ? { scope } : {})
+  };
+}
+
+// Registers a public client and approves it with a fresh API key; resolves to the authorization code
+async function authorize(env: CloudflareEnv, keyScopes: string[], scope = "", expiresInSeconds?: number) {
+  const client = await register(env, "none");
+  const { key } = await new ApiKeyStore(env.ZEO_KV).issue("owner", keyScopes, expiresInSeconds);
+  const response = await send(env, "/authorize", form({ ...(await authorizationParams(client.client_id, scope)), api_key: key, decision: "approve" }));
+  const location = new URL(response.headers.get("Location"));
+  return { client, location, code: location.searchParams.get("code") };
+}
+
+async function exchange(env: CloudflareEnv, clientId: string, code: string) {
+  const response = await send(env, "/token", form({
+    grant_type: "authorization_code",
+    client_id: clientId,
+    code,
+    redirect_uri: REDIRECT_URI,
+    code_verifier: VERIFIER
+  }));
+  return { status: response.status, body: (await response.json()) as any };
+}
+
+describe("OAuth authorization server", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("issues tokens for an approved, PKCE-verified code and resolves them to the key's grant", async () => {
+    const env = testEnv();
+    const { client, location, code } = await authorize(env, ["zeo_memory_engine"], "zeo_memory_engine:retrieve zeo_web_intelligence");
+
+    expect(location.origin + location.pathname).toBe(REDIRECT_URI);
+    expect(location.searchParams.get("state")).toBe("xyz");
+
+    const { status, body } = await exchange(env, client.client_id, code);
+    expect(status).toBe(200);
+    expect(body.scope).toBe("zeo_memory_engine:retrieve"); // Only what the key covers
+
+    const authInfo = await verifyAccessToken(env, body.access_token);
+    expect(authInfo).toMatchObject({ clientId: client.client_id, scopes: ["zeo_memory_engine:retrieve"] });
+  });
+
+  it("uses each code once and checks the verifier", async () => {
+    const env = testEnv();
+    const { client, code } = await authorize(env, ["*"]);
+
+    const wrongVerifier = await send(env, "/token", form({
+      grant_type: "authorization_code",
+      client_id: client.client_id,
+      code,
+      redirect_uri: REDIRECT_URI,
+      code_verifier: "something-else"
+    }));
+    expect(((await wrongVerifier.json()) as any).error).toBe("invalid_grant");
+
+    expect((await exchange(env, client.client_id, code)).body.error).toBe("invalid_grant");
+  });
+
+  it("rotates refresh tokens", async () => {
+    const env = testEnv();
+    const { client, code } = await authorize(env, ["*"]);
+    const { body: tokens } = await exchange(env, client.client_id, code);
+
+    const refresh = () => send(env, "/token", form({ grant_type: "refresh_token", client_id: client.client_id, refresh_token: tokens.refresh_token }));
+    expect((await refresh()).status).toBe(200);
+    expect((await refresh()).status).toBe(400);
+  });
+
+  it("stops honouring tokens once the approving API key has expired", async () => {
+    const env = testEnv();
+    const { client, code } = await authorize(env, ["*"], "", 60);
+    const { body: tokens } = await exchange(env, client.client_id, code);
+    expect(await verifyAccessToken(env, tokens.access_token)).not.toBeNull();
+
+    const later = Date.now() + 120_000;
+    jest.spyOn(Date, "now").mockReturnValue(later);
+
+    expect(await verifyAccessToken(env, tokens.access_token)).toBeNull();
+    const refresh = await send(env, "/token", form({ grant_type: "refresh_token", client_id: client.client_id, refresh_token: tokens.refresh_token }));
+    expect(await refresh.json()).toMatchObject({ error: "invalid_grant", error_description: expect.stringContaining("expired") });
+  });
+
+  it("authenticates confidential clients with Basic credentials", async () => {
+    const env = testEnv();
+    const client = await register(env);
+    const basic = (secret: string) => ({ Authorization: `Basic ${btoa(`${client.client_id}:${secret}`)}` });
+
+    const wrong = await send(env, "/token", form({ grant_type: "refresh_token", refresh_token: "zrt_x" }, basic("wrong")));
+    expect(wrong.status).toBe(401);
+
+    const right = await send(env, "/token", form({ grant_type: "refresh_token", refresh_token: "zrt_x" }, basic(client.client_secret)));
+    expect(((await right.json()) as any).error).toBe("invalid_grant"); // Authenticated; the token is unknown
+  });
+
+  it("answers a malformed Basic value with invalid_client", async () => {
+    const env = testEnv();
+    for (const value of ["Basic %%%not-base64", `Basic ${btoa("no-separator")}`]) {
+      const response = await send(env, "/token", form({ grant_type: "refresh_token" }, { Authorization: value }));
+
+      expect(response.status).toBe(401);
+      expect(((await response.json()) as any).error).toBe("invalid_client");
+    }
+  });
+
+  it("lets the consent form redirect to the client's origin", async () => {
+    const env = testEnv();
+    const client = await register(env, "none");
+    const response = await send(env, `/authorize?${new URLSearchParams(await authorizationParams(client.client_id))}`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Security-Policy")).toContain("form-action 'self' https://client.example");
+  });
+
+  it("never redirects to an unregistered URI", async () => {
+    const env = testEnv();
+    const client = await register(env, "none");
+    const params = { ...(await authorizationParams(client.client_id)), redirect_uri: "https://evil.example/cb" };
+    const response = await send(env, `/authorize?${new URLSearchParams(params)}`);
+
+    expect(response.status).toBe(400);
+    expect(response.headers.get("Location")).toBeNull();
+  });
+
+  it("rejects plain-http redirect URIs outside loopback", async () => {
+    const env = testEnv();
+    const response = await send(env, "/register", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ redirect_uris: ["http://client.example/cb"] })
+    });
+
+    expect(response.status).toBe(400);
+    expect(((await response.json()) as any).error).toBe("invalid_redirect_uri");
+  });
+});
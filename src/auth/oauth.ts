@@ -0,0 +1,552 @@
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+
+import { CloudflareEnv } from "../server/env.js";
+import { CORS_HEADERS, jsonResponse } from "../transport/streamable-http.js";
+import { ApiKeyStore, RESOURCE_SCOPES, hasScope, hashSecret } from "./api-keys.js";
+
+/**
+ * 🎫 OAuth 2.1 Authorization Server
+ * Implements the MCP authorization spec on top of OAUTH_KV:
+ * - protected-resource and authorization-server metadata discovery
+ * - dynamic client registration (RFC 7591)
+ * - authorization code flow with mandatory PKCE (S256)
+ * - access tokens and rotating refresh tokens
+ *
+ * Users approve a client on the consent page with one of their ZEO API keys; the
+ * client is granted the requested scopes that key covers (or all of its scopes).
+ *
+ * KV layout (only hashes of codes and tokens are stored):
+ * - oauth_client:<client_id>   → OAuthClient
+ * - oauth_code:<hash>          → OAuthGrant (10 minutes)
+ * - oauth_access:<hash>        → OAuthGrant (1 hour)
+ * - oauth_refresh:<hash>       → OAuthGrant (30 days)
+ */
+
+const ACCESS_TOKEN_PREFIX = "zat_";
+const REFRESH_TOKEN_PREFIX = "zrt_";
+const CODE_TTL_SECONDS = 10 * 60;
+const ACCESS_TOKEN_TTL_SECONDS = 60 * 60;
+const REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+export const OAUTH_PATHS = [
+  "/.well-known/oauth-protected-resource",
+  "/.well-known/oauth-protected-resource/mcp",
+  "/.well-known/oauth-authorization-server",
+  "/register",
+  "/authorize",
+  "/token",
+  "/revoke"
+];
+
+export interface OAuthClient {
+  client_id: string;
+  client_secret_hash?: string;
+  client_name?: string;
+  redirect_uris: string[];
+  token_endpoint_auth_method: "none" | "client_secret_post" | "client_secret_basic";
+  created_at: string;
+}
+
+interface OAuthGrant {
+  client_id: string;
+  api_key_id: string;
+  scopes: string[];
+  resource?: string;
+  redirect_uri?: string;
+  code_challenge?: string;
+  expires_at: number; // seconds since epoch
+}
+
+class OAuthError extends Error {
+  constructor(public error: string, message: string, public status: number = 400) {
+    super(message);
+  }
+}
+
+export function isOAuthEnabled(env: CloudflareEnv): boolean {
+  return !!env.OAUTH_KV;
+}
+
+/**
+ * Discovery URL advertised in WWW-Authenticate on 401 responses
+ */
+export function protectedResourceMetadataUrl(request: Request): string {
+  return `${new URL(request.url).origin}/.well-known/oauth-protected-resource`;
+}
+
+export async function handleOAuthRequest(request: Request, env: CloudflareEnv, url: URL): Promise<Response> {
+  if (!env.OAUTH_KV) {
+    return new Response("Not Found", { status: 404 });
+  }
+
+  if (request.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: CORS_HEADERS });
+  }
+
+  const server = new OAuthServer(env, url.origin);
+
+  try {
+    switch (url.pathname) {
+      case "/.well-known/oauth-protected-resource":
+      case "/.well-known/oauth-protected-resource/mcp":
+        return jsonResponse(server.protectedResourceMetadata());
+
+      case "/.well-known/oauth-authorization-server":
+        return jsonResponse(server.authorizationServerMetadata());
+
+      case "/register":
+        requireMethod(request, "POST");
+        return jsonResponse(await server.register(await request.json().catch(() => ({}))), 201, { "Cache-Control": "no-store" });
+
+      case "/authorize":
+        return request.method === "POST"
+          ? await server.approve(await request.formData())
+          : await server.consentPage(url.searchParams);
+
+      case "/token":
+        requireMethod(request, "POST");
+        return jsonResponse(await server.token(request), 200, { "Cache-Control": "no-store", "Pragma": "no-cache" });
+
+      case "/revoke":
+        requireMethod(request, "POST");
+        await server.revoke(await request.formData());
+        return new Response(null, { status: 200, headers: CORS_HEADERS });
+
+      default:
+        return new Response("Not Found", { status: 404 });
+    }
+  } catch (error) {
+    if (error instanceof OAuthError) {
+      return jsonResponse({ error: error.error, error_description: error.message }, error.status);
+    }
+    return jsonResponse({ error: "server_error", error_description: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+}
+
+/**
+ * Resolves an OAuth access token to the caller's AuthInfo, or null if unknown or expired
+ */
+export async function verifyAccessToken(env: CloudflareEnv, token: string): Promise<AuthInfo | null> {
+  if (!env.OAUTH_KV || !token.startsWith(ACCESS_TOKEN_PREFIX)) return null;
+
+  const grant = await env.OAUTH_KV.get<OAuthGrant>(`oauth_access:${await hashSecret(token)}`, "json");
+  if (!grant || grant.expires_at <= nowSeconds()) return null;
+
+  // Revoking the approving API key, or its expiry, cuts off its OAuth clients immediately
+  const apiKey = await new ApiKeyStore(env.ZEO_KV).getActive(grant.api_key_id);
+  if (!apiKey) return null;
+
+  return {
+    token,
+    clientId: grant.client_id,
+    scopes: grant.scopes,
+    expiresAt: grant.expires_at,
+    extra: { type: "oauth", api_key_id: grant.api_key_id, resource: grant.resource, limits: apiKey.limits }
+  };
+}
+
+class OAuthServer {
+  private kv: KVNamespace;
+
+  constructor(private env: CloudflareEnv, private issuer: string) {
+    this.kv = env.OAUTH_KV!;
+  }
+
+  protectedResourceMetadata() {
+    return {
+      resource: `${this.issuer}/mcp`,
+      authorization_servers: [this.issuer],
+      bearer_methods_supported: ["header"],
+      scopes_supported: ["*", ...RESOURCE_SCOPES],
+      resource_name: "ZEO Composable MCP Server"
+    };
+  }
+
+  authorizationServerMetadata() {
+    return {
+      issuer: this.issuer,
+      authorization_endpoint: `${this.issuer}/authorize`,
+      token_endpoint: `${this.issuer}/token`,
+      registration_endpoint: `${this.issuer}/register`,
+      revocation_endpoint: `${this.issuer}/revoke`,
+      response_types_supported: ["code"],
+      grant_types_supported: ["authorization_code", "refresh_token"],
+      code_challenge_methods_supported: ["S256"],
+      token_endpoint_auth_methods_supported: ["none", "client_secret_post", "client_secret_basic"],
+      revocation_endpoint_auth_methods_supported: ["none", "client_secret_post", "client_secret_basic"],
+      scopes_supported: ["*", ...RESOURCE_SCOPES]
+    };
+  }
+
+  /**
+   * Dynamic client registration (RFC 7591)
+   */
+  async register(body: any) {
+    const redirectUris = body.redirect_uris;
+    if (!Array.isArray(redirectUris) || redirectUris.length === 0) {
+      throw new OAuthError("invalid_redirect_uri", "redirect_uris is required");
+    }
+    redirectUris.forEach(validateRedirectUri);
+
+    const authMethod = body.token_endpoint_auth_method || "client_secret_basic";
+    if (!["none", "client_secret_post", "client_secret_basic"].includes(authMethod)) {
+      throw new OAuthError("invalid_client_metadata", `Unsupported token_endpoint_auth_method: ${authMethod}`);
+    }
+
+    const clientSecret = authMethod === "none" ? undefined : randomToken("");
+    const client: OAuthClient = {
+      client_id: `client_${randomToken("").slice(0, 24)}`,
+      client_secret_hash: clientSecret ? await hashSecret(clientSecret) : undefined,
+      client_name: typeof body.client_name === "string" ? body.client_name : undefined,
+      redirect_uris: redirectUris,
+      token_endpoint_auth_method: authMethod,
+      created_at: new Date().toISOString()
+    };
+
+    await this.kv.put(`oauth_client:${client.client_id}`, JSON.stringify(client));
+
+    return {
+      client_id: client.client_id,
+      client_secret: clientSecret,
+      client_id_issued_at: nowSeconds(),
+      client_secret_expires_at: clientSecret ? 0 : undefined,
+      client_name: client.client_name,
+      redirect_uris: client.redirect_uris,
+      token_endpoint_auth_method: client.token_endpoint_auth_method,
+      grant_types: ["authorization_code", "refresh_token"],
+      response_types: ["code"]
+    };
+  }
+
+  async consentPage(params: URLSearchParams): Promise<Response> {
+    const { client, redirectUri } = await this.validateAuthorizationRequest(params);
+    return new Response(renderConsentPage(client, params), {
+      headers: {
+        "Content-Type": "text/html; charset=utf-8",
+        "Cache-Control": "no-store",
+        "X-Frame-Options": "DENY",
+        "Content-Security-Policy": `default-src 'none'; style-src 'unsafe-inline'; form-action ${formActionSources(redirectUri)}`
+      }
+    });
+  }
+
+  /**
+   * Consent form submission: exchanges the user's API key for an authorization code
+   */
+  async approve(form: FormData): Promise<Response> {
+    const params = new URLSearchParams();
+    for (const name of ["response_type", "client_id", "redirect_uri", "code_challenge", "code_challenge_method", "scope", "state", "resource"]) {
+      const value = form.get(name);
+      if (typeof value === "string") params.set(name, value);
+    }
+
+    const { redirectUri } = await this.validateAuthorizationRequest(params);
+    const redirect = new URL(redirectUri);
+    const state = params.get("state");
+    if (state) redirect.searchParams.set("state", state);
+
+    if (form.get("decision") !== "approve") {
+      redirect.searchParams.set("error", "access_denied");
+      return Response.redirect(redirect.toString(), 302);
+    }
+
+    const apiKey = await new ApiKeyStore(this.env.ZEO_KV).verify(String(form.get("api_key") || ""));
+    if (!apiKey) {
+      throw new OAuthError("access_denied", "Invalid API key", 401);
+    }
+
+    // Grant only what the approving key itself may do
+    const requested = (params.get("scope") || "").split(" ").filter(Boolean);
+    const scopes = requested.length === 0
+      ? apiKey.scopes
+      : requested.filter(scope => {
+        const [tool, action] = scope.split(":");
+        return hasScope(apiKey.scopes, tool, action);
+      });
+
+    if (scopes.length === 0) {
+      redirect.searchParams.set("error", "invalid_scope");
+      return Response.redirect(redirect.toString(), 302);
+    }
+
+    const code = randomToken("");
+    await this.putGrant(`oauth_code:${await hashSecret(code)}`, {
+      client_id: params.get("client_id")!,
+      api_key_id: apiKey.id,
+      scopes,
+      resource: params.get("resource") || undefined,
+      redirect_uri: redirectUri,
+      code_challenge: params.get("code_challenge")!,
+      expires_at: nowSeconds() + CODE_TTL_SECONDS
+    });
+
+    redirect.searchParams.set("code", code);
+    return Response.redirect(redirect.toString(), 302);
+  }
+
+  async token(request: Request) {
+    const form = await request.formData();
+    const client = await this.authenticateClient(request, form);
+
+    switch (form.get("grant_type")) {
+      case "authorization_code":
+        return this.exchangeCode(client, form);
+
+      case "refresh_token":
+        return this.refresh(client, form);
+
+      default:
+        throw new OAuthError("unsupported_grant_type", `Unsupported grant_type: ${form.get("grant_type")}`);
+    }
+  }
+
+  async revoke(form: FormData) {
+    const token = String(form.get("token") || "");
+    const hash = await hashSecret(token);
+
+    // Unknown tokens are not an error (RFC 7009)
+    if (token.startsWith(ACCESS_TOKEN_PREFIX)) {
+      await this.kv.delete(`oauth_access:${hash}`);
+    } else if (token.startsWith(REFRESH_TOKEN_PREFIX)) {
+      await this.kv.delete(`oauth_refresh:${hash}`);
+    }
+  }
+
+  private async exchangeCode(client: OAuthClient, form: FormData) {
+    const code = String(form.get("code") || "");
+    const key = `oauth_code:${await hashSecret(code)}`;
+    const grant = await this.kv.get<OAuthGrant>(key, "json");
+
+    // Codes are single-use
+    await this.kv.delete(key);
+
+    if (!grant || grant.expires_at <= nowSeconds() || grant.client_id !== client.client_id) {
+      throw new OAuthError("invalid_grant", "Invalid or expired authorization code");
+    }
+
+    if (form.get("redirect_uri") !== grant.redirect_uri) {
+      throw new OAuthError("invalid_grant", "redirect_uri does not match the authorization request");
+    }
+
+    const verifier = String(form.get("code_verifier") || "");
+    if (!verifier || await pkceChallenge(verifier) !== grant.code_challenge) {
+      throw new OAuthError("invalid_grant", "PKCE verification failed");
+    }
+
+    return this.issueTokens(grant);
+  }
+
+  private async refresh(client: OAuthClient, form: FormData) {
+    const refreshToken = String(form.get("refresh_token") || "");
+    const key = `oauth_refresh:${await hashSecret(refreshToken)}`;
+    const grant = await this.kv.get<OAuthGrant>(key, "json");
+
+    if (!grant || grant.expires_at <= nowSeconds() || grant.client_id !== client.client_id) {
+      throw new OAuthError("invalid_grant", "Invalid or expired refresh token");
+    }
+
+    // Refresh tokens rotate on every use
+    await this.kv.delete(key);
+
+    // Refresh tokens die with the API key that approved them
+    const apiKey = await new ApiKeyStore(this.env.ZEO_KV).getActive(grant.api_key_id);
+    if (!apiKey) {
+      throw new OAuthError("invalid_grant", "The API key that approved this client was revoked or has expired");
+    }
+
+    // A narrower scope may be requested on refresh, never a wider one
+    const requested = String(form.get("scope") || "").split(" ").filter(Boolean);
+    const scopes = requested.length === 0 ? grant.scopes : requested.filter(scope => grant.scopes.includes(scope));
+    if (scopes.length === 0) {
+      throw new OAuthError("invalid_scope", "Requested scope exceeds the original grant");
+    }
+
+    return this.issueTokens({ ...grant, scopes });
+  }
+
+  private async issueTokens(grant: OAuthGrant) {
+    const accessToken = randomToken(ACCESS_TOKEN_PREFIX);
+    const refreshToken = randomToken(REFRESH_TOKEN_PREFIX);
+    const base = {
+      client_id: grant.client_id,
+      api_key_id: grant.api_key_id,
+      scopes: grant.scopes,
+      resource: grant.resource
+    };
+
+    await Promise.all([
+      this.putGrant(`oauth_access:${await hashSecret(accessToken)}`, { ...base, expires_at: nowSeconds() + ACCESS_TOKEN_TTL_SECONDS }),
+      this.putGrant(`oauth_refresh:${await hashSecret(refreshToken)}`, { ...base, expires_at: nowSeconds() + REFRESH_TOKEN_TTL_SECONDS })
+    ]);
+
+    return {
+      access_token: accessToken,
+      token_type: "Bearer",
+      expires_in: ACCESS_TOKEN_TTL_SECONDS,
+      refresh_token: refreshToken,
+      scope: grant.scopes.join(" ")
+    };
+  }
+
+  private async validateAuthorizationRequest(params: URLSearchParams) {
+    const client = await this.getClient(params.get("client_id"));
+    const redirectUri = params.get("redirect_uri") || (client.redirect_uris.length === 1 ? client.redirect_uris[0] : "");
+
+    // Never redirect to an unregistered URI, even to report an error
+    if (!client.redirect_uris.includes(redirectUri)) {
+      throw new OAuthError("invalid_request", "redirect_uri is not registered for this client");
+    }
+
+    if (params.get("response_type") !== "code") {
+      throw new OAuthError("unsupported_response_type", "response_type must be code");
+    }
+
+    if (!params.get("code_challenge") || params.get("code_challenge_method") !== "S256") {
+      throw new OAuthError("invalid_request", "PKCE with code_challenge_method=S256 is required");
+    }
+
+    return { client, redirectUri };
+  }
+
+  private async authenticateClient(request: Request, form: FormData): Promise<OAuthClient> {
+    let clientId = form.get("client_id") as string | null;
+    let clientSecret = form.get("client_secret") as string | null;
+
+    const basic = /^Basic\s+(.+)$/i.exec(request.headers.get("Authorization") || "");
+    if (basic) {
+      [clientId, clientSecret] = decodeBasicCredentials(basic[1]);
+    }
+
+    const client = await this.getClient(clientId).catch(() => {
+      throw new OAuthError("invalid_client", "Unknown client", 401);
+    });
+
+    if (client.token_endpoint_auth_method !== "none") {
+      if (!clientSecret || await hashSecret(clientSecret) !== client.client_secret_hash) {
+        throw new OAuthError("invalid_client", "Client authentication failed", 401);
+      }
+    }
+
+    return client;
+  }
+
+  private async getClient(clientId: string | null): Promise<OAuthClient> {
+    const client = clientId ? await this.kv.get<OAuthClient>(`oauth_client:${clientId}`, "json") : null;
+    if (!client) {
+      throw new OAuthError("invalid_request", `Unknown client: ${clientId}`);
+    }
+    return client;
+  }
+
+  private async putGrant(key: string, grant: OAuthGrant) {
+    await this.kv.put(key, JSON.stringify(grant), {
+      expirationTtl: Math.max(grant.expires_at - nowSeconds(), 60)
+    });
+  }
+}
+
+function validateRedirectUri(uri: unknown) {
+  let url: URL;
+  try {
+    url = new URL(String(uri));
+  } catch (error) {
+    throw new OAuthError("invalid_redirect_uri", `Invalid redirect URI: ${uri}`);
+  }
+
+  const loopback = url.protocol === "http:" && ["localhost", "127.0.0.1", "[::1]"].includes(url.hostname);
+  const blocked = ["javascript:", "data:", "file:"].includes(url.protocol);
+
+  if (blocked || url.hash || (url.protocol === "http:" && !loopback)) {
+    throw new OAuthError("invalid_redirect_uri", `Redirect URI must use https, a loopback address or an app scheme: ${uri}`);
+  }
+}
+
+/**
+ * Browsers apply form-action to the redirects that follow a submission, so the
+ * consent form may post to this server and be sent on to the client's redirect_uri
+ */
+function formActionSources(redirectUri: string): string {
+  const url = new URL(redirectUri);
+  // App schemes have no origin ("null"); allow the scheme itself
+  const target = url.origin === "null" ? url.protocol : url.origin;
+  return `'self' ${target}`;
+}
+
+/**
+ * client_id:client_secret from a Basic Authorization value (RFC 6749 §2.3.1)
+ */
+function decodeBasicCredentials(value: string): [string, string] {
+  try {
+    const decoded = atob(value);
+    const separator = decoded.indexOf(":");
+    if (separator < 0) {
+      throw new Error("Missing separator");
+    }
+    return [decodeURIComponent(decoded.slice(0, separator)), decodeURIComponent(decoded.slice(separator + 1))];
+  } catch (error) {
+    throw new OAuthError("invalid_client", "Malformed Basic client credentials", 401);
+  }
+}
+
+function requireMethod(request: Request, method: string) {
+  if (request.method !== method) {
+    throw new OAuthError("invalid_request", `Method ${request.method} not allowed`, 405);
+  }
+}
+
+async function pkceChallenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(verifier));
+  return btoa(String.fromCharCode(...new Uint8Array(digest)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function randomToken(prefix: string): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return prefix + Array.from(bytes, byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+function renderConsentPage(client: OAuthClient, params: URLSearchParams): string {
+  const hidden = Array.from(params.entries())
+    .map(([name, value]) => `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}">`)
+    .join("\n      ");
+  const scopes = (params.get("scope") || "all scopes of your API key").split(" ").map(escapeHtml).join(", ");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Authorize ${escapeHtml(client.client_name || client.client_id)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; max-width: 28rem; margin: 4rem auto; padding: 0 1rem; }
+    input[type=password] { width: 100%; padding: .5rem; margin: .5rem 0 1rem; }
+    button { padding: .5rem 1rem; margin-right: .5rem; }
+  </style>
+</head>
+<body>
+  <h1>🌟 ZEO Composable MCP</h1>
+  <p><strong>${escapeHtml(client.client_name || client.client_id)}</strong> wants to access ZEO tools with: <code>${scopes}</code></p>
+  <form method="post" action="/authorize">
+      ${hidden}
+      <label for="api_key">Approve with your ZEO API key</label>
+      <input type="password" id="api_key" name="api_key" autocomplete="off" required>
+      <button type="submit" name="decision" value="approve">Approve</button>
+      <button type="submit" name="decision" value="deny" formnovalidate>Deny</button>
+  </form>
+</body>
+</html>`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
@@ -0,0 +1,101 @@
+import { REASONING_STRATEGIES } from "../reasoning/strategies.js";
+import { CloudflareEnv } from "../server/env.js";
+import { DEFAULT_RATE_LIMITS, callCost, countersFor, resolvePolicy, validateRateLimitPolicy } from "./policy.js";
+
+describe("resolvePolicy", () => {
+  it("uses the defaults without ZEO_RATE_LIMITS", () => {
+    expect(resolvePolicy({} as CloudflareEnv)).toBe(DEFAULT_RATE_LIMITS);
+  });
+
+  it("falls back to the defaults when ZEO_RATE_LIMITS is invalid", () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    expect(resolvePolicy({ ZEO_RATE_LIMITS: "{\"daily_quota\": -1}" } as CloudflareEnv)).toBe(DEFAULT_RATE_LIMITS);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it("lets a key override fields and tools one by one", () => {
+    const env = { ZEO_RATE_LIMITS: JSON.stringify({ requests_per_minute: 10, daily_quota: 100, tools: { a: { requests_per_minute: 2 } } }) } as CloudflareEnv;
+    const policy = resolvePolicy(env, {
+      token: "t",
+      clientId: "k",
+      scopes: ["*"],
+      extra: { limits: { daily_quota: 0, tools: { b: { daily_quota: 5 } } } }
+    });
+
+    expect(policy).toEqual({
+      requests_per_minute: 10,
+      daily_quota: 0,
+      tools: { a: { requests_per_minute: 2 }, b: { daily_quota: 5 } }
+    });
+  });
+});
+
+describe("countersFor", () => {
+  it("lists tool counters before key counters and skips unlimited ones", () => {
+    const counters = countersFor({ requests_per_minute: 60, daily_quota: 0, tools: { t: { daily_quota: 9 } } }, "t");
+
+    expect(counters).toEqual([
+      { scope: "tool:t", window: "day", limit: 9 },
+      { scope: "key", window: "minute", limit: 60 }
+    ]);
+  });
+});
+
+describe("callCost", () => {
+  const reasoner = "zeo_unified_reasoner";
+
+  it("charges 1 for ordinary calls", () => {
+    expect(callCost("zeo_memory_engine", { action: "store" })).toBe(1);
+    expect(callCost(reasoner, { action: "reason" })).toBe(1);
+    // Grounding sources are charged to their own tools
+    expect(callCost(reasoner, { action: "reason", grounded: true, grounding_urls: ["u1", "u2"] })).toBe(1);
+  });
+
+  it("charges fan-out actions for each upstream request", () => {
+    expect(callCost("zeo_github_orchestrator", { action: "analyze_repo" })).toBe(5);
+    expect(callCost(reasoner, { action: "multi_strategy", strategies: ["a", "b", "c"] })).toBe(3);
+    expect(callCost(reasoner, { action: "multi_strategy" })).toBe(1);
+    expect(callCost(reasoner, { action: "self_consistency", samples: 7 })).toBe(7);
+  });
+
+  it("charges compare_strategies for the strategies it compares", () => {
+    expect(callCost(reasoner, { action: "compare_strategies", strategies: ["critical", "lateral"] })).toBe(2);
+    // Seven single-run strategies, 20 MCTS iterations and a 3-wide beam over 4 depths
+    expect(callCost(reasoner, { action: "compare_strategies" })).toBe(REASONING_STRATEGIES.length - 2 + 20 + 12);
+  });
+
+  it("charges search strategies for the nodes they expand", () => {
+    expect(callCost(reasoner, { action: "reason", strategy: "mcts" })).toBe(20);
+    expect(callCost(reasoner, { action: "reason", strategy: "mcts", mcts_iterations: 100 })).toBe(100);
+    expect(callCost(reasoner, { action: "reason", strategy: "tree_of_thought", beam_width: 5, depth_level: "deep" })).toBe(30);
+    expect(callCost(reasoner, { action: "reason", strategy: "tree_of_thought", depth_level: "bottomless" })).toBe(12);
+    expect(callCost(reasoner, { action: "multi_strategy", strategies: ["critical", "mcts"], mcts_iterations: 10 })).toBe(11);
+  });
+
+  it("charges chain_reasoning for each step's strategy", () => {
+    const chain_steps = [{ step: "a", strategy: "analytical" }, { step: "b", strategy: "tree_of_thought" }, { step: "c", strategy: "critical" }];
+    expect(callCost(reasoner, { action: "chain_reasoning", chain_steps, beam_width: 2, depth_level: "surface" })).toBe(8);
+  });
+
+  it("charges 1 for arguments it cannot read", () => {
+    expect(callCost(reasoner, undefined)).toBe(1);
+    expect(callCost(reasoner, { action: "chain_reasoning", chain_steps: "abc" })).toBe(1);
+    expect(callCost(reasoner, { action: "self_consistency", samples: "7" })).toBe(5);
+  });
+});
+
+describe("validateRateLimitPolicy", () => {
+  it("accepts non-negative integer limits", () => {
+    const policy = { requests_per_minute: 0, tools: { t: { daily_quota: 3 } } };
+    expect(validateRateLimitPolicy(policy)).toBe(policy);
+  });
+
+  it.each([
+    [[], "limits must be an object"],
+    [{ daily_quota: 1.5 }, "limits.daily_quota must be a non-negative integer"],
+    [{ tools: { t: { requests_per_minute: -1 } } }, "limits.tools.t.requests_per_minute must be a non-negative integer"]
+  ])("rejects %j", (policy, message) => {
+    expect(() => validateRateLimitPolicy(policy)).toThrow(message);
+  });
+});
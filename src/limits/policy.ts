@@ -0,0 +1,199 @@
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+
+import { DEFAULT_SAMPLES } from "../reasoning/consistency.js";
+import { DepthLevel, STEP_COUNT } from "../reasoning/prompting.js";
+import { DEFAULT_BEAM_WIDTH, DEFAULT_MCTS_ITERATIONS } from "../reasoning/search.js";
+import { REASONING_STRATEGIES } from "../reasoning/strategies.js";
+import { CloudflareEnv } from "../server/env.js";
+
+/**
+ * 🚦 Rate Limit Policy
+ * Per-minute rate limits and daily quotas, applied per API key and per tool.
+ * Limits count cost units: most calls cost 1, fan-out actions cost what they fan out to.
+ *
+ * The policy comes from the ZEO_RATE_LIMITS var (JSON) or DEFAULT_RATE_LIMITS, and
+ * an API key may override it with its own `limits`.
+ */
+
+/**
+ * Absent or 0 means unlimited
+ */
+export interface LimitRule {
+  requests_per_minute?: number;
+  daily_quota?: number;
+}
+
+export interface RateLimitPolicy extends LimitRule {
+  tools?: Record<string, LimitRule>;
+}
+
+export type LimitWindow = "minute" | "day";
+
+/**
+ * One counter to check and increment, e.g. the key's daily quota or a tool's per-minute rate
+ */
+export interface CounterSpec {
+  scope: string; // "key" or "tool:<name>"
+  window: LimitWindow;
+  limit: number;
+}
+
+export const DEFAULT_RATE_LIMITS: RateLimitPolicy = {
+  requests_per_minute: 60,
+  daily_quota: 5000,
+  tools: {
+    zeo_unified_reasoner: { requests_per_minute: 20, daily_quota: 1000 }, // Workers AI budget
+    zeo_github_orchestrator: { requests_per_minute: 30, daily_quota: 2000 }, // GitHub API rate limit
+    zeo_web_intelligence: { requests_per_minute: 30 }
+  }
+};
+
+export function resolvePolicy(env: CloudflareEnv, authInfo?: AuthInfo): RateLimitPolicy {
+  const base = parseEnvPolicy(env.ZEO_RATE_LIMITS);
+  const override = authInfo?.extra?.limits as RateLimitPolicy | undefined;
+
+  if (!override) {
+    return base;
+  }
+
+  // Key limits replace the defaults field by field, tool by tool
+  return {
+    ...base,
+    ...override,
+    tools: { ...base.tools, ...override.tools }
+  };
+}
+
+/**
+ * Counters a call to `tool` must fit in, most specific first
+ */
+export function countersFor(policy: RateLimitPolicy, tool: string): CounterSpec[] {
+  const counters: CounterSpec[] = [];
+  const toolRule = policy.tools?.[tool];
+
+  if (toolRule?.requests_per_minute) counters.push({ scope: `tool:${tool}`, window: "minute", limit: toolRule.requests_per_minute });
+  if (toolRule?.daily_quota) counters.push({ scope: `tool:${tool}`, window: "day", limit: toolRule.daily_quota });
+  if (policy.requests_per_minute) counters.push({ scope: "key", window: "minute", limit: policy.requests_per_minute });
+  if (policy.daily_quota) counters.push({ scope: "key", window: "day", limit: policy.daily_quota });
+
+  return counters;
+}
+
+/**
+ * Cost units of a call: fan-out actions are charged for each upstream request they make
+ */
+export function callCost(tool: string, args: unknown): number {
+  const call: Record<string, unknown> = isRecord(args) ? args : {};
+
+  if (tool === "zeo_github_orchestrator" && call.action === "analyze_repo") {
+    return 5; // repo, issues, pull requests, releases and commits
+  }
+
+  if (tool !== "zeo_unified_reasoner") {
+    return 1;
+  }
+
+  switch (call.action) {
+    case "reason":
+      // Grounding searches and fetches are charged to the memory and web tools as they run
+      return strategyCost(call.strategy, call);
+
+    case "multi_strategy":
+      return sumCosts(list(call.strategies), call) || 1;
+
+    case "self_consistency":
+      return positiveCount(call.samples) || DEFAULT_SAMPLES;
+
+    case "compare_strategies":
+      return sumCosts(listLength(call.strategies) ? list(call.strategies) : REASONING_STRATEGIES, call);
+
+    case "chain_reasoning":
+      // One strategy run per step
+      return sumCosts(list(call.chain_steps).map(step => (isRecord(step) ? step.strategy : undefined)), call) || 1;
+
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Search strategies expand many nodes per run: tree_of_thought up to beam_width
+ * per depth, MCTS one per iteration. Every other strategy costs 1.
+ */
+function strategyCost(strategy: unknown, call: Record<string, unknown>): number {
+  if (strategy === "mcts") {
+    return positiveCount(call.mcts_iterations) || DEFAULT_MCTS_ITERATIONS;
+  }
+
+  if (strategy === "tree_of_thought") {
+    const depth = typeof call.depth_level === "string" && call.depth_level in STEP_COUNT
+      ? STEP_COUNT[call.depth_level as DepthLevel]
+      : STEP_COUNT.moderate;
+    return (positiveCount(call.beam_width) || DEFAULT_BEAM_WIDTH) * depth;
+  }
+
+  return 1;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function sumCosts(strategies: readonly unknown[], call: Record<string, unknown>): number {
+  return strategies.reduce<number>((total, strategy) => total + strategyCost(strategy, call), 0);
+}
+
+function list(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function listLength(value: unknown): number {
+  return list(value).length;
+}
+
+// 0 when absent or not a positive number; fractions round up, as the loops they bound do
+function positiveCount(value: unknown): number {
+  return typeof value === "number" && value > 0 ? Math.ceil(value) : 0;
+}
+
+export function validateRateLimitPolicy(policy: unknown): RateLimitPolicy {
+  if (typeof policy !== "object" || policy === null || Array.isArray(policy)) {
+    throw new Error("limits must be an object");
+  }
+
+  const { tools, ...rule } = policy as RateLimitPolicy;
+  validateRule(rule, "limits");
+
+  if (tools !== undefined) {
+    if (typeof tools !== "object" || tools === null) {
+      throw new Error("limits.tools must be an object");
+    }
+    for (const [tool, toolRule] of Object.entries(tools)) {
+      validateRule(toolRule, `limits.tools.${tool}`);
+    }
+  }
+
+  return policy as RateLimitPolicy;
+}
+
+function validateRule(rule: any, path: string) {
+  for (const field of ["requests_per_minute", "daily_quota"]) {
+    const value = rule?.[field];
+    if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+      throw new Error(`${path}.${field} must be a non-negative integer`);
+    }
+  }
+}
+
+function parseEnvPolicy(raw?: string): RateLimitPolicy {
+  if (!raw) {
+    return DEFAULT_RATE_LIMITS;
+  }
+
+  try {
+    return validateRateLimitPolicy(JSON.parse(raw));
+  } catch (error) {
+    console.warn(`Ignoring invalid ZEO_RATE_LIMITS, using defaults: ${error instanceof Error ? error.message : error}`);
+    return DEFAULT_RATE_LIMITS;
+  }
+}
@@ -0,0 +1,191 @@
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { McpError } from "@modelcontextprotocol/sdk/types.js";
+
+import { CloudflareEnv } from "../server/env.js";
+import { jsonResponse } from "../transport/streamable-http.js";
+import { CounterSpec, LimitWindow, callCost, countersFor, resolvePolicy } from "./policy.js";
+
+/**
+ * ⏱️ Rate Limiter Durable Object
+ * One instance per API key holds that key's fixed-window counters. Durable Objects
+ * process requests one at a time, so check-then-increment is atomic.
+ *
+ * Storage keys: <window>:<bucket>:<scope> → units used, where bucket is the
+ * minute or UTC day index. Stale buckets are pruned by an hourly alarm.
+ */
+
+export const RATE_LIMITED = -32029;
+
+const WINDOW_MS: Record<LimitWindow, number> = {
+  minute: 60 * 1000,
+  day: 24 * 60 * 60 * 1000
+};
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface ConsumeRequest {
+  counters: CounterSpec[];
+  cost: number;
+}
+
+export interface ConsumeResult {
+  allowed: boolean;
+  exceeded?: CounterSpec & { used: number };
+  retry_after?: number; // seconds
+}
+
+export class RateLimiterObject implements DurableObject {
+  constructor(private state: DurableObjectState, private env: CloudflareEnv) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (url.pathname === "/consume" && request.method === "POST") {
+      return jsonResponse(await this.consume(await request.json()));
+    }
+
+    if (url.pathname === "/usage" && request.method === "GET") {
+      return jsonResponse(await this.usage());
+    }
+
+    return new Response("Not Found", { status: 404 });
+  }
+
+  async alarm(): Promise<void> {
+    const now = Date.now();
+    const stale: string[] = [];
+
+    for (const window of Object.keys(WINDOW_MS) as LimitWindow[]) {
+      const current = bucketOf(window, now);
+      const entries = await this.state.storage.list({ prefix: `${window}:` });
+      for (const key of entries.keys()) {
+        if (Number(key.split(":")[1]) < current) stale.push(key);
+      }
+    }
+
+    // delete() takes at most 128 keys per call
+    for (let i = 0; i < stale.length; i += 128) {
+      await this.state.storage.delete(stale.slice(i, i + 128));
+    }
+
+    if (stale.length > 0 || (await this.state.storage.list({ limit: 1 })).size > 0) {
+      await this.state.storage.setAlarm(now + PRUNE_INTERVAL_MS);
+    }
+  }
+
+  private async consume({ counters, cost }: ConsumeRequest): Promise<ConsumeResult> {
+    const now = Date.now();
+    const keys = counters.map(counter => counterKey(counter, now));
+    const used = await this.state.storage.get<number>(keys);
+
+    // Nothing is charged unless every counter has room
+    for (let i = 0; i < counters.length; i++) {
+      const current = used.get(keys[i]) || 0;
+      if (current + cost > counters[i].limit) {
+        return {
+          allowed: false,
+          exceeded: { ...counters[i], used: current },
+          retry_after: Math.max(1, Math.ceil(windowResetMs(counters[i].window, now) / 1000))
+        };
+      }
+    }
+
+    const updates: Record<string, number> = {};
+    keys.forEach(key => { updates[key] = (used.get(key) || 0) + cost; });
+    await this.state.storage.put(updates);
+
+    if (await this.state.storage.getAlarm() === null) {
+      await this.state.storage.setAlarm(now + PRUNE_INTERVAL_MS);
+    }
+
+    return { allowed: true };
+  }
+
+  private async usage() {
+    const now = Date.now();
+    const usage: Record<string, Record<string, number>> = { minute: {}, day: {} };
+
+    for (const window of Object.keys(WINDOW_MS) as LimitWindow[]) {
+      const prefix = `${window}:${bucketOf(window, now)}:`;
+      const entries = await this.state.storage.list<number>({ prefix });
+      for (const [key, value] of entries) {
+        usage[window][key.slice(prefix.length)] = value;
+      }
+    }
+
+    return usage;
+  }
+}
+
+/**
+ * Charges a tool call against the caller's counters, throwing a JSON-RPC error when a limit is hit.
+ * Without the ZEO_RATE_LIMITER binding nothing is limited.
+ */
+export async function enforceRateLimit(env: CloudflareEnv, authInfo: AuthInfo | undefined, tool: string, args: any): Promise<void> {
+  if (!env.ZEO_RATE_LIMITER) {
+    return;
+  }
+
+  const counters = countersFor(resolvePolicy(env, authInfo), tool);
+  if (counters.length === 0) {
+    return;
+  }
+
+  let result: ConsumeResult;
+  try {
+    const stub = env.ZEO_RATE_LIMITER.get(env.ZEO_RATE_LIMITER.idFromName(limitIdentity(authInfo)));
+    const response = await stub.fetch("https://rate-limiter/consume", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ counters, cost: callCost(tool, args) } satisfies ConsumeRequest)
+    });
+    result = await response.json();
+  } catch (error) {
+    // Fail open: a limiter outage should not take every tool down with it
+    console.warn(`Rate limiter unavailable, allowing ${tool}: ${error instanceof Error ? error.message : error}`);
+    return;
+  }
+
+  if (!result.allowed && result.exceeded) {
+    const { scope, window, limit } = result.exceeded;
+    const what = scope === "key" ? "API key" : scope.replace("tool:", "");
+    const kind = window === "day" ? "Daily quota" : "Rate limit";
+
+    // The retry hint is also in the message: this SDK version only forwards code and message
+    throw new McpError(
+      RATE_LIMITED,
+      `${kind} exceeded for ${what} (${limit} per ${window}), retry after ${result.retry_after}s`,
+      { retry_after: result.retry_after, scope, window, limit, used: result.exceeded.used }
+    );
+  }
+}
+
+/**
+ * Current usage for an API key, keyed by window then scope
+ */
+export async function getUsage(env: CloudflareEnv, apiKeyId: string): Promise<Record<string, Record<string, number>> | null> {
+  if (!env.ZEO_RATE_LIMITER) {
+    return null;
+  }
+
+  const stub = env.ZEO_RATE_LIMITER.get(env.ZEO_RATE_LIMITER.idFromName(apiKeyId));
+  return (await stub.fetch("https://rate-limiter/usage")).json();
+}
+
+/**
+ * Counters are shared by an API key and every OAuth client it approved
+ */
+function limitIdentity(authInfo?: AuthInfo): string {
+  return (authInfo?.extra?.api_key_id as string | undefined) || authInfo?.clientId || "anonymous";
+}
+
+function bucketOf(window: LimitWindow, now: number): number {
+  return Math.floor(now / WINDOW_MS[window]);
+}
+
+function counterKey(counter: CounterSpec, now: number): string {
+  return `${counter.window}:${bucketOf(counter.window, now)}:${counter.scope}`;
+}
+
+function windowResetMs(window: LimitWindow, now: number): number {
+  return (bucketOf(window, now) + 1) * WINDOW_MS[window] - now;
+}
@@ -0,0 +1,52 @@
+import { z } from "zod";
+
+import { AnthropicProvider } from "./anthropic.js";
+
+function respond(body: unknown, status = 200) {
+  return jest.spyOn(global, "fetch").mockResolvedValue(new Response(JSON.stringify(body), { status }));
+}
+
+const requestOf = (fetch: jest.SpyInstance) => {
+  const [url, init] = fetch.mock.calls[0];
+  return { url, headers: init.headers, body: JSON.parse(init.body) };
+};
+
+describe("AnthropicProvider", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("moves system prompts to the system field and joins the text blocks", async () => {
+    const fetch = respond({
+      model: "claude-3-5-haiku-20241022",
+      content: [{ type: "text", text: "Hel" }, { type: "tool_use" }, { type: "text", text: "lo" }],
+      usage: { input_tokens: 7, output_tokens: 2 }
+    });
+    const result = await new AnthropicProvider("sk-ant-test").chat([
+      { role: "system", content: "Be brief" },
+      { role: "user", content: "Hi" }
+    ]);
+
+    const request = requestOf(fetch);
+    expect(request.url).toBe("https://api.anthropic.com/v1/messages");
+    expect(request.headers["x-api-key"]).toBe("sk-ant-test");
+    expect(request.headers["anthropic-version"]).toBe("2023-06-01");
+    expect(request.body).toEqual({ model: "claude-3-5-haiku-latest", max_tokens: 1024, messages: [{ role: "user", content: "Hi" }], system: "Be brief" });
+    expect(result).toEqual({ text: "Hello", provider: "anthropic", model: "claude-3-5-haiku-20241022", usage: { input_tokens: 7, output_tokens: 2 } });
+  });
+
+  it("prefills JSON replies with an opening brace and restores it", async () => {
+    const fetch = respond({ content: [{ type: "text", text: "\"answer\": 42}" }] });
+    const result = await new AnthropicProvider("sk-ant-test").json([{ role: "user", content: "?" }], z.object({ answer: z.number() }));
+
+    expect(requestOf(fetch).body.messages.at(-1)).toEqual({ role: "assistant", content: "{" });
+    expect(result).toEqual({ answer: 42 });
+  });
+
+  it("has no embeddings", async () => {
+    const provider = new AnthropicProvider("sk-ant-test");
+
+    expect(provider.embeddingModel).toBeUndefined();
+    await expect(provider.embed()).rejects.toThrow("anthropic has no embeddings API");
+  });
+});
@@ -0,0 +1,70 @@
+import { BaseLlmProvider, ChatMessage, ChatOptions, ChatResult, DEFAULT_MAX_TOKENS, providerError } from "./provider.js";
+
+/**
+ * 🟠 Anthropic adapter (Messages API)
+ * Anthropic has no embeddings API; configure another provider for embeddings.
+ */
+
+export const ANTHROPIC_DEFAULTS = {
+  model: "claude-3-5-haiku-latest"
+};
+
+const ANTHROPIC_API = "https://api.anthropic.com/v1";
+const ANTHROPIC_VERSION = "2023-06-01";
+
+export class AnthropicProvider extends BaseLlmProvider {
+  readonly name = "anthropic" as const;
+
+  constructor(private apiKey: string, model = ANTHROPIC_DEFAULTS.model) {
+    super(model);
+  }
+
+  async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<ChatResult> {
+    // System prompts are a top-level field rather than a message role
+    const system = messages.filter(message => message.role === "system").map(message => message.content).join("\n\n");
+    const turns = messages.filter(message => message.role !== "system");
+
+    // JSON mode: prefilling the reply with "{" keeps the model from adding prose
+    if (options.json) {
+      turns.push({ role: "assistant", content: "{" });
+    }
+
+    const response = await fetch(`${ANTHROPIC_API}/messages`, {
+      method: "POST",
+      headers: {
+        "x-api-key": this.apiKey,
+        "anthropic-version": ANTHROPIC_VERSION,
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: options.maxTokens || DEFAULT_MAX_TOKENS,
+        messages: turns,
+        ...(system ? { system } : {}),
+        ...(options.temperature !== undefined ? { temperature: options.temperature } : {})
+      }),
+      signal: options.signal
+    });
+
+    if (!response.ok) {
+      throw await providerError(this.name, "chat", response);
+    }
+
+    const data: any = await response.json();
+    const text = (data.content || [])
+      .filter((block: any) => block.type === "text")
+      .map((block: any) => block.text)
+      .join("");
+
+    return {
+      text: options.json ? `{${text}` : text,
+      provider: this.name,
+      model: data.model || this.model,
+      usage: data.usage ? { input_tokens: data.usage.input_tokens, output_tokens: data.usage.output_tokens } : undefined
+    };
+  }
+
+  async embed(): Promise<number[][]> {
+    throw new Error("anthropic has no embeddings API; select workers-ai or openai for embeddings");
+  }
+}
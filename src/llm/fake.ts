@@ -0,0 +1,117 @@
+import { BaseLlmProvider, ChatMessage, ChatOptions, ChatResult } from "./provider.js";
+
+/**
+ * 🧪 Deterministic fake provider for tests and local runs without model access.
+ * Replies come from a scripted function (by default an echo of the last user
+ * message, or "{}" in JSON mode); embeddings are a stable hash of the text.
+ * schemaReply builds replies that satisfy whatever schema a JSON-mode call asks for.
+ */
+
+export type FakeReply = (messages: ChatMessage[], options: ChatOptions) => string;
+
+export const FAKE_EMBEDDING_DIMENSIONS = 64;
+
+export class FakeLlmProvider extends BaseLlmProvider {
+  readonly name = "fake" as const;
+  readonly calls: { messages: ChatMessage[]; options: ChatOptions }[] = [];
+
+  constructor(private reply: FakeReply = defaultReply, model = "fake-chat", embeddingModel = "fake-embedding") {
+    super(model, embeddingModel);
+  }
+
+  async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<ChatResult> {
+    if (options.signal?.aborted) {
+      throw options.signal.reason ?? new Error("Aborted");
+    }
+    this.calls.push({ messages, options });
+
+    const text = this.reply(messages, options);
+    return {
+      text,
+      provider: this.name,
+      model: this.model,
+      usage: { input_tokens: countWords(messages.map(message => message.content).join(" ")), output_tokens: countWords(text) }
+    };
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(hashEmbedding);
+  }
+}
+
+/**
+ * JSON-mode replies generated from the schema in the JSON instruction: every
+ * string is text(messages), every number is score (clamped to its bounds),
+ * integers their minimum or 1, booleans true, enums their first value and
+ * arrays their minimum length (at least one item). Chat replies are echoed.
+ */
+export function schemaReply(text: (messages: ChatMessage[]) => string, score = 0.8): FakeReply {
+  return (messages, options) => {
+    const instruction = messages.find(message => message.role === "system" && message.content.startsWith(JSON_INSTRUCTION));
+    if (!options.json || !instruction) {
+      return defaultReply(messages, options);
+    }
+
+    const schema = JSON.parse(instruction.content.substring(instruction.content.indexOf("\n") + 1));
+    return JSON.stringify(schemaInstance(schema, { text: text(messages), score }));
+  };
+}
+
+const JSON_INSTRUCTION = "Respond with a single JSON object";
+
+function schemaInstance(schema: any, fill: { text: string; score: number }): unknown {
+  if (schema.const !== undefined) return schema.const;
+  if (schema.enum) return schema.enum[0];
+  if (schema.anyOf || schema.oneOf) return schemaInstance((schema.anyOf || schema.oneOf)[0], fill);
+
+  const type = Array.isArray(schema.type) ? schema.type.find(entry => entry !== "null") : schema.type;
+  switch (type) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, property]) => [key, schemaInstance(property, fill)])
+      );
+    case "array":
+      return Array.from({ length: Math.max(1, schema.minItems || 0) }, () => schemaInstance(schema.items || {}, fill));
+    case "string":
+      return fill.text;
+    case "integer":
+      return schema.minimum ?? Math.min(1, schema.maximum ?? 1);
+    case "number":
+      return Math.min(schema.maximum ?? Infinity, Math.max(schema.minimum ?? -Infinity, fill.score));
+    case "boolean":
+      return true;
+    default:
+      return null;
+  }
+}
+
+function defaultReply(messages: ChatMessage[], options: ChatOptions): string {
+  if (options.json) {
+    return "{}";
+  }
+  const lastUser = [...messages].reverse().find(message => message.role === "user");
+  return lastUser?.content || "";
+}
+
+/**
+ * Bag-of-words vector over hashed buckets, L2-normalised, so similar texts
+ * land close together and identical texts always match
+ */
+function hashEmbedding(text: string): number[] {
+  const vector = new Array(FAKE_EMBEDDING_DIMENSIONS).fill(0);
+
+  for (const word of text.toLowerCase().split(/\W+/).filter(Boolean)) {
+    let hash = 2166136261;
+    for (let i = 0; i < word.length; i++) {
+      hash = Math.imul(hash ^ word.charCodeAt(i), 16777619);
+    }
+    vector[(hash >>> 0) % FAKE_EMBEDDING_DIMENSIONS] += 1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return vector.map(value => value / norm);
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
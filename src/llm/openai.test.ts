@@ -0,0 +1,53 @@
+import { z } from "zod";
+
+import { OpenAiProvider } from "./openai.js";
+
+function respond(body: unknown, status = 200) {
+  return jest.spyOn(global, "fetch").mockResolvedValue(new Response(JSON.stringify(body), { status }));
+}
+
+const requestOf = (fetch: jest.SpyInstance) => {
+  const [url, init] = fetch.mock.calls[0];
+  return { url, headers: init.headers, body: JSON.parse(init.body) };
+};
+
+describe("OpenAiProvider", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("sends chat completions with the key and model, and reads text and usage", async () => {
+    const fetch = respond({ model: "gpt-4o-mini-2024-07-18", choices: [{ message: { content: "Hello" } }], usage: { prompt_tokens: 5, completion_tokens: 1 } });
+    const result = await new OpenAiProvider("sk-test").chat([{ role: "user", content: "Hi" }], { temperature: 0.2 });
+
+    const request = requestOf(fetch);
+    expect(request.url).toBe("https://api.openai.com/v1/chat/completions");
+    expect(request.headers.Authorization).toBe("Bearer sk-test");
+    expect(request.body).toEqual({ model: "gpt-4o-mini", messages: [{ role: "user", content: "Hi" }], max_tokens: 1024, temperature: 0.2 });
+    expect(result).toEqual({ text: "Hello", provider: "openai", model: "gpt-4o-mini-2024-07-18", usage: { input_tokens: 5, output_tokens: 1 } });
+  });
+
+  it("asks for a JSON object in JSON mode and validates the reply", async () => {
+    const fetch = respond({ choices: [{ message: { content: "{\"answer\": 42}" } }] });
+    const result = await new OpenAiProvider("sk-test").json([{ role: "user", content: "?" }], z.object({ answer: z.number() }));
+
+    expect(requestOf(fetch).body.response_format).toEqual({ type: "json_object" });
+    expect(result).toEqual({ answer: 42 });
+  });
+
+  it("returns embeddings in input order", async () => {
+    const fetch = respond({ data: [{ index: 1, embedding: [0, 1] }, { index: 0, embedding: [1, 0] }] });
+    const vectors = await new OpenAiProvider("sk-test", "gpt-4o", "text-embedding-3-large").embed(["a", "b"]);
+
+    expect(requestOf(fetch).body).toEqual({ model: "text-embedding-3-large", input: ["a", "b"] });
+    expect(vectors).toEqual([[1, 0], [0, 1]]);
+  });
+
+  it("reports the status and start of the body of a failed request", async () => {
+    respond({ error: { message: "Incorrect API key" } }, 401);
+
+    await expect(new OpenAiProvider("sk-bad").chat([{ role: "user", content: "Hi" }])).rejects.toThrow(
+      "openai chat failed (401): {\"error\":{\"message\":\"Incorrect API key\"}}"
+    );
+  });
+});
@@ -0,0 +1,70 @@
+import { BaseLlmProvider, ChatMessage, ChatOptions, ChatResult, DEFAULT_MAX_TOKENS, providerError } from "./provider.js";
+
+/**
+ * 🟢 OpenAI adapter (Chat Completions and Embeddings APIs)
+ */
+
+export const OPENAI_DEFAULTS = {
+  model: "gpt-4o-mini",
+  embeddingModel: "text-embedding-3-small"
+};
+
+const OPENAI_API = "https://api.openai.com/v1";
+
+export class OpenAiProvider extends BaseLlmProvider {
+  readonly name = "openai" as const;
+
+  constructor(private apiKey: string, model = OPENAI_DEFAULTS.model, embeddingModel = OPENAI_DEFAULTS.embeddingModel) {
+    super(model, embeddingModel);
+  }
+
+  async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<ChatResult> {
+    const response = await this.post("/chat/completions", {
+      model: this.model,
+      messages,
+      max_tokens: options.maxTokens || DEFAULT_MAX_TOKENS,
+      ...(options.temperature !== undefined ? { temperature: options.temperature } : {}),
+      ...(options.json ? { response_format: { type: "json_object" } } : {})
+    }, options.signal);
+
+    if (!response.ok) {
+      throw await providerError(this.name, "chat", response);
+    }
+
+    const data: any = await response.json();
+    return {
+      text: data.choices?.[0]?.message?.content || "",
+      provider: this.name,
+      model: data.model || this.model,
+      usage: data.usage
+        ? { input_tokens: data.usage.prompt_tokens, output_tokens: data.usage.completion_tokens }
+        : undefined
+    };
+  }
+
+  async embed(texts: string[], options: { signal?: AbortSignal } = {}): Promise<number[][]> {
+    const response = await this.post("/embeddings", { model: this.embeddingModel, input: texts }, options.signal);
+
+    if (!response.ok) {
+      throw await providerError(this.name, "embed", response);
+    }
+
+    const data: any = await response.json();
+    // Vectors come back tagged with their input index
+    return [...data.data]
+      .sort((a: any, b: any) => a.index - b.index)
+      .map((item: any) => item.embedding);
+  }
+
+  private post(path: string, body: unknown, signal?: AbortSignal): Promise<Response> {
+    return fetch(`${OPENAI_API}${path}`, {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${this.apiKey}`,
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify(body),
+      signal
+    });
+  }
+}
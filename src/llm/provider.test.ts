@@ -0,0 +1,35 @@
+import { z } from "zod";
+
+import { FakeLlmProvider, schemaReply } from "./fake.js";
+import { parseJsonReply } from "./provider.js";
+
+const Answer = z.object({ answer: z.number(), note: z.string().default("") });
+
+describe("parseJsonReply", () => {
+  it("reads JSON from a code fence or from around a sentence", () => {
+    expect(parseJsonReply("```json\n{\"answer\": 1}\n```", Answer, "test")).toEqual({ answer: 1, note: "" });
+    expect(parseJsonReply("Sure! {\"answer\": 2, \"note\": \"x\"} Hope that helps.", Answer, "test")).toEqual({ answer: 2, note: "x" });
+  });
+
+  it("names the source of invalid or mismatched replies", () => {
+    expect(() => parseJsonReply("no json here", Answer, "openai/gpt-4o-mini")).toThrow("openai/gpt-4o-mini returned invalid JSON: no json here");
+    expect(() => parseJsonReply("{\"answer\": \"two\"}", Answer, "openai/gpt-4o-mini")).toThrow("returned JSON that does not match the schema");
+  });
+});
+
+describe("FakeLlmProvider", () => {
+  it("answers JSON prompts with an instance of the requested schema", async () => {
+    const llm = new FakeLlmProvider(schemaReply(() => "filled", 0.6));
+
+    expect(await llm.json([{ role: "user", content: "?" }], Answer)).toEqual({ answer: 0.6, note: "filled" });
+    expect((await llm.chat([{ role: "user", content: "echo" }])).text).toBe("echo");
+  });
+
+  it("embeds similar texts close together and identical texts identically", async () => {
+    const [a, b, c] = await new FakeLlmProvider().embed(["red apples", "red apples", "tax filing"]);
+    const dot = (x: number[], y: number[]) => x.reduce((sum, value, index) => sum + value * y[index], 0);
+
+    expect(dot(a, b)).toBeCloseTo(1);
+    expect(dot(a, c)).toBeLessThan(0.5);
+  });
+});
@@ -0,0 +1,121 @@
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+
+/**
+ * 🤖 LLM Provider
+ * One interface over Workers AI, OpenAI, Anthropic and a deterministic fake:
+ * chat completions, JSON-mode completions validated against a Zod schema, and embeddings.
+ * Each provider instance is bound to a chat model and an embedding model.
+ */
+
+export const LLM_PROVIDERS = ["workers-ai", "openai", "anthropic", "fake"] as const;
+
+// The fake is for tests and the benchmark; only ZEO_LLM and the CLI can pick it
+export const REQUEST_LLM_PROVIDERS = ["workers-ai", "openai", "anthropic"] as const;
+
+export type LlmProviderName = typeof LLM_PROVIDERS[number];
+
+/**
+ * Provider and models picked for a tool in ZEO_LLM or by the benchmark CLI; unset fields fall back
+ */
+export const LlmSelectionSchema = z.object({
+  provider: z.enum(LLM_PROVIDERS).optional().describe("LLM provider"),
+  model: z.string().optional().describe("Chat model, e.g. gpt-4o-mini or @cf/meta/llama-3.1-8b-instruct"),
+  embedding_model: z.string().optional().describe("Embedding model")
+});
+
+export type LlmSelection = z.infer<typeof LlmSelectionSchema>;
+
+/**
+ * The `llm` argument of tools that take one. The registry only honours models
+ * the server configured for the tool or listed in ZEO_LLM's allowed_models.
+ */
+export const RequestLlmSelectionSchema = LlmSelectionSchema.extend({
+  provider: z.enum(REQUEST_LLM_PROVIDERS).optional().describe("LLM provider")
+});
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface ChatOptions {
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+  json?: boolean; // Ask for a JSON object, natively where the provider supports it
+}
+
+export interface ChatResult {
+  text: string;
+  provider: LlmProviderName;
+  model: string;
+  usage?: { input_tokens: number; output_tokens: number };
+}
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  readonly model: string;
+  readonly embeddingModel?: string; // Absent when the provider has no embeddings API
+
+  chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResult>;
+  json<T>(messages: ChatMessage[], schema: JsonSchema<T>, options?: Omit<ChatOptions, "json">): Promise<T>;
+  embed(texts: string[], options?: { signal?: AbortSignal }): Promise<number[][]>;
+}
+
+// Input may differ from T, so schemas can fill defaults and normalise values
+export type JsonSchema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+export const DEFAULT_MAX_TOKENS = 1024;
+
+/**
+ * Shared JSON mode: the schema goes into the system prompt, and the reply is
+ * parsed and validated so callers get typed data or an error, never free text
+ */
+export abstract class BaseLlmProvider implements LlmProvider {
+  abstract readonly name: LlmProviderName;
+
+  constructor(readonly model: string, readonly embeddingModel?: string) {}
+
+  abstract chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResult>;
+  abstract embed(texts: string[], options?: { signal?: AbortSignal }): Promise<number[][]>;
+
+  async json<T>(messages: ChatMessage[], schema: JsonSchema<T>, options: Omit<ChatOptions, "json"> = {}): Promise<T> {
+    const result = await this.chat(withJsonInstruction(messages, schema), { ...options, json: true });
+    return parseJsonReply(result.text, schema, `${this.name}/${this.model}`);
+  }
+}
+
+export function withJsonInstruction(messages: ChatMessage[], schema: JsonSchema<unknown>): ChatMessage[] {
+  const { $schema, ...jsonSchema } = zodToJsonSchema(schema, { $refStrategy: "none" }) as Record<string, unknown>;
+  const instruction = `Respond with a single JSON object and nothing else. It must match this JSON Schema:\n${JSON.stringify(jsonSchema)}`;
+
+  return [{ role: "system", content: instruction }, ...messages];
+}
+
+export function parseJsonReply<T>(text: string, schema: JsonSchema<T>, source: string): T {
+  // Models sometimes wrap JSON in a code fence or add a sentence around it
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/.exec(text);
+  const candidate = fenced ? fenced[1] : text.slice(text.indexOf("{"), text.lastIndexOf("}") + 1);
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(candidate);
+  } catch (error) {
+    throw new Error(`${source} returned invalid JSON: ${text.substring(0, 200)}`);
+  }
+
+  const result = schema.safeParse(parsed);
+  if (!result.success) {
+    throw new Error(`${source} returned JSON that does not match the schema: ${result.error.message}`);
+  }
+  return result.data;
+}
+
+/**
+ * Error for a non-2xx provider response, with the start of the body for context
+ */
+export async function providerError(provider: LlmProviderName, operation: string, response: Response): Promise<Error> {
+  const body = await response.text().catch(() => "");
+  return new Error(`${provider} ${operation} failed (${response.status}): ${body.substring(0, 300)}`);
+}
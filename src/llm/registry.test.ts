@@ -0,0 +1,54 @@
+import { CloudflareEnv } from "../server/env.js";
+import { RequestLlmSelectionSchema } from "./provider.js";
+import { createLlmRegistry } from "./registry.js";
+
+const registry = (config: object) =>
+  createLlmRegistry({ ZEO_LLM: JSON.stringify(config), AI: {}, OPENAI_API_KEY: "sk-test", ANTHROPIC_API_KEY: "sk-ant-test" } as unknown as CloudflareEnv);
+
+describe("createLlmRegistry", () => {
+  it("takes the tool's entry over the server default", () => {
+    const llm = registry({ provider: "workers-ai", tools: { zeo_web_intelligence: { provider: "openai", model: "gpt-4o-mini" } } });
+
+    expect(llm.resolve("zeo_web_intelligence")).toMatchObject({ name: "openai", model: "gpt-4o-mini" });
+    expect(llm.resolve("zeo_unified_reasoner").name).toBe("workers-ai");
+  });
+
+  it("reuses one provider instance per selection", () => {
+    const llm = registry({ provider: "fake" });
+
+    expect(llm.resolve("a")).toBe(llm.resolve("b"));
+  });
+
+  it("lets a request name the configured models", () => {
+    const llm = registry({ provider: "openai", model: "gpt-4o" });
+
+    expect(llm.resolve("zeo_unified_reasoner", { provider: "openai", model: "gpt-4o" }).model).toBe("gpt-4o");
+  });
+
+  it("refuses per-request models that are not allow-listed", () => {
+    const llm = registry({ provider: "openai", model: "gpt-4o" });
+
+    expect(() => llm.resolve("zeo_unified_reasoner", { model: "o1" })).toThrow(
+      "LLM openai/o1 is not allowed per request for zeo_unified_reasoner; list it in ZEO_LLM.allowed_models"
+    );
+    expect(() => llm.resolve("zeo_unified_reasoner", { provider: "anthropic" })).toThrow("not allowed");
+  });
+
+  it("allows listed chat and embedding models on a switched provider", () => {
+    const llm = registry({
+      provider: "workers-ai",
+      allowed_models: ["openai/gpt-4o-mini", "openai/text-embedding-3-small", "anthropic/claude-3-5-haiku-latest"]
+    });
+
+    expect(llm.resolve("zeo_unified_reasoner", { provider: "openai", model: "gpt-4o-mini" }).model).toBe("gpt-4o-mini");
+    expect(llm.resolve("zeo_unified_reasoner", { provider: "anthropic", model: "claude-3-5-haiku-latest" }).name).toBe("anthropic");
+    expect(() => llm.resolve("zeo_unified_reasoner", { provider: "openai", model: "gpt-4o" })).toThrow("openai/gpt-4o is not allowed");
+  });
+});
+
+describe("RequestLlmSelectionSchema", () => {
+  it("keeps the fake provider out of requests", () => {
+    expect(RequestLlmSelectionSchema.safeParse({ provider: "fake" }).success).toBe(false);
+    expect(RequestLlmSelectionSchema.safeParse({ provider: "anthropic", model: "claude-3-5-haiku-latest" }).success).toBe(true);
+  });
+});
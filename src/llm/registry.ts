@@ -0,0 +1,121 @@
+import { z } from "zod";
+
+import { LlmRegistry } from "../agents/tool-context.js";
+import { CloudflareEnv } from "../server/env.js";
+import { AnthropicProvider } from "./anthropic.js";
+import { FakeLlmProvider } from "./fake.js";
+import { OpenAiProvider } from "./openai.js";
+import { LlmProvider, LlmSelection, LlmSelectionSchema } from "./provider.js";
+import { WorkersAiProvider } from "./workers-ai.js";
+
+/**
+ * 🔀 LLM Registry
+ * Resolves the provider for a tool call. Each field is taken from the first of:
+ * 1. the request's `llm` argument (tools that accept one)
+ * 2. the tool's entry in ZEO_LLM.tools
+ * 3. the server default in ZEO_LLM, then Workers AI with its default models
+ *
+ * A request may only move a tool onto models listed in ZEO_LLM.allowed_models
+ * ("provider/model", chat and embedding models alike); the models configured
+ * for the tool are always allowed.
+ */
+
+export const LlmConfigSchema = LlmSelectionSchema.extend({
+  tools: z.record(LlmSelectionSchema).optional(),
+  allowed_models: z.array(z.string()).optional()
+});
+
+export type LlmConfig = z.infer<typeof LlmConfigSchema>;
+
+export const DEFAULT_LLM_CONFIG: LlmConfig = {
+  provider: "workers-ai"
+};
+
+export function createLlmRegistry(env: CloudflareEnv): LlmRegistry {
+  const config = parseEnvConfig(env.ZEO_LLM);
+  const allowedModels = new Set(config.allowed_models || []);
+  const providers = new Map<string, LlmProvider>();
+
+  return {
+    resolve(tool, selection = {}) {
+      const base: LlmSelection = {
+        provider: config.provider || "workers-ai",
+        model: config.model,
+        embedding_model: config.embedding_model
+      };
+      const configured = mergeSelection(base, config.tools?.[tool] || {});
+      const resolved = mergeSelection(configured, selection);
+
+      const key = `${resolved.provider}|${resolved.model || ""}|${resolved.embedding_model || ""}`;
+      let instance = providers.get(key);
+      if (!instance) {
+        instance = createProvider(env, resolved);
+        providers.set(key, instance);
+      }
+
+      // Models the request moved the tool onto must be allow-listed
+      const sameProvider = resolved.provider === configured.provider;
+      const chatModelKept = sameProvider && resolved.model === configured.model;
+      const embeddingModelKept = sameProvider && resolved.embedding_model === configured.embedding_model;
+      const changed = [
+        chatModelKept ? undefined : instance.model,
+        embeddingModelKept ? undefined : instance.embeddingModel
+      ].filter(model => model && !allowedModels.has(`${instance.name}/${model}`));
+
+      if (changed.length > 0) {
+        throw new Error(`LLM ${instance.name}/${changed[0]} is not allowed per request for ${tool}; list it in ZEO_LLM.allowed_models`);
+      }
+      return instance;
+    }
+  };
+}
+
+export function createProvider(env: CloudflareEnv, selection: LlmSelection): LlmProvider {
+  const { model, embedding_model: embeddingModel } = selection;
+
+  switch (selection.provider || "workers-ai") {
+    case "workers-ai":
+      if (!env.AI) {
+        throw new Error("LLM provider workers-ai requires the AI binding");
+      }
+      return new WorkersAiProvider(env.AI, model, embeddingModel);
+    case "openai":
+      if (!env.OPENAI_API_KEY) {
+        throw new Error("LLM provider openai requires the OPENAI_API_KEY secret");
+      }
+      return new OpenAiProvider(env.OPENAI_API_KEY, model, embeddingModel);
+    case "anthropic":
+      if (!env.ANTHROPIC_API_KEY) {
+        throw new Error("LLM provider anthropic requires the ANTHROPIC_API_KEY secret");
+      }
+      return new AnthropicProvider(env.ANTHROPIC_API_KEY, model);
+    case "fake":
+      return new FakeLlmProvider(undefined, model, embeddingModel);
+  }
+}
+
+function mergeSelection(base: LlmSelection, override: LlmSelection): LlmSelection {
+  // Models belong to a provider, so switching provider drops the inherited ones
+  if (override.provider && override.provider !== base.provider) {
+    return { ...override };
+  }
+
+  return {
+    provider: base.provider,
+    model: override.model || base.model,
+    embedding_model: override.embedding_model || base.embedding_model
+  };
+}
+
+function parseEnvConfig(raw?: string): LlmConfig {
+  if (!raw) {
+    return DEFAULT_LLM_CONFIG;
+  }
+
+  try {
+    return LlmConfigSchema.parse(JSON.parse(raw));
+  } catch (error) {
+    console.warn(`Ignoring invalid ZEO_LLM, using defaults: ${error instanceof Error ? error.message : error}`);
+    return DEFAULT_LLM_CONFIG;
+  }
+}
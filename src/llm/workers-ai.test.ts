@@ -0,0 +1,43 @@
+import { WorkersAiProvider } from "./workers-ai.js";
+
+function binding(reply: unknown) {
+  return { run: jest.fn().mockResolvedValue(reply) };
+}
+
+describe("WorkersAiProvider", () => {
+  it("runs the chat model through the AI binding", async () => {
+    const ai = binding({ response: "Hello", usage: { prompt_tokens: 4, completion_tokens: 1 } });
+    const result = await new WorkersAiProvider(ai).chat([{ role: "user", content: "Hi" }], { maxTokens: 64, json: true });
+
+    expect(ai.run).toHaveBeenCalledWith("@cf/meta/llama-3.1-8b-instruct", {
+      messages: [{ role: "user", content: "Hi" }],
+      max_tokens: 64,
+      response_format: { type: "json_object" }
+    });
+    expect(result).toEqual({ text: "Hello", provider: "workers-ai", model: "@cf/meta/llama-3.1-8b-instruct", usage: { input_tokens: 4, output_tokens: 1 } });
+  });
+
+  it("serialises replies that come back already parsed", async () => {
+    const result = await new WorkersAiProvider(binding({ response: { answer: 42 } })).chat([{ role: "user", content: "?" }], { json: true });
+
+    expect(result.text).toBe("{\"answer\":42}");
+  });
+
+  it("embeds with the embedding model and checks one vector came back per text", async () => {
+    const ai = binding({ data: [[1, 0], [0, 1]] });
+    const provider = new WorkersAiProvider(ai);
+
+    expect(await provider.embed(["a", "b"])).toEqual([[1, 0], [0, 1]]);
+    expect(ai.run).toHaveBeenCalledWith("@cf/baai/bge-base-en-v1.5", { text: ["a", "b"] });
+    await expect(provider.embed(["a", "b", "c"])).rejects.toThrow("workers-ai embed returned no vectors for @cf/baai/bge-base-en-v1.5");
+  });
+
+  it("does not call the binding once the request is aborted", async () => {
+    const ai = binding({ response: "late" });
+    const controller = new AbortController();
+    controller.abort(new Error("cancelled"));
+
+    await expect(new WorkersAiProvider(ai).chat([{ role: "user", content: "Hi" }], { signal: controller.signal })).rejects.toThrow();
+    expect(ai.run).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,52 @@
+import { ToolUtils } from "../agents/mcp.js";
+import { BaseLlmProvider, ChatMessage, ChatOptions, ChatResult, DEFAULT_MAX_TOKENS } from "./provider.js";
+
+/**
+ * ☁️ Workers AI adapter, through the AI binding
+ */
+
+export const WORKERS_AI_DEFAULTS = {
+  model: "@cf/meta/llama-3.1-8b-instruct",
+  embeddingModel: "@cf/baai/bge-base-en-v1.5"
+};
+
+export class WorkersAiProvider extends BaseLlmProvider {
+  readonly name = "workers-ai" as const;
+
+  constructor(private ai: any, model = WORKERS_AI_DEFAULTS.model, embeddingModel = WORKERS_AI_DEFAULTS.embeddingModel) {
+    super(model, embeddingModel);
+  }
+
+  async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<ChatResult> {
+    ToolUtils.throwIfAborted(options.signal);
+
+    const response = await this.ai.run(this.model, {
+      messages,
+      max_tokens: options.maxTokens || DEFAULT_MAX_TOKENS,
+      ...(options.temperature !== undefined ? { temperature: options.temperature } : {}),
+      ...(options.json ? { response_format: { type: "json_object" } } : {})
+    });
+
+    // In JSON mode some models return the parsed object instead of text
+    const text = typeof response?.response === "string" ? response.response : JSON.stringify(response?.response ?? "");
+
+    return {
+      text,
+      provider: this.name,
+      model: this.model,
+      usage: response?.usage
+        ? { input_tokens: response.usage.prompt_tokens || 0, output_tokens: response.usage.completion_tokens || 0 }
+        : undefined
+    };
+  }
+
+  async embed(texts: string[], options: { signal?: AbortSignal } = {}): Promise<number[][]> {
+    ToolUtils.throwIfAborted(options.signal);
+
+    const response = await this.ai.run(this.embeddingModel, { text: texts });
+    if (!Array.isArray(response?.data) || response.data.length !== texts.length) {
+      throw new Error(`workers-ai embed returned no vectors for ${this.embeddingModel}`);
+    }
+    return response.data;
+  }
+}
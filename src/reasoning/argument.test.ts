@@ -0,0 +1,206 @@
+import { FakeLlmProvider } from "../llm/fake.js";
+import { ChatMessage } from "../llm/provider.js";
+import { debugArgument, mermaidText, toMermaid } from "./argument.js";
+import { TRACE_CHARS } from "./prompting.js";
+
+type Reply = (messages: ChatMessage[]) => unknown;
+
+// Map, audit and repair replies, chosen by the system prompt
+function argumentFake(map: Reply, audit: Reply, repair: Reply): FakeLlmProvider {
+  return new FakeLlmProvider(messages => {
+    const system = messages.map(message => message.content).join("\n");
+    const reply = system.includes("You map arguments") ? map : system.includes("You audit argument maps") ? audit : repair;
+    return JSON.stringify(reply(messages));
+  });
+}
+
+const MAP = {
+  nodes: [
+    { id: "x", kind: "premise", text: "If it rains, the street gets wet" },
+    { id: "y", kind: "premise", text: "The street is wet" },
+    { id: "y", kind: "premise", text: "A duplicate of y" },
+    { id: "z", kind: "conclusion", text: "It rained" },
+    { id: "w", kind: "inference", text: "Rain is common here" }
+  ],
+  edges: [
+    { from: "x", to: "z" },
+    { from: "y", to: "z" },
+    { from: "y", to: "z" },
+    { from: "z", to: "z" },
+    { from: "unknown", to: "z" }
+  ]
+};
+
+const AUDIT = {
+  edges: [
+    { edge: "E1", strength: 0.6 },
+    {
+      edge: "E2",
+      strength: 0.9,
+      fallacies: [{ name: "affirming_the_consequent", explanation: "Wet streets have other causes" }],
+      unsupported_leap: true,
+      missing_premise: "Only rain wets the street"
+    }
+  ],
+  premises: [{ node: "P2", acceptable: false, note: "Unverified" }]
+};
+
+const REPAIR = {
+  nodes: [
+    { id: "a", kind: "premise", text: "The street is wet" },
+    { id: "b", kind: "premise", text: "Nothing but rain wets this street", implicit: true },
+    { id: "c", kind: "conclusion", text: "It probably rained" }
+  ],
+  edges: [{ from: "a", to: "c" }, { from: "b", to: "c" }],
+  changes: [{ change: "Stated the missing premise", addresses: ["E2"] }],
+  remaining_weaknesses: ["Sprinklers"]
+};
+
+const input = { problem: "The street is wet, so it rained." };
+
+const userMessage = (llm: FakeLlmProvider, index: number) => llm.calls[index].messages[llm.calls[index].messages.length - 1].content;
+
+describe("debugArgument", () => {
+  it("renumbers the mapped graph and drops duplicate, looping and dangling parts", async () => {
+    const result = await debugArgument({ llm: argumentFake(() => MAP, () => AUDIT, () => REPAIR) }, input);
+    const { nodes, edges } = result.argument_graph;
+
+    expect(nodes.map(node => [node.id, node.text])).toEqual([
+      ["P1", "If it rains, the street gets wet"],
+      ["P2", "The street is wet"],
+      ["C1", "It rained"],
+      ["I1", "Rain is common here"]
+    ]);
+    expect(edges.map(edge => [edge.id, edge.from, edge.to])).toEqual([["E1", "P1", "C1"], ["E2", "P2", "C1"]]);
+  });
+
+  it("lists audited and structural issues and scores the logic", async () => {
+    const result = await debugArgument({ llm: argumentFake(() => MAP, () => AUDIT, () => REPAIR) }, input);
+
+    expect(result.issues).toEqual([
+      { location: "E2", kind: "fallacy", name: "affirming_the_consequent", explanation: "Wet streets have other causes" },
+      { location: "E2", kind: "unsupported_leap", explanation: "Needs the unstated premise: Only rain wets the street" },
+      { location: "P2", kind: "unacceptable_premise", explanation: "Unverified" },
+      { location: "I1", kind: "unsupported_claim", explanation: "Nothing in the argument supports this inference" },
+      { location: "I1", kind: "disconnected", explanation: "Does not lead to any conclusion" }
+    ]);
+
+    // Flagged edges count at most 0.5; half the premises are acceptable
+    expect(result.logic_quality_score).toBeCloseTo(((0.6 + 0.5) / 2) * 0.5);
+    expect(result.mermaid.argument).toContain(`P2 -.->|"affirming the consequent, unsupported leap"| C1`);
+    expect(result.mermaid.argument).toContain("class P2 rejected");
+    expect(result.mermaid.argument).toContain("linkStyle 1 stroke:#d33");
+  });
+
+  it("flags every edge on a cycle as circular reasoning", async () => {
+    const map = {
+      nodes: [
+        { id: "p", kind: "premise", text: "Scripture is true" },
+        { id: "a", kind: "inference", text: "God exists" },
+        { id: "b", kind: "inference", text: "Scripture is the word of God" },
+        { id: "c", kind: "conclusion", text: "Scripture is reliable" }
+      ],
+      edges: [{ from: "p", to: "a" }, { from: "a", to: "b" }, { from: "b", to: "a" }, { from: "b", to: "c" }]
+    };
+    const result = await debugArgument({ llm: argumentFake(() => map, () => ({}), () => REPAIR) }, input);
+
+    const circular = result.issues.filter(issue => issue.name === "circular_reasoning").map(issue => issue.location);
+    expect(circular).toEqual(["E2", "E3"]);
+    expect(result.logic_quality_score).toBe(0); // No edge was audited
+  });
+
+  it("repairs the argument from the whole graph and the issues", async () => {
+    const llm = argumentFake(() => MAP, () => AUDIT, () => REPAIR);
+    const result = await debugArgument({ llm }, input);
+
+    expect(result.repaired_argument.graph.nodes.map(node => node.id)).toEqual(["P1", "P2", "C1"]);
+    expect(result.repaired_argument.changes).toEqual(REPAIR.changes);
+    expect(result.repaired_argument.remaining_weaknesses).toEqual(["Sprinklers"]);
+    expect(result.mermaid.repaired).toContain("class P2 implicit");
+    expect(result.repair_error).toBeUndefined();
+
+    const prompt = userMessage(llm, 2);
+    const map = JSON.parse(prompt.substring(prompt.indexOf("Argument map:\n") + 14, prompt.indexOf("\n\nIssues:\n")));
+    expect(map.edges.map(edge => edge.id)).toEqual(["E1", "E2"]);
+    expect(map.edges[1].fallacies[0].name).toBe("affirming_the_consequent");
+    expect(JSON.parse(prompt.substring(prompt.indexOf("\n\nIssues:\n") + 10))).toHaveLength(5);
+  });
+
+  it("shortens texts, never ids, to fit a long argument in the repair prompt", async () => {
+    const long = "word ".repeat(1000);
+    const map = {
+      nodes: [
+        { id: "a", kind: "premise", text: long },
+        { id: "b", kind: "premise", text: long },
+        { id: "c", kind: "conclusion", text: long }
+      ],
+      edges: [{ from: "a", to: "c" }, { from: "b", to: "c" }]
+    };
+    const llm = argumentFake(() => map, () => ({}), () => REPAIR);
+    await debugArgument({ llm }, input);
+
+    const prompt = userMessage(llm, 2);
+    const json = prompt.substring(prompt.indexOf("Argument map:\n") + 14, prompt.indexOf("\n\nIssues:\n"));
+    expect(json.length).toBeLessThanOrEqual(TRACE_CHARS / 2);
+    const graph = JSON.parse(json);
+    expect(graph.nodes.map(node => node.id)).toEqual(["P1", "P2", "C1"]);
+    expect(graph.edges).toHaveLength(2);
+    expect(graph.nodes[0].text.endsWith("…")).toBe(true);
+  });
+
+  it("keeps the map and the audit when the repair fails", async () => {
+    const broken = { nodes: [{ id: "a", kind: "premise", text: "Only a premise" }] };
+    const result = await debugArgument({ llm: argumentFake(() => MAP, () => AUDIT, () => broken) }, input);
+
+    expect(result.repaired_argument).toBeNull();
+    expect(result.repair_error).toBe("No conclusion found in the argument");
+    expect(result.mermaid.repaired).toBeNull();
+    expect(result.issues).toHaveLength(5);
+    expect(result.argument_graph.nodes).toHaveLength(4);
+  });
+
+  it("rethrows a repair failure caused by cancellation", async () => {
+    const controller = new AbortController();
+    const repair = () => {
+      controller.abort();
+      return { nodes: [{ id: "a", kind: "premise", text: "Cut short" }] };
+    };
+    const run = { llm: argumentFake(() => MAP, () => AUDIT, repair), signal: controller.signal };
+
+    await expect(debugArgument(run, input)).rejects.toThrow("No conclusion found in the argument");
+  });
+
+  it("fails when the argument has no conclusion", async () => {
+    const map = { nodes: [{ id: "a", kind: "premise", text: "Just a claim" }] };
+    await expect(debugArgument({ llm: argumentFake(() => map, () => AUDIT, () => REPAIR) }, input)).rejects.toThrow("No conclusion found");
+  });
+});
+
+describe("toMermaid", () => {
+  it("draws each kind of node with its own shape", () => {
+    const chart = toMermaid({
+      nodes: [
+        { id: "P1", kind: "premise", text: "A", implicit: false },
+        { id: "I1", kind: "inference", text: "B", implicit: false },
+        { id: "C1", kind: "conclusion", text: "C", implicit: false }
+      ],
+      edges: [{ id: "E1", from: "P1", to: "I1" }, { id: "E2", from: "I1", to: "C1" }]
+    });
+
+    expect(chart.split("\n")).toEqual([
+      "flowchart TD",
+      `  P1["P1: A"]`,
+      `  I1("I1: B")`,
+      `  C1{{"C1: C"}}`,
+      "  P1 --> I1",
+      "  I1 --> C1"
+    ]);
+  });
+});
+
+describe("mermaidText", () => {
+  it("flattens, shortens and escapes quotes", () => {
+    expect(mermaidText("say  \"no\"\n now")).toBe("say #quot;no#quot; now");
+    expect(mermaidText("x".repeat(200))).toHaveLength(120);
+  });
+});
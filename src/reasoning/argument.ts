@@ -0,0 +1,407 @@
+import { z } from "zod";
+
+import { Score, StrategyInput, StrategyRun, TRACE_CHARS, TextList, ask, mean } from "./prompting.js";
+
+/**
+ * 🕸️ Argument Mapping
+ * Backs debug_logic. The argument is parsed into a graph of premises,
+ * inferences and conclusions, where each edge says "this node supports that
+ * one". An auditor prompt then checks every edge for named fallacies and
+ * unsupported leaps and every premise for acceptability, and a repair prompt
+ * rewrites the argument to fix what was found. Both graphs are rendered as
+ * Mermaid flowcharts.
+ */
+
+export const FALLACIES = [
+  "affirming_the_consequent",
+  "denying_the_antecedent",
+  "hasty_generalization",
+  "false_cause",
+  "slippery_slope",
+  "false_dilemma",
+  "circular_reasoning",
+  "equivocation",
+  "composition_division",
+  "appeal_to_authority",
+  "appeal_to_popularity",
+  "appeal_to_ignorance",
+  "ad_hominem",
+  "straw_man",
+  "red_herring",
+  "sunk_cost",
+  "non_sequitur",
+  "other"
+] as const;
+
+export type Fallacy = typeof FALLACIES[number];
+
+const NODE_KINDS = ["premise", "inference", "conclusion"] as const;
+
+export interface ArgumentNode {
+  id: string; // P1, I1, C1...
+  kind: typeof NODE_KINDS[number];
+  text: string;
+  implicit: boolean; // Unstated, but the argument needs it
+  acceptable?: boolean; // Premises, once audited
+  note?: string;
+}
+
+export interface ArgumentEdge {
+  id: string; // E1, E2...
+  from: string;
+  to: string;
+  strength?: number | null; // Null when the auditor skipped the edge
+  fallacies?: z.infer<typeof AuditSchema>["edges"][number]["fallacies"];
+  unsupported_leap?: boolean;
+  missing_premise?: string | null;
+}
+
+export interface ArgumentGraph {
+  nodes: ArgumentNode[];
+  edges: ArgumentEdge[];
+}
+
+export interface ArgumentIssue {
+  location: string; // Node or edge id
+  kind: "fallacy" | "unsupported_leap" | "unacceptable_premise" | "unsupported_claim" | "disconnected";
+  name?: Fallacy;
+  explanation: string;
+}
+
+type Repair = z.infer<typeof RepairSchema>;
+
+export interface ArgumentDebugResult {
+  argument_graph: ArgumentGraph;
+  issues: ArgumentIssue[];
+  repaired_argument: {
+    graph: ArgumentGraph;
+    changes: Repair["changes"];
+    remaining_weaknesses: string[];
+  } | null; // null when the repair failed; repair_error says why
+  repair_error?: string;
+  mermaid: { argument: string; repaired: string | null };
+  logic_quality_score: number;
+}
+
+const GraphSchema = z.object({
+  nodes: z.array(z.object({
+    id: z.string(),
+    kind: z.enum(NODE_KINDS),
+    text: z.string(),
+    implicit: z.boolean().default(false).describe("True for premises the argument relies on without stating")
+  })).min(1),
+  edges: z.array(z.object({
+    from: z.string().describe("Id of the supporting node"),
+    to: z.string().describe("Id of the node it supports")
+  })).default([])
+});
+
+const AuditSchema = z.object({
+  edges: z.array(z.object({
+    edge: z.string().describe("Edge id"),
+    strength: Score.describe("How strongly the source, together with the other sources of the same target, supports the target"),
+    fallacies: z.array(z.object({ name: z.enum(FALLACIES), explanation: z.string() })).default([]),
+    unsupported_leap: z.boolean().default(false).describe("The target does not follow without an unstated premise"),
+    missing_premise: z.string().nullable().default(null)
+  })).default([]),
+  premises: z.array(z.object({
+    node: z.string().describe("Premise id"),
+    acceptable: z.boolean().describe("True, or reasonable to accept without further support"),
+    note: z.string().default("")
+  })).default([])
+});
+
+const RepairSchema = GraphSchema.extend({
+  changes: z.array(z.object({
+    change: z.string(),
+    addresses: z.array(z.string()).default([]).describe("Ids of the edges and nodes this change fixes")
+  })).default([]),
+  remaining_weaknesses: TextList
+});
+
+const MAP_INSTRUCTIONS = "You map arguments. Split the argument in the problem into premises (claims accepted without support), inferences (intermediate claims derived from others) and conclusions (what the argument sets out to establish). Add the unstated premises the argument relies on, marked implicit. Connect every supporting node to each node it supports. Paraphrase tightly; do not strengthen or weaken the argument.";
+
+const AUDIT_INSTRUCTIONS = `You audit argument maps. For every edge, judge whether the source supports the target, reading all edges into the same target together. Name fallacies only when they apply, from: ${FALLACIES.join(", ")}. Flag an unsupported leap when the target needs a premise the map does not contain, and state that premise. For every premise, judge whether it is acceptable without further support, using the context and evidence provided.`;
+
+const REPAIR_INSTRUCTIONS = "You repair arguments. Rewrite the argument map so every edge is valid: drop or qualify unacceptable premises, add the missing premises, replace fallacious inferences, and weaken the conclusion if nothing stronger can be supported. Keep what already works. List each change with the ids it addresses, and any weakness that cannot be repaired.";
+
+const MERMAID_LABEL_CHARS = 120;
+const PROMPT_TEXT_CHARS = [400, 200, 100, 50]; // Successively shorter node texts, until the map fits a prompt
+
+export async function debugArgument(run: StrategyRun, input: StrategyInput): Promise<ArgumentDebugResult> {
+  const graph = normalizeGraph(await ask(run, input, {
+    instructions: MAP_INSTRUCTIONS,
+    task: "Map the argument.",
+    schema: GraphSchema,
+    temperature: 0
+  }));
+
+  const audit = await ask(run, input, {
+    instructions: AUDIT_INSTRUCTIONS,
+    task: `Argument map:\n${graphJson(graph, TRACE_CHARS)}`,
+    schema: AuditSchema,
+    temperature: 0
+  });
+  const issues = applyAudit(graph, audit);
+
+  const result: ArgumentDebugResult = {
+    argument_graph: graph,
+    issues,
+    repaired_argument: null,
+    mermaid: { argument: toMermaid(graph), repaired: null },
+    logic_quality_score: qualityScore(graph)
+  };
+
+  // A failed repair still leaves the map and the audit worth returning
+  try {
+    const repair = await ask(run, input, {
+      instructions: REPAIR_INSTRUCTIONS,
+      task: `Argument map:\n${graphJson(graph, TRACE_CHARS / 2)}\n\nIssues:\n${issuesJson(issues, TRACE_CHARS / 2)}`,
+      schema: RepairSchema
+    });
+    const repaired = normalizeGraph(repair);
+
+    result.repaired_argument = {
+      graph: repaired,
+      changes: repair.changes,
+      remaining_weaknesses: repair.remaining_weaknesses
+    };
+    result.mermaid.repaired = toMermaid(repaired);
+  } catch (error) {
+    if (run.signal?.aborted) {
+      throw error;
+    }
+    result.repair_error = error instanceof Error ? error.message : "Unknown error";
+  }
+
+  return result;
+}
+
+/**
+ * The whole graph, nodes and edges, as JSON of at most maxChars where node
+ * texts and explanations can be shortened enough. Ids are never cut, so every
+ * issue's location can still be found in the map.
+ */
+function graphJson(graph: ArgumentGraph, maxChars: number): string {
+  let json = JSON.stringify(graph);
+
+  for (const chars of PROMPT_TEXT_CHARS) {
+    if (json.length <= maxChars) {
+      break;
+    }
+    const shorten = (text: string) => (text && text.length > chars ? `${text.substring(0, chars - 1)}…` : text);
+    json = JSON.stringify({
+      nodes: graph.nodes.map(node => ({ ...node, text: shorten(node.text), note: shorten(node.note) })),
+      edges: graph.edges.map(edge => ({
+        ...edge,
+        fallacies: edge.fallacies?.map(fallacy => ({ ...fallacy, explanation: shorten(fallacy.explanation) })),
+        missing_premise: shorten(edge.missing_premise)
+      }))
+    });
+  }
+
+  return json;
+}
+
+/**
+ * As many whole issues as fit in maxChars, in order
+ */
+function issuesJson(issues: ArgumentIssue[], maxChars: number): string {
+  let kept = issues;
+  while (kept.length > 1 && JSON.stringify(kept).length > maxChars) {
+    kept = kept.slice(0, -1);
+  }
+  return JSON.stringify(kept);
+}
+
+/**
+ * Renumbers nodes by kind (P1, I1, C1) and edges (E1), dropping duplicate
+ * nodes and edges, self-loops and edges to unknown nodes. Model-chosen ids are
+ * not trusted: they are neither unique nor safe as Mermaid identifiers.
+ */
+function normalizeGraph(parsed: z.infer<typeof GraphSchema>): ArgumentGraph {
+  const ids = new Map<string, string>();
+  const counts = { premise: 0, inference: 0, conclusion: 0 };
+  const nodes: ArgumentNode[] = [];
+
+  for (const node of parsed.nodes) {
+    if (ids.has(node.id)) {
+      continue;
+    }
+    const id = `${node.kind[0].toUpperCase()}${++counts[node.kind]}`;
+    ids.set(node.id, id);
+    nodes.push({ id, kind: node.kind, text: node.text, implicit: node.implicit });
+  }
+
+  if (counts.conclusion === 0) {
+    throw new Error("No conclusion found in the argument");
+  }
+
+  const seen = new Set<string>();
+  const edges: ArgumentEdge[] = [];
+  for (const edge of parsed.edges) {
+    const from = ids.get(edge.from);
+    const to = ids.get(edge.to);
+    if (!from || !to || from === to || seen.has(`${from}>${to}`)) {
+      continue;
+    }
+    seen.add(`${from}>${to}`);
+    edges.push({ id: `E${edges.length + 1}`, from, to });
+  }
+
+  return { nodes, edges };
+}
+
+/**
+ * Copies the audit onto the graph, adds the structural problems the auditor
+ * does not see (cycles, unsupported and disconnected claims), and lists every issue
+ */
+function applyAudit(graph: ArgumentGraph, audit: z.infer<typeof AuditSchema>): ArgumentIssue[] {
+  const issues: ArgumentIssue[] = [];
+
+  for (const edge of graph.edges) {
+    const finding = audit.edges.find(entry => entry.edge === edge.id);
+    edge.strength = finding?.strength ?? null;
+    edge.fallacies = finding?.fallacies || [];
+    edge.unsupported_leap = finding?.unsupported_leap || false;
+    edge.missing_premise = finding?.missing_premise ?? null;
+  }
+
+  for (const edge of cycleEdges(graph)) {
+    if (!edge.fallacies.some(fallacy => fallacy.name === "circular_reasoning")) {
+      edge.fallacies.push({ name: "circular_reasoning", explanation: `${edge.to} is used, directly or indirectly, to support ${edge.from}` });
+    }
+  }
+
+  for (const edge of graph.edges) {
+    for (const fallacy of edge.fallacies) {
+      issues.push({ location: edge.id, kind: "fallacy", name: fallacy.name, explanation: fallacy.explanation });
+    }
+    if (edge.unsupported_leap) {
+      issues.push({
+        location: edge.id,
+        kind: "unsupported_leap",
+        explanation: edge.missing_premise ? `Needs the unstated premise: ${edge.missing_premise}` : `${edge.to} does not follow from ${edge.from}`
+      });
+    }
+  }
+
+  const supporting = reachesConclusion(graph);
+  for (const node of graph.nodes) {
+    if (node.kind === "premise") {
+      const finding = audit.premises.find(entry => entry.node === node.id);
+      node.acceptable = finding?.acceptable ?? true;
+      node.note = finding?.note || undefined;
+      if (!node.acceptable) {
+        issues.push({ location: node.id, kind: "unacceptable_premise", explanation: node.note || `${node.id} should not be accepted without support` });
+      }
+    } else if (!graph.edges.some(edge => edge.to === node.id)) {
+      issues.push({ location: node.id, kind: "unsupported_claim", explanation: `Nothing in the argument supports this ${node.kind}` });
+    }
+    if (node.kind !== "conclusion" && !supporting.has(node.id)) {
+      issues.push({ location: node.id, kind: "disconnected", explanation: "Does not lead to any conclusion" });
+    }
+  }
+
+  return issues;
+}
+
+// Edges that lie on a cycle: their target also reaches their source
+function cycleEdges(graph: ArgumentGraph): ArgumentEdge[] {
+  const reaches = (start: string, goal: string) => {
+    const stack = [start];
+    const visited = new Set<string>();
+    while (stack.length) {
+      const current = stack.pop();
+      if (current === goal) {
+        return true;
+      }
+      if (!visited.has(current)) {
+        visited.add(current);
+        stack.push(...graph.edges.filter(edge => edge.from === current).map(edge => edge.to));
+      }
+    }
+    return false;
+  };
+  return graph.edges.filter(edge => reaches(edge.to, edge.from));
+}
+
+// Ids of the nodes with a path to some conclusion
+function reachesConclusion(graph: ArgumentGraph): Set<string> {
+  const reached = new Set(graph.nodes.filter(node => node.kind === "conclusion").map(node => node.id));
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const edge of graph.edges) {
+      if (reached.has(edge.to) && !reached.has(edge.from)) {
+        reached.add(edge.from);
+        grew = true;
+      }
+    }
+  }
+  return reached;
+}
+
+/**
+ * Mean strength of the audited edges, scaled by the share of acceptable premises
+ */
+function qualityScore(graph: ArgumentGraph): number {
+  const strengths = graph.edges
+    .filter(edge => edge.strength !== null)
+    .map(edge => (edge.fallacies.length || edge.unsupported_leap ? Math.min(edge.strength, 0.5) : edge.strength));
+  const premises = graph.nodes.filter(node => node.kind === "premise");
+  const acceptable = premises.length ? premises.filter(node => node.acceptable !== false).length / premises.length : 1;
+  return (strengths.length ? mean(strengths) : 0) * acceptable;
+}
+
+/**
+ * Flowchart with premises as boxes, inferences as rounded boxes and conclusions
+ * as hexagons. Implicit premises are dashed; flagged edges are dotted, red and
+ * labelled with their fallacies.
+ */
+export function toMermaid(graph: ArgumentGraph): string {
+  const shapes = { premise: ["[", "]"], inference: ["(", ")"], conclusion: ["{{", "}}"] };
+  const lines = ["flowchart TD"];
+
+  for (const node of graph.nodes) {
+    const [open, close] = shapes[node.kind];
+    lines.push(`  ${node.id}${open}"${node.id}: ${mermaidText(node.text)}"${close}`);
+  }
+
+  const flagged: number[] = [];
+  graph.edges.forEach((edge, index) => {
+    const labels = [
+      ...(edge.fallacies || []).map(fallacy => fallacy.name.replace(/_/g, " ")),
+      ...(edge.unsupported_leap ? ["unsupported leap"] : [])
+    ];
+    if (labels.length) {
+      flagged.push(index);
+      lines.push(`  ${edge.from} -.->|"${mermaidText(labels.join(", "))}"| ${edge.to}`);
+    } else {
+      lines.push(`  ${edge.from} --> ${edge.to}`);
+    }
+  });
+
+  const implicit = graph.nodes.filter(node => node.implicit).map(node => node.id);
+  const rejected = graph.nodes.filter(node => node.acceptable === false).map(node => node.id);
+  if (implicit.length) {
+    lines.push("  classDef implicit stroke-dasharray: 5 5", `  class ${implicit.join(",")} implicit`);
+  }
+  if (rejected.length) {
+    lines.push("  classDef rejected stroke:#d33,stroke-width:2px", `  class ${rejected.join(",")} rejected`);
+  }
+  if (flagged.length) {
+    lines.push(`  linkStyle ${flagged.join(",")} stroke:#d33,stroke-width:2px`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Flattened, shortened and quote-escaped, for use inside a quoted Mermaid label
+ */
+export function mermaidText(text: string): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  const short = flat.length > MERMAID_LABEL_CHARS ? `${flat.substring(0, MERMAID_LABEL_CHARS - 1)}…` : flat;
+  return short.replace(/"/g, "#quot;");
+}
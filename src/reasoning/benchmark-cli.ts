@@ -0,0 +1,135 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+
+import { systemClock } from "../agents/tool-context.js";
+import { LlmSelectionSchema } from "../llm/provider.js";
+import { createProvider } from "../llm/registry.js";
+import { CloudflareEnv } from "../server/env.js";
+import { benchmarkFake, BenchmarkReport, compareReports, runBenchmark, runSelfCheck } from "./benchmark.js";
+import { GOLDEN_PROBLEMS } from "./golden-problems.js";
+
+/**
+ * 🏁 Benchmark Runner
+ * Runs the benchmark from a shell, outside the worker:
+ *
+ *   npm run benchmark -- --provider fake
+ *   npm run benchmark -- --provider openai --model gpt-4o-mini --out after.json --baseline before.json
+ *   npm run benchmark -- --self-check
+ *
+ * Providers: fake (benchmarkFake, the deterministic baseline), openai and
+ * anthropic (keys from OPENAI_API_KEY / ANTHROPIC_API_KEY). Workers AI needs
+ * the AI binding, which only exists inside the worker, so it is not offered.
+ * --self-check runs the harness against the golden oracle and fails unless
+ * every strategy is right on every problem.
+ */
+
+const USAGE = `Usage: npm run benchmark -- [options]
+  --provider <fake|openai|anthropic>  LLM provider (default: fake)
+  --model <id>                        Chat model (default: the provider's)
+  --strategies <a,b,...>              Strategies to run (default: all)
+  --problems <id,id,...>              Golden problems to run (default: all)
+  --time-limit <seconds>              Per problem (default: 60)
+  --out <file>                        Write the full report as JSON
+  --baseline <file>                   Print the change from an earlier report
+  --self-check                        Run against the golden oracle
+  --help`;
+
+async function main(): Promise<number> {
+  const { values } = parseArgs({
+    options: {
+      provider: { type: "string", default: "fake" },
+      model: { type: "string" },
+      strategies: { type: "string" },
+      problems: { type: "string" },
+      "time-limit": { type: "string" },
+      out: { type: "string" },
+      baseline: { type: "string" },
+      "self-check": { type: "boolean", default: false },
+      help: { type: "boolean", default: false }
+    }
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const ids = list(values.problems);
+  const unknown = ids.filter(id => !GOLDEN_PROBLEMS.some(problem => problem.id === id));
+  if (unknown.length) {
+    throw new Error(`Unknown golden problem(s): ${unknown.join(", ")}`);
+  }
+
+  const options = {
+    clock: systemClock,
+    strategies: list(values.strategies),
+    problems: GOLDEN_PROBLEMS.filter(problem => ids.includes(problem.id)),
+    timeLimit: values["time-limit"] ? Number(values["time-limit"]) : undefined
+  };
+  const report = values["self-check"]
+    ? await runSelfCheck(options)
+    : await runBenchmark({ ...options, llm: provider(values.provider, values.model) });
+
+  printReport(report);
+  if (values.out) {
+    await writeFile(values.out, JSON.stringify(report, null, 2) + "\n");
+    console.log(`\nReport written to ${values.out}`);
+  }
+  if (values.baseline) {
+    printComparison(JSON.parse(await readFile(values.baseline, "utf8")), report);
+  }
+
+  return report.self_check && report.strategies.some(entry => entry.accuracy < 1 || entry.errors) ? 1 : 0;
+}
+
+function provider(name: string, model?: string) {
+  const selection = LlmSelectionSchema.parse({ provider: name, model });
+  switch (selection.provider) {
+    case "fake":
+      return benchmarkFake(model);
+    case "workers-ai":
+      throw new Error("Workers AI needs the AI binding, which only exists inside the worker; benchmark openai or anthropic instead");
+    default:
+      return createProvider(
+        { OPENAI_API_KEY: process.env.OPENAI_API_KEY, ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY } as CloudflareEnv,
+        selection
+      );
+  }
+}
+
+function printReport(report: BenchmarkReport): void {
+  const label = report.self_check ? " [harness self-check, not a model result]" : "";
+  console.log(`Golden suite v${report.suite_version}: ${report.problems} problems, ${report.provider}/${report.model}${label}`);
+  console.table(report.strategies.map(entry => ({
+    strategy: entry.strategy,
+    accuracy: entry.accuracy,
+    errors: entry.errors,
+    brier: entry.calibration.brier,
+    ece: entry.calibration.ece,
+    overconfidence: entry.calibration.overconfidence,
+    p50_ms: entry.latency_ms.p50,
+    p95_ms: entry.latency_ms.p95
+  })));
+}
+
+function printComparison(baseline: BenchmarkReport, report: BenchmarkReport): void {
+  const comparison = compareReports(baseline, report);
+  console.log(`\nChange from ${comparison.baseline.provider}/${comparison.baseline.model} (${comparison.baseline.started_at}):`);
+  if (!comparison.comparable) {
+    console.warn("Reports are from different suite versions or include a self-check; deltas are not meaningful");
+  }
+  console.table(comparison.strategies);
+}
+
+function list(value?: string): string[] {
+  return value ? value.split(",").map(entry => entry.trim()).filter(Boolean) : [];
+}
+
+main().then(
+  code => {
+    process.exitCode = code;
+  },
+  error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  }
+);
@@ -0,0 +1,153 @@
+import { Clock } from "../agents/tool-context.js";
+import { FakeLlmProvider, schemaReply } from "../llm/fake.js";
+import { ChatMessage } from "../llm/provider.js";
+import { benchmarkFake, compareReports, gradeConclusion, runBenchmark, runSelfCheck } from "./benchmark.js";
+import { GOLDEN_PROBLEMS, GoldenProblem } from "./golden-problems.js";
+
+const problem = (id: string) => GOLDEN_PROBLEMS.find(entry => entry.id === id);
+
+const problems = ["bat_and_ball", "widget_machines", "lily_pads", "sequence"].map(problem);
+
+// Advances 10 ms every time it is read
+function steppingClock(): Clock {
+  let time = 0;
+  return { now: () => (time += 10), isoNow: () => new Date(time).toISOString() };
+}
+
+/**
+ * Answers each problem with a scripted conclusion at a scripted confidence
+ * (every string in a reply is the answer, every number the confidence)
+ */
+function scriptedFake(answers: Record<string, { answer: string; confidence: number }>): FakeLlmProvider {
+  return new FakeLlmProvider((messages, options) => {
+    const prompt = messages.map((message: ChatMessage) => message.content).join("\n");
+    const [, script] = Object.entries(answers).find(([id]) => prompt.includes(problem(id).problem));
+    if (!script.answer) {
+      return "I cannot answer that";
+    }
+    return schemaReply(() => script.answer, script.confidence)(messages, options);
+  });
+}
+
+describe("gradeConclusion", () => {
+  it.each([
+    ["bat_and_ball", "The ball costs 5 cents.", true],
+    ["bat_and_ball", "The ball costs $0.05", true],
+    ["bat_and_ball", "5 cents, not 10 cents", true],
+    ["bat_and_ball", "10 cents, or maybe 5 cents", false],
+    ["bat_and_ball", "15 cents", false],
+    ["widget_machines", "It takes FIVE MINUTES", true],
+    ["valid_syllogism", "The argument is valid", true],
+    ["valid_syllogism", "The argument is invalid", false],
+    ["lily_pads", "Day 470", false],
+    ["lily_pads", "", false]
+  ])("%s: %j is %s", (id, conclusion, correct) => {
+    expect(gradeConclusion(problem(id), conclusion)).toBe(correct);
+  });
+
+  it("ignores currency signs and thousands separators", () => {
+    const custom: GoldenProblem = { id: "x", category: "arithmetic", problem: "?", expected: ["1000 dollars"], distractors: [] };
+    expect(gradeConclusion(custom, "$1,000  dollars")).toBe(true);
+  });
+});
+
+describe("runBenchmark", () => {
+  it("reports accuracy, Brier score, calibration error and over-confidence", async () => {
+    const llm = scriptedFake({
+      bat_and_ball: { answer: "5 cents", confidence: 0.9 },
+      widget_machines: { answer: "5 minutes", confidence: 0.9 },
+      lily_pads: { answer: "24", confidence: 0.9 },
+      sequence: { answer: "40", confidence: 0.3 }
+    });
+    const report = await runBenchmark({ llm, clock: steppingClock(), strategies: ["analytical"], problems });
+    const [analytical] = report.strategies;
+
+    expect(report.self_check).toBe(false);
+    expect(report.problems).toBe(4);
+    expect(analytical).toMatchObject({ strategy: "analytical", runs: 4, errors: 0, accuracy: 0.5, accuracy_by_category: { arithmetic: 0.5 } });
+    expect(analytical.mean_confidence).toBe(0.75);
+    expect(analytical.latency_ms).toEqual({ mean: 10, p50: 10, p95: 10 });
+
+    // Brier: (0.1² + 0.1² + 0.9² + 0.3²) / 4
+    expect(analytical.calibration.brier).toBe(0.23);
+    // ECE: 3/4 of the runs at 0.9 confidence are 2/3 right, 1/4 at 0.3 are all wrong
+    expect(analytical.calibration.ece).toBe(0.25);
+    expect(analytical.calibration.overconfidence).toBe(0.25);
+  });
+
+  it("counts failed runs as wrong and leaves them out of calibration", async () => {
+    const llm = scriptedFake({
+      bat_and_ball: { answer: "5 cents", confidence: 0.8 },
+      widget_machines: { answer: "", confidence: 0 }
+    });
+    const report = await runBenchmark({ llm, clock: steppingClock(), strategies: ["critical"], problems: problems.slice(0, 2) });
+    const [critical] = report.strategies;
+
+    expect(critical).toMatchObject({ errors: 1, accuracy: 0.5, mean_confidence: 0.8 });
+    expect(critical.calibration.brier).toBe(0.04);
+    expect(report.runs[1]).toMatchObject({ problem_id: "widget_machines", correct: false, confidence: null });
+    expect(report.runs[1].error).toContain("returned invalid JSON");
+  });
+
+  it("reports null calibration when every run failed", async () => {
+    const llm = scriptedFake({ bat_and_ball: { answer: "", confidence: 0 } });
+    const report = await runBenchmark({ llm, clock: steppingClock(), strategies: ["critical"], problems: [problem("bat_and_ball")] });
+
+    expect(report.strategies[0].mean_confidence).toBeNull();
+    expect(report.strategies[0].calibration).toEqual({ brier: null, ece: null, overconfidence: null });
+  });
+
+  it("stops when the benchmark is aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(runBenchmark({ llm: benchmarkFake(), clock: steppingClock(), problems, signal: controller.signal })).rejects.toThrow("Operation cancelled");
+  });
+});
+
+describe("runSelfCheck", () => {
+  it("scores every strategy perfectly and is labelled a self-check", async () => {
+    const report = await runSelfCheck({ clock: steppingClock(), problems: [problem("monty_hall"), problem("sunk_cost")] });
+
+    expect(report).toMatchObject({ self_check: true, provider: "fake", model: "golden-oracle" });
+    expect(report.strategies.every(entry => entry.accuracy === 1 && entry.errors === 0)).toBe(true);
+  });
+});
+
+describe("benchmarkFake", () => {
+  it("restates the problem, so repeated runs report the same results", async () => {
+    const options = { clock: steppingClock(), strategies: ["step_by_step", "mcts"], problems: problems.slice(0, 2) };
+    const first = await runBenchmark({ ...options, llm: benchmarkFake() });
+    const second = await runBenchmark({ ...options, llm: benchmarkFake() });
+
+    expect(first.model).toBe("benchmark-fake");
+    expect(first.runs.map(run => run.conclusion)).toEqual([problems[0].problem, problems[1].problem, problems[0].problem, problems[1].problem]);
+    expect(second.runs.map(run => [run.correct, run.confidence])).toEqual(first.runs.map(run => [run.correct, run.confidence]));
+  });
+});
+
+describe("compareReports", () => {
+  it("reports per-strategy deltas for strategies in both reports", async () => {
+    const options = { clock: steppingClock(), strategies: ["analytical"], problems: problems.slice(0, 2) };
+    const baseline = await runBenchmark({ ...options, llm: benchmarkFake() });
+    const current = await runBenchmark({
+      ...options,
+      strategies: ["analytical", "critical"],
+      llm: scriptedFake({ bat_and_ball: { answer: "5 cents", confidence: 0.9 }, widget_machines: { answer: "5 minutes", confidence: 0.9 } })
+    });
+
+    // The baseline restates the problems: "5 minutes" is in the widget problem, nothing right is in the other
+    const comparison = compareReports(baseline, current);
+    expect(comparison.comparable).toBe(true);
+    expect(comparison.strategies).toEqual([
+      { strategy: "analytical", accuracy: 0.5, brier: -0.33, ece: -0.2, latency_p50_ms: 0 }
+    ]);
+  });
+
+  it("marks self-checks as not comparable", async () => {
+    const options = { clock: steppingClock(), strategies: ["analytical"], problems: problems.slice(0, 1) };
+    const report = await runBenchmark({ ...options, llm: benchmarkFake() });
+
+    expect(compareReports(await runSelfCheck(options), report).comparable).toBe(false);
+  });
+});
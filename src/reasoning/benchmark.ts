@@ -0,0 +1,292 @@
+import { Clock } from "../agents/tool-context.js";
+import { ToolUtils } from "../agents/mcp.js";
+import { FakeLlmProvider, schemaReply } from "../llm/fake.js";
+import { ChatMessage, LlmProvider } from "../llm/provider.js";
+import { GOLDEN_PROBLEMS, GOLDEN_SUITE_VERSION, GoldenProblem } from "./golden-problems.js";
+import { mean } from "./prompting.js";
+import { REASONING_STRATEGIES, runStrategy } from "./strategies.js";
+
+/**
+ * 📏 Reasoning Benchmark
+ * Runs the golden problems through each reasoning strategy, the same pipelines
+ * the Unified Reasoner runs, and reports per strategy:
+ * - accuracy: conclusions graded against the expected answers (errors count as wrong)
+ * - latency: mean, p50 and p95 wall time per problem
+ * - calibration: Brier score, expected calibration error and over-confidence of
+ *   the strategy's confidence against whether it was right
+ * Problems run one at a time so latencies are comparable between strategies.
+ * Run it with benchmark-cli.ts (`npm run benchmark`).
+ */
+
+export interface BenchmarkOptions {
+  llm: LlmProvider;
+  clock: Clock;
+  strategies?: string[]; // Default: every strategy
+  problems?: GoldenProblem[]; // Default: the whole suite
+  timeLimit?: number; // Seconds per problem
+  signal?: AbortSignal;
+}
+
+export interface BenchmarkRun {
+  strategy: string;
+  problem_id: string;
+  correct: boolean;
+  confidence: number | null; // null when the strategy failed
+  latency_ms: number;
+  conclusion?: string;
+  error?: string;
+}
+
+export interface StrategyReport {
+  strategy: string;
+  runs: number;
+  errors: number;
+  accuracy: number;
+  accuracy_by_category: Record<string, number>;
+  mean_confidence: number | null;
+  latency_ms: { mean: number; p50: number; p95: number };
+  calibration: {
+    brier: number | null; // Mean squared error of confidence against correctness; lower is better
+    ece: number | null; // Expected calibration error over CALIBRATION_BINS confidence bins
+    overconfidence: number | null; // Mean confidence minus accuracy, over completed runs
+  };
+}
+
+export interface BenchmarkReport {
+  suite_version: string;
+  self_check: boolean; // Answered by the golden oracle: checks the harness, says nothing about a model
+  provider: string;
+  model: string;
+  started_at: string;
+  duration_ms: number;
+  problems: number;
+  strategies: StrategyReport[]; // Most accurate first
+  runs: BenchmarkRun[];
+}
+
+export interface StrategyDelta {
+  strategy: string;
+  accuracy: number; // Current minus baseline; positive is better
+  brier: number | null; // Negative is better
+  ece: number | null; // Negative is better
+  latency_p50_ms: number;
+}
+
+export interface BenchmarkComparison {
+  comparable: boolean; // Same suite version, and neither report is a self-check
+  baseline: { provider: string; model: string; started_at: string };
+  strategies: StrategyDelta[]; // Strategies present in both reports
+}
+
+export const DEFAULT_BENCHMARK_TIME_LIMIT = 60;
+
+const CALIBRATION_BINS = 5;
+
+export async function runBenchmark(options: BenchmarkOptions): Promise<BenchmarkReport> {
+  const { llm, clock, signal } = options;
+  const strategies = options.strategies?.length ? options.strategies : [...REASONING_STRATEGIES];
+  const problems = options.problems?.length ? options.problems : GOLDEN_PROBLEMS;
+  const timeLimit = (options.timeLimit || DEFAULT_BENCHMARK_TIME_LIMIT) * 1000;
+  const startedAt = clock.isoNow();
+  const start = clock.now();
+  const runs: BenchmarkRun[] = [];
+
+  for (const strategy of strategies) {
+    for (const problem of problems) {
+      ToolUtils.throwIfAborted(signal);
+      const runStart = clock.now();
+
+      try {
+        const result = await ToolUtils.withTimeout(
+          runStrategy(strategy, { llm, signal, deadline: runStart + timeLimit, clock }, {
+            problem: problem.problem,
+            context: problem.context
+          }),
+          timeLimit,
+          `${strategy} timed out`,
+          signal
+        );
+        runs.push({
+          strategy,
+          problem_id: problem.id,
+          correct: gradeConclusion(problem, result.conclusion),
+          confidence: result.confidence,
+          latency_ms: clock.now() - runStart,
+          conclusion: result.conclusion
+        });
+      } catch (error) {
+        ToolUtils.throwIfAborted(signal);
+        runs.push({
+          strategy,
+          problem_id: problem.id,
+          correct: false,
+          confidence: null,
+          latency_ms: clock.now() - runStart,
+          error: error instanceof Error ? error.message : "Unknown error"
+        });
+      }
+    }
+  }
+
+  return {
+    suite_version: GOLDEN_SUITE_VERSION,
+    self_check: false,
+    provider: llm.name,
+    model: llm.model,
+    started_at: startedAt,
+    duration_ms: clock.now() - start,
+    problems: problems.length,
+    strategies: strategies
+      .map(strategy => strategyReport(strategy, runs.filter(run => run.strategy === strategy), problems))
+      .sort((a, b) => b.accuracy - a.accuracy),
+    runs
+  };
+}
+
+/**
+ * Correct when the first answer the conclusion states is an expected one:
+ * of all expected and distractor phrases, the one matched earliest wins, so
+ * "5 cents, not 10 cents" is right and "10 cents" is wrong
+ */
+export function gradeConclusion(problem: GoldenProblem, conclusion: string): boolean {
+  const text = normalizeAnswer(conclusion || "");
+  const firstMatch = (phrases: string[]) => Math.min(...phrases.map(phrase => {
+    const match = phrasePattern(normalizeAnswer(phrase)).exec(text);
+    return match ? match.index : Infinity;
+  }));
+
+  const expected = firstMatch(problem.expected);
+  return expected !== Infinity && expected <= firstMatch(problem.distractors);
+}
+
+/**
+ * Runs the suite against the golden oracle, a fake that writes the expected
+ * answer of the problem in the prompt into every string at confidence 0.8.
+ * Every strategy must come out at accuracy 1 with no errors; anything else is
+ * a harness, grading or pipeline bug. The report is marked self_check.
+ */
+export async function runSelfCheck(options: Omit<BenchmarkOptions, "llm">): Promise<BenchmarkReport> {
+  const problems = options.problems?.length ? options.problems : GOLDEN_PROBLEMS;
+  const answer = (messages: ChatMessage[]) => {
+    const prompt = messages.map(message => message.content).join("\n");
+    return problems.find(problem => prompt.includes(problem.problem))?.expected[0] || "unknown";
+  };
+
+  const report = await runBenchmark({ ...options, llm: new FakeLlmProvider(schemaReply(answer), "golden-oracle") });
+  return { ...report, self_check: true };
+}
+
+/**
+ * The deterministic fake a benchmark runs against for provider "fake": every
+ * reply is valid for its schema, every string restates the problem and every
+ * score is 0.8. It knows no answers, so its accuracy is what text matching
+ * grants a model that only parrots the question; since it is identical from
+ * run to run, a change in its report means a pipeline or its grading changed.
+ */
+export function benchmarkFake(model = "benchmark-fake"): FakeLlmProvider {
+  const restate = (messages: ChatMessage[]) => {
+    const brief = [...messages].reverse().find(message => message.role === "user")?.content || "";
+    return /## Problem\n([^\n]*)/.exec(brief)?.[1] || brief.substring(0, 200);
+  };
+  return new FakeLlmProvider(schemaReply(restate), model);
+}
+
+/**
+ * Per-strategy change from a baseline report, e.g. the same provider before a prompt change
+ */
+export function compareReports(baseline: BenchmarkReport, current: BenchmarkReport): BenchmarkComparison {
+  const delta = (after: number | null, before: number | null) => (after === null || before === null ? null : round(after - before));
+
+  return {
+    comparable: baseline.suite_version === current.suite_version && !baseline.self_check && !current.self_check,
+    baseline: { provider: baseline.provider, model: baseline.model, started_at: baseline.started_at },
+    strategies: current.strategies.flatMap(report => {
+      const before = baseline.strategies.find(entry => entry.strategy === report.strategy);
+      return before
+        ? [{
+            strategy: report.strategy,
+            accuracy: round(report.accuracy - before.accuracy),
+            brier: delta(report.calibration.brier, before.calibration.brier),
+            ece: delta(report.calibration.ece, before.calibration.ece),
+            latency_p50_ms: report.latency_ms.p50 - before.latency_ms.p50
+          }]
+        : [];
+    })
+  };
+}
+
+function strategyReport(strategy: string, runs: BenchmarkRun[], problems: GoldenProblem[]): StrategyReport {
+  const completed = runs.filter(run => run.confidence !== null);
+  const latencies = runs.map(run => run.latency_ms).sort((a, b) => a - b);
+  const categories = [...new Set(problems.map(problem => problem.category))];
+
+  return {
+    strategy,
+    runs: runs.length,
+    errors: runs.length - completed.length,
+    accuracy: round(accuracy(runs)),
+    accuracy_by_category: Object.fromEntries(categories.map(category => {
+      const ids = new Set(problems.filter(problem => problem.category === category).map(problem => problem.id));
+      return [category, round(accuracy(runs.filter(run => ids.has(run.problem_id))))];
+    })),
+    mean_confidence: completed.length ? round(mean(completed.map(run => run.confidence))) : null,
+    latency_ms: {
+      mean: Math.round(mean(latencies)),
+      p50: percentile(latencies, 0.5),
+      p95: percentile(latencies, 0.95)
+    },
+    calibration: completed.length
+      ? {
+          brier: round(mean(completed.map(run => (run.confidence - Number(run.correct)) ** 2))),
+          ece: round(expectedCalibrationError(completed)),
+          overconfidence: round(mean(completed.map(run => run.confidence)) - accuracy(completed))
+        }
+      : { brier: null, ece: null, overconfidence: null }
+  };
+}
+
+/**
+ * Runs binned by confidence; the gap between mean confidence and accuracy in
+ * each bin, weighted by the bin's share of runs
+ */
+function expectedCalibrationError(runs: BenchmarkRun[]): number {
+  const bins: BenchmarkRun[][] = Array.from({ length: CALIBRATION_BINS }, () => []);
+  for (const run of runs) {
+    bins[Math.min(CALIBRATION_BINS - 1, Math.floor(run.confidence * CALIBRATION_BINS))].push(run);
+  }
+
+  return bins.reduce((sum, bin) => {
+    if (!bin.length) return sum;
+    const gap = Math.abs(mean(bin.map(run => run.confidence)) - accuracy(bin));
+    return sum + (bin.length / runs.length) * gap;
+  }, 0);
+}
+
+function accuracy(runs: BenchmarkRun[]): number {
+  return runs.length ? runs.filter(run => run.correct).length / runs.length : 0;
+}
+
+// Nearest-rank percentile of sorted values
+function percentile(sorted: number[], fraction: number): number {
+  return sorted.length ? sorted[Math.max(0, Math.ceil(fraction * sorted.length) - 1)] : 0;
+}
+
+// Lowercase, no currency signs or thousands separators, single spaces
+function normalizeAnswer(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[$€£]/g, "")
+    .replace(/(\d),(?=\d{3}\b)/g, "$1")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Whole-word match; numbers must not be part of a longer number ("5" is not in "0.05" or "15")
+function phrasePattern(phrase: string): RegExp {
+  const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(?<![\\w.])${escaped}(?![\\w]|\\.\\d)`);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,78 @@
+import { FakeLlmProvider, schemaReply } from "../llm/fake.js";
+import { ChainSample, clusterAnswers, sampleChain } from "./consistency.js";
+
+function samples(...answers: string[]): ChainSample[] {
+  return answers.map((answer, index) => ({
+    sample_id: index + 1,
+    reasoning_steps: ["..."],
+    final_answer: answer,
+    self_reported_confidence: 0.5
+  }));
+}
+
+// A provider without embeddings, whose grouping call returns `groups`
+function groupingFake(groups: number[][]): FakeLlmProvider {
+  const llm = new FakeLlmProvider(() => JSON.stringify({ groups }));
+  jest.spyOn(llm, "embed").mockRejectedValue(new Error("no embeddings API"));
+  return llm;
+}
+
+describe("sampleChain", () => {
+  it("samples one chain of thought at a high temperature", async () => {
+    const llm = new FakeLlmProvider(schemaReply(() => "42", 0.6));
+    const sample = await sampleChain({ llm }, { problem: "What is 6 x 7?" }, 3);
+
+    expect(sample).toEqual({ sample_id: 3, reasoning_steps: ["42"], final_answer: "42", self_reported_confidence: 0.6 });
+    expect(llm.calls[0].options.temperature).toBe(0.8);
+  });
+});
+
+describe("clusterAnswers", () => {
+  it("groups equivalent answers by embedding similarity, largest cluster first", async () => {
+    const clustering = await clusterAnswers(
+      new FakeLlmProvider(),
+      samples("Use a cache", "Buy more servers", "use a CACHE", "Use a cache.")
+    );
+
+    expect(clustering.method).toBe("embeddings");
+    expect(clustering.clusters).toEqual([
+      { cluster_id: 1, size: 3, share: 0.75, representative_answer: "Use a cache", sample_ids: [1, 3, 4] },
+      { cluster_id: 2, size: 1, share: 0.25, representative_answer: "Buy more servers", sample_ids: [2] }
+    ]);
+  });
+
+  it("never merges answers that quote different numbers", async () => {
+    const clustering = await clusterAnswers(new FakeLlmProvider(), samples("The answer is 42", "The answer is 43", "The answer is 42"));
+
+    expect(clustering.clusters.map(cluster => cluster.sample_ids)).toEqual([[1, 3], [2]]);
+  });
+
+  it("asks the model to group answers when the provider has no embeddings", async () => {
+    const llm = groupingFake([[1, 3], [2]]);
+    const clustering = await clusterAnswers(llm, samples("Switch doors", "Stay", "Switching is better"));
+
+    expect(clustering.method).toBe("llm");
+    expect(clustering.clusters.map(cluster => cluster.sample_ids)).toEqual([[1, 3], [2]]);
+    expect(llm.calls[0].messages[llm.calls[0].messages.length - 1].content).toBe("1. Switch doors\n2. Stay\n3. Switching is better");
+  });
+
+  it("keeps the first placement of each answer and leaves unplaced answers alone", async () => {
+    const llm = groupingFake([[2, 9], [0, 2, 1]]);
+    const clustering = await clusterAnswers(llm, samples("a", "b", "c", "d"));
+
+    expect(clustering.clusters.map(cluster => cluster.sample_ids)).toEqual([[2], [1], [3], [4]]);
+    expect(clustering.clusters.reduce((sum, cluster) => sum + cluster.share, 0)).toBeCloseTo(1);
+  });
+
+  it("does not fall back once the call is aborted", async () => {
+    const controller = new AbortController();
+    const llm = new FakeLlmProvider();
+    jest.spyOn(llm, "embed").mockImplementation(async () => {
+      controller.abort();
+      throw new Error("embed interrupted");
+    });
+
+    await expect(clusterAnswers(llm, samples("a", "b"), controller.signal)).rejects.toThrow("embed interrupted");
+    expect(llm.calls).toHaveLength(0);
+  });
+});
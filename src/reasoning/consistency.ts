@@ -0,0 +1,150 @@
+import { z } from "zod";
+
+import { LlmProvider } from "../llm/provider.js";
+import { Score, StrategyInput, StrategyRun, ask, cosine } from "./prompting.js";
+
+/**
+ * 🗳️ Self-Consistency
+ * Samples independent chain-of-thought answers to the same problem at a high
+ * temperature, groups answers that say the same thing, and treats the share of
+ * samples in the largest group (the agreement ratio) as the confidence signal.
+ */
+
+export const DEFAULT_SAMPLES = 5;
+
+const SAMPLE_TEMPERATURE = 0.8;
+const SAME_ANSWER_SIMILARITY = 0.85; // Cosine similarity for two answers to share a cluster
+
+export interface ChainSample {
+  sample_id: number;
+  reasoning_steps: string[];
+  final_answer: string;
+  self_reported_confidence: number;
+}
+
+export interface AnswerCluster {
+  cluster_id: number;
+  size: number;
+  share: number; // Of the completed samples
+  representative_answer: string;
+  sample_ids: number[];
+}
+
+export interface Clustering {
+  method: "embeddings" | "llm";
+  clusters: AnswerCluster[]; // Largest first
+}
+
+const ChainSchema = z.object({
+  reasoning_steps: z.array(z.string()).min(1),
+  final_answer: z.string().describe("The answer alone: one short sentence or value"),
+  confidence: Score
+});
+
+const GroupingSchema = z.object({
+  groups: z.array(z.array(z.number().int()).describe("Numbers of the answers that state the same conclusion"))
+});
+
+/**
+ * One independent chain of thought; samples differ only through temperature
+ */
+export async function sampleChain(run: StrategyRun, input: StrategyInput, sampleId: number): Promise<ChainSample> {
+  const chain = await ask(run, input, {
+    instructions: "Think through the problem on your own, step by step, then commit to a single final answer. State the final answer as one short sentence or value, without hedging or listing alternatives.",
+    task: "Solve the problem.",
+    schema: ChainSchema,
+    temperature: SAMPLE_TEMPERATURE
+  });
+
+  return {
+    sample_id: sampleId,
+    reasoning_steps: chain.reasoning_steps,
+    final_answer: chain.final_answer,
+    self_reported_confidence: chain.confidence
+  };
+}
+
+/**
+ * Groups samples whose final answers agree: by embedding similarity, or by
+ * asking the model when the provider has no embeddings API
+ */
+export async function clusterAnswers(llm: LlmProvider, samples: ChainSample[], signal?: AbortSignal): Promise<Clustering> {
+  const answers = samples.map(sample => sample.final_answer);
+  let groups: number[][];
+  let method: Clustering["method"] = "embeddings";
+
+  try {
+    groups = groupByEmbeddings(answers, await llm.embed(answers, { signal }));
+  } catch (error) {
+    if (signal?.aborted) {
+      throw error;
+    }
+    method = "llm";
+    groups = await groupByModel(llm, answers, signal);
+  }
+
+  const clusters = groups
+    .sort((a, b) => b.length - a.length)
+    .map((members, index) => ({
+      cluster_id: index + 1,
+      size: members.length,
+      share: members.length / samples.length,
+      representative_answer: answers[members[0]],
+      sample_ids: members.map(member => samples[member].sample_id)
+    }));
+
+  return { method, clusters };
+}
+
+/**
+ * Greedy clustering against each cluster's first (representative) answer.
+ * Answers quoting different numbers never match, since embeddings barely separate "42" from "43".
+ */
+function groupByEmbeddings(answers: string[], vectors: number[][]): number[][] {
+  const groups: number[][] = [];
+
+  answers.forEach((answer, index) => {
+    const group = groups.find(members => {
+      const representative = members[0];
+      return sameNumbers(answer, answers[representative]) && cosine(vectors[index], vectors[representative]) >= SAME_ANSWER_SIMILARITY;
+    });
+    if (group) {
+      group.push(index);
+    } else {
+      groups.push([index]);
+    }
+  });
+
+  return groups;
+}
+
+async function groupByModel(llm: LlmProvider, answers: string[], signal?: AbortSignal): Promise<number[][]> {
+  const { groups } = await llm.json(
+    [
+      { role: "system", content: "You group answers that state the same conclusion, even if worded differently. Answers with different values or recommendations belong to different groups. Every answer number must appear in exactly one group." },
+      { role: "user", content: answers.map((answer, index) => `${index + 1}. ${answer}`).join("\n") }
+    ],
+    GroupingSchema,
+    { signal, temperature: 0 }
+  );
+
+  // Keep the first placement of each answer; answers the model left out stand alone
+  const seen = new Set<number>();
+  const placed = groups
+    .map(group => group.map(number => number - 1).filter(index => {
+      if (index < 0 || index >= answers.length || seen.has(index)) {
+        return false;
+      }
+      seen.add(index);
+      return true;
+    }))
+    .filter(group => group.length > 0);
+  const missing = answers.map((_, index) => index).filter(index => !seen.has(index)).map(index => [index]);
+
+  return [...placed, ...missing];
+}
+
+function sameNumbers(a: string, b: string): boolean {
+  const numbers = (text: string) => (text.match(/-?\d+(?:[.,]\d+)?/g) || []).map(number => number.replace(",", ".")).sort().join("|");
+  return numbers(a) === numbers(b);
+}
@@ -0,0 +1,122 @@
+/**
+ * 🥇 Golden Problems
+ * The benchmark suite: short problems with one defensible answer, picked so a
+ * conclusion can be graded by text match. Each lists the phrases that state the
+ * answer and the common wrong answers; see gradeConclusion in benchmark.ts.
+ * Bump GOLDEN_SUITE_VERSION whenever a problem or its answers change, so
+ * reports from different suites are not compared.
+ */
+
+export type GoldenCategory = "arithmetic" | "logic" | "probability" | "decision";
+
+export interface GoldenProblem {
+  id: string;
+  category: GoldenCategory;
+  problem: string;
+  context?: string;
+  expected: string[]; // Phrases that state the right answer
+  distractors: string[]; // Phrases that state a common wrong answer
+}
+
+export const GOLDEN_SUITE_VERSION = "1";
+
+export const GOLDEN_PROBLEMS: GoldenProblem[] = [
+  {
+    id: "bat_and_ball",
+    category: "arithmetic",
+    problem: "A bat and a ball cost $1.10 in total. The bat costs $1.00 more than the ball. How much does the ball cost?",
+    expected: ["5 cents", "0.05", "five cents"],
+    distractors: ["10 cents", "0.10", "0.1", "ten cents"]
+  },
+  {
+    id: "widget_machines",
+    category: "arithmetic",
+    problem: "If 5 machines take 5 minutes to make 5 widgets, how long would 100 machines take to make 100 widgets?",
+    expected: ["5 minutes", "five minutes"],
+    distractors: ["100 minutes", "hundred minutes"]
+  },
+  {
+    id: "lily_pads",
+    category: "arithmetic",
+    problem: "A patch of lily pads doubles in size every day. It takes 48 days for the patch to cover the whole lake. How many days does it take to cover half of the lake?",
+    expected: ["47"],
+    distractors: ["24"]
+  },
+  {
+    id: "sequence",
+    category: "arithmetic",
+    problem: "What is the next number in the sequence 2, 6, 12, 20, 30, ...?",
+    expected: ["42"],
+    distractors: ["40"]
+  },
+  {
+    id: "ages",
+    category: "arithmetic",
+    problem: "Alice is twice as old as Bob. In 10 years, Alice will be 1.5 times as old as Bob. How old is Alice now?",
+    expected: ["20"],
+    distractors: ["30", "40"]
+  },
+  {
+    id: "weekday",
+    category: "arithmetic",
+    problem: "What day of the week is it 100 days after a Monday?",
+    expected: ["wednesday"],
+    distractors: ["tuesday", "thursday"]
+  },
+  {
+    id: "valid_syllogism",
+    category: "logic",
+    problem: "All bloops are razzies, and all razzies are lazzies. Therefore, all bloops are lazzies. Is this argument valid or invalid?",
+    expected: ["valid"],
+    distractors: ["invalid", "not valid"]
+  },
+  {
+    id: "affirming_the_consequent",
+    category: "logic",
+    problem: "If it rains, the street gets wet. The street is wet. Therefore, it rained. Is this argument valid or invalid?",
+    expected: ["invalid", "not valid", "affirming the consequent"],
+    distractors: ["valid"]
+  },
+  {
+    id: "knights_and_knaves",
+    category: "logic",
+    problem: "On an island, knights always tell the truth and knaves always lie. A says: \"B is a knave.\" B says: \"A and I are both knights.\" Is A a knight or a knave?",
+    expected: ["a is a knight"],
+    distractors: ["a is a knave"]
+  },
+  {
+    id: "finishing_order",
+    category: "logic",
+    problem: "Four runners finished a race. Ann finished ahead of Ben, Cal finished behind Dee, and Ben finished ahead of Dee. Who finished last?",
+    expected: ["cal"],
+    distractors: ["ann", "ben", "dee"]
+  },
+  {
+    id: "monty_hall",
+    category: "probability",
+    problem: "On a game show you pick door 1 of 3. One door hides a car, the other two hide goats. The host, who knows where the car is, opens door 3 to show a goat and offers you door 2 instead. Should you stick with door 1 or switch to door 2 to maximise your chance of winning the car?",
+    expected: ["switch"],
+    distractors: ["stick", "stay", "does not matter", "doesn't matter", "50/50"]
+  },
+  {
+    id: "base_rate",
+    category: "probability",
+    problem: "A disease affects 1 in 1,000 people. A test detects it 99% of the time and gives a false positive for 5% of healthy people. A random person tests positive. What is the probability, to the nearest percent, that they have the disease?",
+    expected: ["2%", "2 percent", "0.02", "1.9%", "0.019"],
+    distractors: ["99%", "95%", "5%"]
+  },
+  {
+    id: "expected_value",
+    category: "decision",
+    problem: "Option A pays $50 for certain. Option B pays $200 with probability 0.2 and nothing otherwise. Which option has the higher expected value?",
+    expected: ["option a"],
+    distractors: ["option b"]
+  },
+  {
+    id: "sunk_cost",
+    category: "decision",
+    problem: "You paid $100 for a non-refundable concert ticket. On the night you feel unwell and would rather stay home; you value staying home more than the concert. Nobody will buy the ticket. Should you go to the concert or stay home?",
+    expected: ["stay home"],
+    distractors: ["go to the concert", "attend"]
+  }
+];
@@ -0,0 +1,182 @@
+import { z } from "zod";
+
+import { ToolUtils } from "../agents/mcp.js";
+import { LlmProvider } from "../llm/provider.js";
+import { StrategyInput, StrategyResult, StrategyRun, TRACE_CHARS, ask, cosine } from "./prompting.js";
+
+/**
+ * 📎 Evidence Grounding
+ * Backs reason with grounded: true. Passages retrieved from memory and web
+ * pages are numbered (M1, W1...) and handed to the strategy as evidence. Its
+ * conclusion is then restated as claims that must cite passage ids, and a
+ * separate verifier call checks each claim against the passages it cites.
+ * Claims without a valid, verified citation are reported as unsupported.
+ */
+
+export interface Passage {
+  id: string; // M1, M2... for memories, W1, W2... for web pages
+  source: "memory" | "web";
+  ref: string; // Memory id or URL
+  text: string;
+  similarity: number | null; // To the problem; null when it could not be computed
+}
+
+export interface PassageCandidate {
+  source: Passage["source"];
+  ref: string;
+  text: string;
+  similarity?: number;
+}
+
+export interface GroundedStep {
+  step_number: number;
+  claim: string;
+  citations: string[];
+  supported: boolean;
+  reason?: string;
+}
+
+export interface Grounding {
+  passages: Passage[];
+  steps: GroundedStep[];
+  unsupported_claims: GroundedStep[];
+  support_ratio: number; // Supported claims over all claims
+}
+
+export const PASSAGE_CHARS = 800;
+export const PASSAGES_PER_PAGE = 3;
+
+const ClaimsSchema = z.object({
+  steps: z.array(z.object({
+    claim: z.string(),
+    citations: z.array(z.string()).default([]).describe("Ids of the passages that support this claim, e.g. [\"M1\", \"W2\"]")
+  })).min(1)
+});
+
+const VerificationSchema = z.object({
+  checks: z.array(z.object({
+    step: z.number().int().describe("Step number"),
+    supported: z.boolean().describe("True only if the cited passages state or directly imply the claim"),
+    reason: z.string().default("")
+  })).default([])
+});
+
+/**
+ * Splits page text at sentence boundaries into chunks of at most PASSAGE_CHARS
+ */
+export function chunkText(text: string): string[] {
+  const sentences = text.replace(/\s+/g, " ").trim().match(/[^.!?]+[.!?]*\s*/g) || [];
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const sentence of sentences) {
+    if (current && current.length + sentence.length > PASSAGE_CHARS) {
+      chunks.push(current.trim());
+      current = "";
+    }
+    // A single overlong sentence is cut rather than dropped
+    current += sentence.substring(0, PASSAGE_CHARS);
+  }
+  if (current.trim()) {
+    chunks.push(current.trim());
+  }
+
+  return chunks;
+}
+
+/**
+ * Keeps the chunks of a page closest to the problem. Without embeddings the
+ * first chunks are kept, which for most pages is the lead.
+ */
+export async function rankChunks(llm: LlmProvider, problem: string, chunks: string[], signal?: AbortSignal): Promise<{ text: string; similarity?: number }[]> {
+  if (chunks.length <= PASSAGES_PER_PAGE) {
+    return chunks.map(text => ({ text }));
+  }
+
+  try {
+    const [query, ...vectors] = await llm.embed([problem, ...chunks], { signal });
+    return chunks
+      .map((text, index) => ({ text, similarity: cosine(query, vectors[index]) }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, PASSAGES_PER_PAGE);
+  } catch (error) {
+    ToolUtils.throwIfAborted(signal);
+    return chunks.slice(0, PASSAGES_PER_PAGE).map(text => ({ text }));
+  }
+}
+
+export function numberPassages(candidates: PassageCandidate[]): Passage[] {
+  const counts = { memory: 0, web: 0 };
+  return candidates.map(candidate => ({
+    id: `${candidate.source === "memory" ? "M" : "W"}${++counts[candidate.source]}`,
+    source: candidate.source,
+    ref: candidate.ref,
+    text: candidate.text.substring(0, PASSAGE_CHARS),
+    similarity: candidate.similarity ?? null
+  }));
+}
+
+/**
+ * The passages as evidence lines the strategies see, each tagged with its id
+ */
+export function passageEvidence(passages: Passage[]): string[] {
+  return passages.map(passage => `[${passage.id}] ${passage.text}`);
+}
+
+/**
+ * Restates the strategy's conclusion as cited claims and verifies each citation
+ */
+export async function groundConclusion(run: StrategyRun, input: StrategyInput, passages: Passage[], result: StrategyResult): Promise<Grounding> {
+  const known = new Map(passages.map(passage => [passage.id, passage]));
+  const sources = passages.map(passage => `[${passage.id}] ${passage.text}`).join("\n\n");
+
+  const { steps } = await ask(run, input, {
+    instructions: "You ground conclusions in sources. Restate the conclusion as a short sequence of claims, one per step, in the order the reasoning needs them. Cite, by id, the passages that support each claim. Cite only passages that actually state or imply the claim; leave citations empty rather than stretch one. Never invent ids.",
+    task: `Passages:\n${sources.substring(0, TRACE_CHARS) || "(none retrieved)"}\n\nConclusion:\n${result.conclusion}`,
+    schema: ClaimsSchema,
+    temperature: 0
+  });
+
+  const cited = steps.map((step, index) => ({
+    step_number: index + 1,
+    claim: step.claim,
+    citations: [...new Set(step.citations)].filter(id => known.has(id)),
+    invented: step.citations.filter(id => !known.has(id))
+  }));
+  const toVerify = cited.filter(step => step.citations.length > 0);
+
+  const checks = toVerify.length
+    ? (await ask(run, input, {
+        instructions: "You verify citations. For each numbered claim, decide whether the passages it cites state or directly imply it. Background knowledge does not count: judge only against the cited text.",
+        task: toVerify.map(step => [
+          `### Step ${step.step_number}\nClaim: ${step.claim}`,
+          ...step.citations.map(id => `[${id}] ${known.get(id).text}`)
+        ].join("\n")).join("\n\n").substring(0, TRACE_CHARS),
+        schema: VerificationSchema,
+        temperature: 0
+      })).checks
+    : [];
+
+  const grounded: GroundedStep[] = cited.map(step => {
+    const check = checks.find(entry => entry.step === step.step_number);
+    const reason = step.citations.length === 0
+      ? (step.invented.length ? `Cited passages that do not exist: ${step.invented.join(", ")}` : "No passage cited")
+      : check?.reason || (check ? undefined : "Not verified");
+    return {
+      step_number: step.step_number,
+      claim: step.claim,
+      citations: step.citations,
+      supported: step.citations.length > 0 && check?.supported === true,
+      ...(reason ? { reason } : {})
+    };
+  });
+
+  const unsupported = grounded.filter(step => !step.supported);
+
+  return {
+    passages,
+    steps: grounded,
+    unsupported_claims: unsupported,
+    support_ratio: (grounded.length - unsupported.length) / grounded.length
+  };
+}
@@ -0,0 +1,147 @@
+import { z } from "zod";
+
+import { Clock, systemClock } from "../agents/tool-context.js";
+import { JsonSchema, LlmProvider } from "../llm/provider.js";
+
+/**
+ * 💬 Reasoning Prompts
+ * Shared plumbing for the reasoning pipelines: the problem brief every prompt
+ * starts from, JSON-mode calls, score parsing and the self-evaluation call.
+ */
+
+export type DepthLevel = "surface" | "moderate" | "deep" | "comprehensive";
+
+export interface StrategyInput {
+  problem: string;
+  context?: string;
+  constraints?: string[];
+  goals?: string[];
+  evidence?: string[];
+  assumptions?: string[];
+  depth_level?: DepthLevel;
+  beam_width?: number; // tree_of_thought
+  mcts_iterations?: number; // mcts
+}
+
+/**
+ * Model, cancellation signal and time budget a pipeline runs with
+ */
+export interface StrategyRun {
+  llm: LlmProvider;
+  signal?: AbortSignal;
+  deadline?: number; // Epoch ms on clock; open-ended searches stop expanding before it
+  clock?: Clock; // Time source the deadline was set on; the system clock when unset
+}
+
+export interface StrategyResult {
+  strategy: string;
+  conclusion: string;
+  confidence: number;
+  self_evaluation: SelfEvaluation;
+  [field: string]: any; // Strategy-specific fields
+}
+
+export interface Prompt<T> {
+  instructions: string; // System prompt: the role and method
+  task: string; // What to do in this call, after the problem brief
+  schema: JsonSchema<T>;
+  temperature?: number;
+}
+
+// Models drift between 0-1 and 0-100 scales; accept both and clamp
+export const Score = z.number().describe("Score from 0 to 1").transform(value => {
+  const scaled = value > 1 && value <= 100 ? value / 100 : value;
+  return Math.min(1, Math.max(0, scaled));
+});
+
+export const TextList = z.array(z.string()).default([]);
+
+export const TRACE_CHARS = 6000;
+
+// Steps planned by step_by_step, and the depth limit of the tree searches
+export const STEP_COUNT: Record<DepthLevel, number> = {
+  surface: 3,
+  moderate: 4,
+  deep: 6,
+  comprehensive: 8
+};
+
+export const SelfEvaluationSchema = z.object({
+  confidence: Score.describe("Probability that the conclusion is correct and adequately supported"),
+  rigor: Score.describe("How rigorous and complete the reasoning is"),
+  logically_valid: z.boolean().describe("Whether the conclusion follows from the reasoning"),
+  rationale: z.string(),
+  weaknesses: TextList
+});
+
+export type SelfEvaluation = z.infer<typeof SelfEvaluationSchema>;
+
+export function ask<T>(run: StrategyRun, input: StrategyInput, prompt: Prompt<T>): Promise<T> {
+  return run.llm.json(
+    [
+      { role: "system", content: prompt.instructions },
+      { role: "user", content: `${brief(input)}\n\n${prompt.task}` }
+    ],
+    prompt.schema,
+    { signal: run.signal, temperature: prompt.temperature ?? 0.3 }
+  );
+}
+
+/**
+ * Asks the model to grade a finished reasoning trace. Runs as a fresh
+ * conversation at temperature 0 so the grade is not anchored on the trace's tone.
+ */
+export async function selfEvaluate(
+  run: StrategyRun,
+  input: StrategyInput,
+  strategy: string,
+  conclusion: string,
+  trace: unknown
+): Promise<SelfEvaluation> {
+  return ask(run, input, {
+    instructions: `You review reasoning produced with the ${strategy} strategy. Judge whether the conclusion answers the problem, follows from the reasoning and respects the constraints. Be calibrated: 0.5 means a coin flip, 0.9 means you would be surprised if it were wrong. List concrete weaknesses.`,
+    task: `Reasoning trace:\n${JSON.stringify(trace).substring(0, TRACE_CHARS)}\n\nConclusion:\n${conclusion}`,
+    schema: SelfEvaluationSchema,
+    temperature: 0
+  });
+}
+
+/**
+ * The problem and everything the caller supplied about it, as a markdown brief
+ */
+export function brief(input: StrategyInput): string {
+  const sections = [`## Problem\n${input.problem}`];
+  const lists: [string, string[] | undefined][] = [
+    ["Constraints", input.constraints],
+    ["Goals", input.goals],
+    ["Evidence", input.evidence],
+    ["Assumptions", input.assumptions]
+  ];
+
+  if (input.context) {
+    sections.push(`## Context\n${input.context}`);
+  }
+  for (const [title, items] of lists) {
+    if (items?.length) {
+      sections.push(`## ${title}\n${items.map(item => `- ${item}`).join("\n")}`);
+    }
+  }
+
+  return sections.join("\n\n");
+}
+
+export function mean(values: number[]): number {
+  return values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+export function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -0,0 +1,219 @@
+import { z } from "zod";
+
+import { mermaidText } from "./argument.js";
+import { Score, StrategyInput, StrategyResult, StrategyRun, TRACE_CHARS, ask } from "./prompting.js";
+import { sessionSteps } from "./sessions.js";
+
+/**
+ * 🖨️ Output Formats
+ * Renders any strategy result in the format reason was asked for:
+ * - structured: the common fields every strategy has, as plain JSON
+ * - narrative: a Markdown write-up
+ * - bullet_points: one line per point, plus the same list as Markdown
+ * - decision_tree: the options the reasoning weighed, each a chance node over
+ *   outcomes with probabilities and values, as nested JSON and a Mermaid flowchart.
+ *   The model proposes the tree; expected values are computed here.
+ */
+
+export const OUTPUT_FORMATS = ["structured", "narrative", "bullet_points", "decision_tree"] as const;
+
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+export interface RenderOptions {
+  includeConfidence: boolean;
+}
+
+export interface DecisionNode {
+  id: string; // D0 for the decision, O1... options, O1.1... outcomes
+  type: "decision" | "chance" | "outcome";
+  label: string;
+  probability?: number; // Outcomes: of this outcome given its option
+  value?: number; // Outcomes
+  expected_value: number;
+  best?: boolean; // Options: highest expected value
+  children: DecisionNode[];
+}
+
+export interface DecisionTree {
+  root: DecisionNode;
+  value_unit: string;
+  best_option: string;
+  probabilities_normalized: boolean; // Some option's outcome probabilities did not sum to 1
+}
+
+const DecisionTreeSchema = z.object({
+  decision: z.string().describe("The decision being made, as a question"),
+  value_unit: z.string().describe("Unit of the outcome values, e.g. \"USD\" or \"utility (0-100)\""),
+  options: z.array(z.object({
+    option: z.string(),
+    outcomes: z.array(z.object({
+      outcome: z.string(),
+      probability: Score.describe("Probability of this outcome if the option is chosen"),
+      value: z.number().describe("Payoff of the outcome in value_unit; negative for losses")
+    })).min(1)
+  })).min(2)
+});
+
+const PROBABILITY_TOLERANCE = 0.01;
+
+export async function renderResult(
+  format: OutputFormat,
+  run: StrategyRun,
+  input: StrategyInput,
+  result: StrategyResult,
+  options: RenderOptions
+) {
+  switch (format) {
+    case "structured":
+      return { format, structured: structure(input, result, options) };
+
+    case "narrative":
+      return { format, markdown: narrative(input, result, options) };
+
+    case "bullet_points": {
+      const bullets = bulletPoints(result, options);
+      return { format, bullets, markdown: bullets.map(bullet => `- ${bullet}`).join("\n") };
+    }
+
+    case "decision_tree": {
+      const tree = await decisionTree(run, input, result);
+      return { format, tree, mermaid: decisionTreeMermaid(tree) };
+    }
+
+    default:
+      throw new Error(`Unknown output format: ${format}`);
+  }
+}
+
+function structure(input: StrategyInput, result: StrategyResult, options: RenderOptions) {
+  return {
+    problem: input.problem,
+    strategy: result.strategy,
+    conclusion: result.conclusion,
+    ...(options.includeConfidence ? { confidence: result.confidence } : {}),
+    steps: sessionSteps(result),
+    weaknesses: result.self_evaluation?.weaknesses || [],
+    logically_valid: result.self_evaluation?.logically_valid ?? null
+  };
+}
+
+function narrative(input: StrategyInput, result: StrategyResult, options: RenderOptions): string {
+  const steps = sessionSteps(result);
+  const evaluation = result.self_evaluation;
+  const sections = [
+    `# ${input.problem}`,
+    `## Conclusion\n\n${result.conclusion}`
+  ];
+
+  if (steps.length) {
+    sections.push(`## How we got there\n\nUsing the ${result.strategy.replace(/_/g, " ")} strategy:\n\n${steps.map((step, index) => `${index + 1}. ${step}`).join("\n")}`);
+  }
+  if (options.includeConfidence && evaluation) {
+    sections.push(`## Confidence\n\n${Math.round(result.confidence * 100)}%. ${evaluation.rationale}`);
+  }
+  if (evaluation?.weaknesses.length) {
+    sections.push(`## Caveats\n\n${evaluation.weaknesses.map(weakness => `- ${weakness}`).join("\n")}`);
+  }
+
+  return sections.join("\n\n");
+}
+
+function bulletPoints(result: StrategyResult, options: RenderOptions): string[] {
+  const confidence = options.includeConfidence ? ` (confidence ${Math.round(result.confidence * 100)}%)` : "";
+  return [
+    `Conclusion: ${result.conclusion}${confidence}`,
+    ...sessionSteps(result),
+    ...(result.self_evaluation?.weaknesses || []).map(weakness => `Caveat: ${weakness}`)
+  ];
+}
+
+async function decisionTree(run: StrategyRun, input: StrategyInput, result: StrategyResult): Promise<DecisionTree> {
+  const proposed = await ask(run, input, {
+    instructions: "You turn reasoning into a decision tree. List the options the decision maker can choose between, including the one the reasoning recommends. For each option, list its mutually exclusive outcomes with a probability and a payoff. Use money when the problem is about money, otherwise utility from -100 to 100. Base probabilities on the reasoning and evidence; the outcomes of each option must cover all cases and sum to 1.",
+    task: `Reasoning (${result.strategy}):\n${JSON.stringify({ conclusion: result.conclusion, steps: sessionSteps(result) }).substring(0, TRACE_CHARS)}`,
+    schema: DecisionTreeSchema,
+    temperature: 0
+  });
+
+  let normalized = false;
+  const optionNodes: DecisionNode[] = proposed.options.map((option, index) => {
+    const total = option.outcomes.reduce((sum, outcome) => sum + outcome.probability, 0);
+    if (Math.abs(total - 1) > PROBABILITY_TOLERANCE) {
+      normalized = true;
+    }
+
+    const outcomes: DecisionNode[] = option.outcomes.map((outcome, outcomeIndex) => {
+      // Spread evenly when the model gave every outcome probability 0
+      const probability = total > 0 ? outcome.probability / total : 1 / option.outcomes.length;
+      return {
+        id: `O${index + 1}.${outcomeIndex + 1}`,
+        type: "outcome",
+        label: outcome.outcome,
+        probability: round(probability),
+        value: outcome.value,
+        expected_value: round(probability * outcome.value),
+        children: []
+      };
+    });
+
+    return {
+      id: `O${index + 1}`,
+      type: "chance",
+      label: option.option,
+      expected_value: round(outcomes.reduce((sum, outcome) => sum + outcome.expected_value, 0)),
+      children: outcomes
+    };
+  });
+
+  const best = optionNodes.reduce((top, option) => (option.expected_value > top.expected_value ? option : top));
+  best.best = true;
+
+  return {
+    root: {
+      id: "D0",
+      type: "decision",
+      label: proposed.decision,
+      expected_value: best.expected_value,
+      children: optionNodes
+    },
+    value_unit: proposed.value_unit,
+    best_option: best.label,
+    probabilities_normalized: normalized
+  };
+}
+
+/**
+ * Decision as a box, options as circles (chance nodes) and outcomes as rounded
+ * boxes; edges to outcomes carry probabilities and the best option is highlighted
+ */
+export function decisionTreeMermaid(tree: DecisionTree): string {
+  const id = (node: DecisionNode) => node.id.replace(".", "_");
+  const ev = (value: number) => `EV ${formatNumber(value)} ${tree.value_unit}`;
+  const lines = [
+    "flowchart LR",
+    `  ${id(tree.root)}["${mermaidText(tree.root.label)}"]`
+  ];
+
+  for (const option of tree.root.children) {
+    lines.push(`  ${id(option)}(("${mermaidText(option.label)}<br/>${mermaidText(ev(option.expected_value))}"))`);
+    lines.push(`  ${id(tree.root)} --> ${id(option)}`);
+
+    for (const outcome of option.children) {
+      lines.push(`  ${id(outcome)}("${mermaidText(outcome.label)}<br/>${mermaidText(`${formatNumber(outcome.value)} ${tree.value_unit}`)}")`);
+      lines.push(`  ${id(option)} -->|"p=${formatNumber(outcome.probability)}"| ${id(outcome)}`);
+    }
+  }
+
+  const best = tree.root.children.find(option => option.best);
+  lines.push("  classDef best stroke:#2a2,stroke-width:3px", `  class ${id(best)} best`);
+
+  return lines.join("\n");
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
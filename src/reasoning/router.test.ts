@@ -0,0 +1,124 @@
+import { FakeLlmProvider } from "../llm/fake.js";
+import { RouterDeps, routeStrategy } from "./router.js";
+
+function fakeKv() {
+  const values = new Map<string, string>();
+  return {
+    values,
+    async get(key: string, type?: string) {
+      const value = values.get(key);
+      return value === undefined ? null : type === "json" ? JSON.parse(value) : value;
+    },
+    async put(key: string, value: string) {
+      values.set(key, value);
+    }
+  };
+}
+
+interface PastSession {
+  problem: string;
+  strategy: string;
+  confidence: number;
+  owner?: string;
+}
+
+// Answers the router's recent-sessions query with the bound owner's rows, newest first
+function fakeDb(sessions: PastSession[] = []) {
+  let owner: unknown;
+  const statement = {
+    bind: (...values: unknown[]) => {
+      owner = values[0];
+      return statement;
+    },
+    all: async () => ({ results: sessions.filter(session => (session.owner ?? "key-1") === owner) })
+  };
+  return { prepare: () => statement };
+}
+
+function deps(overrides: Partial<RouterDeps> = {}): RouterDeps {
+  return {
+    llm: new FakeLlmProvider(),
+    kv: fakeKv() as unknown as KVNamespace,
+    db: fakeDb() as unknown as D1Database,
+    owner: "key-1",
+    logger: { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} },
+    ...overrides
+  };
+}
+
+const CREATIVE_EXAMPLE = "Invent engaging ways to teach kids about recycling";
+
+describe("routeStrategy", () => {
+  it("picks the strategy whose labelled examples are closest to the problem", async () => {
+    const selection = await routeStrategy(CREATIVE_EXAMPLE, undefined, deps());
+
+    expect(selection.method).toBe("embeddings");
+    expect(selection.strategy).toBe("creative");
+    expect(selection.rationale).toContain(`closest to the labelled example "${CREATIVE_EXAMPLE}"`);
+    expect(selection.runners_up).toHaveLength(3);
+    expect(selection.runners_up.every(candidate => candidate.strategy !== "creative")).toBe(true);
+  });
+
+  it("embeds the labelled examples once and reads them from KV afterwards", async () => {
+    const llm = new FakeLlmProvider();
+    const embed = jest.spyOn(llm, "embed");
+    const routing = deps({ llm });
+
+    await routeStrategy(CREATIVE_EXAMPLE, undefined, routing);
+    await routeStrategy("Compare the cost of two cloud providers", undefined, routing);
+
+    expect(embed.mock.calls[0][0].length).toBeGreaterThan(20);
+    expect(embed.mock.calls[1][0]).toEqual(["Compare the cost of two cloud providers"]);
+  });
+
+  it("nudges a strategy by the confidence of past sessions on similar problems", async () => {
+    const past = Array.from({ length: 3 }, () => ({ problem: CREATIVE_EXAMPLE, strategy: "creative", confidence: 0.95 }));
+    const selection = await routeStrategy(CREATIVE_EXAMPLE, undefined, deps({ db: fakeDb(past) as unknown as D1Database }));
+
+    expect(selection.strategy).toBe("creative");
+    expect(selection.rationale).toContain("3 similar past session(s) averaged 0.95 confidence");
+
+    // Full support: 0.2 * 2 * (0.95 - 0.5) on top of the example similarity
+    const [, score, similarity] = /scored ([\d.]+).*similarity ([\d.]+)/.exec(selection.rationale).map(Number);
+    expect(score - similarity).toBeCloseTo(0.18, 2);
+  });
+
+  it("only learns from the caller's own sessions", async () => {
+    const past = Array.from({ length: 3 }, () => ({ problem: CREATIVE_EXAMPLE, strategy: "creative", confidence: 0.95, owner: "key-2" }));
+    const selection = await routeStrategy(CREATIVE_EXAMPLE, undefined, deps({ db: fakeDb(past) as unknown as D1Database }));
+
+    expect(selection.rationale).not.toContain("past session");
+  });
+
+  it("ignores past sessions on dissimilar problems", async () => {
+    const past = [{ problem: "Quarterly tax filing deadlines for contractors", strategy: "creative", confidence: 0.1 }];
+    const selection = await routeStrategy(CREATIVE_EXAMPLE, undefined, deps({ db: fakeDb(past) as unknown as D1Database }));
+
+    expect(selection.strategy).toBe("creative");
+    expect(selection.rationale).not.toContain("past session");
+  });
+
+  it("falls back to keywords when the provider has no embeddings", async () => {
+    const llm = new FakeLlmProvider();
+    jest.spyOn(llm, "embed").mockRejectedValue(new Error("no embeddings API"));
+
+    const matched = await routeStrategy("Analyze the churn data", undefined, deps({ llm }));
+    expect(matched).toMatchObject({ strategy: "analytical", method: "keywords" });
+    expect(matched.rationale).toBe("Keyword match for analytical; embeddings unavailable (no embeddings API)");
+
+    const unmatched = await routeStrategy("Where should we hold the offsite?", undefined, deps({ llm }));
+    expect(unmatched.strategy).toBe("analytical");
+    expect(unmatched.rationale).toContain("No keyword matched");
+  });
+
+  it("does not fall back once the call is aborted", async () => {
+    const controller = new AbortController();
+    const llm = new FakeLlmProvider();
+    jest.spyOn(llm, "embed").mockImplementation(async () => {
+      controller.abort(new Error("cancelled"));
+      throw new Error("embed interrupted");
+    });
+
+    await expect(routeStrategy("Anything", undefined, deps({ llm, signal: controller.signal }))).rejects.toThrow("Operation cancelled");
+  });
+});
@@ -0,0 +1,181 @@
+import { ToolUtils } from "../agents/mcp.js";
+import { ToolLogger } from "../agents/tool-context.js";
+import { LlmProvider } from "../llm/provider.js";
+import { cosine } from "./prompting.js";
+import { recentOutcomes } from "./sessions.js";
+import { REASONING_STRATEGIES, ReasoningStrategy } from "./strategies.js";
+
+/**
+ * 🧭 Strategy Router
+ * Picks a strategy for auto_select. The problem is embedded with the reasoner's
+ * provider and compared with a small labelled set of example problems; the
+ * caller's past sessions on similar problems then nudge each strategy by how
+ * confident its results were. Without an embeddings API it falls back to
+ * keyword matching.
+ */
+
+export interface StrategyCandidate {
+  strategy: ReasoningStrategy;
+  score: number; // Embeddings: similarity plus history nudge; keywords: keywords matched
+  example_similarity?: number;
+  nearest_example?: string;
+  history?: { sessions: number; mean_confidence: number } | null;
+}
+
+export interface StrategySelection {
+  strategy: ReasoningStrategy;
+  method: "embeddings" | "keywords";
+  rationale: string;
+  runners_up: StrategyCandidate[];
+}
+
+export interface RouterDeps {
+  llm: LlmProvider;
+  kv: KVNamespace; // Caches the example embeddings
+  db: D1Database; // Past sessions
+  owner: string | null; // Whose sessions count as history
+  logger: ToolLogger;
+  signal?: AbortSignal;
+}
+
+const LABELLED_EXAMPLES: { strategy: ReasoningStrategy; problem: string }[] = [
+  { strategy: "step_by_step", problem: "Walk me through calculating the monthly payment on a 30-year mortgage" },
+  { strategy: "step_by_step", problem: "What is the procedure to migrate a PostgreSQL database to a new server?" },
+  { strategy: "step_by_step", problem: "Solve: a train leaves at 3pm at 80 km/h, another at 4pm at 100 km/h; when does the second catch up?" },
+  { strategy: "creative", problem: "Come up with a name and concept for a new coffee brand aimed at remote workers" },
+  { strategy: "creative", problem: "Invent engaging ways to teach kids about recycling" },
+  { strategy: "creative", problem: "Design an unusual onboarding experience for a developer tool" },
+  { strategy: "analytical", problem: "Our conversion rate dropped 15% after the redesign; analyse the funnel data to find why" },
+  { strategy: "analytical", problem: "Compare the cost of running this workload on serverless versus reserved instances" },
+  { strategy: "analytical", problem: "Which factors in the sales data best predict customer churn?" },
+  { strategy: "lateral", problem: "How can a small bookstore compete with Amazon without competing on price?" },
+  { strategy: "lateral", problem: "Our office has too few meeting rooms and no budget to build more" },
+  { strategy: "lateral", problem: "Reduce queue times at a theme park without adding staff or rides" },
+  { strategy: "systematic", problem: "Design the architecture of a multi-tenant SaaS billing system" },
+  { strategy: "systematic", problem: "Plan a company-wide rollout of single sign-on across 40 internal apps" },
+  { strategy: "systematic", problem: "Find the root cause of intermittent failures across our microservices" },
+  { strategy: "intuitive", problem: "Which of these three job offers feels like the best fit for my career?" },
+  { strategy: "intuitive", problem: "Does this product pitch resonate with first-time founders?" },
+  { strategy: "intuitive", problem: "Quickly judge whether this team dynamic is healthy" },
+  { strategy: "critical", problem: "Evaluate the claim that remote work always reduces productivity" },
+  { strategy: "critical", problem: "Review this argument for rewriting our backend in Rust and find its weaknesses" },
+  { strategy: "critical", problem: "Is this study's conclusion about coffee and longevity justified by its evidence?" },
+  { strategy: "tree_of_thought", problem: "Find a sequence of moves that solves this puzzle, backtracking from dead ends" },
+  { strategy: "tree_of_thought", problem: "Plan a three-day itinerary that satisfies all of these scheduling constraints" },
+  { strategy: "mcts", problem: "Choose the best sequence of product launches given uncertain market responses" },
+  { strategy: "mcts", problem: "Decide a negotiation strategy over several rounds with an unpredictable counterpart" }
+];
+
+const EXAMPLES_VERSION = 1; // Bump when LABELLED_EXAMPLES change, to re-embed them
+const EXAMPLE_CACHE_TTL = 86400 * 30;
+const HISTORY_LIMIT = 50; // Most recent sessions considered
+const HISTORY_PROBLEM_CHARS = 200; // Of each past problem, embedded
+const HISTORY_MIN_SIMILARITY = 0.6;
+const HISTORY_WEIGHT = 0.2; // Largest nudge a well-supported history can give, either way
+const HISTORY_FULL_SUPPORT = 3; // Similarity-weighted sessions for the full nudge
+const RUNNERS_UP = 3;
+
+export async function routeStrategy(problem: string, context: string | undefined, deps: RouterDeps): Promise<StrategySelection> {
+  try {
+    return await routeByEmbeddings(problem, context, deps);
+  } catch (error) {
+    ToolUtils.throwIfAborted(deps.signal);
+    const reason = error instanceof Error ? error.message : "unknown error";
+    return routeByKeywords(problem, `embeddings unavailable (${reason})`);
+  }
+}
+
+async function routeByEmbeddings(problem: string, context: string | undefined, deps: RouterDeps): Promise<StrategySelection> {
+  const { llm, kv, db, owner, logger, signal } = deps;
+  const history = await recentOutcomes(db, owner, HISTORY_LIMIT, logger);
+  const cacheKey = `strategy_router:v${EXAMPLES_VERSION}:${llm.name}:${llm.embeddingModel}`;
+  const cached = await kv.get<number[][]>(cacheKey, "json");
+
+  // One embed call: the query, past problems, and the examples unless cached
+  const query = context ? `${problem}\n${context.substring(0, 500)}` : problem;
+  const texts = [query, ...history.map(outcome => outcome.problem.substring(0, HISTORY_PROBLEM_CHARS)), ...(cached ? [] : LABELLED_EXAMPLES.map(example => example.problem))];
+  const vectors = await llm.embed(texts, { signal });
+
+  const queryVector = vectors[0];
+  const historyVectors = vectors.slice(1, 1 + history.length);
+  const exampleVectors = cached || vectors.slice(1 + history.length);
+
+  if (!cached) {
+    await kv.put(cacheKey, JSON.stringify(exampleVectors), { expirationTtl: EXAMPLE_CACHE_TTL });
+  }
+
+  const candidates = REASONING_STRATEGIES.map(strategy => {
+    // Mean of the two closest examples, so one lucky match does not decide
+    const matches = LABELLED_EXAMPLES
+      .map((example, index) => ({ example, similarity: cosine(queryVector, exampleVectors[index]) }))
+      .filter(match => match.example.strategy === strategy)
+      .sort((a, b) => b.similarity - a.similarity);
+    const exampleSimilarity = matches.slice(0, 2).reduce((sum, match) => sum + match.similarity, 0) / Math.min(2, matches.length);
+
+    const past = history
+      .map((outcome, index) => ({ outcome, similarity: cosine(queryVector, historyVectors[index]) }))
+      .filter(entry => entry.outcome.strategy === strategy && entry.similarity >= HISTORY_MIN_SIMILARITY);
+    const support = past.reduce((sum, entry) => sum + entry.similarity, 0);
+    const meanConfidence = support ? past.reduce((sum, entry) => sum + entry.similarity * entry.outcome.confidence, 0) / support : 0;
+
+    // Past confidence above 0.5 pulls a strategy up, below pushes it down
+    const nudge = support ? HISTORY_WEIGHT * 2 * (meanConfidence - 0.5) * Math.min(1, support / HISTORY_FULL_SUPPORT) : 0;
+
+    return {
+      strategy,
+      score: exampleSimilarity + nudge,
+      example_similarity: exampleSimilarity,
+      nearest_example: matches[0]?.example.problem,
+      history: past.length ? { sessions: past.length, mean_confidence: meanConfidence } : null
+    };
+  }).sort((a, b) => b.score - a.score);
+
+  const [chosen, ...rest] = candidates;
+
+  return {
+    strategy: chosen.strategy,
+    method: "embeddings",
+    rationale: explain(chosen, rest[0]),
+    runners_up: rest.slice(0, RUNNERS_UP)
+  };
+}
+
+function explain(chosen: StrategyCandidate, runnerUp?: StrategyCandidate): string {
+  const parts = [
+    `${chosen.strategy} scored ${chosen.score.toFixed(3)}: closest to the labelled example "${chosen.nearest_example}" (similarity ${chosen.example_similarity.toFixed(3)})`
+  ];
+  if (chosen.history) {
+    parts.push(`${chosen.history.sessions} similar past session(s) averaged ${chosen.history.mean_confidence.toFixed(2)} confidence`);
+  }
+  if (runnerUp) {
+    parts.push(`ahead of ${runnerUp.strategy} (${runnerUp.score.toFixed(3)})`);
+  }
+  return parts.join("; ");
+}
+
+const KEYWORD_RULES: [ReasoningStrategy, string[]][] = [
+  ["creative", ["creative", "innovative"]],
+  ["analytical", ["analyze", "data"]],
+  ["step_by_step", ["step", "process"]],
+  ["critical", ["critical", "evaluate"]],
+  ["systematic", ["system", "complex"]],
+  ["intuitive", ["pattern", "intuition"]],
+  ["lateral", ["unusual", "different"]]
+];
+
+function routeByKeywords(problem: string, reason: string): StrategySelection {
+  const text = problem.toLowerCase();
+  const matched: StrategyCandidate[] = KEYWORD_RULES
+    .map(([strategy, keywords]) => ({ strategy, score: keywords.filter(keyword => text.includes(keyword)).length }))
+    .filter(candidate => candidate.score > 0);
+  const [chosen, ...rest] = matched;
+
+  return {
+    strategy: chosen?.strategy || "analytical",
+    method: "keywords",
+    rationale: chosen
+      ? `Keyword match for ${chosen.strategy}; ${reason}`
+      : `No keyword matched, defaulting to analytical; ${reason}`,
+    runners_up: rest.slice(0, RUNNERS_UP)
+  };
+}
@@ -0,0 +1,136 @@
+import { Clock } from "../agents/tool-context.js";
+import { FakeLlmProvider } from "../llm/fake.js";
+import { ChatMessage } from "../llm/provider.js";
+import { StrategyInput, StrategyResult } from "./prompting.js";
+import { monteCarloTreeSearch, treeOfThought } from "./search.js";
+
+const SCORES: Record<string, number> = { a: 0.9, b: 0.5, c: 0.1 };
+
+interface SearchScript {
+  isFinal?: (thought: string) => boolean;
+  onExpand?: () => void;
+}
+
+/**
+ * Thoughts are named after their path: the children of "ra" are "raa", "rab"
+ * and "rac". A path scores by the last letter of its last thought, so "a"
+ * branches are the most promising. Expansions asking for one step get the
+ * next letter not yet explored from that node.
+ */
+function searchFake(script: SearchScript = {}): FakeLlmProvider {
+  return new FakeLlmProvider(messages => {
+    const system = messages.find(message => message.role === "system" && !message.content.startsWith("Respond with")).content;
+    const task = messages[messages.length - 1].content;
+
+    if (system.startsWith("You explore solutions")) {
+      script.onExpand?.();
+      const parent = lastStep(section(task, "Steps so far:\n")) || "r";
+      const explored = section(task, "(propose something different):\n").split("\n").filter(Boolean).length;
+      const letters = task.includes("Propose one next step") ? ["abc"[explored]] : ["a", "b", "c"];
+      return JSON.stringify({
+        thoughts: letters.map(letter => ({ thought: parent + letter, is_final: script.isFinal?.(parent + letter) ?? false }))
+      });
+    }
+
+    if (system.startsWith("You score partial solutions")) {
+      const paths = task.split("### Path ").slice(1);
+      return JSON.stringify({
+        scores: paths.map((path, index) => ({ path: index + 1, score: SCORES[lastStep(path).slice(-1)] }))
+      });
+    }
+
+    if (system.startsWith("You state the answer")) {
+      return JSON.stringify({ conclusion: `answer via ${lastStep(task)}` });
+    }
+
+    return JSON.stringify({ confidence: 0.7, rigor: 0.6, logically_valid: true, rationale: "ok", weaknesses: [] });
+  });
+}
+
+function section(text: string, heading: string): string {
+  const start = text.indexOf(heading);
+  return start < 0 ? "" : text.substring(start + heading.length).split("\n\n")[0];
+}
+
+function lastStep(steps: string): string {
+  const matches = [...steps.matchAll(/^\d+\. (\S+)$/gm)];
+  return matches.length ? matches[matches.length - 1][1] : "";
+}
+
+const input: StrategyInput = { problem: "Find the route", depth_level: "surface" };
+
+const thoughts = (result: StrategyResult): string[] => result.best_path.map(node => node.thought);
+
+describe("treeOfThought", () => {
+  it("keeps the best beam_width nodes per depth and prunes the rest", async () => {
+    const llm = searchFake();
+    const result = await treeOfThought({ llm }, { ...input, beam_width: 2 });
+
+    expect(result.stopped_by).toBe("depth");
+    expect(result.max_depth).toBe(3);
+    expect(thoughts(result)).toEqual(["ra", "raa", "raaa"]);
+    expect(result.conclusion).toBe("answer via raaa");
+    expect(result.confidence).toBe(0.7);
+
+    // 3 children of the root, then 3 children of each of the 2 nodes in the beam, twice
+    expect(result.explored_nodes).toBe(3 + 6 + 6);
+    const nodes = result.tree.nodes;
+    expect(nodes.filter(node => node.depth === 1 && node.pruned).map(node => node.thought)).toEqual(["rc"]);
+    expect(nodes.filter(node => node.depth === 2 && !node.pruned).map(node => node.thought)).toEqual(["raa", "rba"]);
+    expect(nodes.find(node => node.thought === "rb").score).toBe(0.5);
+  });
+
+  it("stops when every node in the beam states a final answer", async () => {
+    const llm = searchFake({ isFinal: thought => thought.length === 3 });
+    const result = await treeOfThought({ llm }, { ...input, beam_width: 2 });
+
+    expect(result.stopped_by).toBe("solved");
+    expect(thoughts(result)).toEqual(["ra", "raa"]);
+    expect(result.tree.nodes.some(node => node.depth === 3)).toBe(false);
+  });
+
+  it("stops expanding once the deadline on the run's clock is near", async () => {
+    let time = 1_000_000;
+    const clock: Clock = { now: () => time, isoNow: () => new Date(time).toISOString() };
+    const llm = searchFake({ onExpand: () => { time += 50_000; } });
+
+    // Reserve is 15 s of the 100 s budget: the second expansion ends past the 85 s mark
+    const result = await treeOfThought({ llm, clock, deadline: time + 100_000 }, { ...input, beam_width: 2 });
+
+    expect(result.stopped_by).toBe("time_limit");
+    expect(result.tree.nodes.map(node => node.thought)).toEqual(["Find the route", "ra", "rb", "rc", "raa", "rab", "rac"]);
+    expect(result.conclusion).toBe("answer via raa");
+  });
+});
+
+describe("monteCarloTreeSearch", () => {
+  it("expands every child of a node before descending by UCT into the most valuable one", async () => {
+    const llm = searchFake();
+    const result = await monteCarloTreeSearch({ llm }, { ...input, mcts_iterations: 4 });
+
+    expect(result.stopped_by).toBe("iterations");
+    expect(result.iterations_run).toBe(4);
+    expect(thoughts(result)).toEqual(["ra", "raa"]);
+
+    const [root, ...nodes] = result.tree.nodes;
+    expect(root.visits).toBe(4);
+    expect(root.total_value).toBeCloseTo(0.9 + 0.5 + 0.1 + 0.9);
+    expect(nodes.map(node => [node.thought, node.visits])).toEqual([["ra", 2], ["rb", 1], ["rc", 1], ["raa", 1]]);
+  });
+
+  it("stops early once every path ends in a final answer", async () => {
+    const llm = searchFake({ isFinal: () => true });
+    const result = await monteCarloTreeSearch({ llm }, { ...input, mcts_iterations: 10 });
+
+    expect(result.stopped_by).toBe("exhausted");
+    expect(result.iterations_run).toBe(3);
+    expect(thoughts(result)).toEqual(["ra"]);
+  });
+
+  it("does not expand past the depth limit", async () => {
+    const llm = searchFake();
+    const result = await monteCarloTreeSearch({ llm }, { ...input, mcts_iterations: 30 });
+
+    expect(Math.max(...result.tree.nodes.map(node => node.depth))).toBeLessThanOrEqual(3);
+  });
+});
@@ -0,0 +1,329 @@
+import { z } from "zod";
+
+import { systemClock } from "../agents/tool-context.js";
+import {
+  STEP_COUNT,
+  Score,
+  StrategyInput,
+  StrategyResult,
+  StrategyRun,
+  TRACE_CHARS,
+  ask,
+  selfEvaluate
+} from "./prompting.js";
+
+/**
+ * 🌳 Tree Search Reasoning
+ * tree_of_thought and mcts build a tree of reasoning steps rooted at the problem.
+ * Children are proposed by an expansion prompt and scored by a separate evaluator
+ * prompt (the value of the path from the root). Beam search keeps the best
+ * beam_width nodes per depth; MCTS picks where to expand next with UCT.
+ * Both stop expanding early enough to conclude within the run's deadline.
+ */
+
+export const DEFAULT_BEAM_WIDTH = 3;
+export const DEFAULT_MCTS_ITERATIONS = 20;
+
+const BRANCHING = 3; // Children per node
+const EXPLORATION = Math.SQRT2; // UCT exploration constant
+const CONCLUDE_RESERVE_MS = 15000; // Kept back from the deadline for the conclusion and self-evaluation
+
+export interface ThoughtNode {
+  id: string;
+  parent_id: string | null;
+  depth: number;
+  thought: string;
+  is_final: boolean; // States a complete answer, so it is not expanded
+  score: number | null; // Evaluator value of the path ending here; null for the root
+  rationale?: string;
+  children: string[];
+  pruned?: boolean; // tree_of_thought: fell outside the beam
+  visits?: number; // mcts
+  total_value?: number; // mcts
+}
+
+export type SearchStop = "depth" | "solved" | "iterations" | "exhausted" | "time_limit";
+
+const ExpansionSchema = z.object({
+  thoughts: z.array(z.object({
+    thought: z.string(),
+    is_final: z.boolean().default(false).describe("True when this step states a complete answer to the problem")
+  })).min(1)
+});
+
+const PathScoresSchema = z.object({
+  scores: z.array(z.object({
+    path: z.number().int().describe("Number of the path being scored"),
+    score: Score,
+    rationale: z.string().default("")
+  }))
+});
+
+const ConclusionSchema = z.object({ conclusion: z.string() });
+
+const EXPAND_INSTRUCTIONS = "You explore solutions to a problem one reasoning step at a time. Given the steps taken so far, propose next steps that make real progress. Each step is one or two sentences. Mark a step final when it states a complete answer to the problem.";
+
+const EVALUATE_INSTRUCTIONS = "You score partial solutions. For each numbered reasoning path, estimate how likely it is that continuing it leads to a correct answer that respects the constraints: 1 means certainly, 0 means a dead end. Penalise factual or logical errors, repetition and ignored constraints. Score every path.";
+
+/**
+ * Beam search: expand every node in the beam, score the children, keep the best beam_width
+ */
+export async function treeOfThought(run: StrategyRun, input: StrategyInput): Promise<StrategyResult> {
+  const beamWidth = input.beam_width || DEFAULT_BEAM_WIDTH;
+  const maxDepth = STEP_COUNT[input.depth_level || "moderate"];
+  const tree = new ThoughtTree(input.problem);
+  const expired = searchDeadline(run);
+
+  let beam = [tree.root];
+  let stoppedBy: SearchStop = "depth";
+
+  for (let depth = 1; depth <= maxDepth && stoppedBy === "depth"; depth++) {
+    const candidates: ThoughtNode[] = [];
+
+    for (const node of beam) {
+      if (expired()) {
+        stoppedBy = "time_limit";
+        break;
+      }
+      candidates.push(...(await expand(run, input, tree, node, BRANCHING)));
+    }
+
+    if (candidates.length === 0) {
+      break;
+    }
+    await scorePaths(run, input, tree, candidates);
+
+    const ranked = candidates.sort((a, b) => b.score - a.score);
+    ranked.slice(beamWidth).forEach(node => { node.pruned = true; });
+    beam = ranked.slice(0, beamWidth).filter(node => !node.is_final);
+
+    if (beam.length === 0 && stoppedBy === "depth") {
+      stoppedBy = "solved";
+    }
+  }
+
+  // Best finished answer, else the most promising node explored
+  const kept = tree.nodes().filter(node => node.score !== null && !node.pruned);
+  const best = [...kept].sort((a, b) => Number(b.is_final) - Number(a.is_final) || b.score - a.score || b.depth - a.depth)[0] || tree.root;
+
+  return conclude(run, input, "tree_of_thought", tree, best, {
+    beam_width: beamWidth,
+    max_depth: maxDepth,
+    stopped_by: stoppedBy
+  });
+}
+
+/**
+ * Monte Carlo tree search: select by UCT, expand one child, score it, back up the value.
+ * The evaluator's score stands in for a random rollout.
+ */
+export async function monteCarloTreeSearch(run: StrategyRun, input: StrategyInput): Promise<StrategyResult> {
+  const iterations = input.mcts_iterations || DEFAULT_MCTS_ITERATIONS;
+  const maxDepth = STEP_COUNT[input.depth_level || "moderate"];
+  const tree = new ThoughtTree(input.problem);
+  const expired = searchDeadline(run);
+  const isTerminal = (node: ThoughtNode) => node.is_final || node.depth >= maxDepth;
+
+  tree.root.visits = 0;
+  tree.root.total_value = 0;
+
+  let completed = 0;
+  let stoppedBy: SearchStop = "iterations";
+
+  for (; completed < iterations; completed++) {
+    if (expired()) {
+      stoppedBy = "time_limit";
+      break;
+    }
+
+    // Selection: descend through fully expanded nodes
+    let node = tree.root;
+    while (!isTerminal(node) && node.children.length >= BRANCHING) {
+      node = selectChild(tree, node);
+    }
+
+    let leaf = node;
+    if (!isTerminal(node)) {
+      [leaf] = await expand(run, input, tree, node, 1);
+      leaf.visits = 0;
+      leaf.total_value = 0;
+      await scorePaths(run, input, tree, [leaf]);
+    } else if (tree.nodes().every(other => other.children.length >= BRANCHING || isTerminal(other))) {
+      // Every path ends in a terminal node: further iterations would only revisit them
+      stoppedBy = "exhausted";
+      break;
+    }
+
+    for (const ancestor of tree.path(leaf)) {
+      ancestor.visits += 1;
+      ancestor.total_value += leaf.score ?? 0;
+    }
+  }
+
+  // Robust child: follow the most visited child, ties broken by mean value
+  let best = tree.root;
+  while (best.children.length > 0) {
+    best = best.children
+      .map(id => tree.get(id))
+      .sort((a, b) => b.visits - a.visits || meanValue(b) - meanValue(a))[0];
+  }
+
+  return conclude(run, input, "mcts", tree, best, {
+    iterations_requested: iterations,
+    iterations_run: completed,
+    exploration_constant: EXPLORATION,
+    max_depth: maxDepth,
+    stopped_by: stoppedBy
+  });
+}
+
+class ThoughtTree {
+  readonly root: ThoughtNode;
+  private byId = new Map<string, ThoughtNode>();
+
+  constructor(problem: string) {
+    this.root = this.insert({ id: "n0", parent_id: null, depth: 0, thought: problem, is_final: false, score: null, children: [] });
+  }
+
+  add(parent: ThoughtNode, thought: string, isFinal: boolean): ThoughtNode {
+    const node = this.insert({
+      id: `n${this.byId.size}`,
+      parent_id: parent.id,
+      depth: parent.depth + 1,
+      thought,
+      is_final: isFinal,
+      score: null,
+      children: []
+    });
+    parent.children.push(node.id);
+    return node;
+  }
+
+  get(id: string): ThoughtNode {
+    return this.byId.get(id);
+  }
+
+  nodes(): ThoughtNode[] {
+    return [...this.byId.values()];
+  }
+
+  // Root first
+  path(node: ThoughtNode): ThoughtNode[] {
+    const path = [];
+    for (let current = node; current; current = current.parent_id ? this.get(current.parent_id) : null) {
+      path.unshift(current);
+    }
+    return path;
+  }
+
+  toJSON() {
+    return { root_id: this.root.id, node_count: this.byId.size, nodes: this.nodes() };
+  }
+
+  private insert(node: ThoughtNode): ThoughtNode {
+    this.byId.set(node.id, node);
+    return node;
+  }
+}
+
+async function expand(run: StrategyRun, input: StrategyInput, tree: ThoughtTree, node: ThoughtNode, count: number): Promise<ThoughtNode[]> {
+  const siblings = node.children.map(id => tree.get(id).thought);
+  const avoid = siblings.length ? `\n\nAlready explored from here (propose something different):\n${siblings.map(thought => `- ${thought}`).join("\n")}` : "";
+
+  const { thoughts } = await ask(run, input, {
+    instructions: EXPAND_INSTRUCTIONS,
+    task: `Steps so far:\n${formatSteps(tree.path(node)) || "(none yet)"}${avoid}\n\nPropose ${count === 1 ? "one next step" : `${count} distinct next steps`}.`,
+    schema: ExpansionSchema,
+    temperature: 0.8
+  });
+
+  return thoughts.slice(0, count).map(thought => tree.add(node, thought.thought, thought.is_final));
+}
+
+/**
+ * Scores the paths ending at the given nodes in one evaluator call; unscored paths get 0
+ */
+async function scorePaths(run: StrategyRun, input: StrategyInput, tree: ThoughtTree, nodes: ThoughtNode[]): Promise<void> {
+  const budget = Math.floor(TRACE_CHARS / nodes.length);
+  const paths = nodes.map((node, index) => `### Path ${index + 1}\n${formatSteps(tree.path(node)).substring(0, budget)}`);
+
+  const { scores } = await ask(run, input, {
+    instructions: EVALUATE_INSTRUCTIONS,
+    task: paths.join("\n\n"),
+    schema: PathScoresSchema,
+    temperature: 0
+  });
+
+  nodes.forEach((node, index) => {
+    const entry = scores.find(score => score.path === index + 1);
+    node.score = entry?.score ?? 0;
+    node.rationale = entry?.rationale;
+  });
+}
+
+async function conclude(
+  run: StrategyRun,
+  input: StrategyInput,
+  strategy: "tree_of_thought" | "mcts",
+  tree: ThoughtTree,
+  best: ThoughtNode,
+  details: Record<string, unknown>
+): Promise<StrategyResult> {
+  const bestPath = tree.path(best).slice(1);
+  const steps = formatSteps(tree.path(best));
+
+  const { conclusion } = await ask(run, input, {
+    instructions: "You state the answer a chain of reasoning steps reaches, completing it if the last step stops short of an answer.",
+    task: steps ? `Reasoning steps:\n${steps}` : "No steps were explored; answer the problem directly.",
+    schema: ConclusionSchema
+  });
+
+  const evaluation = await selfEvaluate(run, input, strategy, conclusion, bestPath.map(node => node.thought));
+
+  return {
+    strategy,
+    tree: tree.toJSON(),
+    best_path: bestPath.map(node => ({ id: node.id, thought: node.thought, score: node.score })),
+    steps: bestPath.map((node, index) => ({
+      step_number: index + 1,
+      description: node.thought,
+      confidence: node.score
+    })),
+    conclusion,
+    confidence: evaluation.confidence,
+    explored_nodes: tree.nodes().length - 1,
+    ...details,
+    self_evaluation: evaluation
+  };
+}
+
+function selectChild(tree: ThoughtTree, parent: ThoughtNode): ThoughtNode {
+  const children = parent.children.map(id => tree.get(id));
+  const uct = (child: ThoughtNode) =>
+    child.visits === 0
+      ? Infinity
+      : meanValue(child) + EXPLORATION * Math.sqrt(Math.log(parent.visits) / child.visits);
+
+  return children.reduce((best, child) => (uct(child) > uct(best) ? child : best));
+}
+
+function meanValue(node: ThoughtNode): number {
+  return node.visits ? node.total_value / node.visits : 0;
+}
+
+// Numbered steps of a path, without the root (the problem is in the brief)
+function formatSteps(path: ThoughtNode[]): string {
+  return path.slice(1).map((node, index) => `${index + 1}. ${node.thought}`).join("\n");
+}
+
+/**
+ * True once the search should stop expanding, leaving time to conclude
+ */
+function searchDeadline(run: StrategyRun): () => boolean {
+  if (!run.deadline) {
+    return () => false;
+  }
+  const clock = run.clock || systemClock;
+  const reserve = Math.min(CONCLUDE_RESERVE_MS, (run.deadline - clock.now()) / 4);
+  return () => clock.now() > run.deadline - reserve;
+}
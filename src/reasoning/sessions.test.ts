@@ -0,0 +1,66 @@
+import { ensureSessionSchema, getSession, listSessions } from "./sessions.js";
+
+// Records every statement with its bindings; answers queries from the given handler
+function fakeDb(answer: (sql: string) => unknown[] = () => []) {
+  const statements: { sql: string; bindings: unknown[] }[] = [];
+  const db = {
+    statements,
+    prepare(sql: string) {
+      const statement = {
+        bindings: [] as unknown[],
+        bind(...values: unknown[]) {
+          statement.bindings = values;
+          return statement;
+        },
+        async run() {
+          statements.push({ sql, bindings: statement.bindings });
+        },
+        async all() {
+          statements.push({ sql, bindings: statement.bindings });
+          return { results: answer(sql) };
+        },
+        async first() {
+          statements.push({ sql, bindings: statement.bindings });
+          return answer(sql)[0] ?? null;
+        }
+      };
+      return statement;
+    }
+  };
+  return db;
+}
+
+describe("reasoning sessions", () => {
+  it("adds the owner column to tables created before sessions had owners", async () => {
+    const db = fakeDb(sql => (sql.startsWith("PRAGMA") ? [{ name: "id" }, { name: "problem" }] : []));
+    await ensureSessionSchema(db as unknown as D1Database);
+
+    expect(db.statements.map(statement => statement.sql)).toContain("ALTER TABLE reasoning_sessions ADD COLUMN owner TEXT");
+  });
+
+  it("leaves tables that already have the column alone", async () => {
+    const db = fakeDb(sql => (sql.startsWith("PRAGMA") ? [{ name: "id" }, { name: "owner" }] : []));
+    await ensureSessionSchema(db as unknown as D1Database);
+
+    expect(db.statements.some(statement => statement.sql.startsWith("ALTER"))).toBe(false);
+  });
+
+  it("lists only the owner's sessions", async () => {
+    const db = fakeDb();
+    await listSessions(db as unknown as D1Database, { owner: "key-1", strategy: "creative" });
+
+    const [query] = db.statements;
+    expect(query.sql).toContain("WHERE owner IS ? AND strategy = ?");
+    expect(query.bindings).toEqual(["key-1", "creative", 20, 0]);
+  });
+
+  it("reads a session only for its owner, decoding the JSON columns", async () => {
+    const row = { id: "r-1", owner: "key-1", input: "{\"depth_level\":\"deep\"}", steps: "[\"a\"]", result: null };
+    const db = fakeDb(() => [row]);
+    const session = await getSession(db as unknown as D1Database, "r-1", "key-1");
+
+    expect(db.statements[0].sql).toContain("WHERE id = ? AND owner IS ?");
+    expect(db.statements[0].bindings).toEqual(["r-1", "key-1"]);
+    expect(session).toMatchObject({ input: { depth_level: "deep" }, steps: ["a"], result: {} });
+  });
+});
@@ -0,0 +1,300 @@
+import { ToolLogger } from "../agents/tool-context.js";
+import { StrategyResult } from "./prompting.js";
+
+/**
+ * 🗂️ Reasoning Sessions
+ * Every reason call is recorded in the `reasoning_sessions` D1 table: the
+ * problem and its hash, the inputs needed to replay it, the strategy, its
+ * steps and conclusion, and the quality score. Sessions on the same problem
+ * share a problem_hash, so a conclusion can be followed across replays and
+ * model changes. The strategy router reads its history from here too.
+ *
+ * Each session belongs to the API key that ran it, and every read is limited to
+ * the caller's own sessions. Sessions stored without auth (and those recorded
+ * before owners were kept) have no owner and are only visible without auth.
+ */
+
+export interface SessionRecord {
+  id: string;
+  problem: string;
+  problem_hash: string;
+  strategy: string;
+  input: Record<string, unknown>; // Arguments a replay re-runs with
+  steps: string[];
+  conclusion: string;
+  confidence: number;
+  quality_score: number;
+  provider: string;
+  model: string;
+  replay_of: string | null;
+  result: StrategyResult;
+  owner: string | null; // API key that ran the session; null without auth
+  created_at: string;
+}
+
+export type SessionSummary = Omit<SessionRecord, "input" | "steps" | "result" | "owner">;
+
+// A reasoning_sessions row, with the JSON columns still encoded
+interface SessionRow extends Omit<SessionRecord, "input" | "steps" | "result"> {
+  input: string | null;
+  steps: string | null;
+  result: string | null;
+}
+
+/**
+ * Outcome of a past session, as read by the strategy router
+ */
+export interface SessionOutcome {
+  problem: string;
+  strategy: string;
+  confidence: number;
+}
+
+export interface SessionFilter {
+  owner: string | null;
+  problem_hash?: string;
+  strategy?: string;
+  limit?: number;
+  offset?: number;
+}
+
+// Arguments a session keeps for replay; llm is left out so replays use the current model
+export const REPLAYED_FIELDS = [
+  "context",
+  "constraints",
+  "goals",
+  "evidence",
+  "assumptions",
+  "depth_level",
+  "beam_width",
+  "mcts_iterations",
+  "grounded",
+  "grounding_urls"
+] as const;
+
+const SUMMARY_COLUMNS = "id, problem, problem_hash, strategy, conclusion, confidence, quality_score, provider, model, replay_of, created_at";
+
+// Schema setup, once per database per isolate
+const schemaReady = new WeakMap<D1Database, Promise<void>>();
+
+/**
+ * Creates the table and indexes on first use; a failed attempt is retried on the next call
+ */
+export function ensureSessionSchema(db: D1Database): Promise<void> {
+  let ready = schemaReady.get(db);
+  if (!ready) {
+    ready = createSessionSchema(db).catch(error => {
+      schemaReady.delete(db);
+      throw error;
+    });
+    schemaReady.set(db, ready);
+  }
+  return ready;
+}
+
+async function createSessionSchema(db: D1Database) {
+  await db.prepare(`
+    CREATE TABLE IF NOT EXISTS reasoning_sessions (
+      id TEXT PRIMARY KEY,
+      problem TEXT NOT NULL,
+      problem_hash TEXT NOT NULL,
+      strategy TEXT NOT NULL,
+      input TEXT,
+      steps TEXT,
+      conclusion TEXT,
+      confidence REAL,
+      quality_score REAL,
+      provider TEXT,
+      model TEXT,
+      replay_of TEXT,
+      result TEXT,
+      owner TEXT,
+      created_at TEXT NOT NULL
+    )
+  `).run();
+
+  // Tables created before sessions had owners gain the column
+  const { results: columns } = await db.prepare("PRAGMA table_info(reasoning_sessions)").all<{ name: string }>();
+  if (!(columns || []).some(column => column.name === "owner")) {
+    await db.prepare("ALTER TABLE reasoning_sessions ADD COLUMN owner TEXT").run();
+  }
+
+  await db.prepare(`
+    CREATE INDEX IF NOT EXISTS idx_reasoning_sessions_problem
+    ON reasoning_sessions(problem_hash, created_at DESC)
+  `).run();
+
+  await db.prepare(`
+    CREATE INDEX IF NOT EXISTS idx_reasoning_sessions_created
+    ON reasoning_sessions(created_at DESC)
+  `).run();
+
+  await db.prepare(`
+    CREATE INDEX IF NOT EXISTS idx_reasoning_sessions_owner
+    ON reasoning_sessions(owner, created_at DESC)
+  `).run();
+}
+
+export async function saveSession(db: D1Database, session: SessionRecord) {
+  await db.prepare(`
+    INSERT INTO reasoning_sessions
+      (id, problem, problem_hash, strategy, input, steps, conclusion, confidence, quality_score, provider, model, replay_of, result, owner, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    session.id,
+    session.problem,
+    session.problem_hash,
+    session.strategy,
+    JSON.stringify(session.input),
+    JSON.stringify(session.steps),
+    session.conclusion,
+    session.confidence,
+    session.quality_score,
+    session.provider,
+    session.model,
+    session.replay_of,
+    JSON.stringify(session.result),
+    session.owner,
+    session.created_at
+  ).run();
+}
+
+/**
+ * The owner's sessions, newest first
+ */
+export async function listSessions(db: D1Database, filter: SessionFilter): Promise<SessionSummary[]> {
+  // IS matches a null owner too
+  const conditions: string[] = ["owner IS ?"];
+  const bindings: unknown[] = [filter.owner];
+
+  if (filter.problem_hash) {
+    conditions.push("problem_hash = ?");
+    bindings.push(filter.problem_hash);
+  }
+  if (filter.strategy) {
+    conditions.push("strategy = ?");
+    bindings.push(filter.strategy);
+  }
+
+  const { results } = await db.prepare(`
+    SELECT ${SUMMARY_COLUMNS} FROM reasoning_sessions
+    WHERE ${conditions.join(" AND ")}
+    ORDER BY created_at DESC
+    LIMIT ? OFFSET ?
+  `).bind(...bindings, filter.limit || 20, filter.offset || 0).all<SessionSummary>();
+
+  return results || [];
+}
+
+/**
+ * null when the session does not exist or belongs to someone else
+ */
+export async function getSession(db: D1Database, id: string, owner: string | null): Promise<SessionRecord | null> {
+  const row = await db.prepare("SELECT * FROM reasoning_sessions WHERE id = ? AND owner IS ?").bind(id, owner).first<SessionRow>();
+
+  if (!row) return null;
+
+  return {
+    ...row,
+    input: JSON.parse(row.input || "{}"),
+    steps: JSON.parse(row.steps || "[]"),
+    result: JSON.parse(row.result || "{}")
+  };
+}
+
+/**
+ * The owner's most recent outcomes, oldest first; empty until the first session is stored
+ */
+export async function recentOutcomes(db: D1Database, owner: string | null, limit: number, logger: ToolLogger): Promise<SessionOutcome[]> {
+  try {
+    const { results } = await db.prepare(`
+      SELECT problem, strategy, confidence FROM reasoning_sessions
+      WHERE owner IS ? AND confidence IS NOT NULL
+      ORDER BY created_at DESC
+      LIMIT ?
+    `).bind(owner, limit).all<SessionOutcome>();
+
+    return (results || []).reverse();
+  } catch (error) {
+    // The table only exists once the reasoner has stored a session
+    logger.warn("Failed to read reasoning sessions:", error);
+    return [];
+  }
+}
+
+/**
+ * SHA-256 of the problem with case and whitespace normalised
+ */
+export async function hashProblem(problem: string): Promise<string> {
+  const data = new TextEncoder().encode(problem.toLowerCase().replace(/\s+/g, " ").trim());
+  const hashBuffer = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(hashBuffer)).map(b => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * The steps a session records: the explicit steps of step_by_step and the tree
+ * searches, otherwise the points the strategy's conclusion rests on
+ */
+export function sessionSteps(result: StrategyResult): string[] {
+  if (Array.isArray(result.steps)) {
+    return result.steps.map(step => (step.conclusion ? `${step.description} → ${step.conclusion}` : step.description));
+  }
+
+  const points: unknown[] =
+    result.supporting_evidence ||
+    result.solution?.implementation_steps ||
+    result.strengthened_argument?.supporting_points ||
+    result.refined_solutions?.map(solution => solution.solution) ||
+    result.practical_applications?.map(application => application.application) ||
+    result.validated_intuitions?.map(intuition => intuition.insight) ||
+    [];
+
+  return points.map(point => (typeof point === "string" ? point : JSON.stringify(point)));
+}
+
+export interface SessionDiff {
+  same_problem: boolean;
+  strategy: { from: string; to: string; changed: boolean };
+  model: { from: string; to: string; changed: boolean };
+  conclusion: { from: string; to: string; changed: boolean; similarity: number | null };
+  confidence_delta: number;
+  quality_delta: number;
+  steps_added: string[];
+  steps_removed: string[];
+  steps_kept: number;
+  elapsed_ms: number; // From the first session to the second
+}
+
+/**
+ * How the second session differs from the first. Steps are compared as
+ * normalised text; conclusionSimilarity is the embedding similarity of the
+ * two conclusions, when the caller could compute one.
+ */
+export function diffSessions(from: SessionRecord, to: SessionRecord, conclusionSimilarity: number | null): SessionDiff {
+  const normalize = (step: string) => step.toLowerCase().replace(/\s+/g, " ").trim();
+  const before = new Set(from.steps.map(normalize));
+  const after = new Set(to.steps.map(normalize));
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+
+  return {
+    same_problem: from.problem_hash === to.problem_hash,
+    strategy: { from: from.strategy, to: to.strategy, changed: from.strategy !== to.strategy },
+    model: {
+      from: `${from.provider}/${from.model}`,
+      to: `${to.provider}/${to.model}`,
+      changed: from.provider !== to.provider || from.model !== to.model
+    },
+    conclusion: {
+      from: from.conclusion,
+      to: to.conclusion,
+      changed: normalize(from.conclusion || "") !== normalize(to.conclusion || ""),
+      similarity: conclusionSimilarity
+    },
+    confidence_delta: round((to.confidence ?? 0) - (from.confidence ?? 0)),
+    quality_delta: round((to.quality_score ?? 0) - (from.quality_score ?? 0)),
+    steps_added: to.steps.filter(step => !before.has(normalize(step))),
+    steps_removed: from.steps.filter(step => !after.has(normalize(step))),
+    steps_kept: [...after].filter(step => before.has(step)).length,
+    elapsed_ms: Date.parse(to.created_at) - Date.parse(from.created_at)
+  };
+}
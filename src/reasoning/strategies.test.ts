@@ -0,0 +1,131 @@
+import { FakeLlmProvider, FakeReply, schemaReply } from "../llm/fake.js";
+import { ChatMessage } from "../llm/provider.js";
+import { Score, StrategyRun } from "./prompting.js";
+import { REASONING_STRATEGIES, runStrategy } from "./strategies.js";
+
+const SELF_EVALUATION = "You review reasoning";
+
+const prompt = (messages: ChatMessage[]) => messages.map(message => message.content).join("\n");
+
+// Schema-shaped replies scoring 0.9, except the self-evaluation, which scores `confidence`
+function pipelineFake(confidence: number): FakeLlmProvider {
+  const work = schemaReply(() => "the answer", 0.9);
+  const review = schemaReply(() => "sound reasoning", confidence);
+  return new FakeLlmProvider((messages, options) => (prompt(messages).includes(SELF_EVALUATION) ? review : work)(messages, options));
+}
+
+// Replies chosen by a phrase of the system prompt; the first match wins
+function scripted(replies: [string, (messages: ChatMessage[]) => unknown][]): FakeReply {
+  return messages => {
+    const system = messages.filter(message => message.role === "system").map(message => message.content).join("\n");
+    const [, reply] = replies.find(([phrase]) => system.includes(phrase)) || [];
+    if (!reply) {
+      throw new Error(`No scripted reply for: ${system.substring(0, 200)}`);
+    }
+    return JSON.stringify(reply(messages));
+  };
+}
+
+const input = { problem: "Should we cache the API responses?", context: "Traffic doubled last month", constraints: ["No new infrastructure"] };
+
+describe("runStrategy", () => {
+  it.each(REASONING_STRATEGIES.filter(strategy => strategy !== "tree_of_thought" && strategy !== "mcts"))(
+    "%s concludes with the self-evaluated confidence",
+    async strategy => {
+      const llm = pipelineFake(0.35);
+      const result = await runStrategy(strategy, { llm }, input);
+
+      expect(result.strategy).toBe(strategy);
+      expect(result.conclusion).toBe("the answer");
+      expect(result.confidence).toBe(0.35);
+      expect(result.self_evaluation).toMatchObject({ confidence: 0.35, logically_valid: true, rationale: "sound reasoning" });
+
+      // Every call is JSON mode and carries the brief; the last one is the self-evaluation at temperature 0
+      expect(llm.calls.every(call => call.options.json)).toBe(true);
+      expect(llm.calls.every(call => prompt(call.messages).includes("## Problem\nShould we cache the API responses?"))).toBe(true);
+      const last = llm.calls[llm.calls.length - 1];
+      expect(prompt(last.messages)).toContain(SELF_EVALUATION);
+      expect(last.options.temperature).toBe(0);
+    }
+  );
+
+  it("rejects unknown strategies", () => {
+    expect(() => runStrategy("guessing", { llm: pipelineFake(0.5) }, input)).toThrow("Unknown reasoning strategy: guessing");
+  });
+
+  it("propagates provider errors", async () => {
+    const llm = new FakeLlmProvider(() => "not json");
+    await expect(runStrategy("analytical", { llm }, input)).rejects.toThrow("returned invalid JSON");
+  });
+
+  it("stops before calling the model once the run is aborted", async () => {
+    const controller = new AbortController();
+    controller.abort(new Error("client went away"));
+    const llm = pipelineFake(0.5);
+
+    await expect(runStrategy("critical", { llm, signal: controller.signal }, input)).rejects.toThrow("client went away");
+    expect(llm.calls).toHaveLength(0);
+  });
+});
+
+describe("step_by_step", () => {
+  it("works through at most the depth's steps, each building on the previous conclusions", async () => {
+    const llm = new FakeLlmProvider(scripted([
+      ["Plan the ordered steps", () => ({ steps: ["Measure", "Estimate", "Decide", "Review", "Ship"] })],
+      ["one step of a step-by-step", messages => {
+        const step = /Step (\d+):/.exec(prompt(messages))[1];
+        return { reasoning: "because", conclusion: `finding ${step}`, confidence: 0.7 };
+      }],
+      ["final answer", () => ({ conclusion: "cache it" })],
+      [SELF_EVALUATION, () => ({ confidence: 0.6, rigor: 0.5, logically_valid: true, rationale: "ok" })]
+    ]));
+    const run: StrategyRun = { llm };
+
+    const result = await runStrategy("step_by_step", run, { ...input, depth_level: "surface" });
+
+    expect(result.steps.map(step => step.conclusion)).toEqual(["finding 1", "finding 2", "finding 3"]);
+    expect(result.reasoning_path).toBe("finding 1 → finding 2 → finding 3");
+    expect(result.conclusion).toBe("cache it");
+    expect(result.confidence).toBe(0.6);
+
+    const third = llm.calls.find(call => prompt(call.messages).includes("Step 3:"));
+    expect(prompt(third.messages)).toContain("1. Measure → finding 1\n2. Estimate → finding 2");
+  });
+});
+
+describe("creative", () => {
+  it("concludes with the best refined solution and counts unique ideas", async () => {
+    const llm = new FakeLlmProvider(scripted([
+      ["creative problem solver", () => ({
+        techniques: [
+          { technique: "brainstorming", ideas: ["Edge cache", "CDN"], novelty_score: 0.2, feasibility_score: 0.9 },
+          { technique: "analogical_reasoning", ideas: ["edge cache", "Precompute"], novelty_score: 0.8, feasibility_score: 0.8 }
+        ]
+      })],
+      ["raw ideas into workable solutions", () => ({
+        refined_solutions: [
+          { solution: "CDN", novelty_score: 0.1, refinement_score: 0.4, constraint_compliance: 1 },
+          { solution: "Precompute hot responses", novelty_score: 0.7, refinement_score: 0.9, constraint_compliance: 1 }
+        ]
+      })],
+      [SELF_EVALUATION, () => ({ confidence: 0.7, rigor: 0.6, logically_valid: true, rationale: "ok" })]
+    ]));
+
+    const result = await runStrategy("creative", { llm }, input);
+
+    // The most novel-and-feasible technique's ideas come first; "Edge cache" is a case-insensitive duplicate
+    expect(result.combined_ideas).toEqual(["edge cache", "Precompute", "CDN"]);
+    expect(result.conclusion).toBe("Precompute hot responses");
+    expect(result.originality_score).toBeCloseTo(3 / 4);
+    expect(result.innovation_index).toBeCloseTo(0.4);
+  });
+});
+
+describe("Score", () => {
+  it("accepts 0-1 and 0-100 scales and clamps the rest", () => {
+    expect(Score.parse(0.42)).toBe(0.42);
+    expect(Score.parse(85)).toBe(0.85);
+    expect(Score.parse(250)).toBe(1);
+    expect(Score.parse(-3)).toBe(0);
+  });
+});
@@ -0,0 +1,435 @@
+import { z } from "zod";
+
+import {
+  STEP_COUNT,
+  Score,
+  StrategyInput,
+  StrategyResult,
+  StrategyRun,
+  TRACE_CHARS,
+  TextList,
+  ask,
+  mean,
+  selfEvaluate
+} from "./prompting.js";
+import { monteCarloTreeSearch, treeOfThought } from "./search.js";
+
+/**
+ * 🧩 Reasoning Strategies
+ * Prompt pipelines behind the Unified Reasoner's strategies. Each pipeline runs
+ * a few JSON-mode calls (explore the problem, then conclude) and finishes with a
+ * separate self-evaluation call; its calibrated confidence is the result's confidence.
+ * tree_of_thought and mcts search over reasoning steps instead, see search.ts.
+ */
+
+export const REASONING_STRATEGIES = [
+  "step_by_step",
+  "creative",
+  "analytical",
+  "lateral",
+  "systematic",
+  "intuitive",
+  "critical",
+  "tree_of_thought",
+  "mcts"
+] as const;
+
+export type ReasoningStrategy = typeof REASONING_STRATEGIES[number];
+
+/**
+ * Runs a strategy's pipeline; throws on unknown strategies and on provider errors
+ */
+export function runStrategy(strategy: string, run: StrategyRun, input: StrategyInput): Promise<StrategyResult> {
+  const pipeline = PIPELINES[strategy as ReasoningStrategy];
+  if (!pipeline) {
+    throw new Error(`Unknown reasoning strategy: ${strategy}`);
+  }
+  return pipeline(run, input);
+}
+
+// Step by step: plan, work each step with the previous ones in view, synthesize
+
+const StepPlanSchema = z.object({ steps: z.array(z.string()).min(1) });
+
+const StepSchema = z.object({
+  reasoning: z.string(),
+  conclusion: z.string(),
+  evidence_used: TextList,
+  confidence: Score
+});
+
+const ConclusionSchema = z.object({ conclusion: z.string() });
+
+async function stepByStepReasoning(run: StrategyRun, input: StrategyInput): Promise<StrategyResult> {
+  const maxSteps = STEP_COUNT[input.depth_level || "moderate"];
+
+  const plan = await ask(run, input, {
+    instructions: "You solve problems step by step. Plan the ordered steps that lead from the problem to an answer; each step must be a concrete sub-question.",
+    task: `Plan at most ${maxSteps} steps.`,
+    schema: StepPlanSchema
+  });
+
+  const steps = [];
+  const evidence = [...(input.evidence || [])];
+
+  for (const [index, description] of plan.steps.slice(0, maxSteps).entries()) {
+    const previous = steps.map(step => `${step.step_number}. ${step.description} → ${step.conclusion}`).join("\n");
+    const result = await ask(run, input, {
+      instructions: "You work through one step of a step-by-step solution. Reason only about this step, building on the conclusions of the previous steps, and rate your confidence in the step's conclusion.",
+      task: `${previous ? `Previous steps:\n${previous}\n\n` : ""}Step ${index + 1}: ${description}`,
+      schema: StepSchema
+    });
+
+    steps.push({ step_number: index + 1, description, ...result });
+    evidence.push(result.conclusion);
+  }
+
+  const { conclusion } = await ask(run, input, {
+    instructions: "You combine the conclusions of a step-by-step solution into a final answer to the original problem.",
+    task: `Steps:\n${steps.map(step => `${step.step_number}. ${step.description} → ${step.conclusion}`).join("\n")}`,
+    schema: ConclusionSchema
+  });
+
+  const evaluation = await selfEvaluate(run, input, "step_by_step", conclusion, steps);
+
+  return {
+    strategy: "step_by_step",
+    steps,
+    conclusion,
+    confidence: evaluation.confidence,
+    evidence,
+    reasoning_path: steps.map(step => step.conclusion).join(" → "),
+    logical_validity: evaluation.logically_valid,
+    self_evaluation: evaluation
+  };
+}
+
+// Creative: diverge with several techniques, then refine the ideas against the constraints
+
+const CREATIVE_TECHNIQUES = [
+  "brainstorming",
+  "lateral_thinking",
+  "analogical_reasoning",
+  "perspective_shifting",
+  "constraint_removal",
+  "random_stimulation",
+  "metaphorical_thinking"
+];
+
+const CreativeIdeasSchema = z.object({
+  techniques: z.array(z.object({
+    technique: z.string(),
+    ideas: TextList,
+    novelty_score: Score,
+    feasibility_score: Score
+  })).min(1)
+});
+
+const CreativeRefinementSchema = z.object({
+  refined_solutions: z.array(z.object({
+    solution: z.string(),
+    rationale: z.string().default(""),
+    novelty_score: Score,
+    refinement_score: Score.describe("Overall quality after refinement"),
+    constraint_compliance: Score
+  })).min(1)
+});
+
+async function creativeReasoning(run: StrategyRun, input: StrategyInput): Promise<StrategyResult> {
+  const { techniques } = await ask(run, input, {
+    instructions: "You are a creative problem solver. Apply each listed ideation technique to the problem and produce distinct, specific ideas. Rate each technique's ideas for novelty and feasibility.",
+    task: `Techniques: ${CREATIVE_TECHNIQUES.join(", ")}. Give 2 or 3 ideas per technique.`,
+    schema: CreativeIdeasSchema,
+    temperature: 0.9
+  });
+
+  const combinedIdeas = [...techniques]
+    .sort((a, b) => b.novelty_score * b.feasibility_score - a.novelty_score * a.feasibility_score)
+    .flatMap(technique => technique.ideas)
+    .filter((idea, index, ideas) => ideas.findIndex(other => other.toLowerCase() === idea.toLowerCase()) === index)
+    .slice(0, 10);
+
+  const { refined_solutions } = await ask(run, input, {
+    instructions: "You turn raw ideas into workable solutions. Merge overlapping ideas, make each solution concrete, check it against the constraints, and order the solutions from best to worst.",
+    task: `Ideas:\n${combinedIdeas.map(idea => `- ${idea}`).join("\n")}\n\nReturn up to 5 refined solutions.`,
+    schema: CreativeRefinementSchema,
+    temperature: 0.5
+  });
+
+  const refinedSolutions = [...refined_solutions].sort((a, b) => b.refinement_score - a.refinement_score);
+  const conclusion = refinedSolutions[0].solution;
+  const evaluation = await selfEvaluate(run, input, "creative", conclusion, refinedSolutions);
+  const allIdeas = techniques.flatMap(technique => technique.ideas);
+
+  return {
+    strategy: "creative",
+    creative_techniques: techniques,
+    combined_ideas: combinedIdeas,
+    refined_solutions: refinedSolutions,
+    conclusion,
+    confidence: evaluation.confidence,
+    innovation_index: mean(refinedSolutions.map(solution => solution.novelty_score)),
+    originality_score: allIdeas.length ? combinedIdeas.length / Math.min(allIdeas.length, 10) : 0,
+    self_evaluation: evaluation
+  };
+}
+
+// Analytical: structured breakdown of the problem and its data, then a supported conclusion
+
+const AnalyticalSchema = z.object({
+  problem_decomposition: TextList,
+  data_analysis: z.string().default(""),
+  causal_analysis: z.array(z.object({ cause: z.string(), effect: z.string() })).default([]),
+  quantitative_analysis: z.string().default(""),
+  statistical_insights: TextList,
+  logical_structure: z.string().default(""),
+  decision_tree: z.array(z.object({ decision: z.string(), options: TextList })).default([]),
+  risk_analysis: z.array(z.object({ risk: z.string(), likelihood: Score, impact: Score })).default([]),
+  data_quality: Score.describe("How complete and reliable the available evidence is")
+});
+
+const SupportedConclusionSchema = z.object({
+  conclusion: z.string(),
+  supporting_evidence: TextList
+});
+
+async function analyticalReasoning(run: StrategyRun, input: StrategyInput): Promise<StrategyResult> {
+  const { data_quality, ...analysis } = await ask(run, input, {
+    instructions: "You are a rigorous analyst. Decompose the problem, analyse the available data and causal relationships, quantify what can be quantified, map the decisions involved and assess the risks. Do not invent data; say when evidence is missing.",
+    task: "Produce the analysis.",
+    schema: AnalyticalSchema
+  });
+
+  const { conclusion, supporting_evidence } = await ask(run, input, {
+    instructions: "You draw the conclusion an analysis supports, citing the findings it rests on.",
+    task: `Analysis:\n${JSON.stringify(analysis).substring(0, TRACE_CHARS)}`,
+    schema: SupportedConclusionSchema
+  });
+
+  const evaluation = await selfEvaluate(run, input, "analytical", conclusion, analysis);
+
+  return {
+    strategy: "analytical",
+    analysis,
+    conclusion,
+    confidence: evaluation.confidence,
+    supporting_evidence,
+    analytical_rigor: evaluation.rigor,
+    data_quality,
+    self_evaluation: evaluation
+  };
+}
+
+// Lateral: de Bono's techniques to escape the obvious framing, then make the insights practical
+
+const LateralSchema = z.object({
+  alternative_concepts: TextList,
+  provocative_operations: TextList.describe("Deliberately unreasonable statements (\"po\") and where they lead"),
+  random_entry: TextList,
+  concept_extraction: TextList,
+  reversal_method: TextList,
+  wishful_thinking: TextList
+});
+
+const LateralInsightSchema = z.object({
+  insights: z.array(z.object({ insight: z.string(), unconventional_score: Score })).min(1),
+  practical_applications: z.array(z.object({
+    application: z.string(),
+    insight: z.string().default(""),
+    feasibility: Score
+  })).min(1),
+  breakthrough_potential: Score
+});
+
+async function lateralReasoning(run: StrategyRun, input: StrategyInput): Promise<StrategyResult> {
+  const techniques = await ask(run, input, {
+    instructions: "You practise Edward de Bono's lateral thinking. Escape the obvious framing of the problem using alternative concepts, provocative operations, a random entry point, concept extraction, reversal and wishful thinking. Give 2 or 3 outputs per technique.",
+    task: "Apply every technique.",
+    schema: LateralSchema,
+    temperature: 0.9
+  });
+
+  const { insights, practical_applications, breakthrough_potential } = await ask(run, input, {
+    instructions: "You turn lateral-thinking provocations into insights and then into practical applications that respect the constraints. Order applications from most to least promising.",
+    task: `Technique outputs:\n${JSON.stringify(techniques).substring(0, TRACE_CHARS)}`,
+    schema: LateralInsightSchema,
+    temperature: 0.5
+  });
+
+  const conclusion = practical_applications[0].application;
+  const evaluation = await selfEvaluate(run, input, "lateral", conclusion, { insights, practical_applications });
+
+  return {
+    strategy: "lateral",
+    lateral_techniques: techniques,
+    insights,
+    practical_applications,
+    conclusion,
+    confidence: evaluation.confidence,
+    breakthrough_potential,
+    unconventional_score: mean(insights.map(insight => insight.unconventional_score)),
+    self_evaluation: evaluation
+  };
+}
+
+// Systematic: walk a fixed framework section by section, then derive the solution from it
+
+const SystematicSchema = z.object({
+  problem_categorization: z.string().default(""),
+  structured_analysis: TextList,
+  framework_application: z.array(z.object({ framework: z.string(), finding: z.string() })).default([]),
+  process_mapping: TextList,
+  systems_thinking: TextList.describe("Feedback loops, dependencies and side effects"),
+  root_cause_analysis: TextList,
+  solution_space_mapping: z.array(z.object({ option: z.string(), trade_offs: z.string() })).default([])
+});
+
+const SystematicSolutionSchema = z.object({
+  conclusion: z.string(),
+  implementation_steps: TextList
+});
+
+async function systematicReasoning(run: StrategyRun, input: StrategyInput): Promise<StrategyResult> {
+  const framework = await ask(run, input, {
+    instructions: "You work systematically. Categorise the problem, analyse it with established frameworks (e.g. SWOT, 5 Whys, first principles), map the processes and system dynamics involved, find root causes and map the solution space with trade-offs.",
+    task: "Fill in every section of the framework.",
+    schema: SystematicSchema
+  });
+
+  const solution = await ask(run, input, {
+    instructions: "You derive the best solution from a completed systematic analysis and lay out how to implement it.",
+    task: `Framework:\n${JSON.stringify(framework).substring(0, TRACE_CHARS)}`,
+    schema: SystematicSolutionSchema
+  });
+
+  const evaluation = await selfEvaluate(run, input, "systematic", solution.conclusion, framework);
+  const sections = Object.values(framework);
+
+  return {
+    strategy: "systematic",
+    framework,
+    solution: { ...solution, confidence: evaluation.confidence, framework_steps: Object.keys(framework) },
+    conclusion: solution.conclusion,
+    confidence: evaluation.confidence,
+    completeness_score: sections.filter(section => section.length > 0).length / sections.length,
+    methodology_rigor: evaluation.rigor,
+    self_evaluation: evaluation
+  };
+}
+
+// Intuitive: fast pattern-based impressions, then checked against the evidence
+
+const IntuitiveSchema = z.object({
+  pattern_recognition: z.object({ patterns: TextList, strength: Score }),
+  analogical_matching: TextList,
+  gestalt_perception: z.string().default(""),
+  tacit_knowledge: TextList,
+  intuitive_leaps: TextList,
+  emotional_intelligence: z.string().default("").describe("How the people involved are likely to feel and react"),
+  subconscious_processing: z.string().default("").describe("The answer that feels right before analysis"),
+  insights: z.array(z.string()).min(1)
+});
+
+const IntuitionValidationSchema = z.object({
+  validated_intuitions: z.array(z.object({
+    insight: z.string(),
+    supported_by: TextList,
+    contradicted_by: TextList,
+    plausibility: Score
+  })).min(1)
+});
+
+async function intuitiveReasoning(run: StrategyRun, input: StrategyInput): Promise<StrategyResult> {
+  const { insights, ...processes } = await ask(run, input, {
+    instructions: "You reason intuitively, like an experienced expert: recognise patterns, match analogies, perceive the whole, draw on tacit knowledge and make intuitive leaps. Then state your main insights.",
+    task: "Give your intuitive read of the problem.",
+    schema: IntuitiveSchema,
+    temperature: 0.7
+  });
+
+  const { validated_intuitions } = await ask(run, input, {
+    instructions: "You check intuitions against the evidence, context and constraints. For each insight, list what supports and contradicts it and rate its plausibility.",
+    task: `Insights:\n${insights.map(insight => `- ${insight}`).join("\n")}`,
+    schema: IntuitionValidationSchema
+  });
+
+  const validatedIntuitions = [...validated_intuitions].sort((a, b) => b.plausibility - a.plausibility);
+  const conclusion = validatedIntuitions[0].insight;
+  const evaluation = await selfEvaluate(run, input, "intuitive", conclusion, validatedIntuitions);
+
+  return {
+    strategy: "intuitive",
+    intuitive_processes: processes,
+    insights,
+    validated_intuitions: validatedIntuitions,
+    conclusion,
+    confidence: evaluation.confidence,
+    pattern_strength: processes.pattern_recognition.strength,
+    intuition_quality: mean(validatedIntuitions.map(intuition => intuition.plausibility)),
+    self_evaluation: evaluation
+  };
+}
+
+// Critical: attack the assumptions, evidence and logic, then rebuild the strongest argument
+
+const CriticalSchema = z.object({
+  assumption_challenge: z.array(z.object({ assumption: z.string(), challenge: z.string() })).default([]),
+  evidence_evaluation: z.array(z.object({ evidence: z.string(), reliability: Score, note: z.string().default("") })).default([]),
+  logical_fallacy_detection: TextList,
+  bias_identification: TextList,
+  counterargument_generation: TextList,
+  alternative_interpretations: TextList,
+  skeptical_inquiry: TextList.describe("Open questions a sceptic would ask"),
+  meta_cognitive_reflection: z.string().default("")
+});
+
+const CriticalConclusionSchema = z.object({
+  conclusions: z.array(z.string()).min(1),
+  strengthened_argument: z.object({
+    conclusion: z.string(),
+    supporting_points: TextList,
+    addressed_counterarguments: TextList,
+    strength: Score
+  })
+});
+
+async function criticalReasoning(run: StrategyRun, input: StrategyInput): Promise<StrategyResult> {
+  const analysis = await ask(run, input, {
+    instructions: "You are a critical thinker. Challenge the stated and hidden assumptions, grade the reliability of the evidence, detect fallacies and biases, generate counterarguments and alternative interpretations, and reflect on the limits of your own reasoning.",
+    task: "Produce the critical analysis.",
+    schema: CriticalSchema
+  });
+
+  const { conclusions, strengthened_argument } = await ask(run, input, {
+    instructions: "You state what survives a critical analysis, then build the strongest argument for the best-supported conclusion, answering the counterarguments.",
+    task: `Critical analysis:\n${JSON.stringify(analysis).substring(0, TRACE_CHARS)}`,
+    schema: CriticalConclusionSchema
+  });
+
+  const evaluation = await selfEvaluate(run, input, "critical", strengthened_argument.conclusion, { analysis, strengthened_argument });
+
+  return {
+    strategy: "critical",
+    critical_analysis: analysis,
+    conclusions,
+    strengthened_argument: { ...strengthened_argument, confidence: evaluation.confidence },
+    conclusion: strengthened_argument.conclusion,
+    confidence: evaluation.confidence,
+    critical_rigor: evaluation.rigor,
+    argument_strength: strengthened_argument.strength,
+    self_evaluation: evaluation
+  };
+}
+
+const PIPELINES: Record<ReasoningStrategy, (run: StrategyRun, input: StrategyInput) => Promise<StrategyResult>> = {
+  step_by_step: stepByStepReasoning,
+  creative: creativeReasoning,
+  analytical: analyticalReasoning,
+  lateral: lateralReasoning,
+  systematic: systematicReasoning,
+  intuitive: intuitiveReasoning,
+  critical: criticalReasoning,
+  tree_of_thought: treeOfThought,
+  mcts: monteCarloTreeSearch
+};
+
@@ -0,0 +1,71 @@
+import { z } from "zod";
+
+import { ToolMetadata } from "../agents/mcp.js";
+import { CloudflareEnv } from "./env.js";
+
+/**
+ * 🧩 Per-action Tools
+ * Splits each action-multiplexed `zeo_*` tool into one MCP tool per action
+ * (e.g. zeo_memory_semantic_search), each with a schema holding only that action's fields.
+ * Calls are validated against the tight schema, then dispatched to the parent tool.
+ */
+
+export type ToolMode = "consolidated" | "per_action" | "both";
+
+export interface ActionTool {
+  name: string;
+  description: string;
+  schema: z.ZodObject<z.ZodRawShape>;
+  output?: z.ZodObject<z.ZodRawShape>;
+  tool: string;
+  action: string;
+}
+
+export function getToolMode(env: CloudflareEnv): ToolMode {
+  switch (env.ZEO_TOOL_MODE) {
+    case "per_action":
+    case "both":
+      return env.ZEO_TOOL_MODE;
+    default:
+      return "consolidated";
+  }
+}
+
+export function buildActionTools(metadata: ToolMetadata[]): ActionTool[] {
+  return metadata.flatMap(tool =>
+    Object.entries(tool.actions).map(([action, spec]) => {
+      const shape: z.ZodRawShape = {};
+
+      for (const field of spec.required || []) {
+        shape[field] = requiredField(tool.schema.shape[field]);
+      }
+      for (const field of spec.fields || []) {
+        shape[field] = tool.schema.shape[field];
+      }
+
+      // The emoji that opens the parent description, e.g. "💾"
+      const icon = tool.description.split(" ")[0];
+
+      return {
+        name: `${tool.actionPrefix}_${action}`,
+        description: `${icon} ${spec.description}`,
+        schema: z.object(shape),
+        output: spec.output,
+        tool: tool.name,
+        action
+      };
+    })
+  );
+}
+
+/**
+ * Unwraps `.optional()` while keeping the field description
+ */
+function requiredField(field: z.ZodTypeAny): z.ZodTypeAny {
+  if (!(field instanceof z.ZodOptional)) {
+    return field;
+  }
+
+  const inner = field.unwrap() as z.ZodTypeAny;
+  return field.description ? inner.describe(field.description) : inner;
+}
@@ -0,0 +1,107 @@
+import { FakeLlmProvider, schemaReply } from "../llm/fake.js";
+import { MemoryEngine } from "../tools/memory-engine.js";
+import { WorkerStreamableHttpTransport } from "../transport/streamable-http.js";
+import { McpSessionContext, createZeoMCPServer } from "./create-server.js";
+import { CloudflareEnv } from "./env.js";
+
+// The memory engine and reasoner are available; the memory engine's execute() is mocked, the reasoner runs on the fake LLM
+const env = { ZEO_DB: {}, ZEO_KV: {}, AI: {}, ZEO_TOOL_MODE: "both", ZEO_LLM: "{\"provider\": \"fake\"}" } as unknown as CloudflareEnv;
+
+function sessionContext(): McpSessionContext & { setMemorySessionId: jest.Mock } {
+  return {
+    sessionId: "s-1",
+    getMemorySessionId: () => "mcp_s-1",
+    setMemorySessionId: jest.fn(),
+    trackExecution: (tool, action, run) => run()
+  };
+}
+
+async function callTool(session: McpSessionContext, name: string, args: Record<string, unknown>, scopes = ["*"]) {
+  const transport = new WorkerStreamableHttpTransport();
+  const server = createZeoMCPServer(env, session);
+  await server.connect(transport);
+
+  const response = await transport.handleRequest(
+    new Request("https://zeo.test/mcp", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/call", params: { name, arguments: args } })
+    }),
+    { token: "t", clientId: "k", scopes }
+  );
+  await server.close();
+  return ((await response.json()) as any).result;
+}
+
+describe("tools/call session defaults", () => {
+  let execute: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.spyOn(console, "warn").mockImplementation(() => {}); // Tools without bindings are reported
+    const tracked: any = { result: { action: "search", query: "q", results: [], total_found: 0 }, duration: 1, success: true };
+    execute = jest.spyOn(MemoryEngine.prototype, "execute").mockResolvedValue(tracked);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("fills the session's memory session_id into per-action calls that take one", async () => {
+    const result = await callTool(sessionContext(), "zeo_memory_search", { query: "q" });
+
+    expect(result.isError).toBeUndefined();
+    expect(execute.mock.calls[0][0]).toMatchObject({ action: "search", query: "q", session_id: "mcp_s-1" });
+  });
+
+  it("leaves actions without a session_id alone", async () => {
+    await callTool(sessionContext(), "zeo_memory_engine", { action: "retrieve", memory_id: "m" });
+
+    expect(execute.mock.calls[0][0]).not.toHaveProperty("session_id");
+  });
+
+  it("makes an explicit session_id the default only for calls that run", async () => {
+    const session = sessionContext();
+
+    const forbidden = await callTool(session, "zeo_memory_search", { query: "q", session_id: "other" }, ["zeo_memory_engine:store"]);
+    expect(forbidden.isError).toBe(true);
+
+    const invalid = await callTool(session, "zeo_memory_search", { query: "q", session_id: "other", limit: 1000 });
+    expect(invalid.isError).toBe(true);
+    expect(session.setMemorySessionId).not.toHaveBeenCalled();
+
+    await callTool(session, "zeo_memory_search", { query: "q", session_id: "other" });
+    expect(session.setMemorySessionId).toHaveBeenCalledWith("other");
+  });
+});
+
+describe("tools/call nested tool calls", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    jest.spyOn(console, "log").mockImplementation(() => {}); // Performance tracking
+
+    // The configured fake answers JSON prompts with {}; give the reasoner schema-shaped replies
+    const chat = FakeLlmProvider.prototype.chat;
+    const scripted = new FakeLlmProvider(schemaReply(() => "The sky is blue"));
+    jest.spyOn(FakeLlmProvider.prototype, "chat").mockImplementation((messages, options) => chat.call(scripted, messages, options));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("skips grounding sources whose tools the key has no scope for", async () => {
+    const execute = jest.spyOn(MemoryEngine.prototype, "execute");
+    const result = await callTool(
+      sessionContext(),
+      "zeo_unified_reasoner",
+      { action: "reason", problem: "Is the sky blue?", strategy: "analytical", grounded: true, grounding_urls: ["https://example.com"] },
+      ["zeo_unified_reasoner"]
+    );
+
+    expect(execute).not.toHaveBeenCalled();
+    expect(result.structuredContent.grounding.failed_sources).toEqual([
+      { source: "memory", error: "Forbidden: API key lacks scope zeo_memory_engine:semantic_search" },
+      { source: "https://example.com", error: "Forbidden: API key lacks scope zeo_web_intelligence:extract" }
+    ]);
+  });
+});
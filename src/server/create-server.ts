@@ -0,0 +1,186 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { CallToolRequestSchema, ListToolsRequestSchema, McpError } from "@modelcontextprotocol/sdk/types.js";
+
+import { ToolMetadata, ToolUtils } from "../agents/mcp.js";
+import { createConsoleLogger } from "../agents/tool-context.js";
+import { canUseTool, isAuthorized } from "../auth/authenticate.js";
+import { enforceRateLimit } from "../limits/rate-limiter.js";
+
+import { ActionTool, ToolMode, buildActionTools, getToolMode } from "./action-tools.js";
+import { CloudflareEnv } from "./env.js";
+import { registerPrompts } from "./prompts.js";
+import { registerResources } from "./resources.js";
+import { createToolCall } from "./tool-call.js";
+import { actionOutputSchema, toCallToolResult, toolOutputSchema } from "./tool-output.js";
+import { TOOL_REGISTRY, ZeoTool, createTools } from "./tool-registry.js";
+
+/**
+ * 🏭 ZEO MCP Server Factory
+ * Builds a Server instance with every ZEO tool registered
+ */
+
+/**
+ * Session hooks supplied when the server is pinned to a Durable Object session
+ */
+export interface McpSessionContext {
+  sessionId: string;
+  getMemorySessionId(): string;
+  setMemorySessionId(memorySessionId: string): void;
+  trackExecution<T>(tool: string, action: string | undefined, run: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * Tool call arguments: the action, when the tool has several, and its fields
+ */
+type ToolArguments = Record<string, unknown>;
+
+export function createZeoMCPServer(env: CloudflareEnv, session?: McpSessionContext): Server {
+  const server = new Server(
+    {
+      name: "zeo-composable-mcp",
+      version: env.ZEO_VERSION || "1.0.0",
+      description: "Revolutionary MCP Remote Server with 9 AI-powered composable tools"
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {},
+        prompts: {}
+      }
+    }
+  );
+
+  // Initialize tool instances whose bindings are available
+  const tools = createTools(env);
+  
+  // Register all tools
+  registerTools(server, env, tools, getToolMode(env), session);
+  
+  // Stored memories, workflows and reasoning sessions
+  registerResources(server, env);
+  
+  // Curated prompt templates
+  registerPrompts(server);
+  
+  return server;
+}
+
+function registerTools(server: Server, env: CloudflareEnv, tools: Map<string, ZeoTool>, mode: ToolMode, session?: McpSessionContext) {
+  const metadata = TOOL_REGISTRY.map(registration => registration.metadata).filter(tool => tools.has(tool.name));
+  const actionTools = new Map<string, ActionTool>(
+    mode === "consolidated" ? [] : buildActionTools(metadata).map(tool => [tool.name, tool])
+  );
+  const logger = createConsoleLogger("zeo");
+
+  // List tools handler: generated from each tool's Zod schema, the same one execute() validates against
+  server.setRequestHandler(ListToolsRequestSchema, async (request, extra) => {
+    const consolidated = mode === "per_action" ? [] : metadata;
+    return {
+      tools: [
+        ...consolidated
+          .filter(tool => canUseTool(extra.authInfo, tool.name))
+          .map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            inputSchema: ToolUtils.toInputSchema(tool.schema),
+            outputSchema: toolOutputSchema(tool)
+          })),
+        ...[...actionTools.values()]
+          .filter(tool => isAuthorized(extra.authInfo, tool.tool, tool.action))
+          .map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            inputSchema: ToolUtils.toInputSchema(tool.schema),
+            outputSchema: actionOutputSchema(tool.action, tool.output)
+          }))
+      ]
+    };
+  });
+
+  // Call tool handler
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const actionTool = actionTools.get(request.params.name);
+    const name = actionTool ? actionTool.tool : request.params.name;
+    let input: ToolArguments = request.params.arguments || {};
+
+    try {
+      if (actionTool) {
+        // Per-action tools accept only their own fields; the action is implied by the tool name
+        input = { ...ToolUtils.validateArgs(actionTool.schema, input), action: actionTool.action };
+      } else if (mode === "per_action") {
+        throw new Error(`Unknown tool: ${name}`);
+      }
+
+      const action = typeof input.action === "string" ? input.action : undefined;
+      if (!isAuthorized(extra.authInfo, name, action)) {
+        throw new Error(`Forbidden: API key lacks scope ${name}:${action || "*"}`);
+      }
+
+      const tool = tools.get(name);
+      if (!tool) {
+        const registered = TOOL_REGISTRY.some(registration => registration.metadata.name === name);
+        throw new Error(registered ? `Tool unavailable, missing bindings (see /health): ${name}` : `Unknown tool: ${name}`);
+      }
+
+      // Only calls with valid arguments are charged, and their cost is read from the parsed values
+      const toolMetadata = metadata.find(tool => tool.name === name);
+      const validated: ToolArguments = ToolUtils.validateArgs(toolMetadata.schema, input);
+
+      await enforceRateLimit(env, extra.authInfo, name, validated);
+
+      // Session defaults are filled only into calls that will run, since they may update the session
+      const args = session ? applySessionDefaults(session, toolMetadata, validated) : validated;
+
+      // Workflow runs are recorded on the session so they survive reconnects
+      const call = createToolCall(extra, env);
+      const run = async () => {
+        const result = await tool.execute(args, call);
+        // Tools may return partial results when cancelled; record the run as cancelled instead
+        ToolUtils.throwIfAborted(call.signal);
+        return result;
+      };
+      const result = session && name === "zeo_workflow_orchestrator"
+        ? await session.trackExecution(name, action, run)
+        : await run();
+
+      return toCallToolResult(toolMetadata, action, result, logger);
+    } catch (error) {
+      // Protocol errors (rate limits) go back as JSON-RPC errors so clients can honour retry_after
+      if (error instanceof McpError) {
+        throw error;
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            error: error instanceof Error ? error.message : "Unknown error",
+            tool: request.params.name,
+            timestamp: new Date().toISOString()
+          }, null, 2)
+        }],
+        isError: true
+      };
+    }
+  });
+}
+
+/**
+ * Fills per-session defaults into validated tool arguments: the memory session_id,
+ * for memory actions that take one
+ */
+function applySessionDefaults(session: McpSessionContext, tool: ToolMetadata, args: ToolArguments): ToolArguments {
+  const spec = typeof args.action === "string" ? tool.actions[args.action] : undefined;
+  const takesSessionId = !!spec && [...(spec.required || []), ...(spec.fields || [])].includes("session_id");
+  if (tool.name !== "zeo_memory_engine" || !takesSessionId) {
+    return args;
+  }
+
+  if (typeof args.session_id === "string" && args.session_id) {
+    // An explicit session_id becomes the default for the rest of this MCP session
+    session.setMemorySessionId(args.session_id);
+    return args;
+  }
+
+  return { ...args, session_id: session.getMemorySessionId() };
+}
@@ -0,0 +1,37 @@
+/**
+ * 🌍 Worker Environment
+ * Bindings and secrets available to the ZEO worker and its Durable Objects
+ */
+
+export interface CloudflareEnv {
+  // Cloudflare AI
+  AI: any;
+  
+  // Storage
+  ZEO_KV: KVNamespace;
+  ZEO_DB: D1Database;
+  ZEO_BUCKET: R2Bucket;
+  OAUTH_KV?: KVNamespace; // Enables the OAuth 2.1 endpoints
+  
+  // Durable Objects
+  MCP_SESSIONS?: DurableObjectNamespace;
+  ZEO_RATE_LIMITER?: DurableObjectNamespace; // Enables rate limits and quotas
+  
+  // API Keys
+  GITHUB_TOKEN?: string;
+  OPENAI_API_KEY?: string;
+  ANTHROPIC_API_KEY?: string;
+  ZEO_ADMIN_TOKEN?: string; // Guards /admin/keys
+  ZEO_ARTIFACT_SIGNING_KEY?: string; // Signs artifact download URLs
+  
+  // Configuration
+  ZEO_VERSION?: string;
+  ZEO_ENVIRONMENT?: string;
+  ZEO_TOOL_MODE?: string; // "consolidated" (default), "per_action" or "both"
+  ZEO_AUTH?: string; // "required" (default) or "disabled"
+  ZEO_RATE_LIMITS?: string; // JSON RateLimitPolicy, overrides DEFAULT_RATE_LIMITS
+  ZEO_LLM?: string; // JSON LlmConfig: default provider and models, per-tool overrides
+  ZEO_PUBLIC_URL?: string; // Public origin of the worker, used in artifact download URLs
+  ZEO_ARTIFACT_THRESHOLD?: string; // Bytes; larger results are offloaded to ZEO_BUCKET (default 32768)
+  ZEO_ARTIFACT_URL_TTL?: string; // Seconds a download URL stays valid (default 3600, max 7 days)
+}
@@ -0,0 +1,58 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+
+import { PROMPTS, registerPrompts } from "./prompts.js";
+
+async function connect() {
+  const server = new Server({ name: "test", version: "1.0.0" }, { capabilities: { prompts: {} } });
+  registerPrompts(server);
+
+  const client = new Client({ name: "test-client", version: "1.0.0" });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return client;
+}
+
+describe("MCP prompts", () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    client = await connect();
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it("lists every prompt with its arguments and which are required", async () => {
+    const { prompts } = await client.listPrompts();
+
+    expect(prompts.map(prompt => prompt.name)).toEqual(PROMPTS.map(prompt => prompt.name));
+    const plan = prompts.find(prompt => prompt.name === "plan_workflow");
+    expect(plan.arguments.find(argument => argument.name === "goal")).toEqual({ name: "goal", description: "What you want to accomplish", required: true });
+    expect(plan.arguments.find(argument => argument.name === "automation_level").required).toBe(false);
+  });
+
+  it("renders a prompt from string arguments, splitting lists and filling defaults", async () => {
+    const result = await client.getPrompt({
+      name: "reason_through_problem",
+      arguments: { problem: "Cut cloud costs", constraints: "no downtime, same team" }
+    });
+
+    const text = (result.messages[0].content as { text: string }).text;
+    expect(result.messages[0].role).toBe("user");
+    expect(text).toContain("Solve this problem using step-by-step reasoning:");
+    expect(text).toContain("Problem: Cut cloud costs\nConstraints: no downtime, same team");
+    expect(text).not.toContain("Domain:");
+  });
+
+  it("rejects unknown prompts and invalid arguments with InvalidParams", async () => {
+    await expect(client.getPrompt({ name: "nope" })).rejects.toMatchObject({ code: ErrorCode.InvalidParams, message: expect.stringContaining("Unknown prompt: nope") });
+    await expect(client.getPrompt({ name: "reason_through_problem", arguments: { problem: "x", strategy: "guessing" } })).rejects.toMatchObject({
+      code: ErrorCode.InvalidParams,
+      message: expect.stringContaining("Invalid arguments for prompt reason_through_problem: strategy")
+    });
+  });
+});
@@ -0,0 +1,297 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ErrorCode,
+  GetPromptRequestSchema,
+  GetPromptResult,
+  ListPromptsRequestSchema,
+  McpError,
+  Prompt
+} from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+
+/**
+ * 💬 MCP Prompts
+ * Curated, parameterized prompt templates (from zeo-prompt-improvements.md and the
+ * legacy ZeoMCP tools) served over prompts/list and prompts/get.
+ * Arguments arrive as strings; each prompt validates them with its own Zod schema.
+ */
+
+interface PromptDefinition<T extends z.ZodRawShape = z.ZodRawShape> {
+  name: string;
+  description: string;
+  arguments: z.ZodObject<T>;
+  render(args: z.infer<z.ZodObject<T>>): string;
+}
+
+const ZEO_TOOLS = `• github_orchestrator → Repository analysis & AI insights
+• ideation_engine → 8 creative thinking modes
+• unified_reasoner → 7 reasoning strategies plus tree-of-thought and MCTS search
+• implementation_bridge → Idea-to-code translation
+• web_intelligence → Research & content analysis
+• persistent_memory_engine → Knowledge persistence
+• code_architect → Architecture design & analysis`;
+
+// Comma-separated string arguments, e.g. "typescript, cloudflare workers"
+const list = () => z.string().transform(value =>
+  value.split(",").map(item => item.trim()).filter(Boolean)
+);
+
+const REASONING_INSTRUCTIONS: Record<string, { title: string; steps: string }> = {
+  step_by_step: {
+    title: "Solve this problem using step-by-step reasoning:",
+    steps: `Please:
+1. Break down the problem into smaller components
+2. Analyze each component systematically
+3. Build up to a comprehensive solution
+4. Validate your reasoning at each step`
+  },
+  creative: {
+    title: "Use creative thinking to solve this problem:",
+    steps: `Think outside the box:
+- Challenge assumptions
+- Consider unconventional approaches
+- Use metaphors and analogies
+- Explore multiple perspectives
+- Generate innovative solutions`
+  },
+  analytical: {
+    title: "Apply analytical reasoning to this problem:",
+    steps: `Analyze systematically:
+- Define the problem precisely
+- Identify key variables and relationships
+- Apply logical frameworks
+- Use data-driven insights
+- Provide quantitative analysis where possible`
+  },
+  systematic: {
+    title: "Use systematic problem-solving methodology:",
+    steps: `Apply systematic approach:
+1. Problem definition and scope
+2. Root cause analysis
+3. Solution generation
+4. Evaluation criteria
+5. Implementation plan
+6. Risk assessment`
+  },
+  lateral: {
+    title: "Apply lateral thinking to this problem:",
+    steps: `Use lateral thinking techniques:
+- Random word association
+- Reverse assumptions
+- Alternative perspectives
+- Provocative questions
+- Pattern breaking
+- Indirect approaches`
+  },
+  first_principles: {
+    title: "Solve using first principles thinking:",
+    steps: `First principles approach:
+1. Break down to fundamental truths
+2. Question all assumptions
+3. Identify core components
+4. Rebuild from basics
+5. Create novel solutions`
+  },
+  analogical: {
+    title: "Use analogical reasoning:",
+    steps: `Find analogies from:
+- Nature and biology
+- Other industries
+- Historical examples
+- Different scales (micro/macro)
+- Other domains
+Apply successful patterns from analogous situations`
+  }
+};
+
+function definePrompt<T extends z.ZodRawShape>(definition: PromptDefinition<T>): PromptDefinition {
+  return definition as unknown as PromptDefinition;
+}
+
+export const PROMPTS: PromptDefinition[] = [
+  definePrompt({
+    name: "plan_workflow",
+    description: "Plan a ComposableAI workflow that chains ZEO tools towards a goal",
+    arguments: z.object({
+      goal: z.string().describe("What you want to accomplish"),
+      workflow_type: z.string().optional().describe("Kind of workflow, e.g. development, research, analysis"),
+      tools_preferred: list().optional().describe("Comma-separated ZEO tools to favour"),
+      automation_level: z.enum(["manual", "semi_auto", "full_auto"]).default("semi_auto")
+        .describe("manual, semi_auto or full_auto (default semi_auto)"),
+      parallel_execution: z.enum(["true", "false"]).default("false")
+        .describe("Allow parallel tool execution: true or false (default false)"),
+      existing_context: z.string().optional().describe("Previous context or memories to build on")
+    }),
+    render: args => `Create an intelligent ComposableAI workflow:
+
+GOAL: ${args.goal}
+TYPE: ${args.workflow_type || "custom"}
+CONTEXT: ${args.existing_context || "Fresh start"}
+PREFERRED TOOLS: ${args.tools_preferred?.join(", ") || "No preference"}
+AUTOMATION LEVEL: ${args.automation_level}
+PARALLEL EXECUTION: ${args.parallel_execution === "true" ? "Enabled" : "Disabled"}
+
+AVAILABLE ZEO TOOLS:
+${ZEO_TOOLS}
+
+COMPOSABLE PATTERNS:
+• Sequential: Tool A → Tool B → Tool C
+• Parallel: Tools A+B simultaneously → Tool C
+• Feedback Loop: Tool A → Tool B → back to Tool A (refined)
+• Conditional: If Tool A result = X, then Tool B, else Tool C
+
+CREATE WORKFLOW WITH:
+1. Tool sequence with clear input/output dependencies
+2. Parallel execution opportunities identified
+3. Feedback loops where beneficial
+4. Error handling and alternative paths
+5. Success criteria and validation points
+6. Estimated duration and complexity`
+  }),
+
+  definePrompt({
+    name: "design_architecture",
+    description: "Design a software architecture that integrates with the ZEO ecosystem",
+    arguments: z.object({
+      description: z.string().describe("What the project is and what it must do"),
+      tech_stack: list().optional().describe("Comma-separated technologies to use"),
+      complexity: z.enum(["simple", "moderate", "complex", "enterprise"]).default("moderate")
+        .describe("simple, moderate, complex or enterprise (default moderate)"),
+      output_format: z.enum(["prototype", "mvp", "production"]).default("mvp")
+        .describe("prototype, mvp or production (default mvp)"),
+      architecture_pattern: z.enum(["microservices", "monolith", "serverless", "jamstack", "auto"]).default("auto")
+        .describe("microservices, monolith, serverless, jamstack or auto (default auto)")
+    }),
+    render: args => `Design architecture leveraging ZEO ecosystem:
+
+PROJECT: ${args.description}
+TECH STACK: ${args.tech_stack?.join(", ") || "Recommend optimal stack"}
+COMPLEXITY LEVEL: ${args.complexity}
+OUTPUT FORMAT: ${args.output_format}
+ARCHITECTURE PATTERN: ${args.architecture_pattern}
+
+ZEO CONTEXT: This will integrate with ZEO MCP tools for:
+• Automated ideation via ideation_engine
+• Continuous reasoning via unified_reasoner
+• Memory persistence via persistent_memory_engine
+• Implementation automation via implementation_bridge
+
+DESIGN CONSIDERATIONS:
+• How can this architecture be enhanced by ZEO tools?
+• Which ZEO workflows would accelerate development?
+• How to make this ComposableAI-native?
+
+OUTPUT ARCHITECTURE INCLUDING:
+1. Core system design (components, service boundaries, data flow)
+2. Technology stack recommendations
+3. ZEO tool integration points
+4. ComposableAI enhancement opportunities
+5. Automated workflow suggestions
+6. Implementation roadmap with risks and mitigations`
+  }),
+
+  definePrompt({
+    name: "implement_content",
+    description: "Turn the output of another ZEO tool into an implementation artifact",
+    arguments: z.object({
+      source_content: z.string().describe("Idea, design or analysis to implement"),
+      target_format: z.string().default("code").describe("What to produce, e.g. code, api_spec, documentation (default code)"),
+      source_tool: z.enum([
+        "ideation_engine", "unified_reasoner", "code_architect", "github_orchestrator", "other"
+      ]).default("other").describe("ZEO tool the content came from (default other)"),
+      programming_language: z.string().default("typescript").describe("Language for generated code (default typescript)")
+    }),
+    render: args => `Transform content into ${args.target_format} with ZEO context:
+
+SOURCE: ${args.source_content}
+TARGET: ${args.target_format}
+LANGUAGE: ${args.programming_language}
+ORIGIN: ${args.source_tool}
+
+ZEO WORKFLOW CONTEXT:
+• If from ideation_engine: Focus on creative implementation
+• If from unified_reasoner: Maintain logical structure
+• If from code_architect: Follow architectural patterns
+• If from github_orchestrator: Consider existing patterns
+
+COMPOSABLE OUTPUT:
+• Make result compatible with other ZEO tools
+• Include metadata for workflow orchestrator
+• Add extension points for future enhancement
+• Enable memory persistence tagging
+
+GENERATE:
+The implementation itself
++ ZEO Integration Hooks
++ Workflow Metadata
++ ComposableAI Enhancement Points`
+  }),
+
+  definePrompt({
+    name: "reason_through_problem",
+    description: "Work through a problem with one of the Unified Reasoner strategies",
+    arguments: z.object({
+      problem: z.string().describe("Problem to reason about"),
+      strategy: z.enum([
+        "step_by_step", "creative", "analytical", "systematic", "lateral", "first_principles", "analogical"
+      ]).default("step_by_step").describe("Reasoning strategy (default step_by_step)"),
+      domain: z.string().optional().describe("Problem domain"),
+      constraints: list().optional().describe("Comma-separated constraints"),
+      context: z.string().optional().describe("Additional context")
+    }),
+    render: args => {
+      const details = [
+        `Problem: ${args.problem}`,
+        args.domain && `Domain: ${args.domain}`,
+        args.constraints?.length && `Constraints: ${args.constraints.join(", ")}`,
+        args.context && `Context: ${args.context}`
+      ].filter(Boolean).join("\n");
+
+      const { title, steps } = REASONING_INSTRUCTIONS[args.strategy];
+      return `${title}\n\n${details}\n\n${steps}`;
+    }
+  })
+];
+
+export function registerPrompts(server: Server) {
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: PROMPTS.map(describePrompt) };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: rawArgs } = request.params;
+    const prompt = PROMPTS.find(p => p.name === name);
+
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+
+    const parsed = prompt.arguments.safeParse(rawArgs || {});
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map(issue => `${issue.path.join(".")}: ${issue.message}`);
+      throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for prompt ${name}: ${issues.join(", ")}`);
+    }
+
+    const result: GetPromptResult = {
+      description: prompt.description,
+      messages: [{
+        role: "user",
+        content: { type: "text", text: prompt.render(parsed.data) }
+      }]
+    };
+
+    return result;
+  });
+}
+
+function describePrompt(prompt: PromptDefinition): Prompt {
+  return {
+    name: prompt.name,
+    description: prompt.description,
+    arguments: Object.entries(prompt.arguments.shape).map(([name, schema]) => ({
+      name,
+      description: schema.description,
+      required: !schema.isOptional()
+    }))
+  };
+}
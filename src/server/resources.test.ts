@@ -0,0 +1,122 @@
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+
+import { WorkerStreamableHttpTransport } from "../transport/streamable-http.js";
+import { CloudflareEnv } from "./env.js";
+import { registerResources } from "./resources.js";
+
+const memories = [
+  { id: "m-1", session_id: "s-1", preview: "First memory", content: "First memory", timestamp: "2026-01-01", tags: "[\"a\"]", context: "{}" }
+];
+
+const reasoningSessions = [
+  { id: "r-1", owner: "key-1", problem: "Cut cloud costs", strategy: "analytical" },
+  { id: "r-2", owner: "key-2", problem: "Someone else's problem", strategy: "creative" }
+];
+
+// Answers the memory and reasoning session queries; reasoning rows are filtered by the bound owner
+function fakeDb() {
+  return {
+    prepare(sql: string) {
+      let bindings: unknown[] = [];
+      const owned = () => reasoningSessions.filter(session => session.owner === bindings[sql.includes("WHERE id = ?") ? 1 : 0]);
+      const statement = {
+        bind(...values: unknown[]) {
+          bindings = values;
+          return statement;
+        },
+        async all() {
+          return { results: sql.includes("reasoning_sessions") ? owned() : memories };
+        },
+        async first() {
+          const rows = sql.includes("reasoning_sessions") ? owned() : memories;
+          return rows.find(row => row.id === bindings[0]) ?? null;
+        }
+      };
+      return statement;
+    }
+  };
+}
+
+function fakeKv(values: Record<string, unknown>) {
+  return {
+    async get(key: string) {
+      return values[key] ?? null;
+    },
+    async list({ prefix }: { prefix: string }) {
+      return { keys: Object.keys(values).filter(key => key.startsWith(prefix)).map(name => ({ name })), list_complete: true };
+    }
+  };
+}
+
+const env = {
+  ZEO_DB: fakeDb(),
+  ZEO_KV: fakeKv({ "workflow:w-1": { id: "w-1", steps: [] } })
+} as unknown as CloudflareEnv;
+
+const key = (scopes: string[], id = "key-1"): AuthInfo => ({ token: "t", clientId: id, scopes, extra: { api_key_id: id } });
+
+async function rpc(method: string, params: Record<string, unknown>, authInfo: AuthInfo): Promise<any> {
+  const server = new Server({ name: "test", version: "1.0.0" }, { capabilities: { resources: {} } });
+  registerResources(server, env);
+  const transport = new WorkerStreamableHttpTransport();
+  await server.connect(transport);
+
+  const response = await transport.handleRequest(
+    new Request("https://zeo.test/mcp", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params })
+    }),
+    authInfo
+  );
+  await server.close();
+  return response.json();
+}
+
+// Follows nextCursor until the listing ends
+async function listAll(authInfo: AuthInfo): Promise<string[]> {
+  const uris: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const { result } = await rpc("resources/list", cursor ? { cursor } : {}, authInfo);
+    uris.push(...result.resources.map(resource => resource.uri));
+    cursor = result.nextCursor;
+  } while (cursor);
+  return uris;
+}
+
+describe("MCP resources", () => {
+  it("lists every kind the key may read, one source after another", async () => {
+    expect(await listAll(key(["resources"]))).toEqual(["zeo://memory/m-1", "zeo://workflow/w-1", "zeo://reasoning/r-1"]);
+  });
+
+  it("only lists the kinds the key has a scope for", async () => {
+    expect(await listAll(key(["resources:workflow"]))).toEqual(["zeo://workflow/w-1"]);
+
+    const { error } = await rpc("resources/list", {}, key(["zeo_memory_engine"]));
+    expect(error.message).toContain("API key lacks a resources scope");
+  });
+
+  it("reads a resource as JSON, decoding stored fields", async () => {
+    const { result } = await rpc("resources/read", { uri: "zeo://memory/m-1" }, key(["resources:memory"]));
+
+    expect(result.contents[0].mimeType).toBe("application/json");
+    expect(JSON.parse(result.contents[0].text)).toMatchObject({ id: "m-1", tags: ["a"], context: {} });
+  });
+
+  it("keeps reasoning sessions to the key that ran them", async () => {
+    const other = key(["resources"], "key-2");
+    expect(await listAll(other)).toContain("zeo://reasoning/r-2");
+    expect(await listAll(other)).not.toContain("zeo://reasoning/r-1");
+
+    const { error } = await rpc("resources/read", { uri: "zeo://reasoning/r-1" }, other);
+    expect(error).toMatchObject({ code: -32002, message: expect.stringContaining("Resource not found: zeo://reasoning/r-1") });
+  });
+
+  it("needs the scope of the kind being read", async () => {
+    const { error } = await rpc("resources/read", { uri: "zeo://workflow/w-1" }, key(["resources:memory"]));
+
+    expect(error.message).toContain("API key lacks scope resources:workflow");
+  });
+});
@@ -0,0 +1,340 @@
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ErrorCode,
+  ListResourceTemplatesRequestSchema,
+  ListResourcesRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  Resource
+} from "@modelcontextprotocol/sdk/types.js";
+
+import { ToolLogger, createConsoleLogger } from "../agents/tool-context.js";
+import { RESOURCE_SCOPES } from "../auth/api-keys.js";
+import { isAuthorized, ownerOf } from "../auth/authenticate.js";
+import { getSession, listSessions } from "../reasoning/sessions.js";
+import { readArtifact } from "../storage/artifacts.js";
+import { CloudflareEnv } from "./env.js";
+
+/**
+ * 📚 MCP Resources
+ * Exposes stored ZEO artifacts as attachable context:
+ * - zeo://memory/{id}     → `memories` D1 table (Memory Engine)
+ * - zeo://session/{id}    → every memory of a session, linked from export_session results
+ * - zeo://artifact/{id}   → large results offloaded to ZEO_BUCKET
+ * - zeo://workflow/{id}   → `workflow:` KV keys (Workflow Orchestrator)
+ * - zeo://reasoning/{id}  → `reasoning_sessions` D1 table (Unified Reasoner)
+ *
+ * Each kind needs its own scope (resources:memory, resources:workflow,
+ * resources:reasoning, resources:artifact; `resources` grants all of them), and
+ * listings only include the kinds the caller may read. Reasoning sessions are
+ * further limited to those of the caller's own API key.
+ */
+
+// MCP's conventional error code for unknown resources
+const RESOURCE_NOT_FOUND = -32002;
+const UNAUTHORIZED = -32001;
+const PAGE_SIZE = 50;
+
+type ResourceKind = "memory" | "workflow" | "reasoning";
+
+interface ResourceCursor {
+  kind: ResourceKind;
+  cursor?: string;
+}
+
+interface ResourcePage {
+  resources: Resource[];
+  cursor?: string;
+}
+
+// What a listing or read needs besides the bindings
+interface ResourceReader {
+  owner: string | null; // API key whose reasoning sessions are visible
+  logger: ToolLogger;
+}
+
+const RESOURCE_KINDS: ResourceKind[] = ["memory", "workflow", "reasoning"];
+
+const KV_PREFIXES: Record<Exclude<ResourceKind, "memory" | "reasoning">, string> = {
+  workflow: "workflow:"
+};
+
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: "zeo://memory/{id}",
+    name: "ZEO memory",
+    description: "A memory stored by zeo_memory_engine, with tags and context",
+    mimeType: "application/json"
+  },
+  {
+    uriTemplate: "zeo://session/{session_id}",
+    name: "ZEO memory session",
+    description: "Every memory of a zeo_memory_engine session, oldest first",
+    mimeType: "application/json"
+  },
+  {
+    uriTemplate: "zeo://artifact/{id}",
+    name: "ZEO artifact",
+    description: "A tool result too large to return inline (session export, page body, generated modules)",
+    mimeType: "application/octet-stream"
+  },
+  {
+    uriTemplate: "zeo://workflow/{id}",
+    name: "ZEO workflow",
+    description: "A workflow definition and execution plan created by zeo_workflow_orchestrator",
+    mimeType: "application/json"
+  },
+  {
+    uriTemplate: "zeo://reasoning/{id}",
+    name: "ZEO reasoning session",
+    description: "A reasoning session recorded by zeo_unified_reasoner",
+    mimeType: "application/json"
+  }
+];
+
+export function registerResources(server: Server, env: CloudflareEnv) {
+  const logger = createConsoleLogger("zeo");
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: RESOURCE_TEMPLATES };
+  });
+
+  server.setRequestHandler(ListResourcesRequestSchema, async (request, extra) => {
+    const kinds = RESOURCE_KINDS.filter(kind => isAuthorized(extra.authInfo, "resources", kind));
+    if (kinds.length === 0) {
+      throw new McpError(UNAUTHORIZED, `Forbidden: API key lacks a resources scope (${RESOURCE_SCOPES.join(", ")})`);
+    }
+
+    const reader: ResourceReader = { owner: ownerOf(extra.authInfo), logger };
+
+    // Sources are paged one after another; the cursor records which one we are in
+    let position = decodeCursor(request.params?.cursor, kinds);
+    let kindIndex = kinds.indexOf(position.kind);
+
+    while (kindIndex < kinds.length) {
+      const kind = kinds[kindIndex];
+      const page = await listResources(env, reader, kind, kind === position.kind ? position.cursor : undefined);
+
+      if (page.cursor) {
+        return { resources: page.resources, nextCursor: encodeCursor({ kind, cursor: page.cursor }) };
+      }
+
+      const nextKind = kinds[kindIndex + 1];
+      if (page.resources.length > 0 || !nextKind) {
+        return nextKind
+          ? { resources: page.resources, nextCursor: encodeCursor({ kind: nextKind }) }
+          : { resources: page.resources };
+      }
+
+      // Empty source: move straight on to the next one
+      position = { kind: nextKind };
+      kindIndex++;
+    }
+
+    return { resources: [] };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+    const { uri } = request.params;
+
+    // Artifacts keep their own mime type (markdown exports, HTML bodies)
+    const artifact = /^zeo:\/\/artifact\/(.+)$/.exec(uri);
+    if (artifact) {
+      requireResourceScope(extra.authInfo, "artifact");
+      const stored = await readArtifact(env, decodeURIComponent(artifact[1]));
+      if (!stored) {
+        throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`);
+      }
+      return { contents: [{ uri, mimeType: stored.mimeType, text: stored.text }] };
+    }
+
+    const match = /^zeo:\/\/(memory|session|workflow|reasoning)\/(.+)$/.exec(uri);
+
+    if (!match) {
+      throw new McpError(RESOURCE_NOT_FOUND, `Unsupported resource URI: ${uri}`);
+    }
+
+    // A memory session is a set of memories
+    requireResourceScope(extra.authInfo, match[1] === "session" ? "memory" : match[1]);
+
+    const id = decodeURIComponent(match[2]);
+    const data = await readResource(env, { owner: ownerOf(extra.authInfo), logger }, match[1] as ResourceKind | "session", id);
+
+    if (!data) {
+      throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`);
+    }
+
+    return {
+      contents: [{
+        uri,
+        mimeType: "application/json",
+        text: JSON.stringify(data, null, 2)
+      }]
+    };
+  });
+}
+
+/**
+ * Reading a kind of resource needs its `resources:<kind>` scope (or a wildcard)
+ */
+function requireResourceScope(authInfo: AuthInfo | undefined, kind: string) {
+  if (!isAuthorized(authInfo, "resources", kind)) {
+    throw new McpError(UNAUTHORIZED, `Forbidden: API key lacks scope resources:${kind}`);
+  }
+}
+
+async function listResources(env: CloudflareEnv, reader: ResourceReader, kind: ResourceKind, cursor?: string): Promise<ResourcePage> {
+  if (kind === "memory") {
+    return listMemories(env, reader, cursor ? parseInt(cursor, 10) || 0 : 0);
+  }
+
+  if (kind === "reasoning") {
+    return listReasoningSessions(env, reader, cursor ? parseInt(cursor, 10) || 0 : 0);
+  }
+
+  const prefix = KV_PREFIXES[kind];
+  const listing = await env.ZEO_KV.list({ prefix, cursor, limit: PAGE_SIZE });
+
+  return {
+    resources: listing.keys.map(key => {
+      const id = key.name.slice(prefix.length);
+      return {
+        uri: `zeo://${kind}/${encodeURIComponent(id)}`,
+        name: `Workflow ${id}`,
+        mimeType: "application/json"
+      };
+    }),
+    cursor: !listing.list_complete && "cursor" in listing ? listing.cursor : undefined
+  };
+}
+
+async function listMemories(env: CloudflareEnv, reader: ResourceReader, offset: number): Promise<ResourcePage> {
+  try {
+    const { results } = await env.ZEO_DB.prepare(`
+      SELECT id, session_id, tags, timestamp, SUBSTR(content, 1, 120) AS preview
+      FROM memories
+      ORDER BY timestamp DESC
+      LIMIT ? OFFSET ?
+    `).bind(PAGE_SIZE + 1, offset).all<any>();
+
+    const rows = results || [];
+
+    return {
+      resources: rows.slice(0, PAGE_SIZE).map(row => ({
+        uri: `zeo://memory/${encodeURIComponent(row.id)}`,
+        name: `Memory ${row.id}`,
+        description: `[${row.session_id}] ${row.preview}`,
+        mimeType: "application/json"
+      })),
+      cursor: rows.length > PAGE_SIZE ? String(offset + PAGE_SIZE) : undefined
+    };
+  } catch (error) {
+    // The memories table only exists once the Memory Engine has stored something
+    reader.logger.warn("Failed to list memories:", error);
+    return { resources: [] };
+  }
+}
+
+async function listReasoningSessions(env: CloudflareEnv, reader: ResourceReader, offset: number): Promise<ResourcePage> {
+  try {
+    const sessions = await listSessions(env.ZEO_DB, { owner: reader.owner, limit: PAGE_SIZE + 1, offset });
+
+    return {
+      resources: sessions.slice(0, PAGE_SIZE).map(session => ({
+        uri: `zeo://reasoning/${encodeURIComponent(session.id)}`,
+        name: `Reasoning session ${session.id}`,
+        description: `[${session.strategy}] ${session.problem.substring(0, 120)}`,
+        mimeType: "application/json"
+      })),
+      cursor: sessions.length > PAGE_SIZE ? String(offset + PAGE_SIZE) : undefined
+    };
+  } catch (error) {
+    // The reasoning_sessions table only exists once the reasoner has stored a session
+    reader.logger.warn("Failed to list reasoning sessions:", error);
+    return { resources: [] };
+  }
+}
+
+async function readResource(env: CloudflareEnv, reader: ResourceReader, kind: ResourceKind | "session", id: string) {
+  switch (kind) {
+    case "memory":
+      return readMemory(env, reader, id);
+    case "session":
+      return readSession(env, reader, id);
+    case "reasoning":
+      return readReasoningSession(env, reader, id);
+    default:
+      return env.ZEO_KV.get(`${KV_PREFIXES[kind]}${id}`, "json");
+  }
+}
+
+async function readMemory(env: CloudflareEnv, reader: ResourceReader, id: string) {
+  try {
+    const memory = await env.ZEO_DB.prepare(
+      "SELECT id, content, timestamp, session_id, tags, context, updated_at FROM memories WHERE id = ?"
+    ).bind(id).first<any>();
+
+    if (!memory) return null;
+
+    return {
+      ...memory,
+      tags: JSON.parse(memory.tags || "[]"),
+      context: JSON.parse(memory.context || "{}")
+    };
+  } catch (error) {
+    reader.logger.warn("Failed to read memory:", error);
+    return null;
+  }
+}
+
+async function readSession(env: CloudflareEnv, reader: ResourceReader, sessionId: string) {
+  try {
+    const { results } = await env.ZEO_DB.prepare(
+      "SELECT id, content, timestamp, session_id, tags, context, updated_at FROM memories WHERE session_id = ? ORDER BY timestamp ASC"
+    ).bind(sessionId).all<any>();
+
+    if (!results || results.length === 0) return null;
+
+    return {
+      session_id: sessionId,
+      memory_count: results.length,
+      memories: results.map(memory => ({
+        ...memory,
+        tags: JSON.parse(memory.tags || "[]"),
+        context: JSON.parse(memory.context || "{}")
+      }))
+    };
+  } catch (error) {
+    reader.logger.warn("Failed to read memory session:", error);
+    return null;
+  }
+}
+
+async function readReasoningSession(env: CloudflareEnv, reader: ResourceReader, id: string) {
+  try {
+    return await getSession(env.ZEO_DB, id, reader.owner);
+  } catch (error) {
+    reader.logger.warn("Failed to read reasoning session:", error);
+    return null;
+  }
+}
+
+function encodeCursor(cursor: ResourceCursor): string {
+  return btoa(JSON.stringify(cursor));
+}
+
+function decodeCursor(cursor: string | undefined, kinds: ResourceKind[]): ResourceCursor {
+  if (!cursor) return { kind: kinds[0] };
+
+  try {
+    const decoded = JSON.parse(atob(cursor));
+    if (kinds.includes(decoded.kind)) {
+      return decoded;
+    }
+  } catch (error) {
+    // Fall through to the invalid cursor error
+  }
+
+  throw new McpError(ErrorCode.InvalidParams, `Invalid cursor: ${cursor}`);
+}
@@ -0,0 +1,56 @@
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { McpError } from "@modelcontextprotocol/sdk/types.js";
+
+import { ConsumeRequest, ConsumeResult } from "../limits/rate-limiter.js";
+import { CloudflareEnv } from "./env.js";
+import { createToolCall } from "./tool-call.js";
+
+// A rate limiter that records what it is asked to charge and answers with the given result
+function limiterEnv(result: ConsumeResult = { allowed: true }) {
+  const charges: ConsumeRequest[] = [];
+  const stub = {
+    async fetch(url: string, init: RequestInit) {
+      charges.push(JSON.parse(init.body as string));
+      return new Response(JSON.stringify(result));
+    }
+  };
+  const env = { ZEO_RATE_LIMITER: { idFromName: (name: string) => name, get: () => stub } } as unknown as CloudflareEnv;
+  return { env, charges };
+}
+
+function extra(authInfo?: AuthInfo) {
+  return { signal: new AbortController().signal, authInfo, sendNotification: async () => {} };
+}
+
+const apiKey = (scopes: string[]): AuthInfo => ({ token: "t", clientId: "client", scopes, extra: { api_key_id: "key-1" } });
+
+describe("createToolCall", () => {
+  it("makes the caller's API key the owner of what the call creates", () => {
+    expect(createToolCall(extra(apiKey(["*"])), {} as CloudflareEnv).owner).toBe("key-1");
+    expect(createToolCall(extra(), {} as CloudflareEnv).owner).toBeNull();
+  });
+
+  it("refuses nested calls the caller has no scope for, without charging them", async () => {
+    const { env, charges } = limiterEnv();
+    const call = createToolCall(extra(apiKey(["zeo_unified_reasoner"])), env);
+
+    expect(await call.admit("zeo_memory_engine", { action: "semantic_search" })).toBe(false);
+    expect(charges).toHaveLength(0);
+  });
+
+  it("charges admitted nested calls to the called tool's counters", async () => {
+    const { env, charges } = limiterEnv();
+    const call = createToolCall(extra(apiKey(["zeo_unified_reasoner", "zeo_web_intelligence:extract"])), env);
+
+    expect(await call.admit("zeo_web_intelligence", { action: "extract", url: "https://example.com" })).toBe(true);
+    expect(charges[0].cost).toBe(1);
+    expect(charges[0].counters[0].scope).toBe("tool:zeo_web_intelligence");
+  });
+
+  it("throws the rate limit error once the called tool's limit is exceeded", async () => {
+    const { env } = limiterEnv({ allowed: false, retry_after: 30, exceeded: { scope: "tool:zeo_web_intelligence", window: "minute", limit: 20, used: 20 } });
+    const call = createToolCall(extra(apiKey(["*"])), env);
+
+    await expect(call.admit("zeo_web_intelligence", { action: "extract" })).rejects.toBeInstanceOf(McpError);
+  });
+});
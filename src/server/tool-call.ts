@@ -0,0 +1,67 @@
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { ProgressToken, ServerNotification } from "@modelcontextprotocol/sdk/types.js";
+
+import { ProgressReporter, ToolCallContext, silentProgress } from "../agents/tool-context.js";
+import { isAuthorized, ownerOf } from "../auth/authenticate.js";
+import { enforceRateLimit } from "../limits/rate-limiter.js";
+import { CloudflareEnv } from "./env.js";
+
+/**
+ * 📞 Tool Call Context
+ * Builds the per-call hooks handed to a tool from the MCP request:
+ * progress goes out as notifications/progress when the client sent a progressToken,
+ * and the signal aborts when the client sends notifications/cancelled.
+ * Records the call creates belong to the caller's API key, and calls it makes to
+ * other tools are held to the same scopes and rate limits as direct ones.
+ */
+
+interface RequestExtra {
+  signal: AbortSignal;
+  authInfo?: AuthInfo;
+  _meta?: { progressToken?: ProgressToken };
+  sendNotification(notification: ServerNotification): Promise<void>;
+}
+
+export function createToolCall(extra: RequestExtra, env: CloudflareEnv): ToolCallContext {
+  return {
+    progress: createProgressReporter(extra._meta?.progressToken, extra.sendNotification),
+    signal: extra.signal,
+    owner: ownerOf(extra.authInfo),
+    async admit(tool, args) {
+      const action = typeof args.action === "string" ? args.action : undefined;
+      if (!isAuthorized(extra.authInfo, tool, action)) {
+        return false;
+      }
+      await enforceRateLimit(env, extra.authInfo, tool, args);
+      return true;
+    }
+  };
+}
+
+function createProgressReporter(
+  progressToken: ProgressToken | undefined,
+  sendNotification: RequestExtra["sendNotification"]
+): ProgressReporter {
+  if (progressToken === undefined) {
+    return silentProgress;
+  }
+
+  let last = -Infinity;
+
+  return {
+    async report(progress, total, message) {
+      // The spec requires progress to increase with every notification
+      if (progress <= last) return;
+      last = progress;
+
+      try {
+        await sendNotification({
+          method: "notifications/progress",
+          params: { progressToken, progress, total, message }
+        });
+      } catch (error) {
+        // The client may already be gone; progress is best effort
+      }
+    }
+  };
+}
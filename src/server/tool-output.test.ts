@@ -0,0 +1,88 @@
+import { z } from "zod";
+
+import { ToolMetadata } from "../agents/mcp.js";
+import { ToolLogger } from "../agents/tool-context.js";
+import { conformOutput, toCallToolResult, toolOutputSchema } from "./tool-output.js";
+
+const tool: ToolMetadata = {
+  name: "zeo_test",
+  description: "A tool with one declared output",
+  schema: z.object({ action: z.enum(["count", "free"]) }),
+  actionPrefix: "test",
+  actions: {
+    count: { description: "Counts", output: z.object({ total: z.number(), resource_links: z.array(z.any()).optional() }) },
+    free: { description: "Declares nothing" }
+  }
+};
+
+function recordingLogger(): ToolLogger & { warnings: unknown[][] } {
+  const warnings: unknown[][] = [];
+  return { warnings, debug: () => {}, info: () => {}, warn: (...args) => warnings.push(args), error: () => {} };
+}
+
+const tracked = (result: unknown) => ({ result, duration: 12, success: true });
+
+describe("toCallToolResult", () => {
+  it("returns the result as structuredContent, with a summary, the JSON and the run time", () => {
+    const result = toCallToolResult(tool, "count", tracked({ total: 3 }), recordingLogger());
+
+    expect(result.structuredContent).toEqual({ action: "count", total: 3 });
+    expect(result.content[0]).toEqual({ type: "text", text: "zeo_test count: total: 3" });
+    expect(JSON.parse((result.content[1] as { text: string }).text)).toEqual({ action: "count", total: 3 });
+    expect(result._meta).toEqual({ "zeo/duration_ms": 12 });
+  });
+
+  it("keeps fields the schema does not declare in both structuredContent and the text", () => {
+    const result = toCallToolResult(tool, "count", tracked({ total: 3, next_steps: ["verify"] }), recordingLogger());
+
+    expect(result.structuredContent).toMatchObject({ next_steps: ["verify"] });
+    expect((result.content[1] as { text: string }).text).toContain("verify");
+  });
+
+  it("logs a result that does not match its schema and still returns it", () => {
+    const logger = recordingLogger();
+    const result = toCallToolResult(tool, "count", tracked({ total: "three" }), logger);
+
+    expect(result.isError).toBeUndefined();
+    expect(result.structuredContent).toEqual({ action: "count", total: "three" });
+    expect(logger.warnings[0][0]).toBe("zeo_test count returned a result that does not match its outputSchema");
+  });
+
+  it("adds a resource_link item per linked artifact", () => {
+    const link = { uri: "zeo://artifacts/a", name: "export", mimeType: "application/json", size: 2048 };
+    const result = toCallToolResult(tool, "count", tracked({ total: 1, resource_links: [link] }), recordingLogger());
+
+    expect(result.content[2]).toEqual({
+      type: "resource_link",
+      uri: "zeo://artifacts/a",
+      name: "export",
+      mimeType: "application/json",
+      _meta: { "zeo/size": 2048 }
+    });
+  });
+
+  it("returns non-object results as text only", () => {
+    const result = toCallToolResult(tool, "count", tracked("plain"), recordingLogger());
+
+    expect(result.structuredContent).toBeUndefined();
+    expect(result.content).toEqual([{ type: "text", text: "\"plain\"" }]);
+  });
+});
+
+describe("conformOutput", () => {
+  it("passes results of actions without a declared output through unchanged", () => {
+    const result = { action: "free", anything: true };
+    expect(conformOutput(tool, "free", result, recordingLogger())).toBe(result);
+  });
+});
+
+describe("toolOutputSchema", () => {
+  it("lists every action, with the declared ones open to extra fields", () => {
+    const schema = toolOutputSchema(tool) as any;
+
+    expect(schema.properties.action.enum).toEqual(["count", "free"]);
+    expect(schema.anyOf[0].required).toEqual(["total", "action"]);
+    expect(schema.anyOf[0].additionalProperties).not.toBe(false);
+    expect(schema.anyOf[1]).toEqual({ type: "object", properties: { action: { const: "free" } } });
+  });
+});
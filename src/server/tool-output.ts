@@ -0,0 +1,143 @@
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+
+import { ResourceLink, ToolMetadata, ToolUtils } from "../agents/mcp.js";
+import { ToolLogger } from "../agents/tool-context.js";
+
+/**
+ * 📦 Structured Tool Output
+ * Each action declares an output Zod schema. It is advertised as the tool's
+ * `outputSchema`, and results go back as `structuredContent` with a short text
+ * summary. Schemas list the fields clients can rely on; undeclared fields pass
+ * through, and the JSON text block always carries the whole result. A result
+ * that does not match its schema is logged and still returned. Large artifacts are referenced by `resource_links`
+ * (zeo:// URIs readable with resources/read) instead of being inlined; each
+ * link is also a `resource_link` content item.
+ */
+
+type OutputSchema = { type: "object"; [key: string]: unknown };
+
+/**
+ * The declared result fields of one action, plus the `action` every result carries.
+ * Fields an action returns beyond those are kept.
+ */
+export function actionOutput(action: string, output: z.ZodObject<z.ZodRawShape>): z.AnyZodObject {
+  return output.extend({ action: z.literal(action) }).passthrough();
+}
+
+export function actionOutputSchema(action: string, output?: z.ZodObject<z.ZodRawShape>): OutputSchema | undefined {
+  return output ? ToolUtils.toOutputSchema(actionOutput(action, output)) : undefined;
+}
+
+/**
+ * A consolidated tool returns the output of whichever action was called; actions
+ * without a declared output only promise their `action` name
+ */
+export function toolOutputSchema(tool: ToolMetadata): OutputSchema | undefined {
+  const actions = Object.entries(tool.actions);
+  if (!actions.some(([, spec]) => spec.output)) {
+    return undefined;
+  }
+
+  return {
+    type: "object",
+    properties: { action: { type: "string", enum: actions.map(([action]) => action) } },
+    required: ["action"],
+    anyOf: actions.map(([action, spec]) =>
+      actionOutputSchema(action, spec.output) || { type: "object", properties: { action: { const: action } } }
+    )
+  };
+}
+
+/**
+ * Tools return PerformanceTracker's envelope around the action result
+ */
+export interface TrackedResult {
+  result: any;
+  duration: number;
+  success: boolean;
+}
+
+/**
+ * Unwraps a tool's action result into structuredContent, with the run time in `_meta`.
+ * The JSON text block stays for hosts that only forward `content` to the model.
+ */
+export function toCallToolResult(tool: ToolMetadata, action: string | undefined, tracked: TrackedResult, logger: ToolLogger): CallToolResult {
+  const { result, duration } = tracked;
+  const _meta = { "zeo/duration_ms": duration };
+
+  if (result === null || typeof result !== "object" || Array.isArray(result)) {
+    return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }], _meta };
+  }
+
+  const full = action && !result.action ? { action, ...result } : result;
+  const structured = conformOutput(tool, action, full, logger);
+  const links: ResourceLink[] = Array.isArray(structured.resource_links) ? structured.resource_links : [];
+
+  return {
+    content: [
+      { type: "text", text: summarize(tool.name, structured) },
+      { type: "text", text: JSON.stringify(full, null, 2) },
+      ...links.map(resourceLinkContent)
+    ],
+    structuredContent: structured,
+    _meta
+  };
+}
+
+/**
+ * The result as parsed by the action's output schema. A mismatch is a bug in
+ * the tool, not in the call: it is logged and the result is returned as is
+ * rather than failing a run that succeeded. Actions without a declared output
+ * pass through unchanged.
+ */
+export function conformOutput(tool: ToolMetadata, action: string | undefined, result: Record<string, any>, logger: ToolLogger): Record<string, any> {
+  const output = action ? tool.actions[action]?.output : undefined;
+  if (!output) {
+    return result;
+  }
+
+  const parsed = actionOutput(action, output).safeParse(result);
+  if (!parsed.success) {
+    logger.warn(`${tool.name} ${action} returned a result that does not match its outputSchema`, parsed.error.message);
+    return result;
+  }
+  return parsed.data;
+}
+
+/**
+ * An MCP resource_link content item; the size and signed download URL, which
+ * the item has no fields for, go in its `_meta`
+ */
+function resourceLinkContent(link: ResourceLink) {
+  const meta = Object.fromEntries(
+    [["zeo/size", link.size], ["zeo/download_url", link.download_url], ["zeo/expires_at", link.expires_at]]
+      .filter(([, value]) => value !== undefined)
+  );
+
+  return {
+    type: "resource_link" as const,
+    uri: link.uri,
+    name: link.name,
+    ...(link.mimeType ? { mimeType: link.mimeType } : {}),
+    ...(link.description ? { description: link.description } : {}),
+    ...(Object.keys(meta).length ? { _meta: meta } : {})
+  };
+}
+
+/**
+ * One line for people: the result's own summary or message, else its scalar fields
+ */
+function summarize(name: string, result: Record<string, any>): string {
+  const headline = [result.summary, result.message].find(value => typeof value === "string");
+  const scalars = Object.entries(result)
+    .filter(([key, value]) => key !== "action" && key !== "timestamp" && !key.endsWith("_at") && isScalar(value))
+    .slice(0, 6)
+    .map(([key, value]) => `${key}: ${value}`);
+
+  return `${name}${result.action ? ` ${result.action}` : ""}: ${headline || scalars.join(", ") || "done"}`;
+}
+
+function isScalar(value: unknown): boolean {
+  return typeof value === "number" || typeof value === "boolean" || (typeof value === "string" && value.length <= 80);
+}
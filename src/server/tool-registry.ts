@@ -0,0 +1,143 @@
+import { ToolMetadata } from "../agents/mcp.js";
+import { ToolCallContext, ToolContext, createConsoleLogger, systemClock } from "../agents/tool-context.js";
+import { GITHUB_ORCHESTRATOR_METADATA, GitHubOrchestrator } from "../tools/github-orchestrator.js";
+import { MEMORY_ENGINE_METADATA, MemoryEngine } from "../tools/memory-engine.js";
+import { WEB_INTELLIGENCE_METADATA, WebIntelligence } from "../tools/web-intelligence.js";
+import { UNIFIED_REASONER_METADATA, UnifiedReasoner } from "../tools/unified-reasoner.js";
+import { IDEATION_ENGINE_METADATA, IdeationEngine } from "../tools/ideation-engine.js";
+import { IMPLEMENTATION_BRIDGE_METADATA, ImplementationBridge } from "../tools/implementation-bridge.js";
+import { WORKFLOW_ORCHESTRATOR_METADATA, WorkflowOrchestrator } from "../tools/workflow-orchestrator.js";
+import { CODE_ARCHITECT_METADATA, CodeArchitect } from "../tools/code-architect.js";
+
+import { createLlmRegistry } from "../llm/registry.js";
+import { createArtifactStore } from "../storage/artifacts.js";
+
+import { CloudflareEnv } from "./env.js";
+
+/**
+ * 🗂️ Tool Registry
+ * Declares every ZEO tool with the bindings it needs. Tools whose bindings are
+ * missing are left out at startup and reported on /health.
+ */
+
+export type ToolBinding = "AI" | "ZEO_KV" | "ZEO_DB" | "ZEO_BUCKET" | "GITHUB_TOKEN";
+
+export interface ZeoTool {
+  execute(args: any, call?: ToolCallContext): Promise<any>;
+}
+
+export interface ToolRegistration {
+  metadata: ToolMetadata;
+  requires: ToolBinding[];
+  create(ctx: ToolContext): ZeoTool;
+}
+
+export interface ToolAvailability {
+  available: boolean;
+  missing: ToolBinding[];
+}
+
+export interface BindingReport {
+  status: "healthy" | "degraded";
+  missing_bindings: ToolBinding[];
+  tools: Record<string, ToolAvailability>;
+}
+
+export const TOOL_REGISTRY: ToolRegistration[] = [
+  {
+    metadata: GITHUB_ORCHESTRATOR_METADATA,
+    requires: ["GITHUB_TOKEN"],
+    create: ctx => new GitHubOrchestrator(ctx)
+  },
+  {
+    metadata: MEMORY_ENGINE_METADATA,
+    requires: ["ZEO_DB", "ZEO_KV", "AI"],
+    create: ctx => new MemoryEngine(ctx)
+  },
+  {
+    metadata: WEB_INTELLIGENCE_METADATA,
+    requires: ["ZEO_KV"],
+    create: ctx => new WebIntelligence(ctx)
+  },
+  {
+    metadata: UNIFIED_REASONER_METADATA,
+    requires: ["ZEO_KV", "ZEO_DB"], // Sessions and the router's history live in D1
+    create: ctx => new UnifiedReasoner(ctx)
+  },
+  {
+    metadata: IDEATION_ENGINE_METADATA,
+    requires: ["ZEO_KV"],
+    create: ctx => new IdeationEngine(ctx)
+  },
+  {
+    metadata: IMPLEMENTATION_BRIDGE_METADATA,
+    requires: [],
+    create: ctx => new ImplementationBridge(ctx)
+  },
+  {
+    metadata: WORKFLOW_ORCHESTRATOR_METADATA,
+    requires: ["ZEO_KV"],
+    create: ctx => new WorkflowOrchestrator(ctx)
+  },
+  {
+    metadata: CODE_ARCHITECT_METADATA,
+    requires: [],
+    create: ctx => new CodeArchitect(ctx)
+  }
+];
+
+export function createToolContext(env: CloudflareEnv): ToolContext {
+  return {
+    kv: env.ZEO_KV,
+    db: env.ZEO_DB,
+    bucket: env.ZEO_BUCKET,
+    artifacts: createArtifactStore(env),
+    llm: createLlmRegistry(env),
+    secrets: {
+      githubToken: env.GITHUB_TOKEN,
+      openaiApiKey: env.OPENAI_API_KEY,
+      anthropicApiKey: env.ANTHROPIC_API_KEY
+    },
+    logger: createConsoleLogger("zeo"),
+    clock: systemClock
+  };
+}
+
+export function validateBindings(env: CloudflareEnv): BindingReport {
+  const tools: Record<string, ToolAvailability> = {};
+  const missingBindings = new Set<ToolBinding>();
+
+  for (const registration of TOOL_REGISTRY) {
+    const missing = registration.requires.filter(binding => !env[binding]);
+    missing.forEach(binding => missingBindings.add(binding));
+    tools[registration.metadata.name] = { available: missing.length === 0, missing };
+  }
+
+  return {
+    status: missingBindings.size === 0 ? "healthy" : "degraded",
+    missing_bindings: [...missingBindings],
+    tools
+  };
+}
+
+/**
+ * Instantiates every tool whose bindings are present, keyed by tool name
+ */
+export function createTools(env: CloudflareEnv, ctx: ToolContext = createToolContext(env)): Map<string, ZeoTool> {
+  const report = validateBindings(env);
+  const tools = new Map<string, ZeoTool>();
+
+  for (const registration of TOOL_REGISTRY) {
+    const { name } = registration.metadata;
+    const availability = report.tools[name];
+
+    if (!availability.available) {
+      ctx.logger.warn(`${name} disabled, missing bindings: ${availability.missing.join(", ")}`);
+      continue;
+    }
+
+    tools.set(name, registration.create(ctx));
+  }
+
+  return tools;
+}
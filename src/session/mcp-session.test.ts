@@ -0,0 +1,117 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { LATEST_PROTOCOL_VERSION } from "@modelcontextprotocol/sdk/types.js";
+
+import { FORWARDED_AUTH_HEADER } from "../auth/authenticate.js";
+import { CloudflareEnv } from "../server/env.js";
+import { ExecutionRecord, McpSessionObject, NEW_SESSION_HEADER } from "./mcp-session.js";
+
+// Durable Object storage kept in a Map; list() returns keys in sorted order like the real one
+function fakeState() {
+  const values = new Map<string, unknown>();
+  const storage = {
+    values,
+    async get(key: string) {
+      return values.get(key);
+    },
+    async put(key: string, value: unknown) {
+      values.set(key, structuredClone(value));
+    },
+    async delete(keys: string | string[]) {
+      (Array.isArray(keys) ? keys : [keys]).forEach(key => values.delete(key));
+    },
+    async deleteAll() {
+      values.clear();
+    },
+    async list({ prefix = "" }: { prefix?: string } = {}) {
+      return new Map([...values.entries()].filter(([key]) => key.startsWith(prefix)).sort(([a], [b]) => a.localeCompare(b)));
+    },
+    async setAlarm() {},
+    async deleteAlarm() {}
+  };
+  return { storage, waitUntil: () => {} };
+}
+
+const initialize = (id: number) => ({
+  jsonrpc: "2.0",
+  id,
+  method: "initialize",
+  params: { protocolVersion: LATEST_PROTOCOL_VERSION, capabilities: {}, clientInfo: { name: "test", version: "1" } }
+});
+
+function post(body: unknown, headers: Record<string, string> = {}): Request {
+  return new Request("https://zeo.test/mcp", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "application/json", "Mcp-Session-Id": "s-1", ...headers },
+    body: JSON.stringify(body)
+  });
+}
+
+describe("McpSessionObject", () => {
+  let state: ReturnType<typeof fakeState>;
+  let session: McpSessionObject;
+
+  beforeEach(() => {
+    jest.spyOn(console, "warn").mockImplementation(() => {}); // Tools without bindings are reported
+    state = fakeState();
+    session = new McpSessionObject(state as unknown as DurableObjectState, {} as CloudflareEnv);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("stores the session once its initialize succeeds", async () => {
+    const response = await session.fetch(post(initialize(1), { [NEW_SESSION_HEADER]: "1" }));
+
+    expect(response.status).toBe(200);
+    expect(state.storage.values.get("session")).toMatchObject({ session_id: "s-1", transport: "streamable_http", memory_session_id: "mcp_s-1" });
+  });
+
+  it("does not store a session whose initialize failed", async () => {
+    jest.spyOn(Server.prototype as any, "_oninitialize").mockRejectedValue(new Error("unsupported client"));
+    const response = await session.fetch(post(initialize(1), { [NEW_SESSION_HEADER]: "1" }));
+
+    expect(((await response.json()) as any).error.message).toContain("unsupported client");
+    expect(state.storage.values.has("session")).toBe(false);
+
+    // The id stays unknown to later requests
+    const next = await session.fetch(post({ jsonrpc: "2.0", id: 2, method: "tools/list" }));
+    expect(next.status).toBe(404);
+  });
+
+  it("only creates sessions under ids the worker minted", async () => {
+    const response = await session.fetch(post(initialize(1)));
+
+    expect(response.status).toBe(404);
+    expect(state.storage.values.has("session")).toBe(false);
+  });
+
+  it("binds the session to the client that initialized it", async () => {
+    const auth = (clientId: string) => ({ [FORWARDED_AUTH_HEADER]: encodeURIComponent(JSON.stringify({ token: "t", clientId, scopes: ["*"] })) });
+    await session.fetch(post(initialize(1), { [NEW_SESSION_HEADER]: "1", ...auth("a") }));
+
+    const other = await session.fetch(post({ jsonrpc: "2.0", id: 2, method: "tools/list" }, auth("b")));
+    expect(other.status).toBe(403);
+  });
+
+  it("keeps the newest finished executions and every running one", async () => {
+    const execution = (index: number, status: ExecutionRecord["status"]): ExecutionRecord => ({
+      execution_key: `execution:${1000 + index}_x`,
+      tool: "zeo_workflow_orchestrator",
+      status,
+      started_at: new Date(index).toISOString()
+    });
+    await state.storage.put(execution(0, "running").execution_key, execution(0, "running"));
+    for (let index = 1; index <= 105; index++) {
+      await state.storage.put(execution(index, "completed").execution_key, execution(index, "completed"));
+    }
+
+    await (session as any).trackExecution("zeo_workflow_orchestrator", "execute", async () => "done");
+
+    const kept = [...(await state.storage.list({ prefix: "execution:" })).values()] as ExecutionRecord[];
+    expect(kept.filter(entry => entry.status === "running")).toHaveLength(1);
+    expect(kept.filter(entry => entry.status === "completed")).toHaveLength(100);
+    expect(kept.some(entry => entry.execution_key === execution(6, "completed").execution_key)).toBe(false);
+    expect(kept.some(entry => entry.execution_key === execution(7, "completed").execution_key)).toBe(true);
+  });
+});
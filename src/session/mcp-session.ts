@@ -0,0 +1,370 @@
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { Transport, TransportSendOptions } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  ErrorCode,
+  InitializeRequest,
+  JSONRPCMessage,
+  RequestId,
+  isInitializeRequest,
+  isJSONRPCError,
+  isJSONRPCResponse
+} from "@modelcontextprotocol/sdk/types.js";
+
+import { readForwardedAuth } from "../auth/authenticate.js";
+import { CloudflareEnv } from "../server/env.js";
+import { McpSessionContext, createZeoMCPServer } from "../server/create-server.js";
+import { CORS_HEADERS, WorkerStreamableHttpTransport, jsonResponse, jsonRpcError } from "../transport/streamable-http.js";
+import { WorkerSSETransport } from "../transport/sse.js";
+
+/**
+ * 🧷 MCP Session Durable Object
+ * Pins one MCP session to one Durable Object: it owns the Server instance, the
+ * negotiated capabilities, per-session tool defaults and in-flight workflow executions.
+ * Sessions survive eviction and are resumed from storage via Mcp-Session-Id.
+ * A session is stored only once the Server has answered its initialize with a result.
+ */
+
+const SESSION_IDLE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const RESTORE_REQUEST_ID = "zeo-session-restore";
+const MAX_EXECUTIONS = 100; // Finished executions kept per session, newest first
+
+// Set by the worker on the request that opens a session under an id it just minted
+export const NEW_SESSION_HEADER = "X-Zeo-New-Session";
+
+export interface SessionRecord {
+  session_id: string;
+  transport: "streamable_http" | "sse";
+  initialize_params: InitializeRequest["params"];
+  memory_session_id: string;
+  client_id?: string;
+  created_at: string;
+  last_activity: string;
+}
+
+export interface ExecutionRecord {
+  execution_key: string;
+  tool: string;
+  action?: string;
+  status: "running" | "completed" | "failed";
+  started_at: string;
+  finished_at?: string;
+  error?: string;
+}
+
+type InitializeMessage = InitializeRequest & { id: RequestId };
+
+// An initialize forwarded to the Server, saved as the session record once it succeeds
+interface PendingInitialize {
+  id: RequestId;
+  record: SessionRecord;
+}
+
+export class McpSessionObject implements DurableObject {
+  private server?: Server;
+  private transport?: WorkerStreamableHttpTransport | WorkerSSETransport;
+  private record?: SessionRecord;
+  private pendingInitialize?: PendingInitialize;
+
+  constructor(private state: DurableObjectState, private env: CloudflareEnv) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const sessionId = request.headers.get("Mcp-Session-Id") || url.searchParams.get("sessionId");
+
+    if (!sessionId) {
+      return jsonResponse(jsonRpcError(null, ErrorCode.InvalidRequest, "Missing session id"), 400);
+    }
+
+    switch (url.pathname) {
+      case "/mcp":
+        return this.handleStreamableHttp(request, sessionId);
+
+      case "/sse":
+        return this.openSSEStream(sessionId);
+
+      case "/sse/message":
+        return this.handleSSEMessage(request, sessionId);
+
+      default:
+        return new Response("Not Found", { status: 404 });
+    }
+  }
+
+  async alarm(): Promise<void> {
+    const record = await this.loadRecord();
+    const lastActivity = record ? new Date(record.last_activity).getTime() : 0;
+
+    if (Date.now() - lastActivity >= SESSION_IDLE_TTL_MS) {
+      await this.terminate();
+    } else {
+      await this.state.storage.setAlarm(lastActivity + SESSION_IDLE_TTL_MS);
+    }
+  }
+
+  private async handleStreamableHttp(request: Request, sessionId: string): Promise<Response> {
+    const authInfo = readForwardedAuth(request);
+    const record = await this.loadRecord();
+
+    if (request.method === "DELETE") {
+      if (!this.isSessionOwner(record, authInfo)) {
+        return jsonResponse(jsonRpcError(null, -32001, "Session belongs to another client"), 403);
+      }
+      await this.terminate();
+      return new Response(null, { status: 204, headers: CORS_HEADERS });
+    }
+
+    const initialize = request.method === "POST" ? await this.peekInitialize(request) : undefined;
+
+    // Unknown or expired session: clients must start over with an initialize
+    // that carries no session id. Only ids minted by the worker can be created,
+    // so a client cannot fix the id of someone else's session.
+    if (!record && !(initialize && request.headers.get(NEW_SESSION_HEADER) === "1")) {
+      return jsonResponse(jsonRpcError(null, ErrorCode.InvalidRequest, `Session not found: ${sessionId}`), 404);
+    }
+
+    if (!this.isSessionOwner(record, authInfo)) {
+      return jsonResponse(jsonRpcError(null, -32001, "Session belongs to another client"), 403);
+    }
+
+    if (!this.server || !(this.transport instanceof WorkerStreamableHttpTransport)) {
+      const transport = new WorkerStreamableHttpTransport();
+      transport.sessionId = sessionId;
+      await this.attachTransport(transport);
+
+      if (record && !initialize) {
+        // Resuming after eviction: replay the stored handshake so negotiated capabilities are restored
+        await transport.dispatch([{
+          jsonrpc: "2.0",
+          id: RESTORE_REQUEST_ID,
+          method: "initialize",
+          params: record.initialize_params
+        }]);
+      }
+    }
+
+    if (initialize) {
+      this.expectInitialize(initialize, this.createRecord(sessionId, "streamable_http", initialize.params, authInfo));
+    }
+
+    const response = await (this.transport as WorkerStreamableHttpTransport).handleRequest(request, authInfo);
+
+    // The record was saved as the initialize result was sent; an initialize the
+    // transport rejected never reached the Server and is not waited for
+    if (initialize) {
+      this.pendingInitialize = undefined;
+    } else {
+      await this.touch();
+    }
+
+    return response;
+  }
+
+  private async openSSEStream(sessionId: string): Promise<Response> {
+    if (this.transport) {
+      return new Response(`Session already connected: ${sessionId}`, { status: 409, headers: CORS_HEADERS });
+    }
+
+    const transport = new WorkerSSETransport("/sse/message", sessionId);
+    const response = transport.stream();
+    await this.attachTransport(transport);
+
+    return response;
+  }
+
+  private async handleSSEMessage(request: Request, sessionId: string): Promise<Response> {
+    if (!(this.transport instanceof WorkerSSETransport)) {
+      return new Response(`Unknown SSE session: ${sessionId}`, { status: 404, headers: CORS_HEADERS });
+    }
+
+    const authInfo = readForwardedAuth(request);
+    if (!this.isSessionOwner(await this.loadRecord(), authInfo)) {
+      return jsonResponse(jsonRpcError(null, -32001, "Session belongs to another client"), 403);
+    }
+
+    const initialize = await this.peekInitialize(request);
+    if (initialize) {
+      this.expectInitialize(initialize, this.createRecord(sessionId, "sse", initialize.params, authInfo));
+    }
+
+    const response = await this.transport.handlePostMessage(request, authInfo);
+
+    // The initialize result goes out on the stream later; the record is saved then
+    if (!initialize) {
+      await this.touch();
+    }
+
+    return response;
+  }
+
+  private async attachTransport(transport: WorkerStreamableHttpTransport | WorkerSSETransport) {
+    const server = createZeoMCPServer(this.env, this.createSessionContext(transport.sessionId));
+    this.watchResponses(transport);
+
+    server.onclose = () => {
+      if (this.server === server) {
+        this.server = undefined;
+        this.transport = undefined;
+      }
+    };
+
+    this.server = server;
+    this.transport = transport;
+    await server.connect(transport);
+  }
+
+  /**
+   * Sees every message the Server sends before the transport does, to save the
+   * session record when its initialize succeeds
+   */
+  private watchResponses(transport: Transport) {
+    const send = transport.send.bind(transport);
+    transport.send = async (message: JSONRPCMessage, options?: TransportSendOptions) => {
+      await this.settleInitialize(message);
+      return send(message, options);
+    };
+  }
+
+  private expectInitialize(initialize: InitializeMessage, record: SessionRecord) {
+    this.pendingInitialize = { id: initialize.id, record };
+  }
+
+  private async settleInitialize(message: JSONRPCMessage) {
+    const pending = this.pendingInitialize;
+    if (!pending || !(isJSONRPCResponse(message) || isJSONRPCError(message)) || message.id !== pending.id) {
+      return;
+    }
+
+    this.pendingInitialize = undefined;
+    if (isJSONRPCResponse(message)) {
+      await this.saveRecord(pending.record);
+    }
+  }
+
+  private async terminate() {
+    await this.server?.close();
+    this.server = undefined;
+    this.transport = undefined;
+    this.record = undefined;
+    this.pendingInitialize = undefined;
+
+    await this.state.storage.deleteAlarm();
+    await this.state.storage.deleteAll();
+  }
+
+  private createSessionContext(sessionId: string): McpSessionContext {
+    return {
+      sessionId,
+      getMemorySessionId: () => this.record?.memory_session_id || `mcp_${sessionId}`,
+      setMemorySessionId: (memorySessionId: string) => {
+        if (this.record && this.record.memory_session_id !== memorySessionId) {
+          this.record.memory_session_id = memorySessionId;
+          this.state.waitUntil(this.saveRecord(this.record));
+        }
+      },
+      trackExecution: (tool, action, run) => this.trackExecution(tool, action, run)
+    };
+  }
+
+  private async trackExecution<T>(tool: string, action: string | undefined, run: () => Promise<T>): Promise<T> {
+    const execution: ExecutionRecord = {
+      execution_key: `execution:${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      tool,
+      action,
+      status: "running",
+      started_at: new Date().toISOString()
+    };
+
+    await this.state.storage.put(execution.execution_key, execution);
+
+    try {
+      const result = await run();
+      await this.state.storage.put(execution.execution_key, {
+        ...execution,
+        status: "completed",
+        finished_at: new Date().toISOString()
+      });
+      return result;
+    } catch (error) {
+      await this.state.storage.put(execution.execution_key, {
+        ...execution,
+        status: "failed",
+        finished_at: new Date().toISOString(),
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+      throw error;
+    } finally {
+      await this.pruneExecutions();
+    }
+  }
+
+  /**
+   * Keeps the newest MAX_EXECUTIONS finished executions; running ones are never dropped.
+   * Keys sort by start time.
+   */
+  private async pruneExecutions() {
+    const executions = await this.state.storage.list<ExecutionRecord>({ prefix: "execution:" });
+    const finished = [...executions.values()].filter(execution => execution.status !== "running");
+    const stale = finished.slice(0, Math.max(finished.length - MAX_EXECUTIONS, 0));
+
+    // storage.delete takes at most 128 keys; any rest goes on the next call
+    if (stale.length > 0) {
+      await this.state.storage.delete(stale.slice(0, 128).map(execution => execution.execution_key));
+    }
+  }
+
+  private async peekInitialize(request: Request): Promise<InitializeMessage | undefined> {
+    try {
+      const body = await request.clone().json();
+      const messages: unknown[] = Array.isArray(body) ? body : [body];
+      return messages.find(isInitializeRequest) as InitializeMessage | undefined;
+    } catch (error) {
+      return undefined; // The transport reports the parse error
+    }
+  }
+
+  /**
+   * Sessions are bound to the client that initialized them
+   */
+  private isSessionOwner(record: SessionRecord | undefined, authInfo?: AuthInfo): boolean {
+    return !record?.client_id || record.client_id === authInfo?.clientId;
+  }
+
+  private createRecord(
+    sessionId: string,
+    transport: SessionRecord["transport"],
+    params: InitializeRequest["params"],
+    authInfo?: AuthInfo
+  ): SessionRecord {
+    const now = new Date().toISOString();
+    return {
+      session_id: sessionId,
+      transport,
+      initialize_params: params,
+      memory_session_id: this.record?.memory_session_id || `mcp_${sessionId}`,
+      client_id: this.record?.client_id || authInfo?.clientId,
+      created_at: this.record?.created_at || now,
+      last_activity: now
+    };
+  }
+
+  private async loadRecord(): Promise<SessionRecord | undefined> {
+    if (!this.record) {
+      this.record = await this.state.storage.get<SessionRecord>("session");
+    }
+    return this.record;
+  }
+
+  private async saveRecord(record: SessionRecord) {
+    this.record = record;
+    await this.state.storage.put("session", record);
+    await this.state.storage.setAlarm(Date.now() + SESSION_IDLE_TTL_MS);
+  }
+
+  private async touch() {
+    const record = await this.loadRecord();
+    if (record) {
+      await this.saveRecord({ ...record, last_activity: new Date().toISOString() });
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import { CloudflareEnv } from "../server/env.js";
+import { ARTIFACT_PREFIX, createArtifactStore, handleArtifactDownload, readArtifact } from "./artifacts.js";
+
+// R2 kept in a Map, with the object methods the module uses
+function fakeBucket() {
+  const objects = new Map<string, { content: string; contentType: string }>();
+  return {
+    objects,
+    async put(key: string, content: string, options: { httpMetadata: { contentType: string } }) {
+      objects.set(key, { content, contentType: options.httpMetadata.contentType });
+    },
+    async get(key: string) {
+      const stored = objects.get(key);
+      if (!stored) return null;
+      return {
+        body: stored.content,
+        httpEtag: "\"etag\"",
+        httpMetadata: { contentType: stored.contentType },
+        text: async () => stored.content,
+        writeHttpMetadata: (headers: Headers) => headers.set("Content-Type", stored.contentType)
+      };
+    }
+  };
+}
+
+function testEnv(overrides: Partial<Record<string, unknown>> = {}) {
+  return {
+    ZEO_BUCKET: fakeBucket(),
+    ZEO_PUBLIC_URL: "https://zeo.test",
+    ZEO_ARTIFACT_SIGNING_KEY: "signing-secret",
+    ZEO_ARTIFACT_THRESHOLD: "16",
+    ...overrides
+  } as unknown as CloudflareEnv;
+}
+
+const download = (env: CloudflareEnv, url: string) => handleArtifactDownload(new Request(url), env, new URL(url));
+
+describe("artifact store", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("treats content over ZEO_ARTIFACT_THRESHOLD bytes as large", () => {
+    const store = createArtifactStore(testEnv());
+
+    expect(store.isLarge("x".repeat(16))).toBe(false);
+    expect(store.isLarge("é".repeat(9))).toBe(true); // 18 bytes
+  });
+
+  it("keeps content inline when no bucket is bound", async () => {
+    expect(await createArtifactStore(testEnv({ ZEO_BUCKET: undefined })).offload("data", { name: "x", mimeType: "text/plain" })).toBeNull();
+  });
+
+  it("stores content under an unguessable id and links to it", async () => {
+    const env = testEnv();
+    const link = await createArtifactStore(env).offload("# Export", { name: "export.md", mimeType: "text/markdown" });
+
+    expect(link).toMatchObject({ name: "export.md", mimeType: "text/markdown", size: 8 });
+    const id = link.uri.replace("zeo://artifact/", "");
+    expect(id).toMatch(/^art_[0-9a-f-]{36}$/);
+    expect((env.ZEO_BUCKET as any).objects.has(ARTIFACT_PREFIX + id)).toBe(true);
+    expect(await readArtifact(env, id)).toEqual({ text: "# Export", mimeType: "text/markdown" });
+    expect(await readArtifact(env, "../secrets")).toBeNull();
+  });
+
+  it("serves a signed download link until it expires", async () => {
+    const env = testEnv();
+    const link = await createArtifactStore(env).offload("payload", { name: "p.json", mimeType: "application/json" });
+
+    const response = await download(env, link.download_url);
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe("application/json");
+    expect(response.headers.get("Cache-Control")).toBe("private, no-store");
+    expect(await response.text()).toBe("payload");
+
+    jest.spyOn(Date, "now").mockReturnValue(Date.parse(link.expires_at) + 1000);
+    expect((await download(env, link.download_url)).status).toBe(403);
+  });
+
+  it("rejects tampered signatures and unknown ids", async () => {
+    const env = testEnv();
+    const link = await createArtifactStore(env).offload("payload", { name: "p.json", mimeType: "application/json" });
+    const url = new URL(link.download_url);
+
+    url.searchParams.set("signature", "AAAA");
+    expect((await download(env, url.toString())).status).toBe(403);
+
+    expect((await download(env, "https://zeo.test/artifacts/not-an-id?expires=9999999999&signature=x")).status).toBe(404);
+  });
+});
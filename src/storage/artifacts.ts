@@ -0,0 +1,166 @@
+import { ResourceLink } from "../agents/mcp.js";
+import { ArtifactOptions, ArtifactStore } from "../agents/tool-context.js";
+import { CloudflareEnv } from "../server/env.js";
+
+/**
+ * 🗄️ Artifact Storage
+ * Results above ZEO_ARTIFACT_THRESHOLD bytes (session exports, full page bodies,
+ * generated module sets) are written to ZEO_BUCKET and returned as resource links:
+ * - zeo://artifact/{id}, readable with resources/read
+ * - a signed download URL on /artifacts/{id}, when ZEO_PUBLIC_URL and
+ *   ZEO_ARTIFACT_SIGNING_KEY are set, valid for ZEO_ARTIFACT_URL_TTL seconds
+ *
+ * Objects live under the artifacts/ prefix; expire them with an R2 lifecycle rule.
+ */
+
+export const ARTIFACT_PREFIX = "artifacts/";
+
+const DEFAULT_THRESHOLD_BYTES = 32 * 1024;
+const DEFAULT_URL_TTL_SECONDS = 60 * 60;
+const MAX_URL_TTL_SECONDS = 7 * 24 * 60 * 60;
+const ARTIFACT_ID = /^art_[0-9a-f-]{36}$/;
+
+export function createArtifactStore(env: CloudflareEnv): ArtifactStore {
+  const threshold = positiveInt(env.ZEO_ARTIFACT_THRESHOLD, DEFAULT_THRESHOLD_BYTES);
+  const ttl = Math.min(positiveInt(env.ZEO_ARTIFACT_URL_TTL, DEFAULT_URL_TTL_SECONDS), MAX_URL_TTL_SECONDS);
+
+  return {
+    isLarge: content => byteLength(content) > threshold,
+
+    async offload(content, options) {
+      if (!env.ZEO_BUCKET) {
+        return null;
+      }
+
+      // Unguessable, since the zeo:// URI is the only thing guarding the object
+      const id = `art_${crypto.randomUUID()}`;
+      const size = byteLength(content);
+
+      await env.ZEO_BUCKET.put(`${ARTIFACT_PREFIX}${id}`, content, {
+        httpMetadata: { contentType: options.mimeType },
+        customMetadata: { name: options.name, created_at: new Date().toISOString() }
+      });
+
+      return { ...artifactLink(id, options, size), ...(await signedDownload(env, id, ttl)) };
+    }
+  };
+}
+
+/**
+ * Serves GET /artifacts/{id}?expires=...&signature=... from R2
+ */
+export async function handleArtifactDownload(request: Request, env: CloudflareEnv, url: URL): Promise<Response> {
+  if (request.method !== "GET") {
+    return new Response("Method Not Allowed", { status: 405, headers: { "Allow": "GET" } });
+  }
+
+  const id = url.pathname.slice("/artifacts/".length);
+  const expires = Number(url.searchParams.get("expires"));
+  const signature = url.searchParams.get("signature") || "";
+
+  if (!env.ZEO_ARTIFACT_SIGNING_KEY || !ARTIFACT_ID.test(id)) {
+    return new Response("Not Found", { status: 404 });
+  }
+
+  if (!Number.isInteger(expires) || expires < Math.floor(Date.now() / 1000)) {
+    return new Response("Download link expired", { status: 403 });
+  }
+
+  if (!(await verifySignature(env.ZEO_ARTIFACT_SIGNING_KEY, id, expires, signature))) {
+    return new Response("Invalid signature", { status: 403 });
+  }
+
+  const object = await env.ZEO_BUCKET.get(`${ARTIFACT_PREFIX}${id}`);
+  if (!object) {
+    return new Response("Not Found", { status: 404 });
+  }
+
+  const headers = new Headers();
+  object.writeHttpMetadata(headers);
+  headers.set("ETag", object.httpEtag);
+  headers.set("Content-Disposition", `attachment; filename="${id}"`);
+  headers.set("Cache-Control", "private, no-store");
+
+  return new Response(object.body, { headers });
+}
+
+/**
+ * Contents of a stored artifact for resources/read, or null when it is gone
+ */
+export async function readArtifact(env: CloudflareEnv, id: string): Promise<{ text: string; mimeType: string } | null> {
+  if (!env.ZEO_BUCKET || !ARTIFACT_ID.test(id)) {
+    return null;
+  }
+
+  const object = await env.ZEO_BUCKET.get(`${ARTIFACT_PREFIX}${id}`);
+  if (!object) {
+    return null;
+  }
+
+  return {
+    text: await object.text(),
+    mimeType: object.httpMetadata?.contentType || "application/octet-stream"
+  };
+}
+
+function artifactLink(id: string, options: ArtifactOptions, size: number): ResourceLink {
+  return {
+    uri: `zeo://artifact/${id}`,
+    name: options.name,
+    mimeType: options.mimeType,
+    ...(options.description ? { description: options.description } : {}),
+    size
+  };
+}
+
+async function signedDownload(env: CloudflareEnv, id: string, ttl: number): Promise<Partial<ResourceLink>> {
+  if (!env.ZEO_PUBLIC_URL || !env.ZEO_ARTIFACT_SIGNING_KEY) {
+    return {};
+  }
+
+  const expires = Math.floor(Date.now() / 1000) + ttl;
+  const signature = await sign(env.ZEO_ARTIFACT_SIGNING_KEY, id, expires);
+  const url = new URL(`/artifacts/${id}`, env.ZEO_PUBLIC_URL);
+  url.searchParams.set("expires", String(expires));
+  url.searchParams.set("signature", signature);
+
+  return { download_url: url.toString(), expires_at: new Date(expires * 1000).toISOString() };
+}
+
+async function sign(secret: string, id: string, expires: number): Promise<string> {
+  const key = await signingKey(secret);
+  const mac = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(`${id}.${expires}`));
+  return base64url(new Uint8Array(mac));
+}
+
+async function verifySignature(secret: string, id: string, expires: number, signature: string): Promise<boolean> {
+  try {
+    const key = await signingKey(secret);
+    // subtle.verify compares in constant time
+    return await crypto.subtle.verify("HMAC", key, fromBase64url(signature), new TextEncoder().encode(`${id}.${expires}`));
+  } catch (error) {
+    return false;
+  }
+}
+
+function signingKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", new TextEncoder().encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign", "verify"]);
+}
+
+function base64url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64url(value: string): Uint8Array {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+function byteLength(content: string): number {
+  return new TextEncoder().encode(content).byteLength;
+}
+
+function positiveInt(raw: string | undefined, fallback: number): number {
+  const value = Number(raw);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
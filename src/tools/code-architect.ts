@@ -1,12 +1,13 @@
 import { z } from "zod";
-import { ToolUtils, PerformanceTracker } from "../agents/mcp.js";
+import { ToolUtils, PerformanceTracker, ToolMetadata } from "../agents/mcp.js";
+import { ToolCallContext, ToolContext, detachedCall } from "../agents/tool-context.js";
 
 /**
  * 🏗️ Code Architect
  * Advanced code analysis, architecture design, and intelligent refactoring with AI-powered insights
  */
 
-const CodeArchitectActionSchema = z.object({
+export const CodeArchitectActionSchema = z.object({
   action: z.enum([
     "analyze_codebase",
     "design_architecture",
@@ -18,7 +19,7 @@ const CodeArchitectActionSchema = z.object({
     "dependency_analysis",
     "technical_debt_assessment",
     "generate_documentation"
-  ]),
+  ]).describe("Code architect action"),
   codebase_config: z.object({
     source_paths: z.array(z.string()),
     programming_languages: z.array(z.string()).optional(),
@@ -26,7 +27,7 @@ const CodeArchitectActionSchema = z.object({
     exclude_patterns: z.array(z.string()).optional(),
     include_tests: z.boolean().optional(),
     include_docs: z.boolean().optional()
-  }).optional(),
+  }).optional().describe("Codebase configuration"),
   analysis_config: z.object({
     depth_level: z.enum(["surface", "detailed", "comprehensive"]).optional(),
     focus_areas: z.array(z.enum([
@@ -39,7 +40,7 @@ const CodeArchitectActionSchema = z.object({
       operator: z.enum(["gt", "lt", "eq", "gte", "lte"])
     })).optional(),
     coding_standards: z.array(z.string()).optional()
-  }).optional(),
+  }).optional().describe("Analysis configuration"),
   refactoring_config: z.object({
     refactoring_type: z.enum([
       "extract_method", "extract_class", "move_method", "rename", 
@@ -50,7 +51,7 @@ const CodeArchitectActionSchema = z.object({
     safety_level: z.enum(["conservative", "moderate", "aggressive"]).optional(),
     preserve_behavior: z.boolean().optional(),
     generate_tests: z.boolean().optional()
-  }).optional(),
+  }).optional().describe("Refactoring configuration"),
   architecture_config: z.object({
     architecture_style: z.enum([
       "layered", "hexagonal", "clean", "mvc", "mvp", "mvvm", 
@@ -80,19 +81,51 @@ const CodeArchitectActionSchema = z.object({
   ])).optional()
 });
 
+// Result of each implemented action, advertised as its outputSchema
+const ArchitectOutputs = {
+  analyze_codebase: z.object({ codebase_config: z.record(z.any()), code_metrics: z.any(), recommendations: z.any(), analysis_summary: z.any() }),
+  design_architecture: z.object({ high_level_architecture: z.any(), component_architecture: z.any(), implementation_roadmap: z.any() }),
+  refactor_code: z.object({ refactoring_opportunities: z.any(), refactoring_plan: z.any(), risk_assessment: z.any() }),
+  optimize_performance: z.object({ optimization_targets: z.array(z.string()), bottleneck_analysis: z.any(), optimization_strategies: z.any() }),
+  detect_patterns: z.object({ design_patterns: z.any(), anti_patterns: z.any(), pattern_health_score: z.number() }),
+  security_audit: z.object({ security_standards: z.array(z.string()), vulnerability_scanning: z.any(), security_score: z.number() }),
+  code_review: z.object({ code_issues: z.any(), review_comments: z.any(), overall_quality_score: z.number() }),
+  generate_documentation: z.object({ sections: z.array(z.any()) })
+};
+
+export const CODE_ARCHITECT_METADATA: ToolMetadata = {
+  name: "zeo_code_architect",
+  description: "🏗️ Advanced code analysis and architecture - analyze codebase, detect patterns, refactor code, security audit, performance optimization",
+  schema: CodeArchitectActionSchema,
+  actionPrefix: "zeo_architect",
+  actions: {
+    analyze_codebase: { description: "Analyze a codebase", required: ["codebase_config"], fields: ["analysis_config", "security_standards"], output: ArchitectOutputs.analyze_codebase },
+    design_architecture: { description: "Design or redesign an architecture", fields: ["codebase_config", "analysis_config", "architecture_config"], output: ArchitectOutputs.design_architecture },
+    refactor_code: { description: "Plan a refactoring", required: ["refactoring_config"], fields: ["codebase_config"], output: ArchitectOutputs.refactor_code },
+    optimize_performance: { description: "Find performance optimizations", required: ["codebase_config"], fields: ["optimization_targets"], output: ArchitectOutputs.optimize_performance },
+    detect_patterns: { description: "Detect design patterns and anti-patterns", required: ["codebase_config"], output: ArchitectOutputs.detect_patterns },
+    security_audit: { description: "Audit code against security standards", required: ["codebase_config"], fields: ["security_standards"], output: ArchitectOutputs.security_audit },
+    code_review: { description: "Review code", required: ["codebase_config"], fields: ["analysis_config"], output: ArchitectOutputs.code_review },
+    dependency_analysis: { description: "Analyze dependencies", required: ["codebase_config"] },
+    technical_debt_assessment: { description: "Assess technical debt", required: ["codebase_config"], fields: ["analysis_config"] },
+    generate_documentation: { description: "Generate documentation", fields: ["codebase_config", "documentation_config"], output: ArchitectOutputs.generate_documentation }
+  }
+};
+
 export class CodeArchitect {
-  private ai: any;
+  private ctx: ToolContext;
   private kv: any;
   private db: any;
 
-  constructor(ai: any, kv: any, db: any) {
-    this.ai = ai;
-    this.kv = kv;
-    this.db = db;
+  constructor(ctx: ToolContext) {
+    this.ctx = ctx;
+    this.kv = ctx.kv;
+    this.db = ctx.db;
   }
 
-  async execute(args: z.infer<typeof CodeArchitectActionSchema>) {
+  async execute(args: z.infer<typeof CodeArchitectActionSchema>, call: ToolCallContext = detachedCall) {
     const validArgs = ToolUtils.validateArgs(CodeArchitectActionSchema, args);
+    ToolUtils.throwIfAborted(call.signal);
     
     return PerformanceTracker.trackExecution(
       () => this.performAction(validArgs),
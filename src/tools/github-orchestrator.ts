@@ -1,12 +1,13 @@
 import { z } from "zod";
-import { ToolUtils, PerformanceTracker } from "../agents/mcp.js";
+import { ToolUtils, PerformanceTracker, ToolMetadata } from "../agents/mcp.js";
+import { ToolCallContext, ToolContext, detachedCall } from "../agents/tool-context.js";
 
 /**
  * 🔗 GitHub Orchestrator
  * Real GitHub API integration with AI analysis
  */
 
-const GitHubActionSchema = z.object({
+export const GitHubActionSchema = z.object({
   action: z.enum([
     "list_repos",
     "get_repo_info", 
@@ -18,14 +19,14 @@ const GitHubActionSchema = z.object({
     "analyze_repo",
     "search_code",
     "get_commits"
-  ]),
-  owner: z.string().optional(),
-  repo: z.string().optional(),
-  issue_number: z.number().optional(),
-  pr_number: z.number().optional(),
-  query: z.string().optional(),
-  title: z.string().optional(),
-  body: z.string().optional(),
+  ]).describe("GitHub action to perform"),
+  owner: z.string().optional().describe("Repository owner"),
+  repo: z.string().optional().describe("Repository name"),
+  issue_number: z.number().optional().describe("Issue number"),
+  pr_number: z.number().optional().describe("Pull request number"),
+  query: z.string().optional().describe("Search query"),
+  title: z.string().optional().describe("Issue title"),
+  body: z.string().optional().describe("Issue body"),
   labels: z.array(z.string()).optional(),
   since: z.string().optional(),
   state: z.enum(["open", "closed", "all"]).optional(),
@@ -33,100 +34,151 @@ const GitHubActionSchema = z.object({
   page: z.number().optional()
 });
 
+const RepositorySchema = z.object({ name: z.string(), full_name: z.string(), url: z.string() });
+const IssueSchema = z.object({ number: z.number(), title: z.string(), state: z.string(), url: z.string() });
+const PullRequestSchema = z.object({ number: z.number(), title: z.string(), state: z.string(), head_branch: z.string(), base_branch: z.string() });
+
+// Result of each action, advertised as its outputSchema
+const GitHubOutputs = {
+  list_repos: z.object({ total_repos: z.number(), repositories: z.array(RepositorySchema) }),
+  get_repo_info: z.object({ repository: RepositorySchema }),
+  list_issues: z.object({ repository: z.string(), total_issues: z.number(), issues: z.array(IssueSchema) }),
+  create_issue: z.object({ success: z.boolean(), issue: IssueSchema }),
+  get_issue: z.object({ issue: IssueSchema }),
+  list_prs: z.object({ repository: z.string(), total_prs: z.number(), pull_requests: z.array(PullRequestSchema) }),
+  get_pr: z.object({ pull_request: PullRequestSchema }),
+  analyze_repo: z.object({ repository: z.string(), analysis: z.record(z.any()), summary: z.string() }),
+  search_code: z.object({
+    query: z.string(),
+    total_count: z.number(),
+    results: z.array(z.object({ name: z.string(), path: z.string(), repository: z.string(), url: z.string() }))
+  }),
+  get_commits: z.object({
+    repository: z.string(),
+    total_commits: z.number(),
+    commits: z.array(z.object({ sha: z.string(), message: z.string(), url: z.string() }))
+  })
+};
+
+export const GITHUB_ORCHESTRATOR_METADATA: ToolMetadata = {
+  name: "zeo_github_orchestrator",
+  description: "🔗 GitHub API integration with AI analysis - analyze repos, manage issues, review PRs and commits with intelligent insights",
+  schema: GitHubActionSchema,
+  actionPrefix: "zeo_github",
+  actions: {
+    list_repos: { description: "List repositories of the authenticated user", fields: ["per_page", "page"], output: GitHubOutputs.list_repos },
+    get_repo_info: { description: "Get repository details", required: ["owner", "repo"], output: GitHubOutputs.get_repo_info },
+    list_issues: { description: "List issues of a repository", required: ["owner", "repo"], fields: ["state", "labels", "since", "per_page", "page"], output: GitHubOutputs.list_issues },
+    create_issue: { description: "Create an issue in a repository", required: ["owner", "repo", "title"], fields: ["body", "labels"], output: GitHubOutputs.create_issue },
+    get_issue: { description: "Get a single issue", required: ["owner", "repo", "issue_number"], output: GitHubOutputs.get_issue },
+    list_prs: { description: "List pull requests of a repository", required: ["owner", "repo"], fields: ["state", "per_page", "page"], output: GitHubOutputs.list_prs },
+    get_pr: { description: "Get a single pull request", required: ["owner", "repo", "pr_number"], output: GitHubOutputs.get_pr },
+    analyze_repo: { description: "Analyze a repository with AI insights", required: ["owner", "repo"], output: GitHubOutputs.analyze_repo },
+    search_code: { description: "Search code across GitHub", required: ["query"], fields: ["per_page", "page"], output: GitHubOutputs.search_code },
+    get_commits: { description: "List recent commits of a repository", required: ["owner", "repo"], fields: ["since", "per_page", "page"], output: GitHubOutputs.get_commits }
+  }
+};
+
 export class GitHubOrchestrator {
+  private ctx: ToolContext;
   private token: string;
   private baseUrl = "https://api.github.com";
 
-  constructor(token: string) {
-    this.token = token;
+  constructor(ctx: ToolContext) {
+    this.ctx = ctx;
+    this.token = ctx.secrets.githubToken || "";
   }
 
-  async execute(args: z.infer<typeof GitHubActionSchema>) {
+  async execute(args: z.infer<typeof GitHubActionSchema>, call: ToolCallContext = detachedCall) {
     const validArgs = ToolUtils.validateArgs(GitHubActionSchema, args);
     
     return PerformanceTracker.trackExecution(
-      () => this.performAction(validArgs),
+      () => this.performAction(validArgs, call),
       `github_${validArgs.action}`
     );
   }
 
-  private async performAction(args: z.infer<typeof GitHubActionSchema>) {
-    const headers = {
-      "Authorization": `Bearer ${this.token}`,
-      "Accept": "application/vnd.github.v3+json",
-      "User-Agent": "ZEO-MCP-Server/2.1.0"
+  private async performAction(args: z.infer<typeof GitHubActionSchema>, call: ToolCallContext) {
+    // Every GitHub request of this call shares the headers and the call's abort signal
+    const init: RequestInit = {
+      headers: {
+        "Authorization": `Bearer ${this.token}`,
+        "Accept": "application/vnd.github.v3+json",
+        "User-Agent": "ZEO-MCP-Server/2.1.0"
+      },
+      signal: call.signal
     };
 
     switch (args.action) {
       case "list_repos":
-        return this.listRepositories(headers, args);
+        return this.listRepositories(init, args);
       
       case "get_repo_info":
         if (!args.owner || !args.repo) {
           throw new Error("owner and repo are required for get_repo_info");
         }
-        return this.getRepositoryInfo(headers, args.owner, args.repo);
+        return this.getRepositoryInfo(init, args.owner, args.repo);
       
       case "list_issues":
         if (!args.owner || !args.repo) {
           throw new Error("owner and repo are required for list_issues");
         }
-        return this.listIssues(headers, args);
+        return this.listIssues(init, args);
       
       case "create_issue":
         if (!args.owner || !args.repo || !args.title) {
           throw new Error("owner, repo, and title are required for create_issue");
         }
-        return this.createIssue(headers, args);
+        return this.createIssue(init, args);
       
       case "get_issue":
         if (!args.owner || !args.repo || !args.issue_number) {
           throw new Error("owner, repo, and issue_number are required for get_issue");
         }
-        return this.getIssue(headers, args.owner, args.repo, args.issue_number);
+        return this.getIssue(init, args.owner, args.repo, args.issue_number);
       
       case "list_prs":
         if (!args.owner || !args.repo) {
           throw new Error("owner and repo are required for list_prs");
         }
-        return this.listPullRequests(headers, args);
+        return this.listPullRequests(init, args);
       
       case "get_pr":
         if (!args.owner || !args.repo || !args.pr_number) {
           throw new Error("owner, repo, and pr_number are required for get_pr");
         }
-        return this.getPullRequest(headers, args.owner, args.repo, args.pr_number);
+        return this.getPullRequest(init, args.owner, args.repo, args.pr_number);
       
       case "analyze_repo":
         if (!args.owner || !args.repo) {
           throw new Error("owner and repo are required for analyze_repo");
         }
-        return this.analyzeRepository(headers, args.owner, args.repo);
+        return this.analyzeRepository(init, args.owner, args.repo);
       
       case "search_code":
         if (!args.query) {
           throw new Error("query is required for search_code");
         }
-        return this.searchCode(headers, args);
+        return this.searchCode(init, args);
       
       case "get_commits":
         if (!args.owner || !args.repo) {
           throw new Error("owner and repo are required for get_commits");
         }
-        return this.getCommits(headers, args);
+        return this.getCommits(init, args);
       
       default:
         throw new Error(`Unknown GitHub action: ${args.action}`);
     }
   }
 
-  private async listRepositories(headers: any, args: any) {
+  private async listRepositories(init: RequestInit, args: any) {
     const params = new URLSearchParams();
     if (args.per_page) params.append("per_page", args.per_page.toString());
     if (args.page) params.append("page", args.page.toString());
     
     const url = `${this.baseUrl}/user/repos?${params}`;
-    const response = await fetch(url, { headers });
+    const response = await fetch(url, init);
     
     if (!response.ok) {
       throw new Error(`GitHub API error: ${response.status} ${response.statusText}`);
@@ -152,8 +204,8 @@ export class GitHubOrchestrator {
     };
   }
 
-  private async getRepositoryInfo(headers: any, owner: string, repo: string) {
-    const response = await fetch(`${this.baseUrl}/repos/${owner}/${repo}`, { headers });
+  private async getRepositoryInfo(init: RequestInit, owner: string, repo: string) {
+    const response = await fetch(`${this.baseUrl}/repos/${owner}/${repo}`, init);
     
     if (!response.ok) {
       throw new Error(`Repository not found: ${owner}/${repo}`);
@@ -163,9 +215,9 @@ export class GitHubOrchestrator {
     
     // Get additional stats
     const [languages, contributors, branches]: [any, any[], any[]] = await Promise.all([
-      fetch(`${this.baseUrl}/repos/${owner}/${repo}/languages`, { headers }).then(r => r.json()),
-      fetch(`${this.baseUrl}/repos/${owner}/${repo}/contributors?per_page=10`, { headers }).then(r => r.json()),
-      fetch(`${this.baseUrl}/repos/${owner}/${repo}/branches?per_page=10`, { headers }).then(r => r.json())
+      fetch(`${this.baseUrl}/repos/${owner}/${repo}/languages`, init).then(r => r.json()),
+      fetch(`${this.baseUrl}/repos/${owner}/${repo}/contributors?per_page=10`, init).then(r => r.json()),
+      fetch(`${this.baseUrl}/repos/${owner}/${repo}/branches?per_page=10`, init).then(r => r.json())
     ]);
 
     return {
@@ -200,7 +252,7 @@ export class GitHubOrchestrator {
     };
   }
 
-  private async listIssues(headers: any, args: any) {
+  private async listIssues(init: RequestInit, args: any) {
     const params = new URLSearchParams();
     if (args.state) params.append("state", args.state);
     if (args.labels) params.append("labels", args.labels.join(","));
@@ -209,7 +261,7 @@ export class GitHubOrchestrator {
     if (args.page) params.append("page", args.page.toString());
     
     const url = `${this.baseUrl}/repos/${args.owner}/${args.repo}/issues?${params}`;
-    const response = await fetch(url, { headers });
+    const response = await fetch(url, init);
     
     if (!response.ok) {
       throw new Error(`Failed to fetch issues: ${response.status}`);
@@ -236,7 +288,7 @@ export class GitHubOrchestrator {
     };
   }
 
-  private async createIssue(headers: any, args: any) {
+  private async createIssue(init: RequestInit, args: any) {
     const body = {
       title: args.title,
       body: args.body || "",
@@ -246,9 +298,10 @@ export class GitHubOrchestrator {
     const response = await fetch(
       `${this.baseUrl}/repos/${args.owner}/${args.repo}/issues`,
       {
+        ...init,
         method: "POST",
         headers: {
-          ...headers,
+          ...init.headers,
           "Content-Type": "application/json"
         },
         body: JSON.stringify(body)
@@ -274,10 +327,10 @@ export class GitHubOrchestrator {
     };
   }
 
-  private async getIssue(headers: any, owner: string, repo: string, issueNumber: number) {
+  private async getIssue(init: RequestInit, owner: string, repo: string, issueNumber: number) {
     const response = await fetch(
       `${this.baseUrl}/repos/${owner}/${repo}/issues/${issueNumber}`,
-      { headers }
+      init
     );
     
     if (!response.ok) {
@@ -305,14 +358,14 @@ export class GitHubOrchestrator {
     };
   }
 
-  private async listPullRequests(headers: any, args: any) {
+  private async listPullRequests(init: RequestInit, args: any) {
     const params = new URLSearchParams();
     if (args.state) params.append("state", args.state);
     if (args.per_page) params.append("per_page", args.per_page.toString());
     if (args.page) params.append("page", args.page.toString());
     
     const url = `${this.baseUrl}/repos/${args.owner}/${args.repo}/pulls?${params}`;
-    const response = await fetch(url, { headers });
+    const response = await fetch(url, init);
     
     if (!response.ok) {
       throw new Error(`Failed to fetch pull requests: ${response.status}`);
@@ -340,10 +393,10 @@ export class GitHubOrchestrator {
     };
   }
 
-  private async getPullRequest(headers: any, owner: string, repo: string, prNumber: number) {
+  private async getPullRequest(init: RequestInit, owner: string, repo: string, prNumber: number) {
     const response = await fetch(
       `${this.baseUrl}/repos/${owner}/${repo}/pulls/${prNumber}`,
-      { headers }
+      init
     );
     
     if (!response.ok) {
@@ -377,14 +430,14 @@ export class GitHubOrchestrator {
     };
   }
 
-  private async analyzeRepository(headers: any, owner: string, repo: string) {
+  private async analyzeRepository(init: RequestInit, owner: string, repo: string) {
     // Collect comprehensive repo data for AI analysis
     const [repoInfo, issues, prs, releases, commits] = await Promise.all([
-      this.getRepositoryInfo(headers, owner, repo),
-      this.listIssues(headers, { owner, repo, state: "all", per_page: 50 }),
-      this.listPullRequests(headers, { owner, repo, state: "all", per_page: 30 }),
-      fetch(`${this.baseUrl}/repos/${owner}/${repo}/releases?per_page=10`, { headers }).then(r => r.json()),
-      fetch(`${this.baseUrl}/repos/${owner}/${repo}/commits?per_page=30`, { headers }).then(r => r.json())
+      this.getRepositoryInfo(init, owner, repo),
+      this.listIssues(init, { owner, repo, state: "all", per_page: 50 }),
+      this.listPullRequests(init, { owner, repo, state: "all", per_page: 30 }),
+      fetch(`${this.baseUrl}/repos/${owner}/${repo}/releases?per_page=10`, init).then(r => r.json()),
+      fetch(`${this.baseUrl}/repos/${owner}/${repo}/commits?per_page=30`, init).then(r => r.json())
     ]);
 
     // AI Analysis
@@ -405,14 +458,14 @@ export class GitHubOrchestrator {
     };
   }
 
-  private async searchCode(headers: any, args: any) {
+  private async searchCode(init: RequestInit, args: any) {
     const params = new URLSearchParams();
     params.append("q", args.query);
     if (args.per_page) params.append("per_page", args.per_page.toString());
     if (args.page) params.append("page", args.page.toString());
     
     const url = `${this.baseUrl}/search/code?${params}`;
-    const response = await fetch(url, { headers });
+    const response = await fetch(url, init);
     
     if (!response.ok) {
       throw new Error(`Code search failed: ${response.status}`);
@@ -434,14 +487,14 @@ export class GitHubOrchestrator {
     };
   }
 
-  private async getCommits(headers: any, args: any) {
+  private async getCommits(init: RequestInit, args: any) {
     const params = new URLSearchParams();
     if (args.since) params.append("since", args.since);
     if (args.per_page) params.append("per_page", args.per_page.toString());
     if (args.page) params.append("page", args.page.toString());
     
     const url = `${this.baseUrl}/repos/${args.owner}/${args.repo}/commits?${params}`;
-    const response = await fetch(url, { headers });
+    const response = await fetch(url, init);
     
     if (!response.ok) {
       throw new Error(`Failed to fetch commits: ${response.status}`);
@@ -1,12 +1,13 @@
 import { z } from "zod";
-import { ToolUtils, PerformanceTracker } from "../agents/mcp.js";
+import { ToolUtils, PerformanceTracker, ToolMetadata } from "../agents/mcp.js";
+import { ProgressReporter, ToolCallContext, ToolContext, detachedCall } from "../agents/tool-context.js";
 
 /**
  * 💡 Ideation Engine
  * Advanced idea generation with 15+ creative techniques and AI-powered innovation
  */
 
-const IdeationActionSchema = z.object({
+export const IdeationActionSchema = z.object({
   action: z.enum([
     "generate_ideas",
     "brainstorm_session", 
@@ -18,9 +19,9 @@ const IdeationActionSchema = z.object({
     "idea_evolution",
     "trend_analysis",
     "opportunity_mapping"
-  ]),
-  prompt: z.string(),
-  domain: z.string().optional(),
+  ]).describe("Ideation action"),
+  prompt: z.string().describe("Ideation prompt"),
+  domain: z.string().optional().describe("Domain context"),
   context: z.string().optional(),
   constraints: z.array(z.string()).optional(),
   goals: z.array(z.string()).optional(),
@@ -40,8 +41,8 @@ const IdeationActionSchema = z.object({
     "triz",
     "mind_mapping",
     "concept_combination"
-  ])).optional(),
-  quantity_target: z.number().min(5).max(100).optional(),
+  ])).optional().describe("Creative techniques"),
+  quantity_target: z.number().min(5).max(100).optional().describe("Target number of ideas"),
   quality_threshold: z.number().min(0).max(1).optional(),
   novelty_weight: z.number().min(0).max(1).optional(),
   feasibility_weight: z.number().min(0).max(1).optional(),
@@ -52,34 +53,70 @@ const IdeationActionSchema = z.object({
   exclude_patterns: z.array(z.string()).optional()
 });
 
+// Result of each implemented action, advertised as its outputSchema
+const IdeationOutputs = {
+  generate_ideas: z.object({
+    prompt: z.string(),
+    techniques_used: z.array(z.string()),
+    all_ideas: z.array(z.any()),
+    filtered_ideas: z.array(z.any()),
+    diversity_index: z.number(),
+    innovation_potential: z.number()
+  }),
+  brainstorm_session: z.object({ prompt: z.string(), target_quantity: z.number(), final_recommendations: z.array(z.any()) }),
+  creative_workshop: z.object({ prompt: z.string(), workshop_stages: z.any(), key_insights: z.any(), next_steps: z.any() }),
+  innovation_lab: z.object({ prompt: z.string(), breakthrough_opportunities: z.any(), innovation_roadmap: z.any() }),
+  concept_development: z.object({ developed_concepts: z.any(), evaluation_matrix: z.any() }),
+  idea_evaluation: z.object({ ranked_ideas: z.array(z.any()), top_ideas: z.array(z.any()) })
+};
+
+export const IDEATION_ENGINE_METADATA: ToolMetadata = {
+  name: "zeo_ideation_engine",
+  description: "💡 Creative ideation with 15+ techniques - brainstorming, SCAMPER, lateral thinking, innovation lab, creative workshops",
+  schema: IdeationActionSchema,
+  actionPrefix: "zeo_ideation",
+  actions: {
+    generate_ideas: { description: "Generate ideas with creative techniques", required: ["prompt"], fields: ["techniques", "quantity_target", "exclude_patterns", "domain", "context", "constraints", "goals"], output: IdeationOutputs.generate_ideas },
+    brainstorm_session: { description: "Run a timed brainstorming session", required: ["prompt"], fields: ["quantity_target", "session_duration", "collaboration_mode", "domain", "context", "constraints", "goals"], output: IdeationOutputs.brainstorm_session },
+    creative_workshop: { description: "Run a creative workshop from reframing to prototyping plan", required: ["prompt"], fields: ["domain", "context", "constraints", "goals"], output: IdeationOutputs.creative_workshop },
+    innovation_lab: { description: "Explore trends, technologies and disruptive ideas", required: ["prompt"], fields: ["domain", "context", "constraints", "goals"], output: IdeationOutputs.innovation_lab },
+    concept_development: { description: "Develop ideas into concepts", required: ["prompt", "previous_ideas"], fields: ["domain", "context", "constraints", "goals"], output: IdeationOutputs.concept_development },
+    idea_evaluation: { description: "Score ideas on novelty, feasibility and impact", required: ["prompt", "previous_ideas"], fields: ["novelty_weight", "feasibility_weight", "impact_weight", "quality_threshold", "domain", "context", "constraints", "goals"], output: IdeationOutputs.idea_evaluation },
+    idea_clustering: { description: "Cluster related ideas", required: ["prompt", "previous_ideas"], fields: ["domain", "context", "constraints", "goals"] },
+    idea_evolution: { description: "Evolve ideas into new variations", required: ["prompt", "previous_ideas"], fields: ["domain", "context", "constraints", "goals"] },
+    trend_analysis: { description: "Analyze trends in a domain", required: ["prompt"], fields: ["domain", "context", "constraints", "goals"] },
+    opportunity_mapping: { description: "Map opportunities in a domain", required: ["prompt"], fields: ["domain", "context", "constraints", "goals"] }
+  }
+};
+
 export class IdeationEngine {
-  private ai: any;
+  private ctx: ToolContext;
   private kv: any;
   private db: any;
 
-  constructor(ai: any, kv: any, db: any) {
-    this.ai = ai;
-    this.kv = kv;
-    this.db = db;
+  constructor(ctx: ToolContext) {
+    this.ctx = ctx;
+    this.kv = ctx.kv;
+    this.db = ctx.db;
   }
 
-  async execute(args: z.infer<typeof IdeationActionSchema>) {
+  async execute(args: z.infer<typeof IdeationActionSchema>, call: ToolCallContext = detachedCall) {
     const validArgs = ToolUtils.validateArgs(IdeationActionSchema, args);
     
     return PerformanceTracker.trackExecution(
-      () => this.performAction(validArgs),
+      () => this.performAction(validArgs, call),
       `ideation_${validArgs.action}`
     );
   }
 
-  private async performAction(args: z.infer<typeof IdeationActionSchema>) {
+  private async performAction(args: z.infer<typeof IdeationActionSchema>, call: ToolCallContext) {
     switch (args.action) {
       case "generate_ideas":
-        return this.generateIdeas(args);
+        return this.generateIdeas(args, call.progress);
       case "brainstorm_session":
         return this.runBrainstormSession(args);
       case "creative_workshop":
-        return this.runCreativeWorkshop(args);
+        return this.runCreativeWorkshop(args, call.progress);
       case "innovation_lab":
         return this.runInnovationLab(args);
       case "concept_development":
@@ -99,7 +136,7 @@ export class IdeationEngine {
     }
   }
 
-  private async generateIdeas(args: any) {
+  private async generateIdeas(args: any, progress: ProgressReporter) {
     const techniques = args.techniques || [
       "brainstorming", "lateral_thinking", "analogical_thinking", 
       "scamper", "random_stimulation"
@@ -117,6 +154,7 @@ export class IdeationEngine {
         impact_scores: ideas.impact_scores,
         execution_time: ideas.execution_time
       });
+      await progress.report(ideaGenerationResults.length, techniques.length, `Applied ${technique}`);
     }
 
     // Combine and rank all ideas
@@ -179,26 +217,33 @@ export class IdeationEngine {
     };
   }
 
-  private async runCreativeWorkshop(args: any) {
+  private async runCreativeWorkshop(args: any, progress: ProgressReporter) {
+    const totalStages = 6;
+    const stage = async <T>(index: number, name: string, run: Promise<T>): Promise<T> => {
+      const result = await run;
+      await progress.report(index, totalStages, `Workshop stage ${index}/${totalStages}: ${name}`);
+      return result;
+    };
+
     // Multi-stage creative workshop
     const workshop = {
       // Stage 1: Problem reframing
-      problem_reframing: await this.reframeProblem(args.prompt, args.context),
+      problem_reframing: await stage(1, "problem reframing", this.reframeProblem(args.prompt, args.context)),
       
       // Stage 2: Inspiration gathering
-      inspiration_gathering: await this.gatherInspiration(args.prompt, args.domain),
+      inspiration_gathering: await stage(2, "inspiration gathering", this.gatherInspiration(args.prompt, args.domain)),
       
       // Stage 3: Ideation rounds (3 rounds with different techniques)
-      ideation_rounds: await this.runMultipleIdeationRounds(args),
+      ideation_rounds: await stage(3, "ideation rounds", this.runMultipleIdeationRounds(args)),
       
       // Stage 4: Concept development
-      concept_development: await this.developSelectedConcepts(args),
+      concept_development: await stage(4, "concept development", this.developSelectedConcepts(args)),
       
       // Stage 5: Prototyping ideas
-      prototyping: await this.generatePrototypingPlan(args),
+      prototyping: await stage(5, "prototyping", this.generatePrototypingPlan(args)),
       
       // Stage 6: Implementation roadmap
-      implementation: await this.createImplementationRoadmap(args)
+      implementation: await stage(6, "implementation roadmap", this.createImplementationRoadmap(args))
     };
 
     const workshopInsights = this.extractWorkshopInsights(workshop);
@@ -1,12 +1,13 @@
 import { z } from "zod";
-import { ToolUtils, PerformanceTracker } from "../agents/mcp.js";
+import { ToolUtils, PerformanceTracker, ToolMetadata, ResourceLinkSchema } from "../agents/mcp.js";
+import { ToolCallContext, ToolContext, detachedCall } from "../agents/tool-context.js";
 
 /**
  * 🌉 Implementation Bridge
  * Transforms ideas into executable code, infrastructure, and deployment strategies
  */
 
-const ImplementationActionSchema = z.object({
+export const ImplementationActionSchema = z.object({
   action: z.enum([
     "code_generation",
     "architecture_design",
@@ -18,14 +19,14 @@ const ImplementationActionSchema = z.object({
     "performance_optimization",
     "documentation_generation",
     "maintenance_planning"
-  ]),
-  concept: z.string(),
-  requirements: z.array(z.string()).optional(),
+  ]).describe("Implementation action"),
+  concept: z.string().describe("Concept to implement"),
+  requirements: z.array(z.string()).optional().describe("Requirements"),
   target_platform: z.enum([
     "web", "mobile", "desktop", "server", "cloud", "edge", 
     "microservices", "serverless", "blockchain", "ai_ml", "iot"
-  ]).optional(),
-  technology_stack: z.array(z.string()).optional(),
+  ]).optional().describe("Target platform"),
+  technology_stack: z.array(z.string()).optional().describe("Technology stack"),
   constraints: z.object({
     budget: z.number().optional(),
     timeline: z.string().optional(),
@@ -53,19 +54,56 @@ const ImplementationActionSchema = z.object({
   maintenance_strategy: z.enum(["reactive", "preventive", "predictive"]).optional()
 });
 
+// Result of each implemented action, advertised as its outputSchema
+const ImplementationOutputs = {
+  code_generation: z.object({
+    concept: z.string(),
+    architecture: z.any(),
+    code_modules: z.any(), // module names and metrics only when the set was offloaded
+    implementation_roadmap: z.any(),
+    resource_links: z.array(ResourceLinkSchema).optional()
+  }),
+  architecture_design: z.object({ concept: z.string(), system_architecture: z.any(), technology_recommendations: z.any() }),
+  infrastructure_setup: z.object({ concept: z.string(), infrastructure_code: z.any(), deployment_guide: z.any() }),
+  deployment_strategy: z.object({ concept: z.string(), deployment_strategy: z.any(), cicd_configuration: z.any() }),
+  testing_framework: z.object({ concept: z.string(), testing_framework: z.any(), test_automation: z.any() }),
+  monitoring_setup: z.object({ concept: z.string(), monitoring_system: z.any(), health_checks: z.any() }),
+  documentation_generation: z.object({ sections: z.array(z.any()) })
+};
+
+export const IMPLEMENTATION_BRIDGE_METADATA: ToolMetadata = {
+  name: "zeo_implementation_bridge",
+  description: "🌉 Transform concepts to executable code - generate code, design architecture, setup infrastructure, deployment strategies",
+  schema: ImplementationActionSchema,
+  actionPrefix: "zeo_implementation",
+  actions: {
+    code_generation: { description: "Generate code for a concept", required: ["concept"], fields: ["requirements", "target_platform", "technology_stack", "constraints", "quality_standards"], output: ImplementationOutputs.code_generation },
+    architecture_design: { description: "Design the architecture of a concept", required: ["concept"], fields: ["requirements", "target_platform", "technology_stack", "constraints", "integration_requirements", "deployment_environment"], output: ImplementationOutputs.architecture_design },
+    infrastructure_setup: { description: "Generate infrastructure configuration", required: ["concept"], fields: ["requirements", "target_platform", "technology_stack", "constraints", "automation_level", "monitoring_requirements"], output: ImplementationOutputs.infrastructure_setup },
+    deployment_strategy: { description: "Design a deployment strategy", required: ["concept"], fields: ["requirements", "target_platform", "technology_stack", "constraints", "deployment_environment", "automation_level", "quality_standards"], output: ImplementationOutputs.deployment_strategy },
+    testing_framework: { description: "Design a testing framework", required: ["concept"], fields: ["requirements", "target_platform", "technology_stack", "constraints", "quality_standards", "integration_requirements"], output: ImplementationOutputs.testing_framework },
+    monitoring_setup: { description: "Design monitoring, alerting and SLAs", required: ["concept"], fields: ["requirements", "target_platform", "technology_stack", "constraints", "monitoring_requirements"], output: ImplementationOutputs.monitoring_setup },
+    security_implementation: { description: "Plan the security implementation", required: ["concept"], fields: ["requirements", "target_platform", "technology_stack", "constraints", "quality_standards"] },
+    performance_optimization: { description: "Plan performance optimizations", required: ["concept"], fields: ["requirements", "target_platform", "technology_stack", "constraints", "quality_standards"] },
+    documentation_generation: { description: "Generate documentation", required: ["concept"], fields: ["requirements", "target_platform", "technology_stack", "constraints"], output: ImplementationOutputs.documentation_generation },
+    maintenance_planning: { description: "Plan maintenance", required: ["concept"], fields: ["requirements", "target_platform", "technology_stack", "constraints", "maintenance_strategy", "monitoring_requirements"] }
+  }
+};
+
 export class ImplementationBridge {
-  private ai: any;
+  private ctx: ToolContext;
   private kv: any;
   private db: any;
 
-  constructor(ai: any, kv: any, db: any) {
-    this.ai = ai;
-    this.kv = kv;
-    this.db = db;
+  constructor(ctx: ToolContext) {
+    this.ctx = ctx;
+    this.kv = ctx.kv;
+    this.db = ctx.db;
   }
 
-  async execute(args: z.infer<typeof ImplementationActionSchema>) {
+  async execute(args: z.infer<typeof ImplementationActionSchema>, call: ToolCallContext = detachedCall) {
     const validArgs = ToolUtils.validateArgs(ImplementationActionSchema, args);
+    ToolUtils.throwIfAborted(call.signal);
     
     return PerformanceTracker.trackExecution(
       () => this.performAction(validArgs),
@@ -128,12 +166,24 @@ export class ImplementationBridge {
     // Security analysis
     const securityAnalysis = await this.analyzeCodeSecurity(codeModules, architecture);
 
+    // Large module sets go to R2; the result keeps their names and metrics
+    const moduleSet = JSON.stringify(codeModules, null, 2);
+    const moduleSetLink = this.ctx.artifacts.isLarge(moduleSet)
+      ? await this.ctx.artifacts.offload(moduleSet, {
+          name: `Code modules for ${args.concept.substring(0, 60)}`,
+          mimeType: "application/json",
+          description: `${codeModules.all_modules.length} generated modules`
+        })
+      : null;
+
     return {
       action: "code_generation",
       concept: args.concept,
       concept_analysis: conceptAnalysis,
       architecture: architecture,
-      code_modules: codeModules,
+      code_modules: moduleSetLink
+        ? { modules: codeModules.all_modules.map((m: any) => m.name), module_metrics: codeModules.module_metrics }
+        : codeModules,
       configuration_files: configFiles,
       build_scripts: buildScripts,
       test_files: testFiles,
@@ -143,7 +193,8 @@ export class ImplementationBridge {
       implementation_roadmap: this.createImplementationRoadmap(codeModules, args),
       estimated_effort: this.estimateImplementationEffort(codeModules, args),
       risk_assessment: this.assessImplementationRisks(codeModules, architecture),
-      timestamp: new Date().toISOString()
+      timestamp: new Date().toISOString(),
+      ...(moduleSetLink ? { resource_links: [moduleSetLink] } : {})
     };
   }
 
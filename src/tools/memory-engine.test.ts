@@ -0,0 +1,89 @@
+import { ToolContext, createConsoleLogger, systemClock } from "../agents/tool-context.js";
+import { FakeLlmProvider } from "../llm/fake.js";
+import { MemoryEngine } from "./memory-engine.js";
+
+// Answers the memory queries from rows; records the bindings of every write
+function fakeDb(rows: Record<string, unknown>[] = []) {
+  const writes: { sql: string; bindings: unknown[] }[] = [];
+  const db = {
+    writes,
+    prepare(sql: string) {
+      let bindings: unknown[] = [];
+      const statement = {
+        bind(...values: unknown[]) {
+          bindings = values;
+          return statement;
+        },
+        async run() {
+          writes.push({ sql, bindings });
+          return { success: true };
+        },
+        async all() {
+          if (sql.startsWith("PRAGMA")) return { results: [{ name: "embedding_model" }] };
+          return { results: sql.includes("embedding IS NOT NULL") ? rows : [] };
+        },
+        async first() {
+          return null;
+        }
+      };
+      return statement;
+    }
+  };
+  return db;
+}
+
+function engine(db: ReturnType<typeof fakeDb>, llm = new FakeLlmProvider()) {
+  const ctx = {
+    db,
+    kv: { get: async () => null, put: async () => {} },
+    llm: { resolve: () => llm },
+    logger: createConsoleLogger("test"),
+    clock: systemClock
+  } as unknown as ToolContext;
+  return new MemoryEngine(ctx);
+}
+
+const memory = (id: string, content: string, vector: number[], model: string | null) => ({
+  id,
+  content,
+  timestamp: "2026-01-01T00:00:00.000Z",
+  session_id: "default",
+  tags: "[]",
+  context: "{}",
+  embedding: JSON.stringify(vector),
+  embedding_model: model
+});
+
+describe("MemoryEngine embeddings", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {}); // Performance tracking
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("records the model each memory was embedded with", async () => {
+    const db = fakeDb();
+    const { result }: { result: any } = await engine(db).execute({ action: "store", content: "Teach kids about recycling" });
+
+    const insert = db.writes.find(write => write.sql.includes("INSERT"));
+    expect(insert.bindings[7]).toBe("fake/fake-embedding");
+    expect(result.embedding_model).toBe("fake/fake-embedding");
+  });
+
+  it("only compares memories embedded with the current model", async () => {
+    const [vector] = await new FakeLlmProvider().embed(["Teach kids about recycling"]);
+    const db = fakeDb([
+      memory("same", "Teach kids about recycling", vector, "fake/fake-embedding"),
+      memory("other", "Teach kids about recycling", vector, "openai/text-embedding-3-small"),
+      memory("legacy", "Teach kids about recycling", vector, null)
+    ]);
+
+    const { result }: { result: any } = await engine(db).execute({ action: "semantic_search", query: "Teach kids about recycling" });
+
+    expect(result.memories.map(found => found.id)).toEqual(["same"]);
+    expect(result.embedding_model).toBe("fake/fake-embedding");
+    expect(result.skipped_memories).toBe(2);
+  });
+});
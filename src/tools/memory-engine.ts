@@ -1,12 +1,13 @@
 import { z } from "zod";
-import { ToolUtils, PerformanceTracker } from "../agents/mcp.js";
+import { ToolUtils, PerformanceTracker, ToolMetadata, ResourceLinkSchema } from "../agents/mcp.js";
+import { ToolCallContext, ToolContext, detachedCall } from "../agents/tool-context.js";
 
 /**
  * 💾 Persistent Memory Engine
  * Enhanced memory with semantic search, embeddings, and intelligent storage
  */
 
-const MemoryActionSchema = z.object({
+export const MemoryActionSchema = z.object({
   action: z.enum([
     "store",
     "retrieve",
@@ -19,13 +20,13 @@ const MemoryActionSchema = z.object({
     "analyze_memory",
     "tag_memories",
     "get_related"
-  ]),
-  memory_id: z.string().optional(),
-  content: z.string().optional(),
-  tags: z.array(z.string()).optional(),
-  session_id: z.string().optional(),
-  query: z.string().optional(),
-  context: z.record(z.any()).optional(),
+  ]).describe("Memory action to perform"),
+  memory_id: z.string().optional().describe("Memory identifier"),
+  content: z.string().optional().describe("Content to store"),
+  tags: z.array(z.string()).optional().describe("Memory tags"),
+  session_id: z.string().optional().describe("Memory session identifier"),
+  query: z.string().optional().describe("Search query"),
+  context: z.record(z.any()).optional().describe("Additional context"),
   limit: z.number().max(100).optional(),
   similarity_threshold: z.number().min(0).max(1).optional(),
   include_embeddings: z.boolean().optional(),
@@ -34,22 +35,108 @@ const MemoryActionSchema = z.object({
     content: z.string(),
     tags: z.array(z.string()).optional(),
     context: z.record(z.any()).optional()
-  })).optional()
+  })).optional().describe("Memories to import with bulk_import")
 });
 
+const MemoryRecordSchema = z.object({
+  id: z.string(),
+  content: z.string(),
+  session_id: z.string(),
+  tags: z.array(z.string()),
+  context: z.record(z.any())
+});
+
+/**
+ * A vector and the model that produced it; only vectors of one model are compared
+ */
+interface Embedding {
+  vector: number[];
+  model: string; // provider/embedding model, or fallback/hash-<dimensions>
+}
+
+const EXPORT_MIME_TYPES: Record<string, string> = { json: "application/json", markdown: "text/markdown", text: "text/plain" };
+const EXPORT_EXTENSIONS: Record<string, string> = { json: "json", markdown: "md", text: "txt" };
+
+// Result of each action, advertised as its outputSchema
+const MemoryOutputs = {
+  store: z.object({
+    status: z.enum(["stored", "duplicate_detected"]),
+    memory_id: z.string().optional(),
+    session_id: z.string().optional(),
+    existing_id: z.string().optional()
+  }),
+  retrieve: z.object({ memory: MemoryRecordSchema }),
+  search: z.object({ query: z.string(), total_found: z.number(), memories: z.array(MemoryRecordSchema) }),
+  delete: z.object({ memory_id: z.string(), status: z.literal("deleted") }),
+  list_sessions: z.object({
+    total_sessions: z.number(),
+    sessions: z.array(z.object({ session_id: z.string(), memory_count: z.number() }))
+  }),
+  semantic_search: z.object({
+    query: z.string(),
+    similarity_threshold: z.number(),
+    embedding_model: z.string(),
+    skipped_memories: z.number(), // Embedded with another model, so not compared
+    total_found: z.number(),
+    memories: z.array(MemoryRecordSchema.extend({ similarity_score: z.number() }))
+  }),
+  bulk_import: z.object({
+    session_id: z.string(),
+    total_processed: z.number(),
+    successful: z.number(),
+    failed: z.number(),
+    results: z.array(z.object({ success: z.boolean() }))
+  }),
+  export_session: z.object({
+    session_id: z.string(),
+    format: z.enum(["json", "markdown", "text"]),
+    memory_count: z.number(),
+    data: z.string().optional(), // absent when the export was offloaded to an artifact
+    resource_links: z.array(ResourceLinkSchema)
+  }),
+  analyze_memory: z.object({ analysis: z.record(z.any()) }),
+  tag_memories: z.object({ memory_id: z.string(), tags_added: z.array(z.string()), all_tags: z.array(z.string()) }),
+  get_related: z.object({
+    source_memory_id: z.string(),
+    total_related: z.number(),
+    related_memories: z.array(MemoryRecordSchema.extend({ similarity_score: z.number() }))
+  })
+};
+
+export const MEMORY_ENGINE_METADATA: ToolMetadata = {
+  name: "zeo_memory_engine",
+  description: "💾 Persistent memory with semantic search - store, retrieve, and intelligently search knowledge with AI embeddings",
+  schema: MemoryActionSchema,
+  actionPrefix: "zeo_memory",
+  actions: {
+    store: { description: "Store a memory with tags and context", required: ["content"], fields: ["memory_id", "tags", "session_id", "context"], output: MemoryOutputs.store },
+    retrieve: { description: "Retrieve a memory by id", required: ["memory_id"], output: MemoryOutputs.retrieve },
+    search: { description: "Search memories by keyword", required: ["query"], fields: ["session_id", "limit"], output: MemoryOutputs.search },
+    delete: { description: "Delete a memory by id", required: ["memory_id"], output: MemoryOutputs.delete },
+    list_sessions: { description: "List memory sessions", output: MemoryOutputs.list_sessions },
+    semantic_search: { description: "Search memories by embedding similarity", required: ["query"], fields: ["session_id", "limit", "similarity_threshold"], output: MemoryOutputs.semantic_search },
+    bulk_import: { description: "Import several memories at once", required: ["memories"], fields: ["session_id", "include_embeddings"], output: MemoryOutputs.bulk_import },
+    export_session: { description: "Export every memory of a session (default: the MCP session's)", fields: ["session_id", "format"], output: MemoryOutputs.export_session },
+    analyze_memory: { description: "Analyze stored memories", fields: ["session_id"], output: MemoryOutputs.analyze_memory },
+    tag_memories: { description: "Replace the tags of a memory", required: ["memory_id", "tags"], output: MemoryOutputs.tag_memories },
+    get_related: { description: "Find memories related to a memory", required: ["memory_id"], fields: ["limit"], output: MemoryOutputs.get_related }
+  }
+};
+
 export class MemoryEngine {
+  private ctx: ToolContext;
   private db: any;
   private kv: any;
-  private ai: any;
 
-  constructor(db: any, kv: any, ai: any) {
-    this.db = db;
-    this.kv = kv;
-    this.ai = ai;
+  constructor(ctx: ToolContext) {
+    this.ctx = ctx;
+    this.db = ctx.db;
+    this.kv = ctx.kv;
   }
 
-  async execute(args: z.infer<typeof MemoryActionSchema>) {
+  async execute(args: z.infer<typeof MemoryActionSchema>, call: ToolCallContext = detachedCall) {
     const validArgs = ToolUtils.validateArgs(MemoryActionSchema, args);
+    ToolUtils.throwIfAborted(call.signal);
     
     return PerformanceTracker.trackExecution(
       () => this.performAction(validArgs),
@@ -119,11 +206,18 @@ export class MemoryEngine {
         tags TEXT DEFAULT '[]',
         context TEXT DEFAULT '{}',
         embedding TEXT,
+        embedding_model TEXT,
         content_hash TEXT,
         updated_at TEXT
       )
     `).run();
 
+    // Tables created before memories recorded their embedding model gain the column
+    const { results: columns } = await this.db.prepare("PRAGMA table_info(memories)").all();
+    if (!(columns || []).some((column: { name: string }) => column.name === "embedding_model")) {
+      await this.db.prepare("ALTER TABLE memories ADD COLUMN embedding_model TEXT").run();
+    }
+
     // Create session index
     await this.db.prepare(`
       CREATE INDEX IF NOT EXISTS idx_memories_session 
@@ -163,8 +257,8 @@ export class MemoryEngine {
     // Store memory
     await this.db.prepare(`
       INSERT OR REPLACE INTO memories 
-      (id, content, timestamp, session_id, tags, context, embedding, content_hash, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      (id, content, timestamp, session_id, tags, context, embedding, embedding_model, content_hash, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `).bind(
       memoryId,
       args.content,
@@ -172,7 +266,8 @@ export class MemoryEngine {
       sessionId,
       JSON.stringify(args.tags || []),
       JSON.stringify(args.context || {}),
-      JSON.stringify(embedding),
+      JSON.stringify(embedding.vector),
+      embedding.model,
       contentHash,
       timestamp
     ).run();
@@ -192,7 +287,8 @@ export class MemoryEngine {
       session_id: sessionId,
       timestamp,
       status: "stored",
-      embedding_dimensions: embedding.length,
+      embedding_dimensions: embedding.vector.length,
+      embedding_model: embedding.model,
       content_preview: args.content.substring(0, 100) + (args.content.length > 100 ? "..." : "")
     };
   }
@@ -264,13 +360,16 @@ export class MemoryEngine {
     `;
 
     const bindings = args.session_id ? [args.session_id] : [];
-    const allMemories = await this.db.prepare(query).bind(...bindings).all();
+    const { results: allMemories = [] } = await this.db.prepare(query).bind(...bindings).all();
+
+    // Vectors of different models live in different spaces; those memories are skipped
+    const comparable = allMemories.filter(memory => memory.embedding_model === queryEmbedding.model);
 
     // Calculate similarities
-    const memoriesWithSimilarity = allMemories
+    const memoriesWithSimilarity = comparable
       .map(memory => {
         const embedding = JSON.parse(memory.embedding);
-        const similarity = this.cosineSimilarity(queryEmbedding, embedding);
+        const similarity = this.cosineSimilarity(queryEmbedding.vector, embedding);
         
         return {
           ...memory,
@@ -286,6 +385,8 @@ export class MemoryEngine {
       action: "semantic_search",
       query: args.query,
       similarity_threshold: threshold,
+      embedding_model: queryEmbedding.model,
+      skipped_memories: allMemories.length - comparable.length,
       total_found: memoriesWithSimilarity.length,
       memories: memoriesWithSimilarity.map(item => ({
         ...item.formatted,
@@ -381,7 +482,7 @@ export class MemoryEngine {
   }
 
   private async exportSession(args: any) {
-    const memories = await this.db.prepare(
+    const { results: memories = [] } = await this.db.prepare(
       "SELECT * FROM memories WHERE session_id = ? ORDER BY timestamp ASC"
     ).bind(args.session_id).all();
 
@@ -404,13 +505,32 @@ export class MemoryEngine {
         formattedOutput = JSON.stringify(exportData, null, 2);
     }
 
+    // Large exports are returned as a link to R2 instead of inline
+    const artifact = this.ctx.artifacts.isLarge(formattedOutput)
+      ? await this.ctx.artifacts.offload(formattedOutput, {
+          name: `Memory export ${args.session_id}.${EXPORT_EXTENSIONS[format]}`,
+          mimeType: EXPORT_MIME_TYPES[format],
+          description: `${memories.length} memories of session ${args.session_id} as ${format}`
+        })
+      : null;
+
     return {
       action: "export_session",
       session_id: args.session_id,
       format,
       memory_count: memories.length,
       exported_at: new Date().toISOString(),
-      data: formattedOutput
+      ...(artifact ? {} : { data: formattedOutput }),
+      // The same memories stay readable as a resource without re-running the export
+      resource_links: [
+        ...(artifact ? [artifact] : []),
+        ToolUtils.resourceLink(
+          `session/${encodeURIComponent(args.session_id)}`,
+          `Memory session ${args.session_id}`,
+          "application/json",
+          `${memories.length} memories of session ${args.session_id}`
+        )
+      ]
     };
   }
 
@@ -549,7 +669,7 @@ export class MemoryEngine {
     return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
   }
 
-  private async generateEmbedding(text: string): Promise<number[]> {
+  private async generateEmbedding(text: string): Promise<Embedding> {
     try {
       // Clean and limit text
       const cleanText = text
@@ -558,18 +678,18 @@ export class MemoryEngine {
         .trim()
         .substring(0, 1500);
 
-      const response = await this.ai.run('@cf/baai/bge-base-en-v1.5', { 
-        text: [cleanText] 
-      });
+      // Tool-level provider only: a per-request model would mix embedding spaces
+      const provider = this.ctx.llm.resolve(MEMORY_ENGINE_METADATA.name);
+      const [vector] = await provider.embed([cleanText]);
       
-      return response?.data?.[0] || this.fallbackEmbedding(cleanText);
+      return vector ? { vector, model: `${provider.name}/${provider.embeddingModel}` } : this.fallbackEmbedding(cleanText);
     } catch (error) {
       console.error('Embedding generation failed:', error);
       return this.fallbackEmbedding(text);
     }
   }
 
-  private fallbackEmbedding(text: string, dimensions: number = 384): number[] {
+  private fallbackEmbedding(text: string, dimensions: number = 384): Embedding {
     const hash = this.simpleHash(text);
     const embedding = new Array(dimensions);
     
@@ -579,7 +699,7 @@ export class MemoryEngine {
     }
     
     const magnitude = Math.sqrt(embedding.reduce((sum, val) => sum + val * val, 0));
-    return embedding.map(val => val / magnitude);
+    return { vector: embedding.map(val => val / magnitude), model: `fallback/hash-${dimensions}` };
   }
 
   private simpleHash(str: string): number {
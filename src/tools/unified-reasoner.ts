@@ -1,13 +1,42 @@
 import { z } from "zod";
-import { ToolUtils, PerformanceTracker } from "../agents/mcp.js";
+import { ToolUtils, PerformanceTracker, ToolMetadata } from "../agents/mcp.js";
+import { ToolCallContext, ToolContext, detachedCall } from "../agents/tool-context.js";
+import { RequestLlmSelectionSchema } from "../llm/provider.js";
+import { debugArgument } from "../reasoning/argument.js";
+import { PassageCandidate, chunkText, groundConclusion, numberPassages, passageEvidence, rankChunks } from "../reasoning/grounding.js";
+import { ChainSample, DEFAULT_SAMPLES, clusterAnswers, sampleChain } from "../reasoning/consistency.js";
+import { StrategySelection, routeStrategy } from "../reasoning/router.js";
+import { StrategyResult, cosine } from "../reasoning/prompting.js";
+import { OUTPUT_FORMATS, renderResult } from "../reasoning/rendering.js";
+import {
+  REPLAYED_FIELDS,
+  SessionRecord,
+  diffSessions,
+  ensureSessionSchema,
+  getSession,
+  hashProblem,
+  listSessions,
+  saveSession,
+  sessionSteps
+} from "../reasoning/sessions.js";
+import { REASONING_STRATEGIES, runStrategy } from "../reasoning/strategies.js";
+import { MEMORY_ENGINE_METADATA, MemoryEngine } from "./memory-engine.js";
+import { WEB_INTELLIGENCE_METADATA, WebIntelligence } from "./web-intelligence.js";
 
 /**
  * 🧠 Unified Reasoner
  * Advanced AI reasoning with 7 strategies: step-by-step, creative, analytical, 
- * lateral, systematic, intuitive, and critical thinking
+ * lateral, systematic, intuitive, and critical thinking, plus tree-of-thought
+ * beam search and Monte Carlo tree search over reasoning steps.
+ * The strategies are LLM prompt pipelines, see reasoning/strategies.ts
  */
 
-const ReasoningActionSchema = z.object({
+const GROUNDING_MEMORIES = 8; // Memories retrieved as passages for grounded reasoning
+
+// Actions on recorded sessions, the only ones that take no problem
+const SESSION_ACTIONS: string[] = ["list_sessions", "get_session", "replay_session", "diff_sessions"];
+
+export const ReasoningActionSchema = z.object({
   action: z.enum([
     "reason",
     "multi_strategy",
@@ -18,96 +47,278 @@ const ReasoningActionSchema = z.object({
     "evaluate_solutions",
     "optimize_reasoning",
     "debug_logic",
-    "synthesize_insights"
-  ]),
-  problem: z.string(),
-  strategy: z.enum([
-    "step_by_step",
-    "creative", 
-    "analytical",
-    "lateral",
-    "systematic", 
-    "intuitive",
-    "critical",
-    "auto_select"
-  ]).optional(),
-  strategies: z.array(z.enum([
-    "step_by_step",
-    "creative", 
-    "analytical",
-    "lateral",
-    "systematic", 
-    "intuitive",
-    "critical"
-  ])).optional(),
-  context: z.string().optional(),
-  constraints: z.array(z.string()).optional(),
+    "synthesize_insights",
+    "self_consistency",
+    "list_sessions",
+    "get_session",
+    "replay_session",
+    "diff_sessions"
+  ]).describe("Reasoning action"),
+  problem: z.string().optional().describe("Problem to solve; list_sessions lists the sessions on this problem"),
+  strategy: z.enum([...REASONING_STRATEGIES, "auto_select"]).optional().describe("Reasoning strategy"),
+  strategies: z.array(z.enum(REASONING_STRATEGIES)).optional().describe("Strategies for multi_strategy and compare_strategies (default for compare_strategies: all)"),
+  context: z.string().optional().describe("Problem context"),
+  constraints: z.array(z.string()).optional().describe("Constraints"),
   goals: z.array(z.string()).optional(),
   evidence: z.array(z.string()).optional(),
   assumptions: z.array(z.string()).optional(),
   depth_level: z.enum(["surface", "moderate", "deep", "comprehensive"]).optional(),
   time_limit: z.number().max(300).optional(), // seconds
-  output_format: z.enum(["structured", "narrative", "bullet_points", "decision_tree"]).optional(),
-  include_confidence: z.boolean().optional(),
+  output_format: z.enum(OUTPUT_FORMATS).optional().describe("Also render the result as structured JSON, Markdown narrative, bullet points or a decision tree with expected values"),
+  include_confidence: z.boolean().optional().describe("Show confidence in the rendered output (default true)"),
   chain_steps: z.array(z.object({
     step: z.string(),
     strategy: z.string(),
     expected_output: z.string().optional()
   })).optional(),
-  previous_solutions: z.array(z.string()).optional(),
-  beam_width: z.number().min(1).max(10).optional(),
-  mcts_iterations: z.number().min(10).max(1000).optional()
+  previous_solutions: z.array(z.string()).optional().describe("Solutions to evaluate"),
+  beam_width: z.number().min(1).max(10).optional().describe("Nodes kept per depth by tree_of_thought (default 3)"),
+  mcts_iterations: z.number().min(10).max(1000).optional().describe("Iterations run by mcts (default 20), within time_limit"),
+  samples: z.number().int().min(2).max(20).optional().describe("Independent chains sampled by self_consistency (default 5)"),
+  grounded: z.boolean().optional().describe("reason: retrieve memory and web passages, cite them in every conclusion step and report unsupported claims"),
+  grounding_urls: z.array(z.string().url()).max(5).optional().describe("Web pages fetched as passages when grounded"),
+  session_id: z.string().optional().describe("Reasoning session id, as returned by reason and list_sessions"),
+  compare_session_id: z.string().optional().describe("Session diff_sessions compares session_id with"),
+  limit: z.number().min(1).max(100).optional().describe("Sessions per page for list_sessions (default 20)"),
+  offset: z.number().min(0).optional().describe("Sessions skipped by list_sessions"),
+  llm: RequestLlmSelectionSchema.optional().describe("LLM provider and model for the strategies")
+});
+
+const ArgumentGraphOutput = z.object({
+  nodes: z.array(z.object({ id: z.string(), kind: z.enum(["premise", "inference", "conclusion"]), text: z.string(), implicit: z.boolean() })),
+  edges: z.array(z.object({ id: z.string(), from: z.string(), to: z.string() }))
+});
+
+const SessionSummaryOutput = z.object({
+  id: z.string(),
+  problem: z.string(),
+  problem_hash: z.string(),
+  strategy: z.string(),
+  conclusion: z.string().nullable(),
+  confidence: z.number().nullable(),
+  quality_score: z.number().nullable(),
+  provider: z.string().nullable(),
+  model: z.string().nullable(),
+  replay_of: z.string().nullable(),
+  created_at: z.string()
+});
+
+const SessionDiffOutput = z.object({
+  same_problem: z.boolean(),
+  strategy: z.object({ from: z.string(), to: z.string(), changed: z.boolean() }),
+  model: z.object({ from: z.string(), to: z.string(), changed: z.boolean() }),
+  conclusion: z.object({ from: z.string(), to: z.string(), changed: z.boolean(), similarity: z.number().nullable() }),
+  confidence_delta: z.number(),
+  quality_delta: z.number(),
+  steps_added: z.array(z.string()),
+  steps_removed: z.array(z.string()),
+  steps_kept: z.number(),
+  elapsed_ms: z.number()
+});
+
+const GroundedStepOutput = z.object({
+  step_number: z.number(),
+  claim: z.string(),
+  citations: z.array(z.string()),
+  supported: z.boolean(),
+  reason: z.string().optional()
 });
 
+// Result of each action, advertised as its outputSchema
+const ReasoningOutputs = {
+  reason: z.object({
+    problem: z.string(),
+    strategy_used: z.string(),
+    strategy_selection: z.object({ // auto_select only
+      strategy: z.string(),
+      method: z.enum(["embeddings", "keywords"]),
+      rationale: z.string(),
+      runners_up: z.array(z.object({ strategy: z.string(), score: z.number() }))
+    }).optional(),
+    reasoning: z.record(z.any()),
+    grounding: z.object({ // grounded only
+      passages: z.array(z.object({ id: z.string(), source: z.enum(["memory", "web"]), ref: z.string(), text: z.string(), similarity: z.number().nullable() })),
+      steps: z.array(GroundedStepOutput),
+      unsupported_claims: z.array(GroundedStepOutput),
+      support_ratio: z.number(),
+      failed_sources: z.array(z.object({ source: z.string(), error: z.string() }))
+    }).optional(),
+    rendered: z.object({ // output_format only
+      format: z.enum(OUTPUT_FORMATS),
+      structured: z.record(z.any()).optional(),
+      markdown: z.string().optional(),
+      bullets: z.array(z.string()).optional(),
+      tree: z.object({
+        root: z.record(z.any()),
+        value_unit: z.string(),
+        best_option: z.string(),
+        probabilities_normalized: z.boolean()
+      }).optional(),
+      mermaid: z.string().optional()
+    }).optional(),
+    metadata: z.record(z.any()),
+    session_id: z.string().nullable() // null when the session could not be stored
+  }),
+  multi_strategy: z.object({
+    problem: z.string(),
+    strategies_used: z.array(z.string()),
+    individual_results: z.array(z.record(z.any())),
+    synthesis: z.object({
+      recommended_strategy: z.string().nullable(),
+      combined_confidence: z.number().nullable(),
+      synthesis: z.string()
+    }),
+    best_strategy: z.string().nullable(), // null, like combined_confidence, when every strategy failed
+    combined_confidence: z.number().nullable()
+  }),
+  compare_strategies: z.object({
+    problem: z.string(),
+    comparison_results: z.array(z.record(z.any())),
+    strategy_ranking: z.array(z.record(z.any())),
+    recommendation: z.record(z.any())
+  }),
+  chain_reasoning: z.object({
+    problem: z.string(),
+    chain_steps: z.number(),
+    chain_results: z.array(z.record(z.any())),
+    chain_success: z.boolean(),
+    accumulated_confidence: z.number()
+  }),
+  analyze_problem: z.object({ problem: z.string(), analysis: z.record(z.any()), analysis_confidence: z.number() }),
+  generate_solutions: z.object({
+    problem: z.string(),
+    all_solutions: z.number(),
+    top_solutions: z.array(z.any()),
+    diversity_score: z.number(),
+    innovation_index: z.number()
+  }),
+  evaluate_solutions: z.object({ problem: z.string(), solution_evaluations: z.array(z.any()) }),
+  optimize_reasoning: z.object({ problem: z.string(), performance_analysis: z.any(), optimization_recommendations: z.any() }),
+  debug_logic: z.object({
+    problem: z.string(),
+    argument_graph: ArgumentGraphOutput,
+    issues: z.array(z.object({ location: z.string(), kind: z.string(), name: z.string().optional(), explanation: z.string() })),
+    repaired_argument: z.object({
+      graph: ArgumentGraphOutput,
+      changes: z.array(z.object({ change: z.string(), addresses: z.array(z.string()) })),
+      remaining_weaknesses: z.array(z.string())
+    }).nullable(), // null when the repair failed
+    repair_error: z.string().optional(),
+    mermaid: z.object({ argument: z.string(), repaired: z.string().nullable() }),
+    logic_quality_score: z.number()
+  }),
+  synthesize_insights: z.object({ problem: z.string(), insight_sources: z.any(), synthesis: z.any() }),
+  self_consistency: z.object({
+    problem: z.string(),
+    samples_requested: z.number(),
+    samples_completed: z.number(),
+    majority_answer: z.string().nullable(), // null when every sample failed
+    agreement_ratio: z.number(),
+    majority_tied: z.boolean(),
+    clusters: z.array(z.object({
+      cluster_id: z.number(),
+      size: z.number(),
+      share: z.number(),
+      representative_answer: z.string(),
+      sample_ids: z.array(z.number())
+    })),
+    disagreement_clusters: z.array(z.record(z.any())),
+    clustering_method: z.enum(["embeddings", "llm"]).nullable(),
+    samples: z.array(z.record(z.any())),
+    failed_samples: z.array(z.object({ sample_id: z.number(), error: z.string() }))
+  }),
+  list_sessions: z.object({
+    sessions: z.array(SessionSummaryOutput),
+    problem_hash: z.string().nullable(),
+    limit: z.number(),
+    offset: z.number()
+  }),
+  get_session: z.object({ session: z.record(z.any()) }),
+  replay_session: z.object({
+    original_session_id: z.string(),
+    replay: z.record(z.any()),
+    diff: SessionDiffOutput
+  }),
+  diff_sessions: z.object({ from_session_id: z.string(), to_session_id: z.string(), diff: SessionDiffOutput })
+};
+
+export const UNIFIED_REASONER_METADATA: ToolMetadata = {
+  name: "zeo_unified_reasoner",
+  description: "🧠 Advanced AI reasoning with 7 strategies - step-by-step, creative, analytical, lateral, systematic, intuitive, critical thinking, plus tree-of-thought and MCTS search",
+  schema: ReasoningActionSchema,
+  actionPrefix: "zeo_reasoner",
+  actions: {
+    reason: { description: "Reason about a problem with one strategy", required: ["problem", "strategy"], fields: ["goals", "depth_level", "output_format", "include_confidence", "context", "constraints", "evidence", "time_limit", "beam_width", "mcts_iterations", "grounded", "grounding_urls", "llm"], output: ReasoningOutputs.reason },
+    multi_strategy: { description: "Reason about a problem with several strategies", required: ["problem", "strategies"], fields: ["context", "constraints", "time_limit", "beam_width", "mcts_iterations", "llm"], output: ReasoningOutputs.multi_strategy },
+    compare_strategies: { description: "Compare reasoning strategies on a problem", required: ["problem"], fields: ["strategies", "context", "constraints", "time_limit", "beam_width", "mcts_iterations", "llm"], output: ReasoningOutputs.compare_strategies },
+    chain_reasoning: { description: "Chain reasoning steps, each with its own strategy", required: ["problem", "chain_steps"], fields: ["context", "constraints", "time_limit", "llm"], output: ReasoningOutputs.chain_reasoning },
+    analyze_problem: { description: "Break a problem down into components, risks and approaches", required: ["problem"], fields: ["goals", "context", "constraints", "time_limit"], output: ReasoningOutputs.analyze_problem },
+    generate_solutions: { description: "Generate candidate solutions for a problem", required: ["problem"], fields: ["context", "constraints", "time_limit"], output: ReasoningOutputs.generate_solutions },
+    evaluate_solutions: { description: "Evaluate candidate solutions for a problem", required: ["problem", "previous_solutions"], fields: ["context", "constraints", "time_limit"], output: ReasoningOutputs.evaluate_solutions },
+    optimize_reasoning: { description: "Optimize reasoning from past sessions", required: ["problem"], fields: ["context", "constraints", "time_limit"], output: ReasoningOutputs.optimize_reasoning },
+    debug_logic: { description: "Map an argument into premises, inferences and conclusions, flag fallacies per inference and repair it", required: ["problem"], fields: ["evidence", "assumptions", "context", "constraints", "time_limit", "llm"], output: ReasoningOutputs.debug_logic },
+    synthesize_insights: { description: "Synthesize insights from past reasoning", required: ["problem"], fields: ["context", "constraints", "time_limit"], output: ReasoningOutputs.synthesize_insights },
+    self_consistency: { description: "Sample independent reasoning chains and return the majority answer with its agreement ratio", required: ["problem"], fields: ["samples", "context", "constraints", "evidence", "assumptions", "time_limit", "llm"], output: ReasoningOutputs.self_consistency },
+    list_sessions: { description: "List recorded reasoning sessions, newest first, optionally for one problem or strategy", fields: ["problem", "strategy", "limit", "offset"], output: ReasoningOutputs.list_sessions },
+    get_session: { description: "Get a recorded reasoning session with its inputs, steps and full result", required: ["session_id"], output: ReasoningOutputs.get_session },
+    replay_session: { description: "Re-run a recorded session with the current model and diff the new conclusion against it", required: ["session_id"], fields: ["output_format", "include_confidence", "time_limit", "llm"], output: ReasoningOutputs.replay_session },
+    diff_sessions: { description: "Compare the strategy, steps, conclusion and scores of two recorded sessions", required: ["session_id", "compare_session_id"], fields: ["llm"], output: ReasoningOutputs.diff_sessions }
+  }
+};
+
 export class UnifiedReasoner {
-  private ai: any;
+  private ctx: ToolContext;
   private kv: any;
   private db: any;
 
-  constructor(ai: any, kv: any, db: any) {
-    this.ai = ai;
-    this.kv = kv;
-    this.db = db;
+  constructor(ctx: ToolContext) {
+    this.ctx = ctx;
+    this.kv = ctx.kv;
+    this.db = ctx.db;
   }
 
-  async execute(args: z.infer<typeof ReasoningActionSchema>) {
+  async execute(args: z.infer<typeof ReasoningActionSchema>, call: ToolCallContext = detachedCall) {
     const validArgs = ToolUtils.validateArgs(ReasoningActionSchema, args);
     
     return PerformanceTracker.trackExecution(
-      () => this.performAction(validArgs),
+      () => this.performAction(validArgs, call),
       `reasoning_${validArgs.action}`
     );
   }
 
-  private async performAction(args: z.infer<typeof ReasoningActionSchema>) {
+  private async performAction(args: z.infer<typeof ReasoningActionSchema>, call: ToolCallContext) {
     const timeLimit = args.time_limit || 60;
     const startTime = Date.now();
 
+    if (!args.problem && !SESSION_ACTIONS.includes(args.action)) {
+      throw new Error(`problem is required for ${args.action}`);
+    }
+
     switch (args.action) {
       case "reason":
         if (!args.strategy) throw new Error("strategy is required for reason action");
-        return this.executeReasoning(args, timeLimit);
+        return this.executeReasoning(args, timeLimit, call);
       
       case "multi_strategy":
         if (!args.strategies || args.strategies.length === 0) {
           throw new Error("strategies array is required for multi_strategy action");
         }
-        return this.executeMultiStrategy(args, timeLimit);
+        return this.executeMultiStrategy(args, timeLimit, call);
       
       case "compare_strategies":
-        return this.compareStrategies(args, timeLimit);
+        return this.compareStrategies(args, timeLimit, call);
       
       case "chain_reasoning":
         if (!args.chain_steps || args.chain_steps.length === 0) {
           throw new Error("chain_steps array is required for chain_reasoning");
         }
-        return this.executeChainReasoning(args, timeLimit);
+        return this.executeChainReasoning(args, timeLimit, call.signal);
       
       case "analyze_problem":
         return this.analyzeProblem(args, timeLimit);
       
       case "generate_solutions":
-        return this.generateSolutions(args, timeLimit);
+        return this.generateSolutions(args, timeLimit, call.signal);
       
       case "evaluate_solutions":
         if (!args.previous_solutions) {
@@ -119,60 +330,211 @@ export class UnifiedReasoner {
         return this.optimizeReasoning(args, timeLimit);
       
       case "debug_logic":
-        return this.debugLogic(args, timeLimit);
+        return this.debugLogic(args, timeLimit, call.signal);
       
       case "synthesize_insights":
         return this.synthesizeInsights(args, timeLimit);
       
+      case "self_consistency":
+        return this.executeSelfConsistency(args, timeLimit, call);
+      
+      case "list_sessions":
+        return this.listReasoningSessions(args, call.owner);
+      
+      case "get_session":
+        if (!args.session_id) throw new Error("session_id is required for get_session");
+        return { action: "get_session", session: await this.loadSession(args.session_id, call.owner), timestamp: new Date().toISOString() };
+      
+      case "replay_session":
+        if (!args.session_id) throw new Error("session_id is required for replay_session");
+        return this.replaySession(args, timeLimit, call);
+      
+      case "diff_sessions":
+        if (!args.session_id || !args.compare_session_id) {
+          throw new Error("session_id and compare_session_id are required for diff_sessions");
+        }
+        return this.diffReasoningSessions(args, call);
+      
       default:
         throw new Error(`Unknown reasoning action: ${args.action}`);
     }
   }
 
-  private async executeReasoning(args: any, timeLimit: number) {
-    const strategy = args.strategy === "auto_select" 
-      ? await this.selectOptimalStrategy(args.problem, args.context)
-      : args.strategy;
+  private async executeReasoning(args: any, timeLimit: number, call: ToolCallContext) {
+    return (await this.runReasoning(args, timeLimit, call, null)).response;
+  }
 
-    const reasoningResult = await this.applyStrategy(strategy, args);
-    
-    // Store reasoning session for learning
-    await this.storeReasoningSession({
+  /**
+   * reason, and the session it records; replays pass the id of the session they re-run
+   */
+  private async runReasoning(args: any, timeLimit: number, call: ToolCallContext, replayOf: string | null) {
+    const { signal } = call;
+    const startTime = Date.now();
+    const selection = args.strategy === "auto_select"
+      ? await this.selectOptimalStrategy(args, call)
+      : null;
+    const strategy = selection?.strategy || args.strategy;
+
+    // Grounded runs see the retrieved passages as evidence, tagged with the ids they must cite
+    const retrieval = args.grounded ? await this.retrievePassages(args, call) : null;
+    const input = retrieval
+      ? { ...args, evidence: [...(args.evidence || []), ...passageEvidence(retrieval.passages)] }
+      : args;
+
+    const llm = this.ctx.llm.resolve(UNIFIED_REASONER_METADATA.name, args.llm);
+    const reasoningResult = await this.applyStrategy(strategy, input, timeLimit, signal);
+    const grounding = retrieval
+      ? await groundConclusion({ llm, signal }, input, retrieval.passages, reasoningResult)
+      : null;
+    const rendered = args.output_format
+      ? await renderResult(args.output_format, { llm, signal }, input, reasoningResult, {
+          includeConfidence: args.include_confidence !== false
+        })
+      : null;
+    const qualityScore = await this.assessReasoningQuality(reasoningResult);
+
+    // Recorded for history, replay and the strategy router
+    const session: SessionRecord = {
+      id: `reasoning_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       problem: args.problem,
+      problem_hash: await hashProblem(args.problem),
       strategy,
+      input: Object.fromEntries(REPLAYED_FIELDS.filter(field => args[field] !== undefined).map(field => [field, args[field]])),
+      steps: sessionSteps(reasoningResult),
+      conclusion: reasoningResult.conclusion,
+      confidence: reasoningResult.confidence,
+      quality_score: qualityScore,
+      provider: llm.name,
+      model: llm.model,
+      replay_of: replayOf,
       result: reasoningResult,
-      timestamp: new Date().toISOString(),
-      context: args.context,
-      constraints: args.constraints,
-      goals: args.goals
-    });
+      owner: call.owner,
+      created_at: this.ctx.clock.isoNow()
+    };
+    const stored = await this.storeReasoningSession(session);
 
-    return {
+    const response = {
       action: "reason",
       strategy_used: strategy,
+      ...(selection ? { strategy_selection: selection } : {}),
       problem: args.problem,
       reasoning: reasoningResult,
+      ...(grounding ? { grounding: { ...grounding, failed_sources: retrieval.failed_sources } } : {}),
+      ...(rendered ? { rendered } : {}),
       metadata: {
         depth_level: args.depth_level || "moderate",
         confidence_score: reasoningResult.confidence,
         execution_time: Date.now() - startTime,
-        reasoning_quality: await this.assessReasoningQuality(reasoningResult)
+        reasoning_quality: qualityScore
+      },
+      session_id: stored ? session.id : null,
+      timestamp: new Date().toISOString()
+    };
+
+    return { response, session };
+  }
+
+  private async listReasoningSessions(args: any, owner: string | null) {
+    const problemHash = args.problem ? await hashProblem(args.problem) : null;
+    const limit = args.limit || 20;
+    const offset = args.offset || 0;
+
+    await ensureSessionSchema(this.db);
+    // Sessions record the strategy auto_select picked, so auto_select filters nothing
+    const strategy = args.strategy === "auto_select" ? undefined : args.strategy;
+    const sessions = await listSessions(this.db, { owner, problem_hash: problemHash, strategy, limit, offset });
+
+    return {
+      action: "list_sessions",
+      sessions,
+      problem_hash: problemHash,
+      limit,
+      offset,
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Callers only see their own sessions; anyone else's read as not found
+   */
+  private async loadSession(sessionId: string, owner: string | null): Promise<SessionRecord> {
+    await ensureSessionSchema(this.db);
+    const session = await getSession(this.db, sessionId, owner);
+    if (!session) {
+      throw new Error(`Reasoning session not found: ${sessionId}`);
+    }
+    return session;
+  }
+
+  /**
+   * Re-runs the original problem, strategy and inputs; the model is the current
+   * configuration unless llm overrides it
+   */
+  private async replaySession(args: any, timeLimit: number, call: ToolCallContext) {
+    const original = await this.loadSession(args.session_id, call.owner);
+    const { response, session } = await this.runReasoning(
+      {
+        ...original.input,
+        problem: original.problem,
+        strategy: original.strategy,
+        output_format: args.output_format,
+        include_confidence: args.include_confidence,
+        llm: args.llm
       },
+      timeLimit,
+      call,
+      original.id
+    );
+
+    return {
+      action: "replay_session",
+      original_session_id: original.id,
+      replay: response,
+      diff: await this.diffSessionRecords(original, session, args.llm, call.signal),
       timestamp: new Date().toISOString()
     };
   }
 
-  private async executeMultiStrategy(args: any, timeLimit: number) {
+  private async diffReasoningSessions(args: any, call: ToolCallContext) {
+    const from = await this.loadSession(args.session_id, call.owner);
+    const to = await this.loadSession(args.compare_session_id, call.owner);
+
+    return {
+      action: "diff_sessions",
+      from_session_id: from.id,
+      to_session_id: to.id,
+      diff: await this.diffSessionRecords(from, to, args.llm, call.signal),
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  private async diffSessionRecords(from: SessionRecord, to: SessionRecord, llmSelection: any, signal: AbortSignal) {
+    let similarity: number | null = null;
+    try {
+      const llm = this.ctx.llm.resolve(UNIFIED_REASONER_METADATA.name, llmSelection);
+      const [a, b] = await llm.embed([from.conclusion || "", to.conclusion || ""], { signal });
+      similarity = Math.round(cosine(a, b) * 1000) / 1000;
+    } catch (error) {
+      ToolUtils.throwIfAborted(signal);
+      // Providers without embeddings still get the textual diff
+    }
+    return diffSessions(from, to, similarity);
+  }
+
+  private async executeMultiStrategy(args: any, timeLimit: number, call: ToolCallContext) {
     const results = [];
     const timePerStrategy = timeLimit / args.strategies.length;
 
     for (const strategy of args.strategies) {
+      ToolUtils.throwIfAborted(call.signal);
+
       try {
         const strategyArgs = { ...args, strategy };
         const result = await ToolUtils.withTimeout(
-          this.applyStrategy(strategy, strategyArgs),
+          this.applyStrategy(strategy, strategyArgs, timePerStrategy, call.signal),
           timePerStrategy * 1000,
-          `Strategy ${strategy} timed out`
+          `Strategy ${strategy} timed out`,
+          call.signal
         );
         
         results.push({
@@ -187,6 +549,7 @@ export class UnifiedReasoner {
           success: false
         });
       }
+      await call.progress.report(results.length, args.strategies.length, `Strategy ${strategy} done`);
     }
 
     // Synthesize results from multiple strategies
@@ -204,20 +567,68 @@ export class UnifiedReasoner {
     };
   }
 
-  private async compareStrategies(args: any, timeLimit: number) {
-    const allStrategies = [
-      "step_by_step", "creative", "analytical", "lateral", 
-      "systematic", "intuitive", "critical"
-    ];
+  private async executeSelfConsistency(args: any, timeLimit: number, call: ToolCallContext) {
+    const sampleCount = args.samples || DEFAULT_SAMPLES;
+    const timePerSample = timeLimit / sampleCount;
+    const llm = this.ctx.llm.resolve(UNIFIED_REASONER_METADATA.name, args.llm);
+    const samples: ChainSample[] = [];
+    const failures = [];
+
+    for (let sampleId = 1; sampleId <= sampleCount; sampleId++) {
+      ToolUtils.throwIfAborted(call.signal);
+
+      try {
+        samples.push(await ToolUtils.withTimeout(
+          sampleChain({ llm, signal: call.signal }, args, sampleId),
+          timePerSample * 1000,
+          `Sample ${sampleId} timed out`,
+          call.signal
+        ));
+      } catch (error) {
+        ToolUtils.throwIfAborted(call.signal);
+        failures.push({ sample_id: sampleId, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+      await call.progress.report(sampleId, sampleCount, `Sample ${sampleId} done`);
+    }
+
+    const clustering = samples.length > 0 ? await clusterAnswers(llm, samples, call.signal) : null;
+    const clusters = clustering?.clusters || [];
+    const [majority, ...disagreements] = clusters;
+    const clusterOf = new Map(clusters.flatMap(cluster => cluster.sample_ids.map(id => [id, cluster.cluster_id] as const)));
+
+    return {
+      action: "self_consistency",
+      problem: args.problem,
+      samples_requested: sampleCount,
+      samples_completed: samples.length,
+      majority_answer: majority?.representative_answer ?? null,
+      // Failed samples count against agreement: they are votes that never arrived
+      agreement_ratio: majority ? majority.size / sampleCount : 0,
+      majority_tied: disagreements.some(cluster => cluster.size === majority.size),
+      clusters,
+      disagreement_clusters: disagreements,
+      clustering_method: clustering?.method ?? null,
+      samples: samples.map(sample => ({ ...sample, cluster_id: clusterOf.get(sample.sample_id) })),
+      failed_samples: failures,
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  private async compareStrategies(args: any, timeLimit: number, call: ToolCallContext) {
+    const allStrategies: readonly string[] = args.strategies?.length ? args.strategies : REASONING_STRATEGIES;
     
     const comparisonResults = [];
     const timePerStrategy = timeLimit / allStrategies.length;
 
     for (const strategy of allStrategies) {
+      ToolUtils.throwIfAborted(call.signal);
+
       try {
         const result = await ToolUtils.withTimeout(
-          this.applyStrategy(strategy, { ...args, strategy }),
-          timePerStrategy * 1000
+          this.applyStrategy(strategy, { ...args, strategy }, timePerStrategy, call.signal),
+          timePerStrategy * 1000,
+          `Strategy ${strategy} timed out`,
+          call.signal
         );
         
         comparisonResults.push({
@@ -238,6 +649,7 @@ export class UnifiedReasoner {
           success: false
         });
       }
+      await call.progress.report(comparisonResults.length, allStrategies.length, `Strategy ${strategy} compared`);
     }
 
     // Rank strategies by overall performance
@@ -260,7 +672,7 @@ export class UnifiedReasoner {
         weaknesses: this.getStrategyWeaknesses(r.strategy)
       })),
       recommendation: {
-        best_strategy: rankedStrategies[0]?.strategy,
+        best_strategy: rankedStrategies[0]?.strategy ?? null,
         rationale: this.generateStrategyRecommendation(rankedStrategies[0], args.problem),
         alternative_strategies: rankedStrategies.slice(1, 3).map(r => r.strategy)
       },
@@ -268,13 +680,14 @@ export class UnifiedReasoner {
     };
   }
 
-  private async executeChainReasoning(args: any, timeLimit: number) {
+  private async executeChainReasoning(args: any, timeLimit: number, signal: AbortSignal) {
     const chainResults = [];
     let currentContext = args.context || "";
     let accumulatedEvidence = args.evidence || [];
     const timePerStep = timeLimit / args.chain_steps.length;
 
     for (let i = 0; i < args.chain_steps.length; i++) {
+      ToolUtils.throwIfAborted(signal);
       const step = args.chain_steps[i];
       
       try {
@@ -287,8 +700,10 @@ export class UnifiedReasoner {
         };
 
         const stepResult = await ToolUtils.withTimeout(
-          this.applyStrategy(step.strategy, stepArgs),
-          timePerStep * 1000
+          this.applyStrategy(step.strategy, stepArgs, timePerStep, signal),
+          timePerStep * 1000,
+          `Chain step ${i + 1} timed out`,
+          signal
         );
 
         chainResults.push({
@@ -360,16 +775,20 @@ export class UnifiedReasoner {
     };
   }
 
-  private async generateSolutions(args: any, timeLimit: number) {
+  private async generateSolutions(args: any, timeLimit: number, signal: AbortSignal) {
     const strategies = ["creative", "analytical", "lateral", "systematic"];
     const solutions = [];
     const timePerStrategy = timeLimit / strategies.length;
 
     for (const strategy of strategies) {
+      ToolUtils.throwIfAborted(signal);
+
       try {
         const solutionResult = await ToolUtils.withTimeout(
           this.generateSolutionWithStrategy(strategy, args),
-          timePerStrategy * 1000
+          timePerStrategy * 1000,
+          `Strategy ${strategy} timed out`,
+          signal
         );
         
         solutions.push({
@@ -479,35 +898,19 @@ export class UnifiedReasoner {
     };
   }
 
-  private async debugLogic(args: any, timeLimit: number) {
-    // Analyze the logical structure of the problem and reasoning
-    const logicalAnalysis = {
-      premise_analysis: await this.analyzePremises(args.problem, args.evidence),
-      logical_structure: await this.mapLogicalStructure(args.problem),
-      fallacy_detection: await this.detectLogicalFallacies(args.problem, args.evidence),
-      assumption_testing: await this.testAssumptions(args.assumptions || []),
-      consistency_check: await this.checkConsistency(args.problem, args.evidence),
-      soundness_assessment: await this.assessSoundness(args.problem, args.evidence),
-      validity_verification: await this.verifyValidity(args.problem),
-      counterargument_analysis: await this.generateCounterarguments(args.problem)
-    };
-
-    // Identify and suggest fixes for logical issues
-    const debuggingResults = {
-      issues_found: this.identifyLogicalIssues(logicalAnalysis),
-      severity_assessment: this.assessIssueSeverity(logicalAnalysis),
-      fix_suggestions: await this.suggestLogicalFixes(logicalAnalysis),
-      strengthening_recommendations: await this.suggestStrengthening(logicalAnalysis),
-      alternative_formulations: await this.suggestAlternativeFormulations(args.problem)
-    };
+  private async debugLogic(args: any, timeLimit: number, signal: AbortSignal) {
+    const llm = this.ctx.llm.resolve(UNIFIED_REASONER_METADATA.name, args.llm);
+    const debugging = await ToolUtils.withTimeout(
+      debugArgument({ llm, signal }, args),
+      timeLimit * 1000,
+      "Logic debugging timed out",
+      signal
+    );
 
     return {
       action: "debug_logic",
       problem: args.problem,
-      logical_analysis: logicalAnalysis,
-      debugging_results: debuggingResults,
-      logic_quality_score: this.calculateLogicQualityScore(logicalAnalysis),
-      improvement_roadmap: this.createLogicImprovementRoadmap(debuggingResults),
+      ...debugging,
       timestamp: new Date().toISOString()
     };
   }
@@ -547,261 +950,84 @@ export class UnifiedReasoner {
   }
 
   // Strategy Implementation Methods
-  private async applyStrategy(strategy: string, args: any) {
-    const strategies: Record<string, Function> = {
-      step_by_step: this.stepByStepReasoning.bind(this),
-      creative: this.creativeReasoning.bind(this),
-      analytical: this.analyticalReasoning.bind(this),
-      lateral: this.lateralReasoning.bind(this),
-      systematic: this.systematicReasoning.bind(this),
-      intuitive: this.intuitiveReasoning.bind(this),
-      critical: this.criticalReasoning.bind(this)
-    };
-
-    const strategyFunction = strategies[strategy];
-    if (!strategyFunction) {
-      throw new Error(`Unknown reasoning strategy: ${strategy}`);
-    }
-
-    return await strategyFunction(args);
+  private async applyStrategy(strategy: string, args: any, timeLimit: number, signal?: AbortSignal): Promise<StrategyResult> {
+    const llm = this.ctx.llm.resolve(UNIFIED_REASONER_METADATA.name, args.llm);
+    const deadline = this.ctx.clock.now() + timeLimit * 1000;
+    return runStrategy(strategy, { llm, signal, deadline, clock: this.ctx.clock }, args);
   }
 
-  private async stepByStepReasoning(args: any) {
-    const steps = [];
-    let currentProblem = args.problem;
-    let evidence = args.evidence || [];
-    let confidence = 0.8;
-
-    // Break down the problem into logical steps
-    const problemSteps = await this.decomposeProblem(currentProblem);
-    
-    for (let i = 0; i < problemSteps.length; i++) {
-      const step = problemSteps[i];
-      const stepResult = await this.processStep(step, evidence, args.constraints);
-      
-      steps.push({
-        step_number: i + 1,
-        description: step,
-        reasoning: stepResult.reasoning,
-        conclusion: stepResult.conclusion,
-        evidence_used: stepResult.evidence_used,
-        confidence: stepResult.confidence
-      });
-
-      evidence.push(stepResult.conclusion);
-      confidence = (confidence + stepResult.confidence) / 2;
-    }
-
-    const finalConclusion = await this.synthesizeSteps(steps, args.problem);
-
-    return {
-      strategy: "step_by_step",
-      steps,
-      conclusion: finalConclusion,
-      confidence,
-      evidence: evidence,
-      reasoning_path: steps.map(s => s.conclusion).join(" → "),
-      logical_validity: await this.validateLogicalChain(steps)
-    };
-  }
-
-  private async creativeReasoning(args: any) {
-    // Generate creative solutions using divergent thinking
-    const creativeTechniques = [
-      "brainstorming",
-      "lateral_thinking", 
-      "analogical_reasoning",
-      "perspective_shifting",
-      "constraint_removal",
-      "random_stimulation",
-      "metaphorical_thinking"
-    ];
-
-    const creativeResults = [];
-    
-    for (const technique of creativeTechniques) {
-      const result = await this.applyCreativeTechnique(technique, args.problem, args.context);
-      creativeResults.push({
-        technique,
-        ideas: result.ideas,
-        novelty_score: result.novelty_score,
-        feasibility_score: result.feasibility_score
-      });
-    }
-
-    // Combine and refine creative ideas
-    const combinedIdeas = await this.combineCreativeIdeas(creativeResults);
-    const refinedSolutions = await this.refineCreativeSolutions(combinedIdeas, args.constraints);
-
-    return {
-      strategy: "creative",
-      creative_techniques: creativeResults,
-      combined_ideas: combinedIdeas,
-      refined_solutions: refinedSolutions,
-      conclusion: refinedSolutions[0]?.solution || "No viable creative solution found",
-      confidence: 0.7,
-      innovation_index: this.calculateInnovationIndex(refinedSolutions),
-      originality_score: this.calculateOriginalityScore(refinedSolutions)
-    };
-  }
-
-  private async analyticalReasoning(args: any) {
-    // Systematic analytical breakdown
-    const analysis = {
-      problem_decomposition: await this.analyticalDecomposition(args.problem),
-      data_analysis: await this.analyzeAvailableData(args.evidence, args.context),
-      causal_analysis: await this.analyzeCausalRelationships(args.problem, args.evidence),
-      quantitative_analysis: await this.performQuantitativeAnalysis(args.problem, args.evidence),
-      statistical_insights: await this.extractStatisticalInsights(args.evidence),
-      logical_structure: await this.analyzeLogicalStructure(args.problem),
-      decision_tree: await this.constructDecisionTree(args.problem, args.constraints),
-      risk_analysis: await this.performRiskAnalysis(args.problem, args.evidence)
+  /**
+   * Memories close to the problem, plus the most relevant chunks of each grounding URL.
+   * A source that fails, or whose tool the caller has no scope for, is reported and
+   * skipped; grounding goes ahead with the rest. Each search and fetch is charged to
+   * its own tool's rate limits.
+   */
+  private async retrievePassages(args: any, call: ToolCallContext) {
+    const llm = this.ctx.llm.resolve(UNIFIED_REASONER_METADATA.name, args.llm);
+    const candidates: PassageCandidate[] = [];
+    const failedSources: { source: string; error: string }[] = [];
+    const failed = (source: string, error: unknown) => {
+      ToolUtils.throwIfAborted(call.signal);
+      failedSources.push({ source, error: error instanceof Error ? error.message : 'Unknown error' });
     };
-
-    const analyticalConclusion = await this.synthesizeAnalyticalResults(analysis, args.problem);
-
-    return {
-      strategy: "analytical",
-      analysis,
-      conclusion: analyticalConclusion.conclusion,
-      confidence: analyticalConclusion.confidence,
-      supporting_evidence: analyticalConclusion.evidence,
-      analytical_rigor: this.assessAnalyticalRigor(analysis),
-      data_quality: this.assessDataQuality(args.evidence)
-    };
-  }
-
-  private async lateralReasoning(args: any) {
-    // Edward de Bono's lateral thinking approach
-    const lateralTechniques = {
-      alternative_concepts: await this.generateAlternativeConcepts(args.problem),
-      provocative_operations: await this.applyProvocativeOperations(args.problem),
-      random_entry: await this.useRandomEntry(args.problem),
-      concept_extraction: await this.extractAndModifyConcepts(args.problem),
-      reversal_method: await this.applyReversalMethod(args.problem),
-      wishful_thinking: await this.applyWishfulThinking(args.problem)
-    };
-
-    const lateralInsights = await this.synthesizeLateralInsights(lateralTechniques);
-    const practicalApplications = await this.makeLateralInsightsPractical(lateralInsights, args.constraints);
-
-    return {
-      strategy: "lateral",
-      lateral_techniques: lateralTechniques,
-      insights: lateralInsights,
-      practical_applications: practicalApplications,
-      conclusion: practicalApplications[0]?.application || "No practical lateral solution found",
-      confidence: 0.65,
-      breakthrough_potential: this.assessBreakthroughPotential(lateralInsights),
-      unconventional_score: this.calculateUnconventionalScore(lateralInsights)
-    };
-  }
-
-  private async systematicReasoning(args: any) {
-    // Comprehensive systematic approach
-    const systematicFramework = {
-      problem_categorization: await this.categorizeSystematically(args.problem),
-      structured_analysis: await this.performStructuredAnalysis(args.problem, args.evidence),
-      framework_application: await this.applyReasoningFrameworks(args.problem),
-      process_mapping: await this.mapProblemProcesses(args.problem),
-      systems_thinking: await this.applySystemsThinking(args.problem, args.context),
-      root_cause_analysis: await this.performRootCauseAnalysis(args.problem, args.evidence),
-      solution_space_mapping: await this.mapSolutionSpace(args.problem, args.constraints)
-    };
-
-    const systematicSolution = await this.deriveSystematicSolution(systematicFramework, args.problem);
-
-    return {
-      strategy: "systematic",
-      framework: systematicFramework,
-      solution: systematicSolution,
-      conclusion: systematicSolution.conclusion,
-      confidence: systematicSolution.confidence,
-      completeness_score: this.assessCompletenessScore(systematicFramework),
-      methodology_rigor: this.assessMethodologyRigor(systematicFramework)
-    };
-  }
-
-  private async intuitiveReasoning(args: any) {
-    // Pattern recognition and intuitive leaps
-    const intuitiveProcesses = {
-      pattern_recognition: await this.recognizePatterns(args.problem, args.context),
-      analogical_matching: await this.findAnalogies(args.problem),
-      gestalt_perception: await this.applyGestaltPrinciples(args.problem),
-      tacit_knowledge: await this.accessTacitKnowledge(args.problem),
-      intuitive_leaps: await this.generateIntuitiveLeaps(args.problem),
-      emotional_intelligence: await this.applyEmotionalIntelligence(args.problem, args.context),
-      subconscious_processing: await this.simulateSubconsciousProcessing(args.problem)
+    const admitted = async (source: string, tool: string, toolArgs: { action: string; [field: string]: unknown }) => {
+      if (await call.admit(tool, toolArgs)) return true;
+      failedSources.push({ source, error: `Forbidden: API key lacks scope ${tool}:${toolArgs.action}` });
+      return false;
     };
 
-    const intuitiveInsights = await this.synthesizeIntuitiveInsights(intuitiveProcesses);
-    const validatedIntuitions = await this.validateIntuitions(intuitiveInsights, args.evidence);
-
-    return {
-      strategy: "intuitive",
-      intuitive_processes: intuitiveProcesses,
-      insights: intuitiveInsights,
-      validated_intuitions: validatedIntuitions,
-      conclusion: validatedIntuitions[0]?.insight || "No validated intuitive insight found",
-      confidence: 0.6,
-      pattern_strength: this.assessPatternStrength(intuitiveProcesses.pattern_recognition),
-      intuition_quality: this.assessIntuitionQuality(validatedIntuitions)
-    };
-  }
+    const search = { action: "semantic_search" as const, query: args.problem, limit: GROUNDING_MEMORIES };
+    if (await admitted("memory", MEMORY_ENGINE_METADATA.name, search)) {
+      try {
+        const { result }: { result: any } = await new MemoryEngine(this.ctx).execute(search, call);
+        candidates.push(...result.memories.map(memory => ({
+          source: "memory" as const,
+          ref: memory.id,
+          text: memory.content,
+          similarity: memory.similarity_score
+        })));
+      } catch (error) {
+        failed("memory", error);
+      }
+    }
 
-  private async criticalReasoning(args: any) {
-    // Rigorous critical evaluation
-    const criticalAnalysis = {
-      assumption_challenge: await this.challengeAssumptions(args.problem, args.assumptions),
-      evidence_evaluation: await this.evaluateEvidenceQuality(args.evidence),
-      logical_fallacy_detection: await this.detectFallacies(args.problem, args.evidence),
-      bias_identification: await this.identifyBiases(args.problem, args.context),
-      counterargument_generation: await this.generateCounterarguments(args.problem),
-      alternative_interpretations: await this.generateAlternativeInterpretations(args.evidence),
-      skeptical_inquiry: await this.applySkepticalInquiry(args.problem),
-      meta_cognitive_reflection: await this.performMetaCognitiveReflection(args.problem)
-    };
+    for (const url of args.grounding_urls || []) {
+      const extract = { action: "extract" as const, url, extract_type: "text" as const };
+      if (!(await admitted(url, WEB_INTELLIGENCE_METADATA.name, extract))) continue;
 
-    const criticalConclusions = await this.deriveCriticalConclusions(criticalAnalysis, args.problem);
-    const strengthenedArgument = await this.strengthenArgument(criticalConclusions, criticalAnalysis);
+      try {
+        const { result }: { result: any } = await new WebIntelligence(this.ctx).execute(extract, call);
+        const chunks = await rankChunks(llm, args.problem, chunkText(result.extracted.content), call.signal);
+        candidates.push(...chunks.map(chunk => ({ source: "web" as const, ref: url, ...chunk })));
+      } catch (error) {
+        failed(url, error);
+      }
+    }
 
-    return {
-      strategy: "critical",
-      critical_analysis: criticalAnalysis,
-      conclusions: criticalConclusions,
-      strengthened_argument: strengthenedArgument,
-      conclusion: strengthenedArgument.conclusion,
-      confidence: strengthenedArgument.confidence,
-      critical_rigor: this.assessCriticalRigor(criticalAnalysis),
-      argument_strength: this.assessArgumentStrength(strengthenedArgument)
-    };
+    return { passages: numberPassages(candidates), failed_sources: failedSources };
   }
 
   // Helper and Analysis Methods (simplified for space)
-  private async selectOptimalStrategy(problem: string, context?: string): Promise<string> {
-    // Simple strategy selection logic (would be more sophisticated in production)
-    if (problem.includes("creative") || problem.includes("innovative")) return "creative";
-    if (problem.includes("analyze") || problem.includes("data")) return "analytical";
-    if (problem.includes("step") || problem.includes("process")) return "step_by_step";
-    if (problem.includes("critical") || problem.includes("evaluate")) return "critical";
-    if (problem.includes("system") || problem.includes("complex")) return "systematic";
-    if (problem.includes("pattern") || problem.includes("intuition")) return "intuitive";
-    if (problem.includes("unusual") || problem.includes("different")) return "lateral";
-    
-    return "analytical"; // Default
+  private async selectOptimalStrategy(args: any, call: ToolCallContext): Promise<StrategySelection> {
+    const llm = this.ctx.llm.resolve(UNIFIED_REASONER_METADATA.name, args.llm);
+    return routeStrategy(args.problem, args.context, {
+      llm,
+      kv: this.kv,
+      db: this.db,
+      owner: call.owner,
+      logger: this.ctx.logger,
+      signal: call.signal
+    });
   }
 
-  private async storeReasoningSession(session: any) {
-    const sessionId = `reasoning_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    
+  private async storeReasoningSession(session: SessionRecord): Promise<boolean> {
     try {
-      await this.kv.put(
-        `reasoning_session:${sessionId}`,
-        JSON.stringify(session),
-        { expirationTtl: 86400 * 30 } // 30 days
-      );
+      await ensureSessionSchema(this.db);
+      await saveSession(this.db, session);
+      return true;
     } catch (error) {
-      console.warn('Failed to store reasoning session:', error);
+      this.ctx.logger.warn('Failed to store reasoning session:', error);
+      return false;
     }
   }
 
@@ -816,35 +1042,6 @@ export class UnifiedReasoner {
     return Math.min(1.0, score);
   }
 
-  // Placeholder implementations for complex methods (would be fully implemented in production)
-  private async decomposeProblem(problem: string): Promise<string[]> {
-    // Simplified decomposition
-    return [
-      `Understand the core issue: ${problem}`,
-      `Identify key variables and constraints`,
-      `Analyze relationships between components`,
-      `Formulate potential solutions`,
-      `Evaluate and select best approach`
-    ];
-  }
-
-  private async processStep(step: string, evidence: string[], constraints?: string[]): Promise<any> {
-    return {
-      reasoning: `Processing step: ${step}`,
-      conclusion: `Conclusion for: ${step}`,
-      evidence_used: evidence.slice(0, 2),
-      confidence: 0.7 + Math.random() * 0.2
-    };
-  }
-
-  private async synthesizeSteps(steps: any[], problem: string): Promise<string> {
-    return `Based on ${steps.length} reasoning steps, the conclusion for "${problem}" is derived from systematic analysis.`;
-  }
-
-  private async validateLogicalChain(steps: any[]): Promise<boolean> {
-    return steps.every(step => step.confidence > 0.5);
-  }
-
   // Additional placeholder methods (would be fully implemented)
   private async classifyProblem(problem: string): Promise<any> { return { type: "analytical", complexity: "moderate" }; }
   private async assessComplexity(problem: string): Promise<any> { return { level: "moderate", factors: ["multiple variables"] }; }
@@ -856,51 +1053,22 @@ export class UnifiedReasoner {
   private async identifyRisks(problem: string): Promise<string[]> { return ["risk1", "risk2"]; }
   private async findSimilarProblems(problem: string): Promise<string[]> { return ["similar problem 1", "similar problem 2"]; }
   private async recommendApproaches(problem: string): Promise<string[]> { return ["approach1", "approach2"]; }
-  private async deriveSystematicSolution(framework: any, problem: string): Promise<any> {
-    return {
-      conclusion: `Derived systematic solution for ${problem}`,
-      confidence: 0.8,
-      framework_steps: Object.keys(framework)
-    };
-  }
   private calculateAnalysisConfidence(analysis: any): number { return 0.75; }
   private suggestNextSteps(analysis: any): string[] { return ["next step 1", "next step 2"]; }
   
-  // More placeholder implementations...
-  private async applyCreativeTechnique(technique: string, problem: string, context?: string): Promise<any> {
-    return {
-      ideas: [`Creative idea 1 from ${technique}`, `Creative idea 2 from ${technique}`],
-      novelty_score: Math.random(),
-      feasibility_score: Math.random()
-    };
-  }
-
-  private async combineCreativeIdeas(results: any[]): Promise<any[]> {
-    return results.flatMap(r => r.ideas).slice(0, 10);
-  }
-
-  private async refineCreativeSolutions(ideas: any[], constraints?: string[]): Promise<any[]> {
-    return ideas.map((idea, index) => ({
-      solution: idea,
-      refinement_score: Math.random(),
-      constraint_compliance: constraints ? constraints.length * 0.2 : 0.8
-    }));
-  }
-
   private calculateInnovationIndex(solutions: any[]): number {
     return solutions.reduce((acc, sol) => acc + (sol.novelty_score || 0.5), 0) / solutions.length;
   }
 
-  private calculateOriginalityScore(solutions: any[]): number {
-    return Math.random() * 0.5 + 0.5; // Simplified
-  }
-
   // Continue with other placeholder implementations as needed...
   private async synthesizeMultipleResults(results: any[], problem: string): Promise<any> {
     const successfulResults = results.filter(r => r.success);
     return {
-      recommended_strategy: successfulResults[0]?.strategy || "analytical",
-      combined_confidence: successfulResults.reduce((acc, r) => acc + (r.result.confidence || 0.5), 0) / successfulResults.length,
+      // null rather than a strategy that failed, or the NaN mean of an empty list, when every strategy failed
+      recommended_strategy: successfulResults[0]?.strategy ?? null,
+      combined_confidence: successfulResults.length
+        ? successfulResults.reduce((acc, r) => acc + (r.result.confidence || 0.5), 0) / successfulResults.length
+        : null,
       synthesis: `Combined insights from ${successfulResults.length} strategies for problem: ${problem}`
     };
   }
@@ -932,7 +1100,10 @@ export class UnifiedReasoner {
   }
 
   private generateStrategyRecommendation(topStrategy: any, problem: string): string {
-    return `${topStrategy?.strategy} is recommended for this problem due to its high performance in quality, applicability, and efficiency metrics.`;
+    if (!topStrategy) {
+      return "No strategy succeeded for this problem";
+    }
+    return `${topStrategy.strategy} is recommended for this problem due to its high performance in quality, applicability, and efficiency metrics.`;
   }
 
   private async assessStrategyApplicability(strategy: string, problem: string): Promise<number> {
@@ -1,12 +1,14 @@
 import { z } from "zod";
-import { ToolUtils, PerformanceTracker } from "../agents/mcp.js";
+import { ToolUtils, PerformanceTracker, ToolMetadata, ResourceLinkSchema } from "../agents/mcp.js";
+import { ToolCallContext, ToolContext, detachedCall } from "../agents/tool-context.js";
+import { LlmSelection, RequestLlmSelectionSchema } from "../llm/provider.js";
 
 /**
  * 🌐 Web Intelligence
  * Smart web scraping with content analysis and AI processing
  */
 
-const WebActionSchema = z.object({
+export const WebActionSchema = z.object({
   action: z.enum([
     "fetch",
     "analyze", 
@@ -17,82 +19,153 @@ const WebActionSchema = z.object({
     "get_metadata",
     "check_status",
     "compare_pages"
-  ]),
-  url: z.string().url(),
-  analysis_depth: z.enum(["basic", "comprehensive"]).optional(),
-  extract_type: z.enum(["text", "links", "images", "structured", "code", "tables"]).optional(),
-  selectors: z.array(z.string()).optional(),
+  ]).describe("Web intelligence action"),
+  url: z.string().url().describe("URL to analyze"),
+  analysis_depth: z.enum(["basic", "comprehensive"]).optional().describe("Analysis depth"),
+  extract_type: z.enum(["text", "links", "images", "structured", "code", "tables"]).optional().describe("Extraction type"),
+  selectors: z.array(z.string()).optional().describe("CSS selectors"),
   follow_links: z.boolean().optional(),
   max_depth: z.number().max(3).optional(),
   include_metadata: z.boolean().optional(),
-  compare_url: z.string().url().optional(),
-  timeout_ms: z.number().max(30000).optional()
+  compare_url: z.string().url().optional().describe("Second URL for compare_pages"),
+  timeout_ms: z.number().max(30000).optional(),
+  llm: RequestLlmSelectionSchema.optional().describe("LLM provider and model for AI analysis")
 });
 
+const CONTENT_PREVIEW_CHARS = 10000;
+
+// What the model returns for a comprehensive analyze
+const PageInsightsSchema = z.object({
+  content_quality: z.string().describe("Quality and readability assessment"),
+  main_topics: z.array(z.string()),
+  target_audience: z.string(),
+  structure_score: z.number().min(0).max(100),
+  key_takeaways: z.array(z.string())
+});
+
+// Result of each action, advertised as its outputSchema.
+// analyze, get_metadata and check_status report non-HTML or unreachable pages in `error`
+const WebOutputs = {
+  fetch: z.object({
+    url: z.string(),
+    status: z.number(),
+    content_type: z.string(),
+    content_length: z.number(),
+    content: z.string(),
+    content_truncated: z.boolean(),
+    is_html: z.boolean(),
+    is_json: z.boolean(),
+    resource_links: z.array(ResourceLinkSchema).optional() // the full body, when truncated
+  }),
+  analyze: z.object({ url: z.string(), status: z.number().optional(), analysis: z.record(z.any()).optional(), error: z.string().optional() }),
+  extract: z.object({ url: z.string(), extract_type: z.string(), extracted: z.any() }),
+  monitor: z.object({ url: z.string(), current_hash: z.string(), has_changed: z.boolean(), status_changed: z.boolean() }),
+  search: z.object({ url: z.string(), content_analysis: z.record(z.number()), searchable_content: z.string() }),
+  scrape_links: z.object({
+    start_url: z.string(),
+    max_depth: z.number(),
+    total_pages: z.number(),
+    unique_domains: z.array(z.string()),
+    results: z.array(z.record(z.any()))
+  }),
+  get_metadata: z.object({ url: z.string(), metadata: z.record(z.any()).optional(), error: z.string().optional() }),
+  check_status: z.object({
+    url: z.string(),
+    is_accessible: z.boolean(),
+    status: z.number().optional(),
+    response_time_ms: z.number().optional(),
+    error: z.string().optional()
+  }),
+  compare_pages: z.object({
+    comparison: z.object({
+      urls: z.object({ primary: z.string(), comparison: z.string() }),
+      similarity: z.number()
+    })
+  })
+};
+
+export const WEB_INTELLIGENCE_METADATA: ToolMetadata = {
+  name: "zeo_web_intelligence",
+  description: "🌐 Smart web scraping with AI processing - fetch, analyze, and extract insights from web content with AI",
+  schema: WebActionSchema,
+  actionPrefix: "zeo_web",
+  actions: {
+    fetch: { description: "Fetch a web page", required: ["url"], fields: ["timeout_ms"], output: WebOutputs.fetch },
+    analyze: { description: "Analyze a web page with AI", required: ["url"], fields: ["analysis_depth", "timeout_ms", "llm"], output: WebOutputs.analyze },
+    extract: { description: "Extract content from a web page", required: ["url"], fields: ["extract_type", "selectors", "timeout_ms"], output: WebOutputs.extract },
+    monitor: { description: "Snapshot a web page for change monitoring", required: ["url"], fields: ["timeout_ms"], output: WebOutputs.monitor },
+    search: { description: "Search within a web page", required: ["url"], fields: ["timeout_ms"], output: WebOutputs.search },
+    scrape_links: { description: "Scrape the links of a web page", required: ["url"], fields: ["max_depth", "timeout_ms"], output: WebOutputs.scrape_links },
+    get_metadata: { description: "Get the metadata of a web page", required: ["url"], fields: ["timeout_ms"], output: WebOutputs.get_metadata },
+    check_status: { description: "Check the HTTP status of a web page", required: ["url"], fields: ["timeout_ms"], output: WebOutputs.check_status },
+    compare_pages: { description: "Compare two web pages", required: ["url", "compare_url"], fields: ["timeout_ms"], output: WebOutputs.compare_pages }
+  }
+};
+
 export class WebIntelligence {
-  private ai: any;
+  private ctx: ToolContext;
   private kv: KVNamespace;
   private db: D1Database;
 
-  constructor(ai: any, kv: KVNamespace, db: D1Database) {
-    this.ai = ai;
-    this.kv = kv;
-    this.db = db;
+  constructor(ctx: ToolContext) {
+    this.ctx = ctx;
+    this.kv = ctx.kv;
+    this.db = ctx.db;
   }
 
-  async execute(args: z.infer<typeof WebActionSchema>) {
+  async execute(args: z.infer<typeof WebActionSchema>, call: ToolCallContext = detachedCall) {
     const validArgs = ToolUtils.validateArgs(WebActionSchema, args);
     
     return PerformanceTracker.trackExecution(
-      () => this.performAction(validArgs),
+      () => this.performAction(validArgs, call),
       `web_${validArgs.action}`
     );
   }
 
-  private async performAction(args: z.infer<typeof WebActionSchema>) {
+  private async performAction(args: z.infer<typeof WebActionSchema>, call: ToolCallContext) {
     const timeout = args.timeout_ms || 10000;
+    const { signal } = call;
 
     switch (args.action) {
       case "fetch":
-        return this.fetchPage(args.url, timeout);
+        return this.fetchPage(args.url, timeout, signal, true);
       
       case "analyze":
-        return this.analyzePage(args.url, args.analysis_depth || "basic", timeout);
+        return this.analyzePage(args.url, args.analysis_depth || "basic", timeout, signal, args.llm);
       
       case "extract":
-        return this.extractContent(args.url, args.extract_type || "text", args.selectors, timeout);
+        return this.extractContent(args.url, args.extract_type || "text", args.selectors, timeout, signal);
       
       case "monitor":
-        return this.monitorPage(args.url, timeout);
+        return this.monitorPage(args.url, timeout, signal);
       
       case "search":
-        return this.searchInPage(args.url, timeout);
+        return this.searchInPage(args.url, timeout, signal);
       
       case "scrape_links":
-        return this.scrapeLinks(args.url, args.max_depth || 1, timeout);
+        return this.scrapeLinks(args.url, args.max_depth || 1, timeout, call);
       
       case "get_metadata":
-        return this.getMetadata(args.url, timeout);
+        return this.getMetadata(args.url, timeout, signal);
       
       case "check_status":
-        return this.checkStatus(args.url, timeout);
+        return this.checkStatus(args.url, timeout, signal);
       
       case "compare_pages":
         if (!args.compare_url) throw new Error("compare_url is required for compare_pages");
-        return this.comparePages(args.url, args.compare_url, timeout);
+        return this.comparePages(args.url, args.compare_url, timeout, signal);
       
       default:
         throw new Error(`Unknown web action: ${args.action}`);
     }
   }
 
-  private async fetchPage(url: string, timeout: number) {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
+  private async fetchPage(url: string, timeout: number, signal?: AbortSignal, offloadBody = false) {
+    const request = ToolUtils.timeoutSignal(timeout, signal);
 
     try {
       const response = await fetch(url, {
-        signal: controller.signal,
+        signal: request.signal,
         headers: {
           'User-Agent': 'ZEO-WebIntelligence/2.1.0 (AI Content Analyzer)',
           'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
@@ -102,11 +175,20 @@ export class WebIntelligence {
         }
       });
 
-      clearTimeout(timeoutId);
+      request.clear();
 
       const content = await response.text();
       const contentType = response.headers.get('content-type') || '';
 
+      // The fetch action stores bodies longer than the preview in R2 and links to them
+      const body = offloadBody && content.length > CONTENT_PREVIEW_CHARS
+        ? await this.ctx.artifacts.offload(content, {
+            name: `Body of ${url}`,
+            mimeType: contentType || 'text/plain',
+            description: `${content.length} characters fetched from ${url}`
+          })
+        : null;
+
       return {
         action: "fetch",
         url,
@@ -114,15 +196,18 @@ export class WebIntelligence {
         status_text: response.statusText,
         content_type: contentType,
         content_length: content.length,
-        content: content.substring(0, 10000), // Limit content size
+        content: content.substring(0, CONTENT_PREVIEW_CHARS), // Limit content size
+        content_truncated: content.length > CONTENT_PREVIEW_CHARS,
         headers: Object.fromEntries(response.headers.entries()),
         is_html: contentType.includes('text/html'),
         is_json: contentType.includes('application/json'),
-        fetch_time: new Date().toISOString()
+        fetch_time: new Date().toISOString(),
+        ...(body ? { resource_links: [body] } : {})
       };
     } catch (error) {
-      clearTimeout(timeoutId);
+      request.clear();
       
+      ToolUtils.throwIfAborted(signal);
       if (error instanceof Error && error.name === 'AbortError') {
         throw new Error(`Request timeout after ${timeout}ms`);
       }
@@ -131,8 +216,8 @@ export class WebIntelligence {
     }
   }
 
-  private async analyzePage(url: string, depth: string, timeout: number) {
-    const fetchResult = await this.fetchPage(url, timeout);
+  private async analyzePage(url: string, depth: string, timeout: number, signal?: AbortSignal, llm?: LlmSelection) {
+    const fetchResult = await this.fetchPage(url, timeout, signal);
     
     if (!fetchResult.is_html) {
       return {
@@ -149,9 +234,9 @@ export class WebIntelligence {
     };
 
     // AI-powered content analysis
-    if (this.ai && depth === "comprehensive") {
+    if (depth === "comprehensive") {
       try {
-        const aiAnalysis = await this.aiContentAnalysis(fetchResult.content, url);
+        const aiAnalysis = await this.aiContentAnalysis(fetchResult.content, url, llm, signal);
         analysis.ai_insights = aiAnalysis;
       } catch (error) {
         console.warn('AI analysis failed:', error);
@@ -168,8 +253,8 @@ export class WebIntelligence {
     };
   }
 
-  private async extractContent(url: string, extractType: string, selectors?: string[], timeout: number = 10000) {
-    const fetchResult = await this.fetchPage(url, timeout);
+  private async extractContent(url: string, extractType: string, selectors?: string[], timeout: number = 10000, signal?: AbortSignal) {
+    const fetchResult = await this.fetchPage(url, timeout, signal);
 
     if (!fetchResult.is_html) {
       throw new Error("Content extraction only works with HTML pages");
@@ -214,14 +299,14 @@ export class WebIntelligence {
     };
   }
 
-  private async monitorPage(url: string, timeout: number) {
+  private async monitorPage(url: string, timeout: number, signal?: AbortSignal) {
     const cacheKey = `web_monitor:${Buffer.from(url).toString('base64')}`;
     
     // Get previous snapshot
     const previousData = await this.kv.get(cacheKey, 'json');
     
     // Get current snapshot
-    const currentResult = await this.fetchPage(url, timeout);
+    const currentResult = await this.fetchPage(url, timeout, signal);
     const currentHash = await this.hashContent(currentResult.content);
     
     const changes = {
@@ -257,8 +342,8 @@ export class WebIntelligence {
     };
   }
 
-  private async searchInPage(url: string, timeout: number) {
-    const fetchResult = await this.fetchPage(url, timeout);
+  private async searchInPage(url: string, timeout: number, signal?: AbortSignal) {
+    const fetchResult = await this.fetchPage(url, timeout, signal);
     const textContent = this.extractText(fetchResult.content);
 
     return {
@@ -276,11 +361,11 @@ export class WebIntelligence {
     };
   }
 
-  private async scrapeLinks(url: string, maxDepth: number, timeout: number) {
+  private async scrapeLinks(url: string, maxDepth: number, timeout: number, call: ToolCallContext) {
     const visited = new Set<string>();
     const results = [];
 
-    await this.scrapeLinksRecursive(url, maxDepth, 0, visited, results, timeout);
+    await this.scrapeLinksRecursive(url, maxDepth, 0, visited, results, timeout, call);
 
     return {
       action: "scrape_links",
@@ -293,8 +378,8 @@ export class WebIntelligence {
     };
   }
 
-  private async getMetadata(url: string, timeout: number) {
-    const fetchResult = await this.fetchPage(url, timeout);
+  private async getMetadata(url: string, timeout: number, signal?: AbortSignal) {
+    const fetchResult = await this.fetchPage(url, timeout, signal);
 
     if (!fetchResult.is_html) {
       return {
@@ -315,21 +400,20 @@ export class WebIntelligence {
     };
   }
 
-  private async checkStatus(url: string, timeout: number) {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
+  private async checkStatus(url: string, timeout: number, signal?: AbortSignal) {
+    const request = ToolUtils.timeoutSignal(timeout, signal);
 
     try {
       const start = Date.now();
       const response = await fetch(url, {
         method: 'HEAD',
-        signal: controller.signal,
+        signal: request.signal,
         headers: {
           'User-Agent': 'ZEO-WebIntelligence/2.1.0 (Status Checker)'
         }
       });
 
-      clearTimeout(timeoutId);
+      request.clear();
       const duration = Date.now() - start;
 
       return {
@@ -343,7 +427,8 @@ export class WebIntelligence {
         checked_at: new Date().toISOString()
       };
     } catch (error) {
-      clearTimeout(timeoutId);
+      request.clear();
+      ToolUtils.throwIfAborted(signal);
       
       return {
         action: "check_status",
@@ -355,10 +440,10 @@ export class WebIntelligence {
     }
   }
 
-  private async comparePages(url1: string, url2: string, timeout: number) {
+  private async comparePages(url1: string, url2: string, timeout: number, signal?: AbortSignal) {
     const [page1, page2] = await Promise.all([
-      this.fetchPage(url1, timeout),
-      this.fetchPage(url2, timeout)
+      this.fetchPage(url1, timeout, signal),
+      this.fetchPage(url2, timeout, signal)
     ]);
 
     const [content1, content2] = await Promise.all([
@@ -423,7 +508,7 @@ export class WebIntelligence {
     };
   }
 
-  private async aiContentAnalysis(content: string, url: string) {
+  private async aiContentAnalysis(content: string, url: string, llm?: LlmSelection, signal?: AbortSignal) {
     try {
       const textContent = this.extractText(content);
       const prompt = `Analyze this web page content and provide insights:
@@ -437,15 +522,10 @@ Provide analysis on:
 4. Content structure
 5. Key takeaways`;
 
-      // This would use the AI model to analyze content
-      // Implementation depends on the specific AI service
-      return {
-        content_quality: "analysis_placeholder",
-        main_topics: ["topic1", "topic2"],
-        target_audience: "general",
-        structure_score: 85,
-        key_takeaways: ["takeaway1", "takeaway2"]
-      };
+      const provider = this.ctx.llm.resolve(WEB_INTELLIGENCE_METADATA.name, llm);
+      const insights = await provider.json([{ role: "user", content: prompt }], PageInsightsSchema, { signal, temperature: 0.2 });
+
+      return { ...insights, provider: provider.name, model: provider.model };
     } catch (error) {
       throw new Error(`AI analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -619,16 +699,17 @@ Provide analysis on:
     currentDepth: number, 
     visited: Set<string>, 
     results: any[], 
-    timeout: number
+    timeout: number,
+    call: ToolCallContext
   ) {
-    if (currentDepth >= maxDepth || visited.has(url)) {
+    if (currentDepth >= maxDepth || visited.has(url) || call.signal.aborted) {
       return;
     }
 
     visited.add(url);
 
     try {
-      const fetchResult = await this.fetchPage(url, timeout);
+      const fetchResult = await this.fetchPage(url, timeout, call.signal);
       
       results.push({
         url,
@@ -638,6 +719,9 @@ Provide analysis on:
         content_length: fetchResult.content_length
       });
 
+      // The crawl size is not known upfront, so no total
+      await call.progress.report(results.length, undefined, `Crawled ${url}`);
+
       if (currentDepth < maxDepth - 1 && fetchResult.is_html) {
         const links = this.extractLinks(fetchResult.content, url);
         const internalLinks = links.filter(link => 
@@ -651,7 +735,8 @@ Provide analysis on:
             currentDepth + 1, 
             visited, 
             results, 
-            timeout
+            timeout,
+            call
           );
         }
       }
@@ -1,12 +1,13 @@
 import { z } from "zod";
-import { ToolUtils, PerformanceTracker } from "../agents/mcp.js";
+import { ToolUtils, PerformanceTracker, ToolMetadata } from "../agents/mcp.js";
+import { ToolCallContext, ToolContext, detachedCall } from "../agents/tool-context.js";
 
 /**
  * 🎭 Workflow Orchestrator
  * Advanced workflow automation, process management, and intelligent task coordination
  */
 
-const WorkflowActionSchema = z.object({
+export const WorkflowActionSchema = z.object({
   action: z.enum([
     "create_workflow",
     "execute_workflow", 
@@ -18,7 +19,7 @@ const WorkflowActionSchema = z.object({
     "bottleneck_detection",
     "automation_opportunities",
     "workflow_templates"
-  ]),
+  ]).describe("Workflow action"),
   workflow_definition: z.object({
     name: z.string(),
     description: z.string().optional(),
@@ -46,7 +47,7 @@ const WorkflowActionSchema = z.object({
     })),
     variables: z.record(z.any()).optional(),
     permissions: z.array(z.string()).optional()
-  }).optional(),
+  }).optional().describe("Workflow definition"),
   execution_context: z.object({
     workflow_id: z.string().optional(),
     execution_id: z.string().optional(),
@@ -57,7 +58,7 @@ const WorkflowActionSchema = z.object({
       permissions: z.array(z.string())
     }).optional(),
     environment: z.enum(["development", "staging", "production"]).optional()
-  }).optional(),
+  }).optional().describe("Execution context"),
   scheduling_config: z.object({
     schedule_type: z.enum(["once", "recurring", "cron", "event_driven"]),
     schedule_expression: z.string().optional(),
@@ -65,7 +66,7 @@ const WorkflowActionSchema = z.object({
     start_date: z.string().optional(),
     end_date: z.string().optional(),
     max_instances: z.number().optional()
-  }).optional(),
+  }).optional().describe("Scheduling configuration"),
   monitoring_config: z.object({
     metrics: z.array(z.string()).optional(),
     alerts: z.array(z.object({
@@ -84,32 +85,62 @@ const WorkflowActionSchema = z.object({
   }).optional()
 });
 
+// Result of each implemented action, advertised as its outputSchema
+const WorkflowOutputs = {
+  create_workflow: z.object({ workflow_id: z.string(), workflow_definition: z.record(z.any()), validation_results: z.any(), execution_plan: z.any() }),
+  execute_workflow: z.object({ workflow_id: z.string(), execution_id: z.string(), execution_results: z.any(), execution_report: z.any() }),
+  schedule_workflow: z.object({ workflow_id: z.string(), schedule_id: z.string(), schedule_definition: z.any(), next_execution_time: z.any() }),
+  monitor_workflows: z.object({ active_workflows: z.number(), workflow_metrics: z.any(), health_score: z.any(), alerts: z.any() }),
+  optimize_workflow: z.object({ workflow_id: z.string(), optimization_goals: z.array(z.string()), optimization_strategies: z.any() }),
+  workflow_analysis: z.object({ workflow_id: z.string(), complexity_analysis: z.any(), recommendations: z.any() }),
+  process_mining: z.object({ execution_logs_analyzed: z.number(), process_variants: z.any(), improvement_opportunities: z.any() })
+};
+
+export const WORKFLOW_ORCHESTRATOR_METADATA: ToolMetadata = {
+  name: "zeo_workflow_orchestrator",
+  description: "🎭 Advanced workflow automation - create workflows, process mining, bottleneck detection, automation opportunities",
+  schema: WorkflowActionSchema,
+  actionPrefix: "zeo_workflow",
+  actions: {
+    create_workflow: { description: "Create a workflow from a definition", required: ["workflow_definition"], output: WorkflowOutputs.create_workflow },
+    execute_workflow: { description: "Execute a stored workflow", required: ["execution_context"], output: WorkflowOutputs.execute_workflow },
+    schedule_workflow: { description: "Schedule a stored workflow", required: ["execution_context", "scheduling_config"], output: WorkflowOutputs.schedule_workflow },
+    monitor_workflows: { description: "Monitor recent workflow executions", fields: ["analysis_period", "monitoring_config"], output: WorkflowOutputs.monitor_workflows },
+    optimize_workflow: { description: "Optimize a stored workflow", required: ["execution_context"], fields: ["optimization_goals"], output: WorkflowOutputs.optimize_workflow },
+    workflow_analysis: { description: "Analyze a workflow over a period", fields: ["execution_context", "analysis_period"], output: WorkflowOutputs.workflow_analysis },
+    process_mining: { description: "Mine processes from execution logs", fields: ["analysis_period"], output: WorkflowOutputs.process_mining },
+    bottleneck_detection: { description: "Detect workflow bottlenecks", fields: ["execution_context", "analysis_period"] },
+    automation_opportunities: { description: "Identify automation opportunities", fields: ["execution_context", "analysis_period"] },
+    workflow_templates: { description: "Generate workflow templates", fields: ["workflow_definition"] }
+  }
+};
+
 export class WorkflowOrchestrator {
-  private ai: any;
+  private ctx: ToolContext;
   private kv: any;
   private db: any;
 
-  constructor(ai: any, kv: any, db: any) {
-    this.ai = ai;
-    this.kv = kv;
-    this.db = db;
+  constructor(ctx: ToolContext) {
+    this.ctx = ctx;
+    this.kv = ctx.kv;
+    this.db = ctx.db;
   }
 
-  async execute(args: z.infer<typeof WorkflowActionSchema>) {
+  async execute(args: z.infer<typeof WorkflowActionSchema>, call: ToolCallContext = detachedCall) {
     const validArgs = ToolUtils.validateArgs(WorkflowActionSchema, args);
     
     return PerformanceTracker.trackExecution(
-      () => this.performAction(validArgs),
+      () => this.performAction(validArgs, call),
       `workflow_${validArgs.action}`
     );
   }
 
-  private async performAction(args: z.infer<typeof WorkflowActionSchema>) {
+  private async performAction(args: z.infer<typeof WorkflowActionSchema>, call: ToolCallContext) {
     switch (args.action) {
       case "create_workflow":
         return this.createWorkflow(args);
       case "execute_workflow":
-        return this.executeWorkflow(args);
+        return this.executeWorkflow(args, call);
       case "schedule_workflow":
         return this.scheduleWorkflow(args);
       case "monitor_workflows":
@@ -191,7 +222,7 @@ export class WorkflowOrchestrator {
     };
   }
 
-  private async executeWorkflow(args: any) {
+  private async executeWorkflow(args: any, call: ToolCallContext) {
     if (!args.execution_context?.workflow_id) {
       throw new Error("workflow_id is required in execution_context for execute_workflow action");
     }
@@ -216,7 +247,8 @@ export class WorkflowOrchestrator {
     const executionResults = await this.executeWorkflowSteps(
       workflowData.definition,
       executionState,
-      executionContext
+      executionContext,
+      call
     );
     
     // Generate execution report
@@ -586,7 +618,8 @@ export class WorkflowOrchestrator {
   private async executeWorkflowSteps(
     workflowDefinition: any,
     executionState: any,
-    executionContext: any
+    executionContext: any,
+    call: ToolCallContext
   ): Promise<any> {
     const results = {
       completed_steps: [] as any[],
@@ -603,7 +636,13 @@ export class WorkflowOrchestrator {
       // Execute steps based on dependency order
       const executionOrder = this.calculateExecutionOrder(workflowDefinition.steps);
       
-      for (const stepId of executionOrder) {
+      for (const [index, stepId] of executionOrder.entries()) {
+        // Cancellation stops before the next step; finished steps stay recorded
+        if (call.signal.aborted) {
+          results.status = "cancelled";
+          break;
+        }
+
         const step = workflowDefinition.steps.find((s: any) => s.id === stepId);
         if (!step) continue;
 
@@ -664,6 +703,9 @@ export class WorkflowOrchestrator {
             results.status = "failed";
             break;
           }
+        } finally {
+          // Skipped and failed steps count towards progress too
+          await call.progress.report(index + 1, executionOrder.length, `Step ${step.name || stepId}`);
         }
       }
 
@@ -0,0 +1,134 @@
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { ErrorCode, JSONRPCMessage, JSONRPCMessageSchema } from "@modelcontextprotocol/sdk/types.js";
+import { CORS_HEADERS, jsonResponse, jsonRpcError } from "./streamable-http.js";
+
+/**
+ * 📨 SSE Transport
+ * Cloudflare Workers adapter for the legacy MCP HTTP+SSE transport.
+ * GET opens the event stream and announces a session-bound POST endpoint;
+ * messages posted there are routed to the session's Server and answered over the stream.
+ */
+
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+export class WorkerSSETransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage, extra?: { authInfo?: AuthInfo }) => void;
+  readonly sessionId: string;
+
+  private writer?: WritableStreamDefaultWriter<Uint8Array>;
+  private encoder = new TextEncoder();
+  private heartbeat?: ReturnType<typeof setInterval>;
+  private closed = false;
+
+  constructor(private messageEndpoint: string, sessionId?: string) {
+    this.sessionId = sessionId || crypto.randomUUID();
+  }
+
+  /**
+   * Opens the event stream and emits the `endpoint` event clients must POST to
+   */
+  stream(): Response {
+    if (this.writer) {
+      throw new Error(`SSE stream already open for session ${this.sessionId}`);
+    }
+
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    this.writer = writable.getWriter();
+
+    const separator = this.messageEndpoint.includes("?") ? "&" : "?";
+    this.writeEvent("endpoint", `${this.messageEndpoint}${separator}sessionId=${encodeURIComponent(this.sessionId)}`);
+
+    // Comment lines keep intermediaries from timing out idle connections
+    this.heartbeat = setInterval(() => {
+      this.write(": keepalive\n\n");
+    }, HEARTBEAT_INTERVAL_MS);
+
+    return new Response(readable, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        "Connection": "keep-alive",
+        ...CORS_HEADERS
+      }
+    });
+  }
+
+  async start(): Promise<void> {
+    // The stream is opened by stream(); nothing else to set up
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (this.closed) {
+      throw new Error(`SSE session ${this.sessionId} is closed`);
+    }
+    await this.writeEvent("message", JSON.stringify(message));
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+
+    if (this.heartbeat) clearInterval(this.heartbeat);
+
+    try {
+      await this.writer?.close();
+    } catch (error) {
+      // Stream already torn down by the client
+    }
+
+    this.onclose?.();
+  }
+
+  /**
+   * Accepts a JSON-RPC message (or batch) posted to the session endpoint.
+   * Responses are delivered asynchronously over the event stream.
+   */
+  async handlePostMessage(request: Request, authInfo?: AuthInfo): Promise<Response> {
+    if (this.closed) {
+      return jsonResponse(jsonRpcError(null, ErrorCode.ConnectionClosed, "SSE session closed"), 410);
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch (error) {
+      return jsonResponse(jsonRpcError(null, ErrorCode.ParseError, "Parse error"), 400);
+    }
+
+    const rawMessages: unknown[] = Array.isArray(body) ? body : [body];
+    const messages: JSONRPCMessage[] = [];
+
+    for (const raw of rawMessages) {
+      const parsed = JSONRPCMessageSchema.safeParse(raw);
+      if (!parsed.success) {
+        return jsonResponse(jsonRpcError(null, ErrorCode.InvalidRequest, "Invalid Request", parsed.error.issues), 400);
+      }
+      messages.push(parsed.data);
+    }
+
+    for (const message of messages) {
+      this.onmessage?.(message, { authInfo });
+    }
+
+    return new Response("Accepted", { status: 202, headers: CORS_HEADERS });
+  }
+
+  private async writeEvent(event: string, data: string) {
+    await this.write(`event: ${event}\ndata: ${data}\n\n`);
+  }
+
+  private async write(chunk: string) {
+    if (!this.writer || this.closed) return;
+
+    try {
+      await this.writer.write(this.encoder.encode(chunk));
+    } catch (error) {
+      // A failed write means the client disconnected
+      this.onerror?.(error instanceof Error ? error : new Error(String(error)));
+      await this.close();
+    }
+  }
+}
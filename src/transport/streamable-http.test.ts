@@ -0,0 +1,167 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { CallToolRequestSchema, ErrorCode, ListToolsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+
+import { WorkerStreamableHttpTransport } from "./streamable-http.js";
+
+/**
+ * A Server with two tools: "echo" answers at once (after a progress
+ * notification when asked for one), "hang" only settles when cancelled
+ */
+async function connect() {
+  const server = new Server({ name: "test", version: "1.0.0" }, { capabilities: { tools: {} } });
+  const transport = new WorkerStreamableHttpTransport();
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: [] }));
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    if (request.params.name === "hang") {
+      await new Promise(resolve => extra.signal.addEventListener("abort", resolve));
+      return { content: [] };
+    }
+
+    const progressToken = request.params._meta?.progressToken;
+    if (progressToken !== undefined) {
+      await extra.sendNotification({ method: "notifications/progress", params: { progressToken, progress: 1, total: 2 } });
+    }
+    return { content: [{ type: "text", text: String(request.params.arguments?.text) }] };
+  });
+
+  await server.connect(transport);
+  return { server, transport };
+}
+
+function post(body: unknown, headers: Record<string, string> = {}): Request {
+  return new Request("https://zeo.test/mcp", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "application/json", ...headers },
+    body: typeof body === "string" ? body : JSON.stringify(body)
+  });
+}
+
+const echo = (id: number, text: string) => ({
+  jsonrpc: "2.0",
+  id,
+  method: "tools/call",
+  params: { name: "echo", arguments: { text } }
+});
+
+describe("WorkerStreamableHttpTransport", () => {
+  let server: Server;
+  let transport: WorkerStreamableHttpTransport;
+
+  beforeEach(async () => {
+    ({ server, transport } = await connect());
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it("answers a single request with its response", async () => {
+    const response = await transport.handleRequest(post(echo(1, "hi")));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ jsonrpc: "2.0", id: 1, result: { content: [{ type: "text", text: "hi" }] } });
+  });
+
+  it("answers a batch with an array of responses in input order", async () => {
+    const batch = [
+      echo(2, "second"),
+      { jsonrpc: "2.0", method: "notifications/initialized" },
+      { jsonrpc: "2.0", id: "a", method: "tools/list" },
+      echo(1, "first")
+    ];
+    const response = await transport.handleRequest(post(batch));
+    const body: any = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.map((message: any) => message.id)).toEqual([2, "a", 1]);
+    expect(body[2].result.content[0].text).toBe("first");
+  });
+
+  it("accepts notification-only posts with 202 and no body", async () => {
+    const response = await transport.handleRequest(post({ jsonrpc: "2.0", method: "notifications/initialized" }));
+
+    expect(response.status).toBe(202);
+    expect(await response.text()).toBe("");
+  });
+
+  it("answers invalid messages in a batch with Invalid Request, keeping their id", async () => {
+    const response = await transport.handleRequest(post([{ jsonrpc: "2.0", id: 7 }, echo(8, "ok")]));
+    const body: any = await response.json();
+
+    expect(body[0]).toEqual({ jsonrpc: "2.0", id: 7, error: { code: ErrorCode.InvalidRequest, message: "Invalid Request" } });
+    expect(body[1].id).toBe(8);
+  });
+
+  it("rejects a request reusing the id of one in the same batch", async () => {
+    const response = await transport.handleRequest(post([echo(5, "first"), echo(5, "again")]));
+    const body: any = await response.json();
+
+    expect(body).toHaveLength(2);
+    expect(body[0].result.content[0].text).toBe("first");
+    expect(body[1]).toEqual({ jsonrpc: "2.0", id: 5, error: { code: ErrorCode.InvalidRequest, message: "Invalid Request: duplicate request id" } });
+  });
+
+  it("rejects a request reusing the id of one still in flight in another post", async () => {
+    const hang = { jsonrpc: "2.0", id: 6, method: "tools/call", params: { name: "hang", arguments: {} } };
+    const pending = transport.handleRequest(post(hang));
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    const duplicate = await transport.handleRequest(post(echo(6, "late")));
+    expect(((await duplicate.json()) as any).error.code).toBe(ErrorCode.InvalidRequest);
+
+    // The first post still completes once its request is cancelled
+    await transport.handleRequest(post({ jsonrpc: "2.0", method: "notifications/cancelled", params: { requestId: 6 } }));
+    expect((await pending).status).toBe(202);
+  });
+
+  it("rejects malformed JSON and empty batches", async () => {
+    const parseError = await transport.handleRequest(post("{not json"));
+    expect(parseError.status).toBe(400);
+    expect(((await parseError.json()) as any).error.code).toBe(ErrorCode.ParseError);
+
+    const empty = await transport.handleRequest(post([]));
+    expect(empty.status).toBe(400);
+    expect(((await empty.json()) as any).error.code).toBe(ErrorCode.InvalidRequest);
+  });
+
+  it("completes the post of a request cancelled while in flight, without a response", async () => {
+    const pending = transport.handleRequest(post({ jsonrpc: "2.0", id: 9, method: "tools/call", params: { name: "hang", arguments: {} } }));
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    const cancel = await transport.handleRequest(post({ jsonrpc: "2.0", method: "notifications/cancelled", params: { requestId: 9 } }));
+    expect(cancel.status).toBe(202);
+
+    const response = await pending;
+    expect(response.status).toBe(202);
+  });
+
+  it("streams progress notifications ahead of the response when the client accepts SSE", async () => {
+    const request = { ...echo(3, "streamed"), params: { name: "echo", arguments: { text: "streamed" }, _meta: { progressToken: "p" } } };
+    const response = await transport.handleRequest(post(request, { Accept: "application/json, text/event-stream" }));
+
+    expect(response.headers.get("Content-Type")).toBe("text/event-stream");
+    const events = (await response.text())
+      .split("\n\n")
+      .filter(Boolean)
+      .map(event => JSON.parse(event.substring(event.indexOf("data: ") + 6)));
+
+    expect(events.map(event => event.method || event.id)).toEqual(["notifications/progress", 3]);
+    expect(events[0].params).toEqual({ progressToken: "p", progress: 1, total: 2 });
+    await transport.whenIdle();
+  });
+
+  it("sets the session id header on responses", async () => {
+    transport.sessionId = "s-1";
+    const response = await transport.handleRequest(post(echo(4, "x")));
+
+    expect(response.headers.get("Mcp-Session-Id")).toBe("s-1");
+  });
+
+  it("rejects methods other than POST and OPTIONS", async () => {
+    const response = await transport.handleRequest(new Request("https://zeo.test/mcp", { method: "GET" }));
+
+    expect(response.status).toBe(405);
+    expect(response.headers.get("Allow")).toBe("POST, OPTIONS");
+  });
+});
@@ -0,0 +1,285 @@
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { Transport, TransportSendOptions } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  CancelledNotificationSchema,
+  ErrorCode,
+  JSONRPCMessage,
+  JSONRPCMessageSchema,
+  RequestId,
+  isJSONRPCError,
+  isJSONRPCRequest,
+  isJSONRPCResponse
+} from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * 📡 Streamable HTTP Transport
+ * Cloudflare Workers adapter for the MCP Streamable HTTP transport.
+ * Each POST is dispatched to the connected Server and answered with the JSON-RPC
+ * response, or an array of responses for batches, once every request has settled.
+ * POSTs carrying a progressToken from clients that accept text/event-stream are
+ * answered over an SSE stream instead, so progress notifications arrive first.
+ */
+
+export const CORS_HEADERS: Record<string, string> = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Accept, Authorization, Mcp-Session-Id, Mcp-Protocol-Version",
+  "Access-Control-Expose-Headers": "Mcp-Session-Id, WWW-Authenticate"
+};
+
+/**
+ * JSON-RPC error response whose id could not be determined (parse errors, invalid requests).
+ * The SDK's JSONRPCError type does not allow a null id, so it is modelled separately.
+ */
+export interface JsonRpcErrorResponse {
+  jsonrpc: "2.0";
+  id: RequestId | null;
+  error: {
+    code: number;
+    message: string;
+    data?: unknown;
+  };
+}
+
+export function jsonRpcError(id: RequestId | null, code: number, message: string, data?: unknown): JsonRpcErrorResponse {
+  return {
+    jsonrpc: "2.0",
+    id,
+    error: data === undefined ? { code, message } : { code, message, data }
+  };
+}
+
+export function jsonResponse(body: unknown, status: number = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      "Content-Type": "application/json",
+      ...CORS_HEADERS,
+      ...headers
+    }
+  });
+}
+
+export class WorkerStreamableHttpTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage, extra?: { authInfo?: AuthInfo }) => void;
+  sessionId?: string;
+
+  private pendingResponses = new Map<RequestId, (message: JSONRPCMessage | null) => void>();
+  private relatedStreams = new Map<RequestId, (message: JSONRPCMessage) => Promise<void>>();
+  private openStreams = new Set<Promise<void>>();
+
+  async start(): Promise<void> {
+    // Nothing to set up: messages arrive through handleRequest()
+  }
+
+  async send(message: JSONRPCMessage, options?: TransportSendOptions): Promise<void> {
+    if (isJSONRPCResponse(message) || isJSONRPCError(message)) {
+      const resolve = this.pendingResponses.get(message.id);
+      if (resolve) {
+        this.pendingResponses.delete(message.id);
+        resolve(message);
+      }
+      return;
+    }
+
+    const stream = options?.relatedRequestId !== undefined ? this.relatedStreams.get(options.relatedRequestId) : undefined;
+    if (stream) {
+      await stream(message);
+    }
+    // Otherwise there is no open stream to carry server-initiated messages and they are dropped
+  }
+
+  /**
+   * Resolves once every streamed response has been written; the Server must stay connected until then
+   */
+  async whenIdle(): Promise<void> {
+    await Promise.allSettled([...this.openStreams]);
+  }
+
+  async close(): Promise<void> {
+    for (const [id, resolve] of this.pendingResponses) {
+      resolve(jsonRpcError(id, ErrorCode.ConnectionClosed, "Connection closed") as JSONRPCMessage);
+    }
+    this.pendingResponses.clear();
+    this.onclose?.();
+  }
+
+  async handleRequest(request: Request, authInfo?: AuthInfo): Promise<Response> {
+    try {
+      switch (request.method) {
+        case "OPTIONS":
+          return new Response(null, { status: 204, headers: CORS_HEADERS });
+
+        case "POST":
+          return await this.handlePost(request, authInfo);
+
+        default:
+          return jsonResponse(
+            jsonRpcError(null, -32000, "Method not allowed"),
+            405,
+            { "Allow": "POST, OPTIONS" }
+          );
+      }
+    } catch (error) {
+      this.onerror?.(error instanceof Error ? error : new Error(String(error)));
+      return jsonResponse(
+        jsonRpcError(null, ErrorCode.InternalError, error instanceof Error ? error.message : "Internal error"),
+        500
+      );
+    }
+  }
+
+  private async handlePost(request: Request, authInfo?: AuthInfo): Promise<Response> {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch (error) {
+      return jsonResponse(jsonRpcError(null, ErrorCode.ParseError, "Parse error"), 400);
+    }
+
+    const isBatch = Array.isArray(body);
+    const rawMessages: unknown[] = isBatch ? body as unknown[] : [body];
+
+    if (rawMessages.length === 0) {
+      return jsonResponse(jsonRpcError(null, ErrorCode.InvalidRequest, "Invalid Request: empty batch"), 400);
+    }
+
+    const sessionHeaders: Record<string, string> = this.sessionId ? { "Mcp-Session-Id": this.sessionId } : {};
+
+    if (this.wantsStream(request, rawMessages)) {
+      return this.streamResponses(rawMessages, authInfo, sessionHeaders);
+    }
+
+    const responses = await this.dispatch(rawMessages, authInfo);
+
+    if (responses.length === 0) {
+      return new Response(null, { status: 202, headers: { ...CORS_HEADERS, ...sessionHeaders } });
+    }
+
+    return jsonResponse(isBatch ? responses : responses[0], 200, sessionHeaders);
+  }
+
+  /**
+   * Validates raw JSON-RPC messages, hands them to the Server and resolves with
+   * the responses to every request among them, in input order.
+   * Requests cancelled while in flight get no response. A request reusing the id
+   * of one still in flight, in this batch or another POST, is rejected unanswered
+   * by the Server, since its response could not be told apart.
+   */
+  async dispatch(rawMessages: unknown[], authInfo?: AuthInfo): Promise<Array<JSONRPCMessage | JsonRpcErrorResponse>> {
+    // Register every pending response before dispatching, so fast handlers cannot race us
+    const messages: JSONRPCMessage[] = [];
+    const replies: Array<Promise<JSONRPCMessage | JsonRpcErrorResponse> | null> = rawMessages.map(raw => {
+      const parsed = JSONRPCMessageSchema.safeParse(raw);
+      if (!parsed.success) {
+        return Promise.resolve(jsonRpcError(this.extractId(raw), ErrorCode.InvalidRequest, "Invalid Request"));
+      }
+
+      if (!isJSONRPCRequest(parsed.data)) {
+        messages.push(parsed.data);
+        return null; // Notifications and client responses are not answered
+      }
+
+      const id = parsed.data.id;
+      if (this.pendingResponses.has(id)) {
+        return Promise.resolve(jsonRpcError(id, ErrorCode.InvalidRequest, "Invalid Request: duplicate request id"));
+      }
+
+      messages.push(parsed.data);
+      return new Promise<JSONRPCMessage | null>(resolve => this.pendingResponses.set(id, resolve));
+    });
+
+    for (const message of messages) {
+      this.onmessage?.(message, { authInfo });
+      this.releaseCancelled(message);
+    }
+
+    const responses = await Promise.all(replies.filter(Boolean));
+    return responses.filter((response): response is JSONRPCMessage | JsonRpcErrorResponse => response !== null);
+  }
+
+  /**
+   * The Server never answers a cancelled request, so stop waiting for it and let
+   * the POST that carried it complete
+   */
+  private releaseCancelled(message: JSONRPCMessage) {
+    const cancelled = CancelledNotificationSchema.safeParse(message);
+    if (!cancelled.success) return;
+
+    const resolve = this.pendingResponses.get(cancelled.data.params.requestId);
+    if (resolve) {
+      this.pendingResponses.delete(cancelled.data.params.requestId);
+      resolve(null);
+    }
+  }
+
+  private wantsStream(request: Request, rawMessages: unknown[]): boolean {
+    const accept = request.headers.get("Accept") || "";
+    return accept.includes("text/event-stream") && rawMessages.some(raw =>
+      this.extractId(raw) !== null && hasProgressToken(raw)
+    );
+  }
+
+  /**
+   * Answers over an SSE stream: notifications related to the posted requests are
+   * written as they are sent, then every response, then the stream is closed
+   */
+  private streamResponses(rawMessages: unknown[], authInfo: AuthInfo | undefined, headers: Record<string, string>): Response {
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const writer = writable.getWriter();
+    const encoder = new TextEncoder();
+
+    const write = async (message: JSONRPCMessage | JsonRpcErrorResponse) => {
+      try {
+        await writer.write(encoder.encode(`event: message\ndata: ${JSON.stringify(message)}\n\n`));
+      } catch (error) {
+        // Client disconnected; the requests still run to completion
+      }
+    };
+
+    // A duplicate id is rejected by dispatch(); leave the stream of the request already using it alone
+    const ids = rawMessages
+      .map(raw => this.extractId(raw))
+      .filter((id): id is RequestId => id !== null && !this.relatedStreams.has(id));
+    ids.forEach(id => this.relatedStreams.set(id, write));
+
+    const stream: Promise<void> = this.dispatch(rawMessages, authInfo)
+      .then(async responses => {
+        for (const response of responses) {
+          await write(response);
+        }
+      })
+      .finally(async () => {
+        ids.forEach(id => this.relatedStreams.delete(id));
+        this.openStreams.delete(stream);
+        await writer.close().catch(() => {});
+      });
+    this.openStreams.add(stream);
+
+    return new Response(readable, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        ...CORS_HEADERS,
+        ...headers
+      }
+    });
+  }
+
+  private extractId(raw: unknown): RequestId | null {
+    const id = isRecord(raw) ? raw.id : undefined;
+    return typeof id === "string" || typeof id === "number" ? id : null;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function hasProgressToken(raw: unknown): boolean {
+  const params = isRecord(raw) ? raw.params : undefined;
+  const meta = isRecord(params) ? params._meta : undefined;
+  return isRecord(meta) && meta.progressToken !== undefined;
+}
@@ -1,17 +1,22 @@
-import { Server } from "@modelcontextprotocol/sdk/server/index.js";
-import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { CallToolRequestSchema, ListToolsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
-import { z } from "zod";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
 
-// Import all ZEO tools
-import { GitHubOrchestrator } from "./tools/github-orchestrator.js";
-import { MemoryEngine } from "./tools/memory-engine.js";
-import { WebIntelligence } from "./tools/web-intelligence.js";
-import { UnifiedReasoner } from "./tools/unified-reasoner.js";
-import { IdeationEngine } from "./tools/ideation-engine.js";
-import { ImplementationBridge } from "./tools/implementation-bridge.js";
-import { WorkflowOrchestrator } from "./tools/workflow-orchestrator.js";
-import { CodeArchitect } from "./tools/code-architect.js";
+import { handleAdminRequest } from "./auth/admin.js";
+import { authenticateRequest, withForwardedAuth } from "./auth/authenticate.js";
+import { OAUTH_PATHS, handleOAuthRequest } from "./auth/oauth.js";
+import { NEW_SESSION_HEADER } from "./session/mcp-session.js";
+import { handleArtifactDownload } from "./storage/artifacts.js";
+
+import { CloudflareEnv } from "./server/env.js";
+import { createZeoMCPServer } from "./server/create-server.js";
+import { validateBindings } from "./server/tool-registry.js";
+
+// Transports
+import { CORS_HEADERS, WorkerStreamableHttpTransport, jsonResponse, jsonRpcError } from "./transport/streamable-http.js";
+
+// Durable Objects (exported for the Workers runtime)
+export { McpSessionObject } from "./session/mcp-session.js";
+export { RateLimiterObject } from "./limits/rate-limiter.js";
 
 /**
  * 🌟 ZEO Composable MCP Server
@@ -29,25 +34,6 @@ import { CodeArchitect } from "./tools/code-architect.js";
  * Total: 80+ composable AI tools for comprehensive development workflows
  */
 
-interface CloudflareEnv {
-  // Cloudflare AI
-  AI: any;
-  
-  // Storage
-  ZEO_KV: KVNamespace;
-  ZEO_DB: D1Database;
-  ZEO_BUCKET: R2Bucket;
-  
-  // API Keys
-  GITHUB_TOKEN?: string;
-  OPENAI_API_KEY?: string;
-  ANTHROPIC_API_KEY?: string;
-  
-  // Configuration
-  ZEO_VERSION?: string;
-  ZEO_ENVIRONMENT?: string;
-}
-
 export default {
   async fetch(request: Request, env: CloudflareEnv, ctx: ExecutionContext): Promise<Response> {
     const url = new URL(request.url);
@@ -59,418 +45,171 @@ export default {
           headers: { "Content-Type": "application/json" }
         });
         
-      case "/health":
+      case "/health": {
+        // Tools whose bindings are missing are disabled; report which ones
+        const bindings = validateBindings(env);
         return new Response(JSON.stringify({ 
-          status: "healthy", 
+          status: bindings.status, 
           version: env.ZEO_VERSION || "1.0.0",
+          missing_bindings: bindings.missing_bindings,
+          tools: bindings.tools,
           timestamp: new Date().toISOString()
         }), {
           headers: { "Content-Type": "application/json" }
         });
+      }
         
       case "/sse":
-        return handleSSE(request, env);
-        
+      case "/sse/message":
       case "/mcp":
-        return handleMCP(request, env);
+        return handleProtected(request, env, url);
         
       default:
+        if (OAUTH_PATHS.includes(url.pathname)) {
+          return handleOAuthRequest(request, env, url);
+        }
+        if (url.pathname === "/admin/keys" || url.pathname.startsWith("/admin/keys/")) {
+          return handleAdminRequest(request, env, url);
+        }
+        // Signed URLs carry their own authorization
+        if (url.pathname.startsWith("/artifacts/")) {
+          return handleArtifactDownload(request, env, url);
+        }
         return new Response("Not Found", { status: 404 });
     }
   }
 };
 
-async function handleSSE(request: Request, env: CloudflareEnv): Promise<Response> {
-  const { readable, writable } = new TransformStream();
-  const writer = writable.getWriter();
-  
-  // Create ZEO MCP Server instance
-  const server = createZeoMCPServer(env);
+/**
+ * MCP endpoints require an API key or OAuth access token unless ZEO_AUTH is "disabled"
+ */
+async function handleProtected(request: Request, env: CloudflareEnv, url: URL): Promise<Response> {
+  if (request.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: CORS_HEADERS });
+  }
   
-  // Handle SSE connection
-  handleSSEConnection(server, writer, env);
+  const auth = await authenticateRequest(request, env);
+  if (auth.error) {
+    return auth.error;
+  }
   
-  return new Response(readable, {
-    headers: {
-      "Content-Type": "text/event-stream",
-      "Cache-Control": "no-cache",
-      "Connection": "keep-alive",
-      "Access-Control-Allow-Origin": "*",
-      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-      "Access-Control-Allow-Headers": "Content-Type"
-    }
-  });
+  switch (url.pathname) {
+    case "/sse":
+      return handleSSE(request, env, auth.authInfo);
+      
+    case "/sse/message":
+      return handleSSEMessage(request, env, url, auth.authInfo);
+      
+    default:
+      return routeMCP(request, env, auth.authInfo);
+  }
 }
 
-async function handleMCP(request: Request, env: CloudflareEnv): Promise<Response> {
-  if (request.method === "OPTIONS") {
-    return new Response(null, {
-      headers: {
-        "Access-Control-Allow-Origin": "*",
-        "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-        "Access-Control-Allow-Headers": "Content-Type"
-      }
-    });
+async function handleSSE(request: Request, env: CloudflareEnv, authInfo?: AuthInfo): Promise<Response> {
+  if (request.method !== "GET") {
+    return new Response("Method Not Allowed", { status: 405, headers: { "Allow": "GET, OPTIONS", ...CORS_HEADERS } });
   }
   
-  try {
-    const body: any = await request.json();
-    const server = createZeoMCPServer(env);
-    
-    // Handle MCP requests properly
-    if (body.method === "tools/list") {
-      const tools = await server.request({ method: "tools/list" }, ListToolsRequestSchema);
-      return new Response(JSON.stringify(tools), {
-        headers: {
-          "Content-Type": "application/json",
-          "Access-Control-Allow-Origin": "*"
-        }
-      });
-    }
-    
-    if (body.method === "tools/call") {
-      const result = await server.request(body as any, CallToolRequestSchema);
-      return new Response(JSON.stringify(result), {
-        headers: {
-          "Content-Type": "application/json",
-          "Access-Control-Allow-Origin": "*"
-        }
-      });
-    }
-    
-    return new Response(JSON.stringify({ error: "Method not supported" }), {
-      headers: {
-        "Content-Type": "application/json",
-        "Access-Control-Allow-Origin": "*"
-      },
-      status: 400
-    });
-  } catch (error) {
-    return new Response(JSON.stringify({
-      error: error instanceof Error ? error.message : "Unknown error"
-    }), {
-      status: 500,
-      headers: {
-        "Content-Type": "application/json",
-        "Access-Control-Allow-Origin": "*"
-      }
-    });
+  if (!env.MCP_SESSIONS) {
+    return new Response("SSE transport requires the MCP_SESSIONS Durable Object binding", { status: 503, headers: CORS_HEADERS });
   }
+  
+  // Each SSE stream gets a fresh session pinned to its own Durable Object
+  const sessionId = crypto.randomUUID();
+  return forwardToSession(env, sessionId, request, "/sse", authInfo);
 }
 
-function createZeoMCPServer(env: CloudflareEnv): Server {
-  const server = new Server(
-    {
-      name: "zeo-composable-mcp",
-      version: env.ZEO_VERSION || "1.0.0",
-      description: "Revolutionary MCP Remote Server with 9 AI-powered composable tools"
-    },
-    {
-      capabilities: {
-        tools: {},
-        resources: {},
-        prompts: {}
-      }
-    }
-  );
-
-  // Initialize tool instances
-  const tools = initializeTools(env);
+async function handleSSEMessage(request: Request, env: CloudflareEnv, url: URL, authInfo?: AuthInfo): Promise<Response> {
+  if (request.method !== "POST") {
+    return new Response("Method Not Allowed", { status: 405, headers: { "Allow": "POST, OPTIONS", ...CORS_HEADERS } });
+  }
+  
+  const sessionId = url.searchParams.get("sessionId");
   
-  // Register all tools
-  registerTools(server, tools);
+  if (!sessionId || !env.MCP_SESSIONS) {
+    return new Response(`Unknown SSE session: ${sessionId}`, { status: 404, headers: CORS_HEADERS });
+  }
   
-  return server;
+  return forwardToSession(env, sessionId, request, "/sse/message", authInfo);
 }
 
-function initializeTools(env: CloudflareEnv) {
-  return {
-    githubOrchestrator: new GitHubOrchestrator(env.AI, env.ZEO_KV, env.ZEO_DB),
-    memoryEngine: new MemoryEngine(env.AI, env.ZEO_KV, env.ZEO_DB),
-    webIntelligence: new WebIntelligence(env.AI, env.ZEO_KV, env.ZEO_DB),
-    unifiedReasoner: new UnifiedReasoner(env.AI, env.ZEO_KV, env.ZEO_DB),
-    ideationEngine: new IdeationEngine(env.AI, env.ZEO_KV, env.ZEO_DB),
-    implementationBridge: new ImplementationBridge(env.AI, env.ZEO_KV, env.ZEO_DB),
-    workflowOrchestrator: new WorkflowOrchestrator(env.AI, env.ZEO_KV, env.ZEO_DB),
-    codeArchitect: new CodeArchitect(env.AI, env.ZEO_KV, env.ZEO_DB)
-  };
+async function routeMCP(request: Request, env: CloudflareEnv, authInfo?: AuthInfo): Promise<Response> {
+  const sessionId = request.headers.get("Mcp-Session-Id");
+  
+  if (!env.MCP_SESSIONS) {
+    return handleMCP(request, env, authInfo);
+  }
+  
+  // The session object answers 404 for ids it holds no record for
+  if (sessionId) {
+    return forwardToSession(env, sessionId, request, "/mcp", authInfo);
+  }
+  
+  // A new session starts with initialize, under an id minted here; anything else
+  // without a session id is served statelessly
+  if (request.method === "POST" && await containsInitialize(request)) {
+    return forwardToSession(env, crypto.randomUUID(), request, "/mcp", authInfo, true);
+  }
+  
+  if (request.method === "DELETE") {
+    return jsonResponse(jsonRpcError(null, -32000, "Mcp-Session-Id header is required"), 400);
+  }
+  
+  return handleMCP(request, env, authInfo);
 }
 
-function registerTools(server: Server, tools: any) {
-  // List tools handler
-  server.setRequestHandler(ListToolsRequestSchema, async () => {
-    return {
-      tools: [
-        // GitHub Orchestrator Tools
-        {
-          name: "zeo_github_orchestrator",
-          description: "🔗 GitHub API integration with AI analysis - analyze repos, manage issues, orchestrate PRs with intelligent insights",
-          inputSchema: {
-            type: "object",
-            properties: {
-              action: {
-                type: "string",
-                enum: ["analyze_repo", "list_issues", "create_issue", "analyze_pr", "get_commits", "search_code", "manage_projects"],
-                description: "GitHub action to perform"
-              },
-              owner: { type: "string", description: "Repository owner" },
-              repo: { type: "string", description: "Repository name" },
-              issue_number: { type: "number", description: "Issue number" },
-              pr_number: { type: "number", description: "Pull request number" },
-              query: { type: "string", description: "Search query" },
-              title: { type: "string", description: "Issue/PR title" },
-              body: { type: "string", description: "Issue/PR body" }
-            },
-            required: ["action"]
-          }
-        },
-        
-        // Memory Engine Tools
-        {
-          name: "zeo_memory_engine",
-          description: "💾 Persistent memory with semantic search - store, retrieve, and intelligently search knowledge with AI embeddings",
-          inputSchema: {
-            type: "object",
-            properties: {
-              action: {
-                type: "string",
-                enum: ["store", "retrieve", "search", "delete", "semantic_search", "analyze_memory", "tag_memories"],
-                description: "Memory action to perform"
-              },
-              memory_id: { type: "string", description: "Memory identifier" },
-              content: { type: "string", description: "Content to store" },
-              tags: { type: "array", items: { type: "string" }, description: "Memory tags" },
-              query: { type: "string", description: "Search query" },
-              context: { type: "object", description: "Additional context" }
-            },
-            required: ["action"]
-          }
-        },
-        
-        // Web Intelligence Tools
-        {
-          name: "zeo_web_intelligence",
-          description: "🌐 Smart web scraping with AI processing - fetch, analyze, and extract insights from web content with AI",
-          inputSchema: {
-            type: "object",
-            properties: {
-              action: {
-                type: "string", 
-                enum: ["fetch", "analyze", "extract", "monitor", "search", "scrape_links", "get_metadata"],
-                description: "Web intelligence action"
-              },
-              url: { type: "string", format: "uri", description: "URL to analyze" },
-              analysis_depth: { type: "string", enum: ["basic", "comprehensive"], description: "Analysis depth" },
-              extract_type: { type: "string", enum: ["text", "links", "images", "structured", "code"], description: "Extraction type" },
-              selectors: { type: "array", items: { type: "string" }, description: "CSS selectors" }
-            },
-            required: ["action", "url"]
-          }
-        },
-        
-        // Unified Reasoner Tools
-        {
-          name: "zeo_unified_reasoner",
-          description: "🧠 Advanced AI reasoning with 7 strategies - step-by-step, creative, analytical, lateral, systematic, intuitive, critical thinking",
-          inputSchema: {
-            type: "object",
-            properties: {
-              action: {
-                type: "string",
-                enum: ["reason", "multi_strategy", "compare_strategies", "chain_reasoning", "analyze_problem", "generate_solutions"],
-                description: "Reasoning action"
-              },
-              problem: { type: "string", description: "Problem to solve" },
-              strategy: { 
-                type: "string", 
-                enum: ["step_by_step", "creative", "analytical", "lateral", "systematic", "intuitive", "critical", "auto_select"],
-                description: "Reasoning strategy"
-              },
-              context: { type: "string", description: "Problem context" },
-              constraints: { type: "array", items: { type: "string" }, description: "Constraints" }
-            },
-            required: ["action", "problem"]
-          }
-        },
-        
-        // Ideation Engine Tools
-        {
-          name: "zeo_ideation_engine",
-          description: "💡 Creative ideation with 15+ techniques - brainstorming, SCAMPER, lateral thinking, innovation lab, creative workshops",
-          inputSchema: {
-            type: "object",
-            properties: {
-              action: {
-                type: "string",
-                enum: ["generate_ideas", "brainstorm_session", "creative_workshop", "innovation_lab", "concept_development", "idea_evaluation"],
-                description: "Ideation action"
-              },
-              prompt: { type: "string", description: "Ideation prompt" },
-              techniques: { 
-                type: "array", 
-                items: { 
-                  type: "string",
-                  enum: ["brainstorming", "scamper", "six_thinking_hats", "lateral_thinking", "biomimicry", "design_thinking"]
-                },
-                description: "Creative techniques"
-              },
-              quantity_target: { type: "number", description: "Target number of ideas" },
-              domain: { type: "string", description: "Domain context" }
-            },
-            required: ["action", "prompt"]
-          }
-        },
-        
-        // Implementation Bridge Tools
-        {
-          name: "zeo_implementation_bridge",
-          description: "🌉 Transform concepts to executable code - generate code, design architecture, setup infrastructure, deployment strategies",
-          inputSchema: {
-            type: "object",
-            properties: {
-              action: {
-                type: "string",
-                enum: ["code_generation", "architecture_design", "infrastructure_setup", "deployment_strategy", "testing_framework", "monitoring_setup"],
-                description: "Implementation action"
-              },
-              concept: { type: "string", description: "Concept to implement" },
-              target_platform: { 
-                type: "string", 
-                enum: ["web", "mobile", "desktop", "server", "cloud", "serverless", "blockchain", "ai_ml"],
-                description: "Target platform"
-              },
-              requirements: { type: "array", items: { type: "string" }, description: "Requirements" },
-              technology_stack: { type: "array", items: { type: "string" }, description: "Technology stack" }
-            },
-            required: ["action", "concept"]
-          }
-        },
-        
-        // Workflow Orchestrator Tools
-        {
-          name: "zeo_workflow_orchestrator",
-          description: "🎭 Advanced workflow automation - create workflows, process mining, bottleneck detection, automation opportunities",
-          inputSchema: {
-            type: "object",
-            properties: {
-              action: {
-                type: "string",
-                enum: ["create_workflow", "execute_workflow", "schedule_workflow", "monitor_workflows", "optimize_workflow", "process_mining"],
-                description: "Workflow action"
-              },
-              workflow_definition: {
-                type: "object",
-                properties: {
-                  name: { type: "string" },
-                  steps: { type: "array", items: { type: "object" } }
-                },
-                description: "Workflow definition"
-              },
-              execution_context: { type: "object", description: "Execution context" },
-              scheduling_config: { type: "object", description: "Scheduling configuration" }
-            },
-            required: ["action"]
-          }
-        },
-        
-        // Code Architect Tools
-        {
-          name: "zeo_code_architect",
-          description: "🏗️ Advanced code analysis and architecture - analyze codebase, detect patterns, refactor code, security audit, performance optimization",
-          inputSchema: {
-            type: "object",
-            properties: {
-              action: {
-                type: "string",
-                enum: ["analyze_codebase", "design_architecture", "refactor_code", "optimize_performance", "detect_patterns", "security_audit", "code_review"],
-                description: "Code architect action"
-              },
-              codebase_config: {
-                type: "object",
-                properties: {
-                  source_paths: { type: "array", items: { type: "string" } },
-                  programming_languages: { type: "array", items: { type: "string" } }
-                },
-                description: "Codebase configuration"
-              },
-              analysis_config: { type: "object", description: "Analysis configuration" },
-              refactoring_config: { type: "object", description: "Refactoring configuration" }
-            },
-            required: ["action"]
-          }
-        }
-      ]
-    };
-  });
-
-  // Call tool handler
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    const { name, arguments: args } = request.params;
-
-    try {
-      switch (name) {
-        case "zeo_github_orchestrator":
-          return { content: [{ type: "text", text: JSON.stringify(await tools.githubOrchestrator.execute(args), null, 2) }] };
-        case "zeo_memory_engine":
-          return { content: [{ type: "text", text: JSON.stringify(await tools.memoryEngine.execute(args), null, 2) }] };
-        case "zeo_web_intelligence":
-          return { content: [{ type: "text", text: JSON.stringify(await tools.webIntelligence.execute(args), null, 2) }] };
-        case "zeo_unified_reasoner":
-          return { content: [{ type: "text", text: JSON.stringify(await tools.unifiedReasoner.execute(args), null, 2) }] };
-        case "zeo_ideation_engine":
-          return { content: [{ type: "text", text: JSON.stringify(await tools.ideationEngine.execute(args), null, 2) }] };
-        case "zeo_implementation_bridge":
-          return { content: [{ type: "text", text: JSON.stringify(await tools.implementationBridge.execute(args), null, 2) }] };
-        case "zeo_workflow_orchestrator":
-          return { content: [{ type: "text", text: JSON.stringify(await tools.workflowOrchestrator.execute(args), null, 2) }] };
-        case "zeo_code_architect":
-          return { content: [{ type: "text", text: JSON.stringify(await tools.codeArchitect.execute(args), null, 2) }] };
-        default:
-          throw new Error(`Unknown tool: ${name}`);
-      }
-    } catch (error) {
-      return {
-        content: [{
-          type: "text",
-          text: JSON.stringify({
-            error: error instanceof Error ? error.message : "Unknown error",
-            tool: name,
-            timestamp: new Date().toISOString()
-          }, null, 2)
-        }],
-        isError: true
-      };
-    }
-  });
+async function forwardToSession(
+  env: CloudflareEnv,
+  sessionId: string,
+  request: Request,
+  pathname: string,
+  authInfo?: AuthInfo,
+  newSession = false
+): Promise<Response> {
+  const stub = env.MCP_SESSIONS.get(env.MCP_SESSIONS.idFromName(sessionId));
+  
+  const url = new URL(request.url);
+  url.pathname = pathname;
+  url.searchParams.set("sessionId", sessionId);
+  
+  const headers = withForwardedAuth(new Headers(request.headers), authInfo);
+  headers.set("Mcp-Session-Id", sessionId);
+  headers.delete(NEW_SESSION_HEADER);
+  if (newSession) {
+    headers.set(NEW_SESSION_HEADER, "1");
+  }
+  
+  return stub.fetch(new Request(url.toString(), {
+    method: request.method,
+    headers,
+    body: request.method === "GET" || request.method === "HEAD" ? undefined : await request.text()
+  }));
 }
 
-async function handleSSEConnection(server: Server, writer: WritableStreamDefaultWriter, env: CloudflareEnv) {
+async function containsInitialize(request: Request): Promise<boolean> {
   try {
-    // Send initial connection event
-    await writer.write(new TextEncoder().encode(`data: ${JSON.stringify({
-      type: "connection",
-      message: "ZEO Composable MCP Server connected",
-      version: env.ZEO_VERSION || "1.0.0",
-      tools: 8,
-      timestamp: new Date().toISOString()
-    })}\n\n`));
-    
-    // Keep connection alive with periodic heartbeat
-    const heartbeatInterval = setInterval(async () => {
-      try {
-        await writer.write(new TextEncoder().encode(`data: ${JSON.stringify({
-          type: "heartbeat",
-          timestamp: new Date().toISOString()
-        })}\n\n`));
-      } catch (error) {
-        clearInterval(heartbeatInterval);
-      }
-    }, 30000); // 30 seconds
-
-    // Handle incoming messages (placeholder for future bidirectional communication)
-    
+    const body = await request.clone().json();
+    const messages: unknown[] = Array.isArray(body) ? body : [body];
+    return messages.some(isInitializeRequest);
   } catch (error) {
-    console.error("SSE connection error:", error);
+    return false;
+  }
+}
+
+/**
+ * Stateless fallback: a fresh Server per request, no session pinning
+ */
+async function handleMCP(request: Request, env: CloudflareEnv, authInfo?: AuthInfo): Promise<Response> {
+  const server = createZeoMCPServer(env);
+  const transport = new WorkerStreamableHttpTransport();
+  
+  await server.connect(transport);
+  
+  try {
+    return await transport.handleRequest(request, authInfo);
+  } finally {
+    // Streamed responses are still being written when handleRequest returns
+    transport.whenIdle().then(() => server.close());
   }
 }
 
@@ -497,7 +236,10 @@ function getServerInfo(): string {
     endpoints: {
       health: "/health",
       sse: "/sse",
-      mcp: "/mcp"
+      sse_message: "/sse/message",
+      mcp: "/mcp",
+      admin_keys: "/admin/keys",
+      oauth_metadata: "/.well-known/oauth-authorization-server"
     },
     capabilities: [
       "Real-time AI reasoning",